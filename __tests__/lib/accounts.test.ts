@@ -0,0 +1,131 @@
+import {
+  accountOptions,
+  accountStorage,
+  clearedTotal,
+  createAccount,
+  mergeAccounts,
+  setCleared,
+  statementLines,
+  updateAccount,
+} from '@/lib/accounts';
+import { createConversion } from '@/lib/exchangeRates';
+import { Expense } from '@/types/expense';
+
+const conversion = createConversion(
+  { base: 'GBP', rates: [{ currency: 'EUR', rate: 1.25, date: '2025-01-01' }] },
+  'GBP'
+);
+
+const makeExpense = (
+  id: string,
+  date: string,
+  minor: number,
+  accountId?: string,
+  currency = 'GBP'
+): Expense => ({
+  id,
+  date,
+  amount: { minor, currency },
+  categoryId: 'food',
+  description: `Expense ${id}`,
+  ...(accountId ? { accountId } : {}),
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+describe('Accounts', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('createAccount and updateAccount', () => {
+    it('should trim names and archive accounts without removing them', () => {
+      const card = createAccount({ name: ' Visa ', type: 'card' });
+      const archived = updateAccount([card], card.id, { archived: true });
+
+      expect(card).toMatchObject({ name: 'Visa', type: 'card', archived: false });
+      expect(archived[0]).toMatchObject({ id: card.id, archived: true });
+    });
+  });
+
+  describe('accountOptions', () => {
+    it('should leave out archived accounts unless one is already chosen', () => {
+      const cash = createAccount({ name: 'Wallet', type: 'cash' });
+      const old = { ...createAccount({ name: 'Old card', type: 'card' }), archived: true };
+
+      expect(accountOptions([cash, old])).toEqual([{ value: cash.id, label: '💵 Wallet' }]);
+      expect(accountOptions([cash, old], old.id).map(option => option.value)).toEqual([
+        cash.id,
+        old.id,
+      ]);
+    });
+  });
+
+  describe('reconciliation', () => {
+    const expenses = [
+      makeExpense('1', '2025-01-31', 1000, 'visa'),
+      makeExpense('2', '2025-01-05', 2500, 'visa', 'EUR'),
+      makeExpense('3', '2025-01-10', 700, 'cash'),
+      makeExpense('4', '2025-02-01', 900, 'visa'),
+      makeExpense('5', '2025-01-12', 300, 'visa', 'JPY'),
+    ];
+    const period = { startDate: '2025-01-01', endDate: '2025-01-31' };
+
+    it('should list the account expenses in the period, oldest first, in base currency', () => {
+      const lines = statementLines(expenses, 'visa', period, conversion);
+
+      expect(lines.map(line => [line.expense.id, line.amount])).toEqual([
+        ['2', 2000],
+        ['5', null],
+        ['1', 1000],
+      ]);
+    });
+
+    it('should total only the ticked lines', () => {
+      const lines = statementLines(expenses, 'visa', period, conversion);
+
+      expect(clearedTotal(lines, new Set(['1', '2']))).toBe(3000);
+      expect(clearedTotal(lines, new Set())).toBe(0);
+    });
+
+    it('should count refunds against the statement total', () => {
+      const refund = { ...makeExpense('6', '2025-01-20', 400, 'visa'), type: 'refund' as const };
+      const lines = statementLines([...expenses, refund], 'visa', period, conversion);
+
+      expect(lines.find(line => line.expense.id === '6')?.amount).toBe(-400);
+      expect(clearedTotal(lines, new Set(['1', '6']))).toBe(600);
+    });
+
+    it('should return only the expenses whose cleared state changes', () => {
+      const visa = [{ ...expenses[0], cleared: true }, expenses[1], expenses[3]];
+      const changed = setCleared(visa, new Set(['2', '4']));
+
+      expect(changed.map(expense => [expense.id, expense.cleared])).toEqual([
+        ['1', false],
+        ['2', true],
+        ['4', true],
+      ]);
+      expect(setCleared(visa, new Set(['1']))).toEqual([]);
+    });
+  });
+
+  describe('mergeAccounts', () => {
+    it('should keep the newer copy of each account', () => {
+      const card = createAccount({ name: 'Visa', type: 'card' });
+      const renamed = { ...card, name: 'Visa Gold', updatedAt: '2999-01-01T00:00:00.000Z' };
+      const cash = createAccount({ name: 'Wallet', type: 'cash' });
+
+      expect(mergeAccounts([card], [renamed, cash])).toEqual([renamed, cash]);
+      expect(mergeAccounts([renamed], [card])).toEqual([renamed]);
+    });
+  });
+
+  describe('accountStorage', () => {
+    it('should round-trip accounts', () => {
+      const card = createAccount({ name: 'Visa', type: 'card' });
+      accountStorage.saveAccounts([card]);
+
+      expect(accountStorage.getAccounts()).toEqual([card]);
+    });
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  attachmentStorage,
+  blobToBytes,
+  blobToDataUrl,
+  createAttachment,
+  dataUrlToBlob,
+  isAcceptedAttachmentType,
+  referencedAttachmentIds,
+} from '@/lib/attachments';
+import { Attachment, Expense } from '@/types/expense';
+
+const makeAttachment = (id: string): Attachment => ({
+  id,
+  name: `${id}.jpg`,
+  type: 'image/jpeg',
+  size: 100,
+  addedAt: '2025-01-15T10:00:00.000Z',
+});
+
+const makeExpense = (id: string, attachmentIds: string[] = []): Expense => ({
+  id,
+  date: '2025-01-15',
+  amount: { minor: 5000, currency: 'GBP' },
+  categoryId: 'food',
+  description: `Expense ${id}`,
+  ...(attachmentIds.length > 0 ? { attachments: attachmentIds.map(makeAttachment) } : {}),
+  createdAt: '2025-01-15T10:00:00.000Z',
+  updatedAt: '2025-01-15T10:00:00.000Z',
+});
+
+describe('Attachments', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('isAcceptedAttachmentType', () => {
+    it('should accept images and PDFs only', () => {
+      expect(isAcceptedAttachmentType('image/png')).toBe(true);
+      expect(isAcceptedAttachmentType('application/pdf')).toBe(true);
+      expect(isAcceptedAttachmentType('text/plain')).toBe(false);
+    });
+  });
+
+  describe('createAttachment', () => {
+    it('should describe the file and pair it with the same id', () => {
+      const file = new File(['%PDF'], 'Invoice.pdf', { type: 'application/pdf' });
+
+      const { attachment, file: stored } = createAttachment(file);
+
+      expect(attachment).toMatchObject({ name: 'Invoice.pdf', type: 'application/pdf', size: 4 });
+      expect(stored).toEqual({ id: attachment.id, blob: file });
+    });
+
+    it('should name pasted images that have no file name', () => {
+      const file = new File(['png'], '', { type: 'image/png' });
+      expect(createAttachment(file).attachment.name).toBe('receipt.png');
+    });
+  });
+
+  describe('data URLs', () => {
+    it('should round-trip the bytes and type of a blob', async () => {
+      const blob = new Blob([new Uint8Array([0, 255, 128])], { type: 'image/jpeg' });
+
+      const restored = dataUrlToBlob(await blobToDataUrl(blob));
+
+      expect(restored?.type).toBe('image/jpeg');
+      expect(Array.from(await blobToBytes(restored as Blob))).toEqual([0, 255, 128]);
+    });
+
+    it('should reject text that is not a data URL', () => {
+      expect(dataUrlToBlob('https://example.com/receipt.png')).toBeNull();
+    });
+  });
+
+  describe('attachmentStorage', () => {
+    it('should store, list and delete files', async () => {
+      await attachmentStorage.putAttachments([
+        { id: 'a', blob: new Blob(['one'], { type: 'image/png' }) },
+        { id: 'b', blob: new Blob(['two'], { type: 'image/png' }) },
+      ]);
+      attachmentStorage.deleteAttachments(['a']);
+
+      expect(attachmentStorage.getAttachmentIds()).toEqual(['b']);
+      expect(attachmentStorage.getAttachment('a')).toBeNull();
+      expect(attachmentStorage.getAttachment('b')?.type).toBe('image/png');
+    });
+  });
+
+  describe('referencedAttachmentIds', () => {
+    it('should collect ids from every record, skipping empty snapshots', () => {
+      const ids = referencedAttachmentIds([
+        makeExpense('1', ['a', 'b']),
+        makeExpense('2'),
+        null,
+        makeExpense('3', ['c']),
+      ]);
+
+      expect(Array.from(ids)).toEqual(['a', 'b', 'c']);
+    });
+  });
+});
@@ -0,0 +1,348 @@
+import {
+  BackupFile,
+  createBackup,
+  parseBackup,
+  previewRestore,
+  restoreBackup,
+} from '@/lib/backup';
+import { createLocalStorageRepository } from '@/lib/repository';
+import { defaultSettings, settingsStorage } from '@/lib/settings';
+import { createTranslator } from '@/lib/i18n';
+import { categoryStorage, createCategory } from '@/lib/categories';
+import { storageUtils } from '@/lib/storage';
+import { rateStorage } from '@/lib/exchangeRates';
+import { budgetStorage, createBudget } from '@/lib/budgets';
+import { createRecurringRule, recurringStorage } from '@/lib/recurring';
+import { blobToDataUrl } from '@/lib/attachments';
+import { createGroup, createSettlement, groupStorage } from '@/lib/groups';
+import { accountStorage, createAccount } from '@/lib/accounts';
+import { Expense } from '@/types/expense';
+
+const makeExpense = (id: string, updatedAt = '2025-01-15T10:00:00.000Z'): Expense => ({
+  id,
+  date: '2025-01-15',
+  amount: { minor: 5000, currency: 'GBP' },
+  categoryId: 'food',
+  description: `Expense ${id}`,
+  createdAt: '2025-01-15T10:00:00.000Z',
+  updatedAt,
+});
+
+const makeBackup = (expenses: Expense[]): BackupFile => ({
+  format: 'expense-tracker-backup',
+  backupVersion: 1,
+  schemaVersion: 1,
+  createdAt: '2025-02-01T00:00:00.000Z',
+  data: {
+    expenses,
+    trash: [],
+    categories: [],
+    settings: { trashRetentionDays: 7, baseCurrency: 'GBP', locale: 'en-GB', language: 'en' },
+    quarantine: [],
+    dismissedDuplicates: ['1|3'],
+    exchangeRates: { base: 'GBP', rates: [{ currency: 'EUR', rate: 1.2, date: '2025-01-01' }] },
+    budgets: null,
+    recurringRules: null,
+    attachments: null,
+    groups: null,
+    settlements: null,
+    accounts: null,
+  },
+});
+
+describe('Backup & Restore', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('createBackup', () => {
+    it('should include expenses, trash and settings with their ids and timestamps', async () => {
+      const repository = createLocalStorageRepository();
+      await repository.putMany([makeExpense('1'), makeExpense('2')]);
+      await repository.delete('2');
+
+      const backup = await createBackup(repository);
+
+      expect(backup.format).toBe('expense-tracker-backup');
+      expect(backup.data.expenses).toEqual([makeExpense('1')]);
+      expect(backup.data.trash[0].id).toBe('2');
+      expect(backup.data.settings).toEqual(settingsStorage.getSettings());
+    });
+
+    it('should round-trip through parseBackup', async () => {
+      const repository = createLocalStorageRepository();
+      await repository.putMany([makeExpense('1')]);
+
+      const backup = await createBackup(repository);
+      const parsed = parseBackup(JSON.stringify(backup));
+
+      expect(parsed.errors).toEqual([]);
+      expect(parsed.backup?.data.expenses).toEqual(backup.data.expenses);
+    });
+
+    it('should carry the receipt files of stored expenses through a restore', async () => {
+      const repository = createLocalStorageRepository();
+      const receipt = {
+        id: 'receipt-1',
+        name: 'till.png',
+        type: 'image/png',
+        size: 3,
+        addedAt: '2025-01-15T10:00:00.000Z',
+      };
+      await repository.putMany([{ ...makeExpense('1'), attachments: [receipt] }]);
+      await repository.putAttachments([
+        { id: 'receipt-1', blob: new Blob(['png'], { type: 'image/png' }) },
+        { id: 'orphan', blob: new Blob(['old'], { type: 'image/png' }) },
+      ]);
+
+      const backup = await createBackup(repository);
+      expect(Object.keys(backup.data.attachments ?? {})).toEqual(['receipt-1']);
+
+      localStorage.clear();
+      const parsed = parseBackup(JSON.stringify(backup)).backup as BackupFile;
+      await restoreBackup(repository, parsed, 'replace');
+
+      const restored = await repository.getAttachment('receipt-1');
+      expect(restored && (await blobToDataUrl(restored))).toBe(
+        backup.data.attachments?.['receipt-1']
+      );
+    });
+  });
+
+  describe('parseBackup', () => {
+    it('should reject files that are not backups', () => {
+      expect(parseBackup('not json').errors).toEqual(['File is not valid JSON']);
+      expect(parseBackup('[]').errors).toEqual(['File is not an Expense Tracker backup']);
+    });
+
+    it('should report errors in the given language', () => {
+      expect(parseBackup('not json', createTranslator('de')).errors).toEqual([
+        'Die Datei ist kein gültiges JSON',
+      ]);
+    });
+
+    it('should reject backups from a newer schema', () => {
+      const backup = { ...makeBackup([]), schemaVersion: 999 };
+      expect(parseBackup(JSON.stringify(backup)).backup).toBeNull();
+    });
+
+    it('should skip invalid records and report them', () => {
+      const backup = makeBackup([makeExpense('1')]);
+      const raw = { ...backup, data: { ...backup.data, expenses: [makeExpense('1'), { id: 'bad' }] } };
+
+      const parsed = parseBackup(JSON.stringify(raw));
+
+      expect(parsed.backup?.data.expenses).toHaveLength(1);
+      expect(parsed.skippedRecords).toBe(1);
+      expect(parsed.errors).toEqual(['1 invalid record will be skipped']);
+    });
+
+    it('should keep valid recurring rules and treat older backups as having none', () => {
+      const rule = createRecurringRule({
+        amount: { minor: 95000, currency: 'GBP' },
+        categoryId: 'bills',
+        description: 'Rent',
+        startDate: '2025-01-01',
+        frequency: 'monthly',
+        dayOfMonth: 1,
+      });
+      const backup = makeBackup([]);
+      const raw = { ...backup, data: { ...backup.data, recurringRules: [rule, { id: 'bad' }] } };
+      const olderData: Partial<BackupFile['data']> = { ...backup.data };
+      delete olderData.recurringRules;
+
+      expect(parseBackup(JSON.stringify(raw)).backup?.data.recurringRules).toEqual([rule]);
+      expect(
+        parseBackup(JSON.stringify({ ...backup, data: olderData })).backup?.data.recurringRules
+      ).toBeNull();
+    });
+
+    it('should fall back to the default for each invalid setting', () => {
+      const backup = makeBackup([]);
+      const settings = {
+        trashRetentionDays: -5,
+        baseCurrency: 'pounds',
+        locale: 'xx',
+        language: 'fr',
+      };
+      const invalid = { ...backup, data: { ...backup.data, settings } };
+      const partial = { ...backup, data: { ...backup.data, settings: { baseCurrency: 'EUR' } } };
+
+      expect(parseBackup(JSON.stringify(invalid)).backup?.data.settings).toEqual(defaultSettings);
+      expect(parseBackup(JSON.stringify(partial)).backup?.data.settings).toEqual({
+        ...defaultSettings,
+        baseCurrency: 'EUR',
+      });
+    });
+  });
+
+  describe('previewRestore', () => {
+    const current = [makeExpense('1'), makeExpense('2'), makeExpense('3')];
+    const backup = makeBackup([
+      makeExpense('1'),
+      makeExpense('2', '2025-03-01T00:00:00.000Z'),
+      makeExpense('4'),
+    ]);
+
+    it('should count merge changes by id, keeping the newer copy', () => {
+      expect(previewRestore(current, backup, 'merge')).toEqual({
+        added: 1,
+        updated: 1,
+        unchanged: 1,
+        removed: 0,
+        trash: 0,
+      });
+    });
+
+    it('should report expenses missing from the backup as removed in replace mode', () => {
+      expect(previewRestore(current, backup, 'replace').removed).toBe(1);
+    });
+  });
+
+  describe('restoreBackup', () => {
+    it('should move missing expenses to the trash and adopt settings when replacing', async () => {
+      const repository = createLocalStorageRepository();
+      await repository.putMany([makeExpense('1'), makeExpense('2')]);
+
+      await restoreBackup(repository, makeBackup([makeExpense('1'), makeExpense('3')]), 'replace');
+
+      expect((await repository.getAll()).map(exp => exp.id).sort()).toEqual(['1', '3']);
+      expect((await repository.getTrash()).map(exp => exp.id)).toEqual(['2']);
+      expect(settingsStorage.getSettings().trashRetentionDays).toBe(7);
+    });
+
+    it('should keep local expenses and settings when merging', async () => {
+      const repository = createLocalStorageRepository();
+      await repository.putMany([makeExpense('1')]);
+
+      await restoreBackup(repository, makeBackup([makeExpense('2')]), 'merge');
+
+      expect(await repository.getAll()).toHaveLength(2);
+      expect(settingsStorage.getSettings().trashRetentionDays).toBe(30);
+    });
+
+    it('should add backed-up categories when merging and keep local ones', async () => {
+      const repository = createLocalStorageRepository();
+      const local = categoryStorage.getCategories();
+      const pets = createCategory({ name: 'Pets', color: 'teal', icon: '🐶' });
+
+      const backup = makeBackup([]);
+      backup.data.categories = [pets];
+
+      await restoreBackup(repository, backup, 'merge');
+
+      expect(categoryStorage.getCategories()).toEqual([...local, pets]);
+    });
+
+    it('should combine dismissed duplicates when merging', async () => {
+      const repository = createLocalStorageRepository();
+      storageUtils.dismissDuplicates(['1|2']);
+
+      await restoreBackup(repository, makeBackup([]), 'merge');
+
+      expect(storageUtils.getDismissedDuplicates()).toEqual(['1|2', '1|3']);
+    });
+
+    it('should add missing exchange rates when merging and keep local ones', async () => {
+      const repository = createLocalStorageRepository();
+      const usd = { currency: 'USD', rate: 1.3, date: '2025-01-01' };
+      const localEur = { currency: 'EUR', rate: 1.15, date: '2025-01-01' };
+      rateStorage.saveRateTable({ base: 'GBP', rates: [localEur, usd] });
+
+      await restoreBackup(repository, makeBackup([]), 'merge');
+
+      expect(rateStorage.getRateTable().rates).toEqual([localEur, usd]);
+    });
+
+    it('should keep one budget per category when merging, preferring the newer copy', async () => {
+      const repository = createLocalStorageRepository();
+      const local = createBudget({
+        categoryId: 'food',
+        amount: { minor: 20000, currency: 'GBP' },
+        rollover: false,
+      });
+      const overall = createBudget({ amount: { minor: 150000, currency: 'GBP' }, rollover: true });
+      budgetStorage.saveBudgets([local]);
+
+      const incoming = {
+        ...local,
+        id: 'other-device',
+        amount: { minor: 25000, currency: 'GBP' },
+        updatedAt: '2999-01-01T00:00:00.000Z',
+      };
+      const backup = makeBackup([]);
+      await restoreBackup(
+        repository,
+        { ...backup, data: { ...backup.data, budgets: [incoming, overall] } },
+        'merge'
+      );
+
+      expect(budgetStorage.getBudgets()).toEqual([incoming, overall]);
+    });
+
+    it('should replace recurring rules in replace mode', async () => {
+      const repository = createLocalStorageRepository();
+      const makeRule = (description: string) =>
+        createRecurringRule({
+          amount: { minor: 1099, currency: 'GBP' },
+          categoryId: 'entertainment',
+          description,
+          startDate: '2025-01-05',
+          frequency: 'monthly',
+        });
+      recurringStorage.saveRules([makeRule('Local')]);
+
+      const incoming = makeRule('From backup');
+      const backup = makeBackup([]);
+      await restoreBackup(
+        repository,
+        { ...backup, data: { ...backup.data, recurringRules: [incoming] } },
+        'replace'
+      );
+
+      expect(recurringStorage.getRules()).toEqual([incoming]);
+    });
+
+    it('should merge groups and settle-up payments by id', async () => {
+      const repository = createLocalStorageRepository();
+      const local = createGroup('Local trip', ['Ana', 'Ben']);
+      groupStorage.saveGroups([local]);
+
+      const incoming = createGroup('Team trip', ['Cy', 'Dee']);
+      const [cy, dee] = incoming.members;
+      const payment = createSettlement({
+        groupId: incoming.id,
+        fromMemberId: cy.id,
+        toMemberId: dee.id,
+        amount: { minor: 1500, currency: 'GBP' },
+        date: '2025-01-20',
+      });
+      const backup = makeBackup([]);
+      await restoreBackup(
+        repository,
+        { ...backup, data: { ...backup.data, groups: [incoming], settlements: [payment] } },
+        'merge'
+      );
+
+      expect(groupStorage.getGroups()).toEqual([local, incoming]);
+      expect(groupStorage.getSettlements()).toEqual([payment]);
+    });
+
+    it('should replace accounts in replace mode and keep valid ones only', async () => {
+      const repository = createLocalStorageRepository();
+      accountStorage.saveAccounts([createAccount({ name: 'Local card', type: 'card' })]);
+
+      const incoming = createAccount({ name: 'Wallet', type: 'cash' });
+      const backup = makeBackup([]);
+      const parsed = parseBackup(
+        JSON.stringify({
+          ...backup,
+          data: { ...backup.data, accounts: [incoming, { id: 'bad', type: 'crypto' }] },
+        })
+      ).backup as BackupFile;
+      await restoreBackup(repository, parsed, 'replace');
+
+      expect(accountStorage.getAccounts()).toEqual([incoming]);
+    });
+  });
+});
@@ -0,0 +1,293 @@
+import {
+  budgetStorage,
+  calculateBudgetProgress,
+  createBudget,
+  findBudgetAlerts,
+  removeBudget,
+  setBudget,
+} from '@/lib/budgets';
+import { createConversion } from '@/lib/exchangeRates';
+import { Budget, Category, Expense } from '@/types/expense';
+
+const makeCategory = (id: string, parentId?: string): Category => ({
+  id,
+  name: id,
+  color: 'gray',
+  icon: '🏷️',
+  ...(parentId ? { parentId } : {}),
+  archived: false,
+  createdAt: '',
+  updatedAt: '',
+});
+
+const categories = [makeCategory('food'), makeCategory('groceries', 'food'), makeCategory('bills')];
+
+const conversion = createConversion(
+  { base: 'GBP', rates: [{ currency: 'EUR', rate: 1.25, date: '2025-01-01' }] },
+  'GBP'
+);
+
+const makeExpense = (
+  id: string,
+  date: string,
+  minor: number,
+  categoryId = 'food',
+  currency = 'GBP'
+): Expense => ({
+  id,
+  date,
+  amount: { minor, currency },
+  categoryId,
+  description: `Expense ${id}`,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+const makeBudget = (overrides: Partial<Budget> = {}): Budget => ({
+  ...createBudget(
+    { categoryId: 'food', amount: { minor: 10000, currency: 'GBP' }, rollover: false },
+    '2025-01'
+  ),
+  ...overrides,
+});
+
+describe('Budgets', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('setBudget', () => {
+    it('should keep one budget per category, replacing its amount', () => {
+      const first = setBudget([], {
+        categoryId: 'food',
+        amount: { minor: 10000, currency: 'GBP' },
+        rollover: false,
+      });
+      const second = setBudget(first, {
+        categoryId: 'food',
+        amount: { minor: 15000, currency: 'GBP' },
+        rollover: true,
+      });
+
+      expect(second).toHaveLength(1);
+      expect(second[0]).toMatchObject({
+        id: first[0].id,
+        startMonth: first[0].startMonth,
+        amount: { minor: 15000, currency: 'GBP' },
+        rollover: true,
+      });
+    });
+
+    it('should treat the overall budget as its own entry', () => {
+      const food = setBudget([], {
+        categoryId: 'food',
+        amount: { minor: 100, currency: 'GBP' },
+        rollover: false,
+      });
+      const budgets = setBudget(food, { amount: { minor: 500, currency: 'GBP' }, rollover: false });
+
+      expect(budgets).toHaveLength(2);
+      expect(budgets[1].categoryId).toBeUndefined();
+      expect(removeBudget(budgets, budgets[1].id)).toEqual([budgets[0]]);
+    });
+  });
+
+  describe('calculateBudgetProgress', () => {
+    it("should count the month's spending in the category and its subcategories", () => {
+      const expenses = [
+        makeExpense('1', '2025-03-02', 3000),
+        makeExpense('2', '2025-03-10', 2500, 'groceries'),
+        makeExpense('3', '2025-03-11', 9999, 'bills'),
+        makeExpense('4', '2025-02-28', 4000),
+      ];
+
+      const [progress] = calculateBudgetProgress(
+        [makeBudget()],
+        expenses,
+        categories,
+        conversion,
+        '2025-03'
+      );
+
+      expect(progress).toMatchObject({ limit: 10000, carried: 0, spent: 5500, remaining: 4500 });
+    });
+
+    it('should count every category towards the overall budget, converting currencies', () => {
+      const expenses = [
+        makeExpense('1', '2025-03-02', 3000),
+        makeExpense('2', '2025-03-10', 2500, 'bills', 'EUR'),
+      ];
+
+      const [progress] = calculateBudgetProgress(
+        [makeBudget({ categoryId: undefined })],
+        expenses,
+        categories,
+        conversion,
+        '2025-03'
+      );
+
+      expect(progress.spent).toBe(5000);
+    });
+
+    it('should take refunds off spending and leave income out', () => {
+      const expenses = [
+        makeExpense('1', '2025-03-02', 6000),
+        { ...makeExpense('2', '2025-03-09', 1500), type: 'refund' as const },
+        { ...makeExpense('3', '2025-03-31', 250000), type: 'income' as const },
+      ];
+
+      const [progress] = calculateBudgetProgress(
+        [makeBudget({ categoryId: undefined })],
+        expenses,
+        categories,
+        conversion,
+        '2025-03'
+      );
+
+      expect(progress.spent).toBe(4500);
+    });
+
+    it('should count linked refunds against the budget of the expense they refund', () => {
+      const expenses = [
+        makeExpense('1', '2025-03-02', 6000),
+        {
+          ...makeExpense('2', '2025-03-09', 1500, 'bills'),
+          type: 'refund' as const,
+          refundOf: '1',
+        },
+      ];
+
+      const [progress] = calculateBudgetProgress(
+        [makeBudget({ categoryId: 'food' })],
+        expenses,
+        categories,
+        conversion,
+        '2025-03'
+      );
+
+      expect(progress.spent).toBe(4500);
+    });
+
+    it('should roll unspent amounts forward without carrying overspending', () => {
+      const expenses = [
+        makeExpense('1', '2025-01-15', 6000), // 4000 unspent
+        makeExpense('2', '2025-02-15', 20000), // over budget, nothing carried
+        makeExpense('3', '2025-03-15', 7500), // 2500 unspent
+      ];
+      const budget = makeBudget({ rollover: true });
+
+      const progress = (month: string) =>
+        calculateBudgetProgress([budget], expenses, categories, conversion, month)[0];
+
+      expect(progress('2025-02')).toMatchObject({ carried: 4000, limit: 14000 });
+      expect(progress('2025-03')).toMatchObject({ carried: 0, limit: 10000 });
+      expect(progress('2025-04')).toMatchObject({ carried: 2500, limit: 12500, spent: 0 });
+    });
+
+    it('should ignore earlier months when rollover is off', () => {
+      const [progress] = calculateBudgetProgress(
+        [makeBudget()],
+        [makeExpense('1', '2025-01-15', 1000)],
+        categories,
+        conversion,
+        '2025-02'
+      );
+
+      expect(progress).toMatchObject({ carried: 0, limit: 10000 });
+    });
+
+    it('should leave out budgets that start after the month', () => {
+      const budget = makeBudget({ startMonth: '2025-06' });
+      expect(calculateBudgetProgress([budget], [], categories, conversion, '2025-05')).toEqual([]);
+    });
+  });
+
+  describe('findBudgetAlerts', () => {
+    const existing = [makeExpense('1', '2025-03-02', 7000)];
+
+    it('should warn once an expense reaches 80% of a budget', () => {
+      const alerts = findBudgetAlerts([makeBudget()], existing, categories, conversion, {
+        date: '2025-03-20',
+        amount: { minor: 1000, currency: 'GBP' },
+        categoryId: 'groceries',
+      });
+
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0]).toMatchObject({ threshold: 0.8, spentAfter: 8000 });
+    });
+
+    it('should report going over budget', () => {
+      const alerts = findBudgetAlerts([makeBudget()], existing, categories, conversion, {
+        date: '2025-03-20',
+        amount: { minor: 3500, currency: 'GBP' },
+        categoryId: 'food',
+      });
+
+      expect(alerts[0]).toMatchObject({ threshold: 1, spentAfter: 10500 });
+    });
+
+    it('should only count the items of an itemised expense that fall under the budget', () => {
+      const alerts = findBudgetAlerts([makeBudget()], existing, categories, conversion, {
+        date: '2025-03-20',
+        amount: { minor: 6000, currency: 'GBP' },
+        categoryId: 'bills',
+        lineItems: [
+          { id: 'a', description: 'Lunch', amount: 1500, categoryId: 'groceries' },
+          { id: 'b', description: 'Phone', amount: 4500, categoryId: 'bills' },
+        ],
+      });
+
+      expect(alerts[0]).toMatchObject({ threshold: 0.8, spentAfter: 8500 });
+    });
+
+    it('should stay quiet below the threshold or for unrelated categories', () => {
+      const check = (categoryId: string, minor: number) =>
+        findBudgetAlerts([makeBudget()], existing, categories, conversion, {
+          date: '2025-03-20',
+          amount: { minor, currency: 'GBP' },
+          categoryId,
+        });
+
+      expect(check('food', 500)).toEqual([]);
+      expect(check('bills', 50000)).toEqual([]);
+    });
+
+    it('should only warn on the save that crosses a threshold', () => {
+      const check = (spent: number, minor: number) =>
+        findBudgetAlerts(
+          [makeBudget()],
+          [makeExpense('1', '2025-03-02', spent)],
+          categories,
+          conversion,
+          { date: '2025-03-20', amount: { minor, currency: 'GBP' }, categoryId: 'food' }
+        ).map(alert => alert.threshold);
+
+      expect(check(8500, 500)).toEqual([]);
+      expect(check(8500, 2000)).toEqual([1]);
+      expect(check(11000, 500)).toEqual([]);
+    });
+
+    it('should not warn about refunds', () => {
+      const alerts = findBudgetAlerts([makeBudget()], existing, categories, conversion, {
+        type: 'refund',
+        date: '2025-03-20',
+        amount: { minor: 3500, currency: 'GBP' },
+        categoryId: 'food',
+      });
+
+      expect(alerts).toEqual([]);
+    });
+  });
+
+  describe('budgetStorage', () => {
+    it('should save and load budgets', () => {
+      const budgets = [makeBudget()];
+      budgetStorage.saveBudgets(budgets);
+      expect(budgetStorage.getBudgets()).toEqual(budgets);
+    });
+
+    it('should start with no budgets', () => {
+      expect(budgetStorage.getBudgets()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import {
+  categoriesOfKind,
+  categoryStorage,
+  createCategory,
+  createDefaultCategories,
+  findCategory,
+  flattenCategoryTree,
+  getCategoryLabel,
+  getDefaultCategoryId,
+  mergeCategoryInto,
+  mergeCategoryLists,
+  expenseCategoryIds,
+  recategoriseExpenses,
+  selectableCategories,
+  updateCategory,
+  validParents,
+  validateCategoryName,
+} from '@/lib/categories';
+import { Category, Expense } from '@/types/expense';
+
+const makeExpense = (id: string, categoryId: string): Expense => ({
+  id,
+  date: '2025-01-15',
+  amount: { minor: 1000, currency: 'GBP' },
+  categoryId,
+  description: `Expense ${id}`,
+  createdAt: '2025-01-15T10:00:00.000Z',
+  updatedAt: '2025-01-15T10:00:00.000Z',
+});
+
+// Bills › Utilities › Electricity, alongside the other defaults
+const makeTree = (): Category[] => {
+  const utilities = createCategory({ name: 'Utilities', color: 'orange', icon: '💡' });
+  const electricity = createCategory({ name: 'Electricity', color: 'yellow', icon: '⚡' });
+  return [
+    ...createDefaultCategories(),
+    { ...electricity, id: 'electricity', parentId: 'utilities' },
+    { ...utilities, id: 'utilities', parentId: 'bills' },
+  ];
+};
+
+describe('Categories', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('categoryStorage', () => {
+    it('should seed the former built-in categories on first use', () => {
+      const categories = categoryStorage.getCategories();
+
+      expect(categoriesOfKind(categories, 'expense').map(category => category.id)).toEqual([
+        'food',
+        'transportation',
+        'entertainment',
+        'shopping',
+        'bills',
+        'other',
+      ]);
+      expect(categoryStorage.getCategories()).toEqual(categories);
+    });
+
+    it('should add the income categories to a list saved before income was tracked', () => {
+      categoryStorage.saveCategories(categoriesOfKind(createDefaultCategories(), 'expense'));
+
+      const categories = categoryStorage.getCategories();
+
+      expect(categoriesOfKind(categories, 'income').map(category => category.id)).toEqual([
+        'salary',
+        'freelance',
+        'interest',
+        'other-income',
+      ]);
+      expect(categoryStorage.getCategories()).toEqual(categories);
+    });
+  });
+
+  describe('validateCategoryName', () => {
+    const categories = createDefaultCategories();
+
+    it('should reject blank and duplicate names, ignoring case', () => {
+      expect(validateCategoryName('  ', categories)).toBe('Name is required');
+      expect(validateCategoryName('food', categories)).toBe(
+        'A category with this name already exists'
+      );
+      expect(validateCategoryName('Groceries', categories)).toBeNull();
+    });
+
+    it('should allow a category to keep its own name when renamed', () => {
+      expect(validateCategoryName('FOOD', categories, 'food')).toBeNull();
+    });
+  });
+
+  describe('archiving', () => {
+    it('should hide archived categories from pickers except for the current one', () => {
+      const categories = updateCategory(createDefaultCategories(), 'bills', { archived: true });
+
+      expect(selectableCategories(categories).map(category => category.id)).not.toContain('bills');
+      expect(selectableCategories(categories, 'bills').map(category => category.id)).toContain(
+        'bills'
+      );
+    });
+
+    it('should fall back to the first active category when Other is archived', () => {
+      const categories = updateCategory(createDefaultCategories(), 'other', { archived: true });
+
+      expect(getDefaultCategoryId(createDefaultCategories())).toBe('other');
+      expect(getDefaultCategoryId(categories)).toBe('food');
+    });
+
+    it('should pick the default from the categories of the kind asked for', () => {
+      expect(getDefaultCategoryId(createDefaultCategories(), 'income')).toBe('other-income');
+    });
+  });
+
+  describe('createCategory', () => {
+    it('should give subcategories the kind of their parent', () => {
+      const bonus = createCategory(
+        { name: 'Bonus', color: 'green', icon: '🎉', parentId: 'salary' },
+        createDefaultCategories()
+      );
+      const groceries = createCategory(
+        { name: 'Groceries', color: 'green', icon: '🛒', parentId: 'food', kind: 'income' },
+        createDefaultCategories()
+      );
+
+      expect(bonus.kind).toBe('income');
+      expect(groceries.kind).toBeUndefined();
+    });
+  });
+
+  describe('findCategory', () => {
+    it('should return a placeholder for unknown ids', () => {
+      expect(findCategory([], 'missing').name).toBe('Unknown');
+    });
+  });
+
+  describe('recategoriseExpenses', () => {
+    it('should move only expenses in the source category', () => {
+      const moved = recategoriseExpenses(
+        [makeExpense('1', 'food'), makeExpense('2', 'bills')],
+        'food',
+        'bills'
+      );
+
+      expect(moved).toHaveLength(1);
+      expect(moved[0]).toMatchObject({ id: '1', categoryId: 'bills' });
+      expect(moved[0].updatedAt).not.toBe('2025-01-15T10:00:00.000Z');
+    });
+
+    it('should move line items in the source category too', () => {
+      const itemised: Expense = {
+        ...makeExpense('1', 'bills'),
+        lineItems: [
+          { id: 'a', description: 'Bread', amount: 600, categoryId: 'bills' },
+          { id: 'b', description: 'Soap', amount: 400, categoryId: 'food' },
+        ],
+      };
+      const [moved] = recategoriseExpenses([itemised], 'food', 'shopping');
+
+      expect(moved.categoryId).toBe('bills');
+      expect(moved.lineItems?.map(item => item.categoryId)).toEqual(['bills', 'shopping']);
+      expect(expenseCategoryIds(itemised)).toEqual(['bills', 'food']);
+    });
+  });
+
+  describe('mergeCategoryLists', () => {
+    it('should keep the newer copy of each category', () => {
+      const [food] = createDefaultCategories();
+      const older = { ...food, name: 'Old name', updatedAt: '2020-01-01T00:00:00.000Z' };
+      const pets = createCategory({ name: 'Pets', color: 'teal', icon: '🐶' });
+
+      expect(mergeCategoryLists([food], [older, pets])).toEqual([food, pets]);
+    });
+  });
+
+  describe('subcategories', () => {
+    it('should list the tree depth-first with children under their parent', () => {
+      const entries = flattenCategoryTree(makeTree());
+      const ids = entries.map(entry => entry.category.id);
+
+      expect(ids.slice(0, 3)).toEqual(['bills', 'utilities', 'electricity']);
+      expect(entries.slice(0, 3).map(entry => entry.depth)).toEqual([0, 1, 2]);
+      expect(entries[0].hasChildren).toBe(true);
+      expect(entries[2].hasChildren).toBe(false);
+    });
+
+    it('should treat categories with a missing parent as top-level', () => {
+      const orphan = createCategory({ name: 'Orphan', color: 'gray', icon: '❔', parentId: 'gone' });
+
+      expect(flattenCategoryTree([orphan])[0]).toMatchObject({ depth: 0 });
+    });
+
+    it('should label a category with its full path', () => {
+      expect(getCategoryLabel(makeTree(), 'electricity')).toBe('Bills › Utilities › Electricity');
+      expect(getCategoryLabel(makeTree(), 'missing')).toBe('Unknown');
+    });
+
+    it('should not offer a category or its descendants as its own parent', () => {
+      const ids = validParents(makeTree(), 'bills').map(category => category.id);
+
+      expect(ids).not.toContain('bills');
+      expect(ids).not.toContain('utilities');
+      expect(ids).not.toContain('electricity');
+      expect(ids).toContain('food');
+    });
+
+    it('should move a category to the top level when its parent is cleared', () => {
+      const categories = updateCategory(makeTree(), 'utilities', { parentId: '' });
+
+      expect(categories.find(category => category.id === 'utilities')).not.toHaveProperty(
+        'parentId'
+      );
+    });
+
+    it('should reparent subcategories when merging their parent away', () => {
+      const categories = mergeCategoryInto(makeTree(), 'bills', 'other');
+
+      expect(categories.find(category => category.id === 'bills')?.archived).toBe(true);
+      expect(categories.find(category => category.id === 'utilities')?.parentId).toBe('other');
+      expect(categories.find(category => category.id === 'electricity')?.parentId).toBe(
+        'utilities'
+      );
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import {
+  RateTable,
+  convertMoney,
+  createRateTable,
+  findRate,
+  importRates,
+  mergeRateTables,
+  parseRatesFile,
+  rateStorage,
+  removeRate,
+  setRate,
+} from '@/lib/exchangeRates';
+
+const table: RateTable = {
+  base: 'GBP',
+  rates: [
+    { currency: 'EUR', rate: 1.2, date: '2025-01-01' },
+    { currency: 'EUR', rate: 1.25, date: '2025-03-01' },
+    { currency: 'USD', rate: 1.3, date: '2025-01-01' },
+  ],
+};
+
+describe('Exchange Rates', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('findRate', () => {
+    it('should use the latest rate in force on the date', () => {
+      expect(findRate(table, 'EUR', '2025-02-15')).toBe(1.2);
+      expect(findRate(table, 'EUR', '2025-03-01')).toBe(1.25);
+    });
+
+    it('should fall back to the earliest rate for older dates', () => {
+      expect(findRate(table, 'EUR', '2024-06-01')).toBe(1.2);
+    });
+
+    it('should treat the table base as 1 and unknown currencies as missing', () => {
+      expect(findRate(table, 'GBP', '2025-01-01')).toBe(1);
+      expect(findRate(table, 'JPY', '2025-01-01')).toBeNull();
+    });
+  });
+
+  describe('convertMoney', () => {
+    const eur = (minor: number) => ({ minor, currency: 'EUR' });
+
+    it('should convert into and out of the table base', () => {
+      expect(convertMoney(eur(12000), 'GBP', table, '2025-02-01')).toEqual({
+        minor: 10000,
+        currency: 'GBP',
+      });
+      expect(convertMoney({ minor: 10000, currency: 'GBP' }, 'USD', table, '2025-02-01')).toEqual(
+        { minor: 13000, currency: 'USD' }
+      );
+    });
+
+    it('should cross-convert between two other currencies', () => {
+      expect(convertMoney(eur(12000), 'USD', table, '2025-02-01')).toEqual({
+        minor: 13000,
+        currency: 'USD',
+      });
+    });
+
+    it("should round to the target currency's minor unit", () => {
+      // €1.00 / 1.2 = £0.8333...
+      expect(convertMoney(eur(100), 'GBP', table, '2025-02-01')?.minor).toBe(83);
+      // €1.00 / 1.2 × 187.3 = ¥156.08...
+      const withYen = setRate(table, { currency: 'JPY', rate: 187.3, date: '2025-01-01' });
+      expect(convertMoney(eur(100), 'JPY', withYen, '2025-02-01')).toEqual({
+        minor: 156,
+        currency: 'JPY',
+      });
+    });
+
+    it('should return null when a rate is missing', () => {
+      expect(convertMoney({ minor: 1000, currency: 'JPY' }, 'GBP', table, '2025-02-01')).toBeNull();
+    });
+  });
+
+  describe('setRate and removeRate', () => {
+    it('should replace a rate for the same currency and day', () => {
+      const updated = setRate(table, { currency: 'USD', rate: 1.35, date: '2025-01-01' });
+
+      expect(updated.rates.filter(rate => rate.currency === 'USD')).toEqual([
+        { currency: 'USD', rate: 1.35, date: '2025-01-01' },
+      ]);
+      expect(removeRate(updated, 'USD', '2025-01-01').rates).toHaveLength(2);
+    });
+  });
+
+  describe('parseRatesFile', () => {
+    it('should read the JSON base and rates shape', () => {
+      expect(
+        parseRatesFile('{"base":"EUR","date":"2025-04-01","rates":{"GBP":0.8,"usd":1.1}}')
+      ).toEqual({
+        base: 'EUR',
+        rates: [
+          { currency: 'GBP', rate: 0.8, date: '2025-04-01' },
+          { currency: 'USD', rate: 1.1, date: '2025-04-01' },
+        ],
+      });
+    });
+
+    it('should read CSV rows with an optional header', () => {
+      expect(parseRatesFile('currency,rate,date\nEUR,1.2,2025-01-01').rates).toEqual([
+        { currency: 'EUR', rate: 1.2, date: '2025-01-01' },
+      ]);
+    });
+
+    it('should reject bad codes and rates', () => {
+      expect(() => parseRatesFile('EURO,1.2')).toThrow('Unrecognised currency "EURO"');
+      expect(() => parseRatesFile('EUR,-1')).toThrow('Invalid rate for EUR');
+    });
+  });
+
+  describe('importRates', () => {
+    it('should re-quote rates from a file with another base', () => {
+      const imported = importRates(createRateTable('GBP'), {
+        base: 'EUR',
+        rates: [
+          { currency: 'GBP', rate: 0.8, date: '2025-04-01' },
+          { currency: 'USD', rate: 1.1, date: '2025-04-01' },
+        ],
+      });
+
+      expect(findRate(imported, 'EUR', '2025-04-01')).toBeCloseTo(1.25);
+      expect(findRate(imported, 'USD', '2025-04-01')).toBeCloseTo(1.375);
+      expect(findRate(imported, 'GBP', '2025-04-01')).toBe(1);
+    });
+
+    it('should refuse rates it cannot relate to the table base', () => {
+      expect(() =>
+        importRates(createRateTable('GBP'), {
+          base: 'CHF',
+          rates: [{ currency: 'USD', rate: 1.1, date: '2025-04-01' }],
+        })
+      ).toThrow('No rate for CHF');
+    });
+  });
+
+  describe('mergeRateTables', () => {
+    it('should only add rates that are missing locally', () => {
+      const incoming: RateTable = {
+        base: 'GBP',
+        rates: [
+          { currency: 'EUR', rate: 9, date: '2025-01-01' },
+          { currency: 'CHF', rate: 1.1, date: '2025-01-01' },
+        ],
+      };
+
+      const merged = mergeRateTables(table, incoming);
+      expect(findRate(merged, 'EUR', '2025-01-01')).toBe(1.2);
+      expect(findRate(merged, 'CHF', '2025-01-01')).toBe(1.1);
+    });
+  });
+
+  describe('rateStorage', () => {
+    it('should start empty and round-trip a saved table', () => {
+      expect(rateStorage.getRateTable()).toEqual(createRateTable());
+
+      rateStorage.saveRateTable(table);
+      expect(rateStorage.getRateTable()).toEqual(table);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import {
+  addMembers,
+  calculateGroupBalances,
+  createGroup,
+  createSettlement,
+  groupStorage,
+  mergeGroups,
+  planSettlement,
+} from '@/lib/groups';
+import { createConversion } from '@/lib/exchangeRates';
+import { Expense, ExpenseSplit, Group } from '@/types/expense';
+
+const conversion = createConversion(
+  { base: 'GBP', rates: [{ currency: 'EUR', rate: 1.25, date: '2025-01-01' }] },
+  'GBP'
+);
+
+const group: Group = {
+  id: 'trip',
+  name: 'Team trip',
+  members: [
+    { id: 'ana', name: 'Ana' },
+    { id: 'ben', name: 'Ben' },
+    { id: 'cy', name: 'Cy' },
+  ],
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const equalSplit = (...memberIds: string[]): ExpenseSplit => ({
+  method: 'equal',
+  shares: memberIds.map(memberId => ({ person: memberId, memberId, value: 1 })),
+});
+
+const makeExpense = (
+  id: string,
+  minor: number,
+  paidBy: string,
+  split: ExpenseSplit,
+  currency = 'GBP'
+): Expense => ({
+  id,
+  date: '2025-01-10',
+  amount: { minor, currency },
+  categoryId: 'food',
+  description: `Expense ${id}`,
+  groupId: 'trip',
+  paidBy,
+  split,
+  createdAt: '2025-01-10T00:00:00.000Z',
+  updatedAt: '2025-01-10T00:00:00.000Z',
+});
+
+const balanceOf = (balances: ReturnType<typeof calculateGroupBalances>, memberId: string) =>
+  balances.balances.find(entry => entry.member.id === memberId)?.balance;
+
+describe('Groups', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('createGroup and addMembers', () => {
+    it('should drop blank and repeated member names', () => {
+      const created = createGroup(' Trip ', ['Ana', ' ', 'ana', 'Ben ']);
+
+      expect(created.name).toBe('Trip');
+      expect(created.members.map(member => member.name)).toEqual(['Ana', 'Ben']);
+    });
+
+    it('should only add names not already in the group', () => {
+      const updated = addMembers(group, ['ben', 'Dee']);
+
+      expect(updated.members.map(member => member.name)).toEqual(['Ana', 'Ben', 'Cy', 'Dee']);
+      expect(addMembers(group, ['Cy'])).toBe(group);
+    });
+  });
+
+  describe('calculateGroupBalances', () => {
+    it('should credit the payer and debit each share', () => {
+      const result = calculateGroupBalances(
+        group,
+        [
+          makeExpense('1', 9000, 'ana', equalSplit('ana', 'ben', 'cy')),
+          makeExpense('2', 3000, 'ben', equalSplit('ben', 'cy')),
+        ],
+        [],
+        conversion
+      );
+
+      expect(result.balances.find(entry => entry.member.id === 'ana')).toMatchObject({
+        paid: 9000,
+        owed: 3000,
+        balance: 6000,
+      });
+      expect(balanceOf(result, 'ben')).toBe(-3000 + 3000 - 1500);
+      expect(balanceOf(result, 'cy')).toBe(-3000 - 1500);
+    });
+
+    it('should split converted amounts exactly and ignore other groups', () => {
+      const result = calculateGroupBalances(
+        group,
+        [
+          makeExpense('1', 1000, 'ana', equalSplit('ana', 'ben', 'cy'), 'EUR'),
+          { ...makeExpense('2', 5000, 'ben', equalSplit('ben', 'cy')), groupId: 'other' },
+        ],
+        [],
+        conversion
+      );
+
+      // €10.00 is £8.00, shared 267 / 267 / 266
+      expect(result.balances.map(entry => entry.balance)).toEqual([800 - 267, -267, -266]);
+      expect(result.balances.reduce((sum, entry) => sum + entry.balance, 0)).toBe(0);
+    });
+
+    it('should count expenses without an exchange rate', () => {
+      const result = calculateGroupBalances(
+        group,
+        [makeExpense('1', 1000, 'ana', equalSplit('ana', 'ben'), 'JPY')],
+        [],
+        conversion
+      );
+
+      expect(result.unconvertedCount).toBe(1);
+      expect(balanceOf(result, 'ana')).toBe(0);
+    });
+
+    it('should apply settle-up payments', () => {
+      const settlement = createSettlement({
+        groupId: 'trip',
+        fromMemberId: 'ben',
+        toMemberId: 'ana',
+        amount: { minor: 2000, currency: 'GBP' },
+        date: '2025-01-12',
+      });
+      const result = calculateGroupBalances(
+        group,
+        [makeExpense('1', 6000, 'ana', equalSplit('ana', 'ben', 'cy'))],
+        [settlement],
+        conversion
+      );
+
+      expect(result.balances.map(entry => entry.balance)).toEqual([2000, 0, -2000]);
+    });
+  });
+
+  describe('planSettlement', () => {
+    const balances = (...amounts: number[]) =>
+      amounts.map((balance, index) => ({
+        member: { id: `m${index}`, name: `M${index}` },
+        paid: 0,
+        owed: 0,
+        balance,
+      }));
+
+    it('should pair matching debts and credits first', () => {
+      const transfers = planSettlement(balances(500, 300, -300, -500));
+
+      expect(transfers).toEqual([
+        { fromMemberId: 'm2', toMemberId: 'm1', amount: 300 },
+        { fromMemberId: 'm3', toMemberId: 'm0', amount: 500 },
+      ]);
+    });
+
+    it('should settle every balance in fewer payments than members', () => {
+      const start = balances(1000, 200, -700, -300, -200);
+      const transfers = planSettlement(start);
+      const settled = new Map(start.map(entry => [entry.member.id, entry.balance]));
+      transfers.forEach(({ fromMemberId, toMemberId, amount }) => {
+        settled.set(fromMemberId, (settled.get(fromMemberId) ?? 0) + amount);
+        settled.set(toMemberId, (settled.get(toMemberId) ?? 0) - amount);
+      });
+
+      expect(Array.from(settled.values()).every(balance => balance === 0)).toBe(true);
+      expect(transfers.length).toBeLessThan(start.length);
+    });
+
+    it('should plan nothing when everyone is square', () => {
+      expect(planSettlement(balances(0, 0))).toEqual([]);
+    });
+  });
+
+  describe('mergeGroups', () => {
+    it('should keep the newer copy of each group', () => {
+      const renamed = { ...group, name: 'Renamed', updatedAt: '2025-02-01T00:00:00.000Z' };
+      const other = { ...group, id: 'other' };
+
+      expect(mergeGroups([group], [renamed, other])).toEqual([renamed, other]);
+      expect(mergeGroups([renamed], [group])).toEqual([renamed]);
+    });
+  });
+
+  describe('groupStorage', () => {
+    it('should round-trip groups and settlements', () => {
+      const settlement = createSettlement({
+        groupId: 'trip',
+        fromMemberId: 'ben',
+        toMemberId: 'ana',
+        amount: { minor: 2000, currency: 'GBP' },
+        date: '2025-01-12',
+      });
+      groupStorage.saveGroups([group]);
+      groupStorage.saveSettlements([settlement]);
+
+      expect(groupStorage.getGroups()).toEqual([group]);
+      expect(groupStorage.getSettlements()).toEqual([settlement]);
+    });
+  });
+});
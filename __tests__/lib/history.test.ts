@@ -0,0 +1,116 @@
+import {
+  applyChanges,
+  createOperation,
+  emptyHistory,
+  fitHistory,
+  loadHistory,
+  recordOperation,
+  redoOperation,
+  saveHistory,
+  undoOperation,
+} from '@/lib/history';
+import { createLocalStorageRepository } from '@/lib/repository';
+import { Expense } from '@/types/expense';
+
+const expense: Expense = {
+  id: '1',
+  date: '2025-01-15',
+  amount: { minor: 5000, currency: 'GBP' },
+  categoryId: 'food',
+  description: 'Groceries',
+  createdAt: '2025-01-15T10:00:00.000Z',
+  updatedAt: '2025-01-15T10:00:00.000Z',
+};
+
+describe('Operation History', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('journal transitions', () => {
+    it('should move operations between past and future on undo and redo', () => {
+      const operation = createOperation('add', 'Expense added', [
+        { id: '1', before: null, after: expense },
+      ]);
+      const recorded = recordOperation(emptyHistory, operation);
+      expect(recorded.past).toEqual([operation]);
+
+      const undone = undoOperation(recorded);
+      expect(undone?.operation).toBe(operation);
+      expect(undone?.state).toEqual({ past: [], future: [operation] });
+
+      const redone = redoOperation(undone!.state);
+      expect(redone?.state).toEqual({ past: [operation], future: [] });
+    });
+
+    it('should clear the redo stack when a new operation is recorded', () => {
+      const first = createOperation('add', 'First', []);
+      const second = createOperation('add', 'Second', []);
+      const undone = undoOperation(recordOperation(emptyHistory, first))!.state;
+
+      expect(recordOperation(undone, second).future).toEqual([]);
+    });
+
+    it('should return null when there is nothing to undo or redo', () => {
+      expect(undoOperation(emptyHistory)).toBeNull();
+      expect(redoOperation(emptyHistory)).toBeNull();
+    });
+
+    it('should cap the journal length', () => {
+      let state = emptyHistory;
+      for (let i = 0; i < 60; i++) {
+        state = recordOperation(state, createOperation('add', `Op ${i}`, []));
+      }
+      expect(state.past).toHaveLength(50);
+      expect(state.past[0].label).toBe('Op 10');
+    });
+  });
+
+  describe('applyChanges', () => {
+    it('should restore a deleted expense on undo and remove it again on redo', async () => {
+      const repository = createLocalStorageRepository();
+      const changes = [{ id: '1', before: expense, after: null }];
+
+      const undone = await applyChanges(repository, changes, 'undo');
+      expect(undone.upserted[0].id).toBe('1');
+      expect(await repository.getById('1')).not.toBeNull();
+
+      const redone = await applyChanges(repository, changes, 'redo');
+      expect(redone.deletedIds).toEqual(['1']);
+      expect(await repository.getById('1')).toBeNull();
+    });
+  });
+
+  describe('persistence', () => {
+    it('should survive a reload through localStorage', () => {
+      const state = recordOperation(emptyHistory, createOperation('delete', 'Expense deleted', []));
+      saveHistory(state);
+      expect(loadHistory()).toEqual(state);
+    });
+
+    it('should keep only the most recent operations that fit, without gaps', () => {
+      const small = createOperation('add', 'Small', []);
+      const large = createOperation('bulk', 'Import', [{ id: '1', before: null, after: expense }]);
+      const newest = createOperation('add', 'Newest', []);
+      const size = JSON.stringify(small).length + JSON.stringify(newest).length;
+
+      expect(fitHistory({ past: [small, large, newest], future: [] }, size)).toEqual({
+        past: [newest],
+        future: [],
+      });
+    });
+
+    it('should remove the saved copy when it cannot be written', () => {
+      saveHistory(recordOperation(emptyHistory, createOperation('add', 'Older', [])));
+      jest.spyOn(Storage.prototype, 'setItem').mockImplementation(() => {
+        throw new Error('QuotaExceededError');
+      });
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      saveHistory(recordOperation(emptyHistory, createOperation('bulk', 'Import', [])));
+      jest.restoreAllMocks();
+
+      expect(loadHistory()).toEqual(emptyHistory);
+    });
+  });
+});
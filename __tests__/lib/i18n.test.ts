@@ -0,0 +1,75 @@
+import {
+  LANGUAGES,
+  MessageKey,
+  createTranslator,
+  isLanguage,
+  translate,
+} from '@/lib/i18n';
+import { en } from '@/lib/messages/en';
+import { de } from '@/lib/messages/de';
+
+describe('i18n', () => {
+  describe('translate', () => {
+    it('should look up messages in the given language', () => {
+      expect(translate('en', 'app.tab.trash')).toBe('Trash');
+      expect(translate('de', 'app.tab.trash')).toBe('Papierkorb');
+    });
+
+    it('should interpolate parameters', () => {
+      expect(translate('en', 'history.categoriesMerged', { source: 'Food', target: 'Bills' })).toBe(
+        'Merged Food into Bills'
+      );
+    });
+
+    it('should leave placeholders without a parameter in place', () => {
+      expect(translate('en', 'app.undone')).toBe('Undone: {label}');
+    });
+
+    it('should pick the plural form for the count', () => {
+      expect(translate('en', 'history.expensesImported', { count: 1 })).toBe('1 expense imported');
+      expect(translate('en', 'history.expensesImported', { count: 3 })).toBe(
+        '3 expenses imported'
+      );
+      expect(translate('en', 'history.expensesImported', { count: 0 })).toBe(
+        '0 expenses imported'
+      );
+      expect(translate('de', 'history.expensesImported', { count: 1 })).toBe(
+        '1 Ausgabe importiert'
+      );
+      expect(translate('de', 'history.expensesImported', { count: 3 })).toBe(
+        '3 Ausgaben importiert'
+      );
+    });
+  });
+
+  describe('createTranslator', () => {
+    it('should bind the language', () => {
+      const t = createTranslator('de');
+      expect(t('list.deleteSelected', { count: 2 })).toBe('Auswahl löschen (2)');
+    });
+  });
+
+  describe('isLanguage', () => {
+    it('should only accept shipped languages', () => {
+      expect(LANGUAGES.every(language => isLanguage(language.value))).toBe(true);
+      expect(isLanguage('fr')).toBe(false);
+      expect(isLanguage('toString')).toBe(false);
+    });
+  });
+
+  describe('catalogues', () => {
+    const placeholders = (message: unknown): string[] =>
+      Array.from(
+        new Set(Array.from(JSON.stringify(message).matchAll(/\{(\w+)\}/g), match => match[1]))
+      ).sort();
+
+    it('should use the same placeholders in every translation', () => {
+      (Object.keys(en) as MessageKey[]).forEach(key => {
+        expect({ key, placeholders: placeholders(de[key]) }).toEqual({
+          key,
+          placeholders: placeholders(en[key]),
+        });
+      });
+    });
+  });
+});
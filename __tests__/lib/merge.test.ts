@@ -0,0 +1,30 @@
+import { mergeById, mergeNewest } from '@/lib/merge';
+
+const record = (id: string, updatedAt: string, name = id) => ({ id, name, updatedAt });
+
+describe('Merge Helpers', () => {
+  describe('mergeById', () => {
+    it('should keep the newer copy of each record and records only on one side', () => {
+      const merged = mergeById(
+        [record('a', '2025-01-02T00:00:00.000Z', 'local'), record('b', '2025-01-01T00:00:00.000Z')],
+        [record('a', '2025-01-01T00:00:00.000Z', 'older'), record('c', '2025-01-01T00:00:00.000Z')]
+      );
+
+      expect(merged.map(item => `${item.id}:${item.name}`)).toEqual(['a:local', 'b:b', 'c:c']);
+    });
+
+    it('should take the incoming copy when it is newer', () => {
+      const newer = record('a', '2025-02-01T00:00:00.000Z', 'incoming');
+      expect(mergeById([record('a', '2025-01-01T00:00:00.000Z')], [newer])).toEqual([newer]);
+    });
+  });
+
+  describe('mergeNewest', () => {
+    it('should merge by the given key', () => {
+      const older = { id: '1', categoryId: 'food', updatedAt: '2025-01-01T00:00:00.000Z' };
+      const newer = { id: '2', categoryId: 'food', updatedAt: '2025-02-01T00:00:00.000Z' };
+
+      expect(mergeNewest([older], [newer], item => item.categoryId)).toEqual([newer]);
+    });
+  });
+});
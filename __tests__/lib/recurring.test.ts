@@ -0,0 +1,215 @@
+import {
+  createRecurringRule,
+  generateDueExpenses,
+  nextOccurrence,
+  recurringStorage,
+  setRulePaused,
+  startRuleFromExpense,
+  toRecurrenceFormData,
+  toRecurrenceSchedule,
+  updateRecurringRule,
+} from '@/lib/recurring';
+import { Expense, RecurrenceSchedule, RecurringRule } from '@/types/expense';
+
+const makeRule = (schedule: RecurrenceSchedule, startDate = '2025-01-31'): RecurringRule =>
+  createRecurringRule({
+    amount: { minor: 95000, currency: 'GBP' },
+    categoryId: 'bills',
+    description: 'Rent',
+    tags: ['home'],
+    startDate,
+    ...schedule,
+  });
+
+const dueDates = (rule: RecurringRule, today: string, expenses: Expense[] = []) =>
+  generateDueExpenses([rule], expenses, today).due.map(expense => expense.date);
+
+describe('Recurring expenses', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('generateDueExpenses', () => {
+    it('should use the last day of shorter months without drifting', () => {
+      const rule = makeRule({ frequency: 'monthly', dayOfMonth: 31 });
+
+      expect(dueDates(rule, '2025-04-15')).toEqual(['2025-01-31', '2025-02-28', '2025-03-31']);
+    });
+
+    it('should start on the next matching day when the start date is past it', () => {
+      const rule = makeRule({ frequency: 'monthly', dayOfMonth: 1 }, '2025-01-10');
+
+      expect(dueDates(rule, '2025-03-01')).toEqual(['2025-02-01', '2025-03-01']);
+    });
+
+    it('should step daily, weekly and yearly from the start date', () => {
+      expect(dueDates(makeRule({ frequency: 'daily' }), '2025-02-02')).toEqual([
+        '2025-01-31',
+        '2025-02-01',
+        '2025-02-02',
+      ]);
+      expect(dueDates(makeRule({ frequency: 'weekly' }), '2025-02-14')).toEqual([
+        '2025-01-31',
+        '2025-02-07',
+        '2025-02-14',
+      ]);
+      expect(
+        dueDates(makeRule({ frequency: 'yearly', dayOfMonth: 29 }, '2024-02-29'), '2026-03-01')
+      ).toEqual(['2024-02-29', '2025-02-28', '2026-02-28']);
+    });
+
+    it('should copy the rule onto each expense and move the rule past them', () => {
+      const rule = makeRule({ frequency: 'monthly', dayOfMonth: 31 });
+
+      const { due, rules } = generateDueExpenses([rule], [], '2025-02-28');
+
+      expect(due[1]).toEqual({
+        date: '2025-02-28',
+        amount: { minor: 95000, currency: 'GBP' },
+        categoryId: 'bills',
+        description: 'Rent',
+        tags: ['home'],
+        recurringRuleId: rule.id,
+      });
+      expect(rules[0]).toMatchObject({ generatedCount: 2, coveredUntil: '2025-02-28' });
+      expect(generateDueExpenses(rules, [], '2025-02-28').due).toEqual([]);
+    });
+
+    it('should stop at the end date or after the number of occurrences', () => {
+      const untilDate = makeRule({ frequency: 'monthly', endDate: '2025-03-30' });
+      const limited = makeRule({ frequency: 'weekly', occurrenceLimit: 2 });
+
+      expect(dueDates(untilDate, '2025-12-31')).toEqual(['2025-01-31', '2025-02-28']);
+      expect(dueDates(limited, '2025-12-31')).toEqual(['2025-01-31', '2025-02-07']);
+
+      const { rules } = generateDueExpenses([limited], [], '2025-12-31');
+      expect(nextOccurrence(rules[0])).toBeNull();
+      expect(nextOccurrence(untilDate)).toBe('2025-01-31');
+    });
+
+    it('should not repeat occurrences that already have an expense', () => {
+      const rule = makeRule({ frequency: 'monthly', dayOfMonth: 31 });
+      const existing: Expense = {
+        id: 'from-another-tab',
+        date: '2025-01-31',
+        amount: rule.amount,
+        categoryId: 'bills',
+        description: 'Rent',
+        recurringRuleId: rule.id,
+        createdAt: '2025-01-31T08:00:00.000Z',
+        updatedAt: '2025-01-31T08:00:00.000Z',
+      };
+
+      const { due, rules } = generateDueExpenses([rule], [existing], '2025-02-28');
+
+      expect(due.map(expense => expense.date)).toEqual(['2025-02-28']);
+      expect(rules[0].generatedCount).toBe(2);
+    });
+  });
+
+  describe('startRuleFromExpense', () => {
+    it('should count the saved expense as the first occurrence', () => {
+      const rule = startRuleFromExpense(
+        {
+          date: '2025-01-15',
+          amount: { minor: 1099, currency: 'GBP' },
+          categoryId: 'entertainment',
+          description: 'Streaming',
+        },
+        { frequency: 'monthly', dayOfMonth: 15, occurrenceLimit: 3 }
+      );
+
+      expect(rule).toMatchObject({ startDate: '2025-01-15', generatedCount: 1 });
+      expect(nextOccurrence(rule)).toBe('2025-02-15');
+      expect(dueDates(rule, '2025-12-31')).toEqual(['2025-02-15', '2025-03-15']);
+    });
+
+    it('should keep adding income as income', () => {
+      const rule = startRuleFromExpense(
+        {
+          type: 'income',
+          date: '2025-01-28',
+          amount: { minor: 250000, currency: 'GBP' },
+          categoryId: 'salary',
+          description: 'Salary',
+        },
+        { frequency: 'monthly', dayOfMonth: 28 }
+      );
+
+      const { due } = generateDueExpenses([rule], [], '2025-02-28');
+      expect(due).toEqual([expect.objectContaining({ type: 'income', date: '2025-02-28' })]);
+    });
+  });
+
+  describe('setRulePaused', () => {
+    it('should add nothing while paused and skip missed occurrences on resume', () => {
+      const rule = makeRule({ frequency: 'weekly' });
+      const paused = setRulePaused([rule], rule.id, true);
+
+      expect(generateDueExpenses(paused, [], '2025-02-20').due).toEqual([]);
+
+      const resumed = setRulePaused(paused, rule.id, false, '2025-02-21');
+      expect(dueDates(resumed[0], '2025-03-07')).toEqual([
+        '2025-02-21',
+        '2025-02-28',
+        '2025-03-07',
+      ]);
+    });
+  });
+
+  describe('updateRecurringRule', () => {
+    it('should replace the schedule and keep progress', () => {
+      const rule = makeRule({ frequency: 'monthly', dayOfMonth: 31, endDate: '2025-06-30' });
+      const { rules } = generateDueExpenses([rule], [], '2025-02-28');
+
+      const [updated] = updateRecurringRule(rules, rule.id, {
+        amount: { minor: 99000, currency: 'GBP' },
+        categoryId: 'bills',
+        description: 'Rent (new lease)',
+        frequency: 'weekly',
+      });
+
+      expect(updated).toMatchObject({
+        id: rule.id,
+        startDate: '2025-01-31',
+        generatedCount: 2,
+        coveredUntil: '2025-02-28',
+        description: 'Rent (new lease)',
+      });
+      expect(updated.endDate).toBeUndefined();
+      expect(updated.dayOfMonth).toBeUndefined();
+      expect(nextOccurrence(updated)).toBe('2025-03-07');
+    });
+  });
+
+  describe('form conversion', () => {
+    it('should round-trip a schedule through its form fields', () => {
+      const schedule: RecurrenceSchedule = {
+        frequency: 'yearly',
+        dayOfMonth: 5,
+        occurrenceLimit: 4,
+      };
+
+      const formData = toRecurrenceFormData('2025-01-05', schedule);
+
+      expect(formData).toMatchObject({
+        dayOfMonth: '5',
+        ends: 'afterCount',
+        occurrenceLimit: '4',
+      });
+      expect(toRecurrenceSchedule(formData)).toEqual(schedule);
+      expect(toRecurrenceSchedule(toRecurrenceFormData('2025-01-20'))).toEqual({
+        frequency: 'monthly',
+        dayOfMonth: 20,
+      });
+    });
+  });
+
+  describe('recurringStorage', () => {
+    it('should save and load rules', () => {
+      const rule = makeRule({ frequency: 'daily' });
+      recurringStorage.saveRules([rule]);
+      expect(recurringStorage.getRules()).toEqual([rule]);
+    });
+  });
+});
@@ -0,0 +1,209 @@
+import {
+  ExpenseRepository,
+  createLocalStorageRepository,
+  isDateInRange,
+  migrateLocalStorageToIndexedDB,
+} from '@/lib/repository';
+import { CURRENT_SCHEMA_VERSION } from '@/lib/schema';
+import { storageUtils } from '@/lib/storage';
+
+const newExpense = {
+  date: '2025-01-15',
+  amount: { minor: 1250, currency: 'GBP' },
+  categoryId: 'food',
+  description: 'Lunch',
+};
+
+describe('Expense Repository', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  describe('isDateInRange', () => {
+    it('should include both bounds', () => {
+      expect(isDateInRange('2025-01-01', '2025-01-01', '2025-01-31')).toBe(true);
+      expect(isDateInRange('2025-01-31', '2025-01-01', '2025-01-31')).toBe(true);
+    });
+
+    it('should accept full ISO timestamps on the end date', () => {
+      expect(isDateInRange('2025-01-31T18:30:00.000Z', '2025-01-01', '2025-01-31')).toBe(true);
+    });
+
+    it('should exclude dates outside the range', () => {
+      expect(isDateInRange('2024-12-31', '2025-01-01', '2025-01-31')).toBe(false);
+      expect(isDateInRange('2025-02-01', '2025-01-01', '2025-01-31')).toBe(false);
+    });
+  });
+
+  describe('createLocalStorageRepository', () => {
+    it('should add and read back expenses', async () => {
+      const repository = createLocalStorageRepository();
+      const added = await repository.add(newExpense);
+
+      expect(added.id).toBeTruthy();
+      expect(await repository.getById(added.id)).toEqual(added);
+      expect(await repository.getAll()).toHaveLength(1);
+    });
+
+    it('should query by date range and category', async () => {
+      const repository = createLocalStorageRepository();
+      await repository.add(newExpense);
+      await repository.add({ ...newExpense, date: '2025-03-01', categoryId: 'bills' });
+
+      expect(await repository.getByDateRange('2025-01-01', '2025-01-31')).toHaveLength(1);
+      expect(await repository.getByCategory('bills')).toHaveLength(1);
+    });
+
+    it('should update and delete expenses', async () => {
+      const repository = createLocalStorageRepository();
+      const added = await repository.add(newExpense);
+
+      const updated = await repository.update(added.id, {
+        amount: { minor: 2000, currency: 'GBP' },
+      });
+      expect(updated?.amount).toEqual({ minor: 2000, currency: 'GBP' });
+
+      expect(await repository.delete(added.id)).toBe(true);
+      expect(await repository.delete(added.id)).toBe(false);
+      expect(await repository.getAll()).toHaveLength(0);
+    });
+
+    it('should upsert records by id with putMany', async () => {
+      const repository = createLocalStorageRepository();
+      const added = await repository.add(newExpense);
+
+      await repository.putMany([
+        { ...added, amount: { minor: 9900, currency: 'GBP' } },
+        { ...added, id: 'imported', description: 'Imported' },
+      ]);
+
+      const all = await repository.getAll();
+      expect(all).toHaveLength(2);
+      expect(all.find(exp => exp.id === added.id)?.amount.minor).toBe(9900);
+    });
+
+    describe('trash', () => {
+      it('should move deleted expenses to the trash with a deletion timestamp', async () => {
+        const repository = createLocalStorageRepository();
+        const added = await repository.add(newExpense);
+
+        await repository.delete(added.id);
+
+        const trash = await repository.getTrash();
+        expect(trash).toHaveLength(1);
+        expect(trash[0].id).toBe(added.id);
+        expect(trash[0].deletedAt).toBeTruthy();
+      });
+
+      it('should restore trashed expenses', async () => {
+        const repository = createLocalStorageRepository();
+        const added = await repository.add(newExpense);
+        await repository.delete(added.id);
+
+        const restored = await repository.restore([added.id]);
+
+        expect(restored[0]).not.toHaveProperty('deletedAt');
+        expect(await repository.getById(added.id)).not.toBeNull();
+        expect(await repository.getTrash()).toHaveLength(0);
+      });
+
+      it('should take records out of the trash when they are put back', async () => {
+        const repository = createLocalStorageRepository();
+        const added = await repository.add(newExpense);
+        await repository.delete(added.id);
+
+        await repository.putMany([added]);
+
+        expect(await repository.getTrash()).toHaveLength(0);
+      });
+
+      it('should send clear through the trash', async () => {
+        const repository = createLocalStorageRepository();
+        await repository.add(newExpense);
+        await repository.add(newExpense);
+
+        await repository.clear();
+
+        expect(await repository.getAll()).toHaveLength(0);
+        expect(await repository.getTrash()).toHaveLength(2);
+      });
+
+      it('should purge by id and by age', async () => {
+        const repository = createLocalStorageRepository();
+        const first = await repository.add(newExpense);
+        const second = await repository.add(newExpense);
+        await repository.deleteMany([first.id, second.id]);
+
+        expect(await repository.purge([first.id])).toBe(1);
+        expect(await repository.purgeTrashedBefore('2000-01-01T00:00:00.000Z')).toBe(0);
+        expect(await repository.purgeTrashedBefore(new Date(Date.now() + 1000).toISOString())).toBe(1);
+        expect(await repository.getTrash()).toHaveLength(0);
+      });
+    });
+  });
+
+  describe('migrateLocalStorageToIndexedDB', () => {
+    const makeTarget = (readOnly = false) => ({
+      isReadOnly: () => readOnly,
+      putMany: jest.fn().mockResolvedValue(undefined),
+      putTrash: jest.fn().mockResolvedValue(undefined),
+      putAttachments: jest.fn().mockResolvedValue(undefined),
+    });
+
+    it('should move legacy expenses on every start and clear them once moved', async () => {
+      const legacy = createLocalStorageRepository();
+      const target = makeTarget();
+
+      await legacy.add({ ...newExpense, description: 'First' });
+      await migrateLocalStorageToIndexedDB(target as unknown as ExpenseRepository);
+      await legacy.add({ ...newExpense, description: 'Second' });
+      await migrateLocalStorageToIndexedDB(target as unknown as ExpenseRepository);
+
+      expect(target.putMany).toHaveBeenCalledTimes(2);
+      expect(target.putMany.mock.calls[1][0][0].description).toBe('Second');
+      expect(localStorage.getItem('expense-tracker-data')).toBeNull();
+    });
+
+    it('should keep a collection in localStorage when moving it fails', async () => {
+      const legacy = createLocalStorageRepository();
+      const target = makeTarget();
+      target.putMany.mockRejectedValue(new Error('QuotaExceededError'));
+
+      const trashed = await legacy.add(newExpense);
+      await legacy.delete(trashed.id);
+      await legacy.add(newExpense);
+
+      await expect(
+        migrateLocalStorageToIndexedDB(target as unknown as ExpenseRepository)
+      ).rejects.toThrow();
+      expect(storageUtils.getTrash()).toHaveLength(0);
+      expect(storageUtils.getExpenses()).toHaveLength(1);
+    });
+
+    it('should leave legacy expenses alone when either side is from a newer version', async () => {
+      const legacy = createLocalStorageRepository();
+      await legacy.add(newExpense);
+      const target = makeTarget(true);
+
+      await migrateLocalStorageToIndexedDB(target as unknown as ExpenseRepository);
+      expect(target.putMany).not.toHaveBeenCalled();
+
+      const newer = JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION + 1, data: [] });
+      localStorage.setItem('expense-tracker-trash', newer);
+      await migrateLocalStorageToIndexedDB(makeTarget() as unknown as ExpenseRepository);
+
+      expect(legacy.isReadOnly()).toBe(true);
+      expect(localStorage.getItem('expense-tracker-trash')).toBe(newer);
+      expect(storageUtils.getExpenses()).toHaveLength(1);
+    });
+
+    it('should do nothing when localStorage holds no expenses', async () => {
+      const target = makeTarget();
+      await migrateLocalStorageToIndexedDB(target as unknown as ExpenseRepository);
+
+      expect(target.putMany).not.toHaveBeenCalled();
+      expect(target.putTrash).not.toHaveBeenCalled();
+      expect(target.putAttachments).not.toHaveBeenCalled();
+    });
+  });
+});
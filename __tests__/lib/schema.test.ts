@@ -0,0 +1,187 @@
+import {
+  CURRENT_SCHEMA_VERSION,
+  createEnvelope,
+  upgradePayload,
+  validateExpenseRecord,
+} from '@/lib/schema';
+import { storageUtils } from '@/lib/storage';
+import { Expense } from '@/types/expense';
+
+const validExpense: Expense = {
+  id: '1',
+  date: '2025-01-15',
+  amount: { minor: 5000, currency: 'GBP' },
+  categoryId: 'food',
+  description: 'Groceries',
+  createdAt: '2025-01-15T10:00:00.000Z',
+  updatedAt: '2025-01-15T10:00:00.000Z',
+};
+
+// The same expense as stored before categories became records and currencies were tracked,
+// when amounts were plain floats
+const legacyExpense = {
+  ...validExpense,
+  categoryId: undefined,
+  category: 'Food',
+  amount: 50,
+};
+
+describe('Storage Schema', () => {
+  describe('validateExpenseRecord', () => {
+    it('should accept a well-formed expense', () => {
+      expect(validateExpenseRecord(validExpense)).toBeNull();
+    });
+
+    it('should accept expenses with or without tags', () => {
+      expect(validateExpenseRecord({ ...validExpense, tags: ['holiday-2026'] })).toBeNull();
+    });
+
+    it('should reject non-objects', () => {
+      expect(validateExpenseRecord(null)).toBe('Record is not an object');
+      expect(validateExpenseRecord('expense')).toBe('Record is not an object');
+    });
+
+    it('should report the first invalid field', () => {
+      expect(validateExpenseRecord({ ...validExpense, id: '' })).toBe('Missing id');
+      expect(validateExpenseRecord({ ...validExpense, date: 'not a date' })).toBe('Invalid date');
+      expect(validateExpenseRecord({ ...validExpense, amount: '50' })).toBe('Invalid amount');
+      expect(
+        validateExpenseRecord({ ...validExpense, amount: { minor: 50.5, currency: 'GBP' } })
+      ).toBe('Invalid amount');
+      expect(
+        validateExpenseRecord({ ...validExpense, amount: { minor: 5000, currency: 'pounds' } })
+      ).toBe('Invalid currency');
+      expect(validateExpenseRecord({ ...validExpense, categoryId: '' })).toBe('Missing category');
+      expect(validateExpenseRecord({ ...validExpense, tags: ['ok', 3] })).toBe('Invalid tags');
+    });
+  });
+
+  describe('upgradePayload', () => {
+    it('should upgrade a bare legacy array', () => {
+      const result = upgradePayload(JSON.stringify([legacyExpense]));
+      expect(result.fromVersion).toBe(0);
+      expect(result.expenses).toEqual([validExpense]);
+      expect(result.needsRewrite).toBe(true);
+    });
+
+    it('should map old category names to the default category ids', () => {
+      const envelope = { ...createEnvelope([{ ...legacyExpense, category: 'Bills' }]), schemaVersion: 1 };
+      const result = upgradePayload(JSON.stringify(envelope));
+      expect(result.expenses).toEqual([{ ...validExpense, categoryId: 'bills' }]);
+      expect(result.needsRewrite).toBe(true);
+    });
+
+    it('should record pounds as the currency of amounts saved before currencies', () => {
+      const envelope = {
+        ...createEnvelope([{ ...validExpense, amount: 50 }]),
+        schemaVersion: 2,
+      };
+      const result = upgradePayload(JSON.stringify(envelope));
+      expect(result.expenses).toEqual([validExpense]);
+      expect(result.needsRewrite).toBe(true);
+    });
+
+    it("should turn float amounts into minor units rounded to each currency's precision", () => {
+      const envelope = {
+        ...createEnvelope([
+          { ...validExpense, id: '1', amount: 1.005, currency: 'GBP' },
+          { ...validExpense, id: '2', amount: 1250.5, currency: 'JPY' },
+          { ...validExpense, id: '3', amount: 0.1 + 0.2, currency: 'EUR' },
+        ]),
+        schemaVersion: 3,
+      };
+      const result = upgradePayload(JSON.stringify(envelope));
+      expect(result.expenses.map(expense => expense.amount)).toEqual([
+        { minor: 101, currency: 'GBP' },
+        { minor: 1251, currency: 'JPY' },
+        { minor: 30, currency: 'EUR' },
+      ]);
+      expect(result.expenses[0]).not.toHaveProperty('currency');
+    });
+
+    it('should read a current envelope without rewriting', () => {
+      const result = upgradePayload(JSON.stringify(createEnvelope([validExpense])));
+      expect(result.fromVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(result.expenses).toEqual([validExpense]);
+      expect(result.needsRewrite).toBe(false);
+    });
+
+    it('should quarantine invalid records and keep the rest', () => {
+      const result = upgradePayload(
+        JSON.stringify(createEnvelope([validExpense, { id: 'broken' }]))
+      );
+      expect(result.expenses).toHaveLength(1);
+      expect(result.quarantined).toHaveLength(1);
+      expect(result.quarantined[0].record).toEqual({ id: 'broken' });
+      expect(result.needsRewrite).toBe(true);
+    });
+
+    it('should quarantine unparseable JSON', () => {
+      const result = upgradePayload('{not json');
+      expect(result.expenses).toEqual([]);
+      expect(result.quarantined[0].record).toBe('{not json');
+      expect(result.quarantined[0].reason).toBe('Stored data is not valid JSON');
+    });
+
+    it('should not rewrite data saved by a newer schema', () => {
+      const future = { ...createEnvelope([validExpense]), schemaVersion: CURRENT_SCHEMA_VERSION + 1 };
+      const result = upgradePayload(JSON.stringify(future));
+      expect(result.expenses).toEqual([validExpense]);
+      expect(result.needsRewrite).toBe(false);
+    });
+  });
+
+  describe('storageUtils', () => {
+    beforeEach(() => {
+      localStorage.clear();
+    });
+
+    it('should rewrite legacy data as an envelope and move bad records to quarantine', () => {
+      localStorage.setItem('expense-tracker-data', JSON.stringify([legacyExpense, 42]));
+
+      expect(storageUtils.getExpenses()).toEqual([validExpense]);
+      expect(storageUtils.getQuarantine()).toHaveLength(1);
+
+      const stored = JSON.parse(localStorage.getItem('expense-tracker-data') as string);
+      expect(stored.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+      expect(stored.data).toEqual([validExpense]);
+      expect(stored.metadata.recordCount).toBe(1);
+    });
+
+    it('should only count quarantined records added since the warning was dismissed', () => {
+      localStorage.setItem('expense-tracker-data', JSON.stringify([legacyExpense, 42]));
+      storageUtils.getExpenses();
+      expect(storageUtils.getUnseenQuarantineCount()).toBe(1);
+
+      storageUtils.acknowledgeQuarantine();
+      expect(storageUtils.getUnseenQuarantineCount()).toBe(0);
+      expect(storageUtils.getQuarantine()).toHaveLength(1);
+
+      localStorage.setItem('expense-tracker-trash', '{not json');
+      storageUtils.getTrash();
+      expect(storageUtils.getUnseenQuarantineCount()).toBe(1);
+
+      storageUtils.clearQuarantine();
+      storageUtils.addToQuarantine([
+        { record: 1, reason: 'x', schemaVersion: 0, quarantinedAt: '' },
+      ]);
+      expect(storageUtils.getUnseenQuarantineCount()).toBe(1);
+    });
+
+    it('should not write over data saved by a newer schema', () => {
+      const future = JSON.stringify({
+        ...createEnvelope([{ ...validExpense, futureField: 'kept' }]),
+        schemaVersion: CURRENT_SCHEMA_VERSION + 1,
+      });
+      localStorage.setItem('expense-tracker-data', future);
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      expect(storageUtils.isReadOnly()).toBe(true);
+      storageUtils.addExpense({ ...validExpense, description: 'New' });
+
+      expect(localStorage.getItem('expense-tracker-data')).toBe(future);
+      expect(console.error).toHaveBeenCalled();
+      jest.restoreAllMocks();
+    });
+  });
+});
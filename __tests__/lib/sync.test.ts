@@ -0,0 +1,50 @@
+import { applySyncMessage, mergeExpenses } from '@/lib/sync';
+import { Expense } from '@/types/expense';
+
+const makeExpense = (id: string, updatedAt: string, amount = 10): Expense => ({
+  id,
+  date: '2025-01-15',
+  amount: { minor: amount, currency: 'GBP' },
+  categoryId: 'food',
+  description: `Expense ${id}`,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt,
+});
+
+describe('Tab Sync', () => {
+  describe('mergeExpenses', () => {
+    it('should take the incoming record when it is newer', () => {
+      const local = [makeExpense('1', '2025-01-01T10:00:00.000Z', 10)];
+      const incoming = [makeExpense('1', '2025-01-01T11:00:00.000Z', 20)];
+      expect(mergeExpenses(local, incoming)[0].amount.minor).toBe(20);
+    });
+
+    it('should keep the local record when it is newer', () => {
+      const local = [makeExpense('1', '2025-01-01T12:00:00.000Z', 10)];
+      const incoming = [makeExpense('1', '2025-01-01T11:00:00.000Z', 20)];
+      expect(mergeExpenses(local, incoming)[0].amount.minor).toBe(10);
+    });
+
+    it('should append records this tab has not seen', () => {
+      const local = [makeExpense('1', '2025-01-01T10:00:00.000Z')];
+      const incoming = [makeExpense('2', '2025-01-01T10:00:00.000Z')];
+      expect(mergeExpenses(local, incoming).map(exp => exp.id)).toEqual(['1', '2']);
+    });
+  });
+
+  describe('applySyncMessage', () => {
+    it('should remove deleted records', () => {
+      const local = [
+        makeExpense('1', '2025-01-01T10:00:00.000Z'),
+        makeExpense('2', '2025-01-01T10:00:00.000Z'),
+      ];
+      const result = applySyncMessage(local, { type: 'delete', ids: ['1'] });
+      expect(result.map(exp => exp.id)).toEqual(['2']);
+    });
+
+    it('should leave expenses untouched for reload messages', () => {
+      const local = [makeExpense('1', '2025-01-01T10:00:00.000Z')];
+      expect(applySyncMessage(local, { type: 'reload' })).toBe(local);
+    });
+  });
+});
@@ -1,4 +1,6 @@
-import { calculateSpendingSummary } from '@/utils/calculations';
+import { calculateCashFlow, calculateSpendingSummary } from '@/utils/calculations';
+import { createCategory, createDefaultCategories } from '@/lib/categories';
+import { createConversion } from '@/lib/exchangeRates';
 import { Expense } from '@/types/expense';
 
 describe('Calculation Utilities', () => {
@@ -7,8 +9,8 @@ describe('Calculation Utilities', () => {
       {
         id: '1',
         date: new Date().toISOString(),
-        amount: 50,
-        category: 'Food',
+        amount: { minor: 5000, currency: 'GBP' },
+        categoryId: 'food',
         description: 'Groceries',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -16,8 +18,8 @@ describe('Calculation Utilities', () => {
       {
         id: '2',
         date: new Date().toISOString(),
-        amount: 100,
-        category: 'Transportation',
+        amount: { minor: 10000, currency: 'GBP' },
+        categoryId: 'transportation',
         description: 'Gas',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -25,8 +27,8 @@ describe('Calculation Utilities', () => {
       {
         id: '3',
         date: new Date().toISOString(),
-        amount: 75,
-        category: 'Food',
+        amount: { minor: 7500, currency: 'GBP' },
+        categoryId: 'food',
         description: 'Restaurant',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -34,8 +36,8 @@ describe('Calculation Utilities', () => {
       {
         id: '4',
         date: '2020-01-01',
-        amount: 200,
-        category: 'Bills',
+        amount: { minor: 20000, currency: 'GBP' },
+        categoryId: 'bills',
         description: 'Old bill',
         createdAt: new Date().toISOString(),
         updatedAt: new Date().toISOString(),
@@ -44,35 +46,35 @@ describe('Calculation Utilities', () => {
 
     it('should calculate total spending correctly', () => {
       const summary = calculateSpendingSummary(mockExpenses);
-      expect(summary.totalSpending).toBe(425);
+      expect(summary.totalSpending).toBe(42500);
     });
 
     it('should calculate monthly spending (current month only)', () => {
       const summary = calculateSpendingSummary(mockExpenses);
       // Should exclude the old expense from 2020
-      expect(summary.monthlySpending).toBe(225);
+      expect(summary.monthlySpending).toBe(22500);
     });
 
     it('should create category breakdown', () => {
-      const summary = calculateSpendingSummary(mockExpenses);
-      expect(summary.categoryBreakdown.Food).toBe(125);
-      expect(summary.categoryBreakdown.Transportation).toBe(100);
-      expect(summary.categoryBreakdown.Bills).toBe(200);
-      expect(summary.categoryBreakdown.Entertainment).toBe(0);
-      expect(summary.categoryBreakdown.Shopping).toBe(0);
-      expect(summary.categoryBreakdown.Other).toBe(0);
+      const summary = calculateSpendingSummary(mockExpenses, createDefaultCategories());
+      expect(summary.categoryBreakdown.food).toBe(12500);
+      expect(summary.categoryBreakdown.transportation).toBe(10000);
+      expect(summary.categoryBreakdown.bills).toBe(20000);
+      expect(summary.categoryBreakdown.entertainment).toBe(0);
+      expect(summary.categoryBreakdown.shopping).toBe(0);
+      expect(summary.categoryBreakdown.other).toBe(0);
     });
 
     it('should identify top spending category', () => {
       const summary = calculateSpendingSummary(mockExpenses);
       expect(summary.topCategory).toEqual({
-        category: 'Bills',
-        amount: 200,
+        categoryId: 'bills',
+        amount: 20000,
       });
     });
 
     it('should handle empty expenses array', () => {
-      const summary = calculateSpendingSummary([]);
+      const summary = calculateSpendingSummary([], createDefaultCategories());
       expect(summary.totalSpending).toBe(0);
       expect(summary.monthlySpending).toBe(0);
       expect(summary.topCategory).toBeNull();
@@ -89,8 +91,8 @@ describe('Calculation Utilities', () => {
         {
           id: '1',
           date: new Date().toISOString(),
-          amount: 42,
-          category: 'Entertainment',
+          amount: { minor: 4200, currency: 'GBP' },
+          categoryId: 'entertainment',
           description: 'Movie ticket',
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -98,11 +100,11 @@ describe('Calculation Utilities', () => {
       ];
 
       const summary = calculateSpendingSummary(singleExpense);
-      expect(summary.totalSpending).toBe(42);
-      expect(summary.monthlySpending).toBe(42);
+      expect(summary.totalSpending).toBe(4200);
+      expect(summary.monthlySpending).toBe(4200);
       expect(summary.topCategory).toEqual({
-        category: 'Entertainment',
-        amount: 42,
+        categoryId: 'entertainment',
+        amount: 4200,
       });
     });
 
@@ -111,8 +113,8 @@ describe('Calculation Utilities', () => {
         {
           id: '1',
           date: new Date().toISOString(),
-          amount: 50,
-          category: 'Food',
+          amount: { minor: 5000, currency: 'GBP' },
+          categoryId: 'food',
           description: 'Lunch',
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -120,8 +122,8 @@ describe('Calculation Utilities', () => {
         {
           id: '2',
           date: new Date().toISOString(),
-          amount: 50,
-          category: 'Transportation',
+          amount: { minor: 5000, currency: 'GBP' },
+          categoryId: 'transportation',
           description: 'Bus',
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -131,7 +133,7 @@ describe('Calculation Utilities', () => {
       const summary = calculateSpendingSummary(equalExpenses);
       // Should pick the first one encountered
       expect(summary.topCategory).toBeTruthy();
-      expect(summary.topCategory?.amount).toBe(50);
+      expect(summary.topCategory?.amount).toBe(5000);
     });
 
     it('should correctly sum decimal amounts', () => {
@@ -139,8 +141,8 @@ describe('Calculation Utilities', () => {
         {
           id: '1',
           date: new Date().toISOString(),
-          amount: 10.99,
-          category: 'Food',
+          amount: { minor: 1099, currency: 'GBP' },
+          categoryId: 'food',
           description: 'Coffee',
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -148,8 +150,8 @@ describe('Calculation Utilities', () => {
         {
           id: '2',
           date: new Date().toISOString(),
-          amount: 5.50,
-          category: 'Food',
+          amount: { minor: 550, currency: 'GBP' },
+          categoryId: 'food',
           description: 'Snack',
           createdAt: new Date().toISOString(),
           updatedAt: new Date().toISOString(),
@@ -157,8 +159,213 @@ describe('Calculation Utilities', () => {
       ];
 
       const summary = calculateSpendingSummary(decimalExpenses);
-      expect(summary.totalSpending).toBeCloseTo(16.49, 2);
-      expect(summary.categoryBreakdown.Food).toBeCloseTo(16.49, 2);
+      expect(summary.totalSpending).toBe(1649);
+      expect(summary.categoryBreakdown.food).toBe(1649);
+    });
+
+    it('should not drift when summing many small amounts', () => {
+      const expenses: Expense[] = Array.from({ length: 1000 }, (_, i) => ({
+        ...mockExpenses[0],
+        id: `${i}`,
+        amount: { minor: 10, currency: 'GBP' },
+      }));
+
+      // 1000 × 0.1 as floats comes to 99.9999999999986
+      expect(calculateSpendingSummary(expenses).totalSpending).toBe(10000);
+    });
+
+    it('should roll subcategory spending up into its parents', () => {
+      const groceries = {
+        ...createCategory({ name: 'Groceries', color: 'green', icon: '🛒' }),
+        id: 'groceries',
+        parentId: 'food',
+      };
+      const categories = [...createDefaultCategories(), groceries];
+      const expenses: Expense[] = [
+        { ...mockExpenses[0], categoryId: 'groceries', amount: { minor: 12000, currency: 'GBP' } },
+        { ...mockExpenses[2], categoryId: 'food', amount: { minor: 3000, currency: 'GBP' } },
+        { ...mockExpenses[1], categoryId: 'transportation' },
+      ];
+
+      const summary = calculateSpendingSummary(expenses, categories);
+      expect(summary.categoryBreakdown.food).toBe(3000);
+      expect(summary.categoryBreakdown.groceries).toBe(12000);
+      expect(summary.categoryRollup.food).toBe(15000);
+      expect(summary.categoryRollup.groceries).toBe(12000);
+      // Only top-level categories compete for the top spot
+      expect(summary.topCategory).toEqual({ categoryId: 'food', amount: 15000 });
+    });
+
+    it('should total spending per tag, counting each tag of an expense', () => {
+      const expenses: Expense[] = [
+        { ...mockExpenses[0], tags: ['holiday-2026', 'tax-deductible'] },
+        { ...mockExpenses[1], tags: ['holiday-2026'] },
+        mockExpenses[2],
+      ];
+
+      const summary = calculateSpendingSummary(expenses);
+      expect(summary.tagBreakdown).toEqual({ 'holiday-2026': 15000, 'tax-deductible': 5000 });
+    });
+
+    it('should total spending per account, leaving out expenses with none', () => {
+      const expenses: Expense[] = [
+        { ...mockExpenses[0], accountId: 'visa' },
+        { ...mockExpenses[1], accountId: 'visa' },
+        { ...mockExpenses[2], accountId: 'cash' },
+        mockExpenses[3],
+      ];
+
+      const summary = calculateSpendingSummary(expenses);
+      expect(summary.accountBreakdown).toEqual({
+        visa: mockExpenses[0].amount.minor + mockExpenses[1].amount.minor,
+        cash: mockExpenses[2].amount.minor,
+      });
+    });
+
+    it('should credit each category of an itemised expense with its own share', () => {
+      const conversion = createConversion(
+        { base: 'GBP', rates: [{ currency: 'EUR', rate: 1.2, date: '2020-01-01' }] },
+        'GBP'
+      );
+      const receipt: Expense = {
+        ...mockExpenses[0],
+        amount: { minor: 1000, currency: 'EUR' },
+        lineItems: [
+          { id: 'a', description: 'Fruit', amount: 500, categoryId: 'food' },
+          { id: 'b', description: 'Batteries', amount: 300, categoryId: 'shopping' },
+          { id: 'c', description: 'Bread', amount: 200, categoryId: 'food' },
+        ],
+      };
+
+      const summary = calculateSpendingSummary([receipt], [], conversion);
+
+      // €10.00 is £8.33; the items' shares still add up to it exactly
+      expect(summary.totalSpending).toBe(833);
+      expect(summary.categoryBreakdown).toEqual({ food: 583, shopping: 250 });
+    });
+
+    it('should convert totals into the base currency and count what cannot be converted', () => {
+      const conversion = createConversion(
+        { base: 'GBP', rates: [{ currency: 'EUR', rate: 1.25, date: '2020-01-01' }] },
+        'GBP'
+      );
+      const expenses: Expense[] = [
+        mockExpenses[0],
+        { ...mockExpenses[1], amount: { minor: 10000, currency: 'EUR' } },
+        { ...mockExpenses[2], amount: { minor: 3000, currency: 'USD' } },
+      ];
+
+      const summary = calculateSpendingSummary(expenses, [], conversion);
+      expect(summary.totalSpending).toBe(13000);
+      expect(summary.categoryBreakdown.transportation).toBe(8000);
+      expect(summary.currencyTotals).toEqual({ GBP: 5000, EUR: 10000, USD: 3000 });
+      expect(summary.unconvertedCount).toBe(1);
+    });
+
+    it('should leave income out and take refunds off spending', () => {
+      const summary = calculateSpendingSummary(
+        [
+          ...mockExpenses,
+          { ...mockExpenses[0], id: '5', type: 'refund', amount: { minor: 2000, currency: 'GBP' } },
+          { ...mockExpenses[0], id: '6', type: 'income', categoryId: 'salary' },
+        ],
+        createDefaultCategories()
+      );
+
+      expect(summary.totalSpending).toBe(42500 - 2000);
+      expect(summary.monthlySpending).toBe(22500 - 2000);
+      expect(summary.categoryBreakdown.food).toBe(12500 - 2000);
+      expect(summary.categoryBreakdown).not.toHaveProperty('salary');
+      expect(summary.currencyTotals).toEqual({ GBP: 40500 });
+    });
+
+    it("should net linked refunds off the original's categories", () => {
+      const itemised: Expense = {
+        ...mockExpenses[0],
+        id: '5',
+        amount: { minor: 6000, currency: 'GBP' },
+        categoryId: 'food',
+        lineItems: [
+          { id: 'a', description: 'Food', amount: 4000, categoryId: 'food' },
+          { id: 'b', description: 'Bulbs', amount: 2000, categoryId: 'bills' },
+        ],
+      };
+      const summary = calculateSpendingSummary(
+        [
+          ...mockExpenses,
+          itemised,
+          {
+            ...mockExpenses[0],
+            id: '6',
+            type: 'refund',
+            refundOf: '5',
+            categoryId: 'entertainment',
+            amount: { minor: 3000, currency: 'GBP' },
+          },
+        ],
+        createDefaultCategories()
+      );
+
+      // Half of the receipt came back, so half of each item does too
+      expect(summary.categoryBreakdown.food).toBe(12500 + 4000 - 2000);
+      expect(summary.categoryBreakdown.bills).toBe(20000 + 2000 - 1000);
+      expect(summary.categoryBreakdown.entertainment).toBe(0);
+      expect(summary.totalSpending).toBe(42500 + 6000 - 3000);
+    });
+  });
+
+  describe('calculateCashFlow', () => {
+    const transaction = (
+      id: string,
+      date: string,
+      minor: number,
+      type?: Expense['type']
+    ): Expense => ({
+      id,
+      date,
+      amount: { minor, currency: 'GBP' },
+      ...(type ? { type } : {}),
+      categoryId: type === 'income' ? 'salary' : 'food',
+      description: `Transaction ${id}`,
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+    });
+
+    it('should total income, spending and net savings per month, oldest first', () => {
+      const months = calculateCashFlow(
+        [
+          transaction('1', '2026-09-28', 300000, 'income'),
+          transaction('2', '2026-09-30', 120000),
+          transaction('3', '2026-10-02', 50000),
+          transaction('4', '2026-10-05', 10000, 'refund'),
+          transaction('5', '2026-01-15', 99999),
+        ],
+        undefined,
+        3,
+        new Date(2026, 9, 18)
+      );
+
+      expect(months).toEqual([
+        { month: '2026-08', income: 0, spending: 0, net: 0, savingsRate: null },
+        { month: '2026-09', income: 300000, spending: 120000, net: 180000, savingsRate: 0.6 },
+        { month: '2026-10', income: 0, spending: 40000, net: -40000, savingsRate: null },
+      ]);
+    });
+
+    it('should leave out transactions with no exchange rate', () => {
+      const conversion = createConversion({ base: 'GBP', rates: [] }, 'GBP');
+      const [month] = calculateCashFlow(
+        [
+          transaction('1', '2026-10-01', 200000, 'income'),
+          { ...transaction('2', '2026-10-02', 5000), amount: { minor: 5000, currency: 'EUR' } },
+          transaction('3', '2026-10-03', 50000),
+        ],
+        conversion,
+        1,
+        new Date(2026, 9, 18)
+      );
+
+      expect(month).toMatchObject({ income: 200000, spending: 50000, savingsRate: 0.75 });
     });
   });
 });
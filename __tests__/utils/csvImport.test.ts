@@ -0,0 +1,248 @@
+import {
+  autoMapColumns,
+  buildImportRows,
+  detectDelimiter,
+  detectHeaderRow,
+  parseCSV,
+  parseImportDate,
+} from '@/utils/csvImport';
+import { buildCSV } from '@/utils/export';
+import { createDefaultCategories } from '@/lib/categories';
+import { createConversion } from '@/lib/exchangeRates';
+import { createTranslator } from '@/lib/i18n';
+import { Expense } from '@/types/expense';
+
+describe('CSV Import Utilities', () => {
+  describe('parseCSV', () => {
+    it('should split rows and cells', () => {
+      expect(parseCSV('a,b\nc,d', ',')).toEqual([
+        ['a', 'b'],
+        ['c', 'd'],
+      ]);
+    });
+
+    it('should handle quoted cells with delimiters, escaped quotes and newlines', () => {
+      expect(parseCSV('"x, y","say ""hi""","line\nbreak"', ',')).toEqual([
+        ['x, y', 'say "hi"', 'line\nbreak'],
+      ]);
+    });
+
+    it('should handle CRLF line endings and skip blank lines', () => {
+      expect(parseCSV('a;b\r\n\r\nc;d\r\n', ';')).toEqual([
+        ['a', 'b'],
+        ['c', 'd'],
+      ]);
+    });
+  });
+
+  describe('detectDelimiter', () => {
+    it('should detect common delimiters', () => {
+      expect(detectDelimiter('Date,Amount\n01/01/2025,5')).toBe(',');
+      expect(detectDelimiter('Date;Amount;Memo\n01/01/2025;5,50;Coffee')).toBe(';');
+      expect(detectDelimiter('Date\tAmount\n01/01/2025\t5')).toBe('\t');
+    });
+  });
+
+  describe('detectHeaderRow', () => {
+    it('should recognise known column names', () => {
+      expect(detectHeaderRow([['Transaction Date', 'Paid out', 'Narrative']])).toBe(true);
+    });
+
+    it('should treat a first row of data as not a header', () => {
+      expect(detectHeaderRow([['01/02/2025', '12.50', 'Coffee']])).toBe(false);
+    });
+  });
+
+  describe('autoMapColumns', () => {
+    it('should map headers to expense fields by name', () => {
+      expect(autoMapColumns(['Description', 'Date', 'Amount (GBP)', 'Category'])).toEqual({
+        date: 1,
+        amount: 2,
+        currency: null,
+        category: 3,
+        description: 0,
+        type: null,
+      });
+    });
+
+    it('should leave unknown columns unmapped', () => {
+      expect(autoMapColumns(['Foo', 'Amount']).date).toBeNull();
+    });
+  });
+
+  describe('parseImportDate', () => {
+    it('should parse the supported formats', () => {
+      expect(parseImportDate('2025-01-15', 'auto')).toBe('2025-01-15');
+      expect(parseImportDate('15/01/2025', 'auto')).toBe('2025-01-15');
+      expect(parseImportDate('15.01.2025', 'auto')).toBe('2025-01-15');
+      expect(parseImportDate('15 Jan 2025', 'auto')).toBe('2025-01-15');
+    });
+
+    it('should prefer day-first in auto mode and honour an explicit format', () => {
+      expect(parseImportDate('02/03/2025', 'auto')).toBe('2025-03-02');
+      expect(parseImportDate('02/03/2025', 'MM/dd/yyyy')).toBe('2025-02-03');
+    });
+
+    it('should return null for unparseable dates', () => {
+      expect(parseImportDate('yesterday', 'auto')).toBeNull();
+      expect(parseImportDate('', 'auto')).toBeNull();
+    });
+  });
+
+  describe('buildImportRows', () => {
+    const options = {
+      mapping: { date: 0, amount: 1, currency: null, category: 2, description: 3, type: null },
+      hasHeader: true,
+      dateFormat: 'auto' as const,
+      categories: createDefaultCategories(),
+      defaultCategoryId: 'other',
+      defaultCurrency: 'GBP',
+    };
+
+    it('should validate each row and report errors per row', () => {
+      const rows = buildImportRows(
+        [
+          ['Date', 'Amount', 'Category', 'Description'],
+          ['15/01/2025', '£12.50', 'food', 'Lunch'],
+          ['someday', '0', 'Pets', ''],
+        ],
+        options
+      );
+
+      expect(rows[0]).toEqual({
+        rowNumber: 2,
+        formData: {
+          date: '2025-01-15',
+          amount: '12.50',
+          currency: 'GBP',
+          categoryId: 'food',
+          description: 'Lunch',
+          tags: [],
+        },
+        errors: {},
+      });
+      expect(rows[1].rowNumber).toBe(3);
+      expect(rows[1].errors.date).toBe('Unrecognised date "someday"');
+      expect(rows[1].errors.amount).toBe('Amount must be a positive number');
+      expect(rows[1].errors.categoryId).toBe('Unknown category "Pets"');
+      expect(rows[1].errors.description).toBe('Description is required');
+    });
+
+    it('should read a currency column and reject unknown codes', () => {
+      const rows = buildImportRows(
+        [
+          ['15/01/2025', '5', 'usd', 'food', 'Coffee'],
+          ['15/01/2025', '5', 'dollars', 'food', 'Coffee'],
+        ],
+        {
+          ...options,
+          hasHeader: false,
+          mapping: { date: 0, amount: 1, currency: 2, category: 3, description: 4, type: null },
+        }
+      );
+
+      expect(rows[0].formData.currency).toBe('USD');
+      expect(rows[1].errors.currency).toBe('Unrecognised currency "DOLLARS"');
+    });
+
+    it('should read amounts in the given locale and drop the sign of money out', () => {
+      const rows = buildImportRows(
+        [
+          ['15/01/2025', '1.234,56 €', 'food', 'Dinner'],
+          ['15/01/2025', '-12,50', 'food', 'Coffee'],
+        ],
+        { ...options, hasHeader: false, defaultCurrency: 'EUR', locale: 'de-DE' }
+      );
+
+      expect(rows.map(row => row.formData.amount)).toEqual(['1234.56', '12.50']);
+      expect(rows.every(row => Object.keys(row.errors).length === 0)).toBe(true);
+    });
+
+    it('should read transaction types, filing uncategorised income as other income', () => {
+      const rows = buildImportRows(
+        [
+          ['15/01/2025', '5', '', 'Bus', ''],
+          ['16/01/2025', '900', '', 'Invoice 12', 'Income'],
+          ['17/01/2025', '5', '', 'Bus', 'transfer'],
+        ],
+        { ...options, hasHeader: false, mapping: { ...options.mapping, category: null, type: 4 } }
+      );
+
+      expect(rows[0].formData).not.toHaveProperty('type');
+      expect(rows[1].formData).toMatchObject({ type: 'income', categoryId: 'other-income' });
+      expect(rows[2].errors.type).toBe('Unknown transaction type "transfer"');
+    });
+
+    it('should use the default category when there is no category column', () => {
+      const rows = buildImportRows([['15/01/2025', '5', '', 'Bus']], {
+        ...options,
+        hasHeader: false,
+        mapping: { ...options.mapping, category: null },
+      });
+      expect(rows[0].formData.categoryId).toBe('other');
+    });
+
+    it('should report row errors in the given language', () => {
+      const rows = buildImportRows(
+        [['someday', '5', '', 'Bus']],
+        { ...options, hasHeader: false, mapping: { ...options.mapping, category: null } },
+        createTranslator('de')
+      );
+      expect(rows[0].errors.date).toBe('Unbekanntes Datum „someday“');
+    });
+
+    it('should round-trip the app\'s own CSV export with no manual mapping', () => {
+      const expenses: Expense[] = [
+        {
+          id: '1',
+          date: '2025-01-15',
+          amount: { minor: 1250, currency: 'EUR' },
+          categoryId: 'food',
+          description: 'Lunch, with "friends"',
+          createdAt: '2025-01-15T10:00:00.000Z',
+          updatedAt: '2025-01-15T10:00:00.000Z',
+        },
+        {
+          id: '2',
+          type: 'income',
+          date: '2025-01-31',
+          amount: { minor: 250000, currency: 'GBP' },
+          categoryId: 'salary',
+          description: 'January salary',
+          createdAt: '2025-01-31T10:00:00.000Z',
+          updatedAt: '2025-01-31T10:00:00.000Z',
+        },
+      ];
+
+      const categories = createDefaultCategories();
+      const conversion = createConversion(
+        { base: 'GBP', rates: [{ currency: 'EUR', rate: 1.25, date: '2025-01-01' }] },
+        'GBP'
+      );
+      const csv = buildCSV(expenses, categories, conversion);
+      const delimiter = detectDelimiter(csv);
+      const parsed = parseCSV(csv, delimiter);
+      const hasHeader = detectHeaderRow(parsed);
+      const rows = buildImportRows(parsed, {
+        mapping: autoMapColumns(parsed[0]),
+        hasHeader,
+        dateFormat: 'auto',
+        categories,
+        defaultCategoryId: 'other',
+        defaultCurrency: 'GBP',
+      });
+
+      expect(rows).toHaveLength(2);
+      expect(rows[0].errors).toEqual({});
+      expect(rows[1].formData).toMatchObject({ type: 'income', categoryId: 'salary' });
+      expect(rows[0].formData).toEqual({
+        date: '2025-01-15',
+        amount: '12.50',
+        currency: 'EUR',
+        categoryId: 'food',
+        description: 'Lunch, with "friends"',
+        tags: [],
+      });
+    });
+  });
+});
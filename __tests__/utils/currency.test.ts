@@ -1,7 +1,22 @@
-import { formatCurrency, parseCurrency } from '@/utils/currency';
+import {
+  currencyDecimals,
+  formatAmountInput,
+  formatCurrency,
+  formatMoney,
+  normaliseAmount,
+  parseCurrency,
+  parseMoney,
+  toDecimalString,
+  toMinorUnits,
+} from '@/utils/currency';
 
 describe('Currency Utilities', () => {
   describe('formatCurrency', () => {
+    it('should follow the given locale', () => {
+      expect(formatCurrency(1234.56, 'EUR', 'de-DE')).toBe('1.234,56\u00a0€');
+      expect(formatCurrency(1234.56, 'USD', 'en-US')).toBe('$1,234.56');
+    });
+
     it('should format positive numbers as GBP currency', () => {
       expect(formatCurrency(100)).toBe('£100.00');
       expect(formatCurrency(1234.56)).toBe('£1,234.56');
@@ -40,10 +55,15 @@ describe('Currency Utilities', () => {
       expect(parseCurrency('123.45')).toBe(123.45);
     });
 
-    it('should remove non-numeric characters except decimal point', () => {
+    it('should ignore currency symbols and codes but keep the sign', () => {
       expect(parseCurrency('£1,234.56')).toBe(1234.56);
       expect(parseCurrency('GBP 500')).toBe(500);
-      expect(parseCurrency('£-50.00')).toBe(50);
+      expect(parseCurrency('£-50.00')).toBe(-50);
+    });
+
+    it('should read amounts in the given locale', () => {
+      expect(parseCurrency('1.234,56 €', 'de-DE')).toBe(1234.56);
+      expect(parseCurrency('12,50', 'fr-FR')).toBe(12.5);
     });
 
     it('should return 0 for invalid input', () => {
@@ -62,4 +82,114 @@ describe('Currency Utilities', () => {
       expect(parseCurrency('.99')).toBe(0.99);
     });
   });
+
+  describe('currencyDecimals', () => {
+    it("should follow each currency's minor unit", () => {
+      expect(currencyDecimals('GBP')).toBe(2);
+      expect(currencyDecimals('JPY')).toBe(0);
+      expect(currencyDecimals('KWD')).toBe(3);
+    });
+
+    it('should fall back to two places for unknown codes', () => {
+      expect(currencyDecimals('not a code')).toBe(2);
+    });
+  });
+
+  describe('toMinorUnits', () => {
+    it('should round half away from zero without float error', () => {
+      expect(toMinorUnits(1.005, 'GBP')).toBe(101);
+      expect(toMinorUnits(-1.005, 'GBP')).toBe(-101);
+      expect(toMinorUnits(0.1 + 0.2, 'GBP')).toBe(30);
+    });
+
+    it("should round to the currency's precision", () => {
+      expect(toMinorUnits(1250.5, 'JPY')).toBe(1251);
+      expect(toMinorUnits(1.2345, 'KWD')).toBe(1235);
+    });
+  });
+
+  describe('parseMoney', () => {
+    it('should parse plain decimals exactly', () => {
+      expect(parseMoney('12.50', 'GBP')).toEqual({ minor: 1250, currency: 'GBP' });
+      expect(parseMoney('.5', 'GBP')).toEqual({ minor: 50, currency: 'GBP' });
+      expect(parseMoney('-3', 'GBP')).toEqual({ minor: -300, currency: 'GBP' });
+      expect(parseMoney('1250', 'JPY')).toEqual({ minor: 1250, currency: 'JPY' });
+    });
+
+    it('should round extra digits half away from zero', () => {
+      expect(parseMoney('12.345', 'GBP')?.minor).toBe(1235);
+      expect(parseMoney('12.344', 'GBP')?.minor).toBe(1234);
+    });
+
+    it('should reject anything that is not a plain number', () => {
+      expect(parseMoney('', 'GBP')).toBeNull();
+      expect(parseMoney('.', 'GBP')).toBeNull();
+      expect(parseMoney('£12', 'GBP')).toBeNull();
+      expect(parseMoney('1e3', 'GBP')).toBeNull();
+    });
+  });
+
+  describe('toDecimalString and formatMoney', () => {
+    it("should write minor units with the currency's full precision", () => {
+      expect(toDecimalString({ minor: 1250, currency: 'GBP' })).toBe('12.50');
+      expect(toDecimalString({ minor: 5, currency: 'GBP' })).toBe('0.05');
+      expect(toDecimalString({ minor: -5, currency: 'GBP' })).toBe('-0.05');
+      expect(toDecimalString({ minor: 1250, currency: 'JPY' })).toBe('1250');
+    });
+
+    it('should format minor units as currency', () => {
+      expect(formatMoney({ minor: 123456, currency: 'GBP' })).toBe('£1,234.56');
+      expect(formatMoney({ minor: 1250, currency: 'JPY' })).toBe('JP¥1,250');
+    });
+  });
+
+  describe('normaliseAmount', () => {
+    it('should handle grouping and decimal marks for the locale', () => {
+      expect(normaliseAmount('1.234,56', 'de-DE')).toBe('1234.56');
+      expect(normaliseAmount('1,234.56', 'en-GB')).toBe('1234.56');
+      expect(normaliseAmount('1\u202f234,56\u00a0€', 'fr-FR')).toBe('1234.56');
+      expect(normaliseAmount("CHF 1'234.50", 'de-CH')).toBe('1234.50');
+    });
+
+    it('should use the locale to settle a lone mark before three digits', () => {
+      expect(normaliseAmount('1,234', 'en-GB')).toBe('1234');
+      expect(normaliseAmount('1,234', 'de-DE')).toBe('1.234');
+      expect(normaliseAmount('1.234', 'de-DE')).toBe('1234');
+      expect(normaliseAmount('12,50', 'en-GB')).toBe('12.50');
+    });
+
+    it('should take whichever mark comes last as the decimal one', () => {
+      expect(normaliseAmount('1.234,56', 'en-GB')).toBe('1234.56');
+      expect(normaliseAmount('1,234,567.8', 'de-DE')).toBe('1234567.8');
+    });
+
+    it('should accept symbols before or after the number', () => {
+      expect(normaliseAmount('£12.50')).toBe('12.50');
+      expect(normaliseAmount('12,50 €', 'de-DE')).toBe('12.50');
+      expect(normaliseAmount('12.50 GBP')).toBe('12.50');
+    });
+
+    it('should read negatives written with a sign or parentheses', () => {
+      expect(normaliseAmount('-£12.50')).toBe('-12.50');
+      expect(normaliseAmount('£-12.50')).toBe('-12.50');
+      expect(normaliseAmount('12.50-')).toBe('-12.50');
+      expect(normaliseAmount('\u221212,50 €', 'de-DE')).toBe('-12.50');
+      expect(normaliseAmount('(1,234.56)')).toBe('-1234.56');
+      expect(normaliseAmount('-0')).toBe('0');
+    });
+
+    it('should return null when there is no number', () => {
+      expect(normaliseAmount('')).toBeNull();
+      expect(normaliseAmount('£')).toBeNull();
+      expect(normaliseAmount('-.')).toBeNull();
+    });
+  });
+
+  describe('formatAmountInput', () => {
+    it("should write the locale's decimal mark without grouping or symbol", () => {
+      expect(formatAmountInput({ minor: 123450, currency: 'EUR' }, 'de-DE')).toBe('1234,50');
+      expect(formatAmountInput({ minor: 123450, currency: 'GBP' }, 'en-GB')).toBe('1234.50');
+      expect(formatAmountInput({ minor: 1250, currency: 'JPY' }, 'en-GB')).toBe('1250');
+    });
+  });
 });
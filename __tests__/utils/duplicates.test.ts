@@ -0,0 +1,117 @@
+import {
+  descriptionSimilarity,
+  findDuplicateGroups,
+  findDuplicatesOf,
+  groupPairKeys,
+  isLikelyDuplicate,
+  mergeDuplicateGroup,
+  pairKey,
+} from '@/utils/duplicates';
+import { Expense } from '@/types/expense';
+
+const makeExpense = (id: string, overrides: Partial<Expense> = {}): Expense => ({
+  id,
+  date: '2025-01-15',
+  amount: { minor: 1250, currency: 'GBP' },
+  categoryId: 'food',
+  description: 'Tesco groceries',
+  createdAt: `2025-01-15T10:00:0${id}.000Z`,
+  updatedAt: `2025-01-15T10:00:0${id}.000Z`,
+  ...overrides,
+});
+
+describe('Duplicate Detection', () => {
+  describe('descriptionSimilarity', () => {
+    it('should ignore case and punctuation', () => {
+      expect(descriptionSimilarity('Tesco, Groceries!', 'tesco groceries')).toBe(1);
+    });
+
+    it('should treat a contained description as similar', () => {
+      expect(descriptionSimilarity('TESCO STORES 1234', 'Tesco')).toBeGreaterThanOrEqual(0.6);
+    });
+
+    it('should score unrelated descriptions low', () => {
+      expect(descriptionSimilarity('Cinema tickets', 'Electricity bill')).toBeLessThan(0.3);
+    });
+
+    it('should compare descriptions in any script', () => {
+      expect(descriptionSimilarity('寿司', 'ラーメン')).toBe(0);
+      expect(descriptionSimilarity('Café Noir', 'café noir')).toBe(1);
+      expect(descriptionSimilarity('★★', '!!')).toBe(0);
+    });
+  });
+
+  describe('isLikelyDuplicate', () => {
+    it('should match same amount, close dates and similar description', () => {
+      expect(
+        isLikelyDuplicate(makeExpense('1'), makeExpense('2', { date: '2025-01-17' }))
+      ).toBe(true);
+    });
+
+    it('should not match different amounts or distant dates', () => {
+      const differentAmount = makeExpense('2', { amount: { minor: 1251, currency: 'GBP' } });
+      const differentCurrency = makeExpense('3', { amount: { minor: 1250, currency: 'EUR' } });
+
+      expect(isLikelyDuplicate(makeExpense('1'), differentAmount)).toBe(false);
+      expect(isLikelyDuplicate(makeExpense('1'), differentCurrency)).toBe(false);
+      expect(isLikelyDuplicate(makeExpense('1'), makeExpense('2', { date: '2025-01-25' }))).toBe(
+        false
+      );
+    });
+  });
+
+  describe('findDuplicatesOf', () => {
+    it('should skip the expense being edited', () => {
+      const expenses = [makeExpense('1'), makeExpense('2')];
+
+      expect(findDuplicatesOf(expenses[0], expenses, '1').map(exp => exp.id)).toEqual(['2']);
+    });
+  });
+
+  describe('findDuplicateGroups', () => {
+    it('should group chains of duplicates and leave others out', () => {
+      const expenses = [
+        makeExpense('1'),
+        makeExpense('2', { date: '2025-01-16' }),
+        makeExpense('3', { date: '2025-01-18' }),
+        makeExpense('4', { description: 'Train ticket' }),
+      ];
+
+      const groups = findDuplicateGroups(expenses, new Set());
+
+      expect(groups).toHaveLength(1);
+      expect(groups[0].expenses.map(exp => exp.id)).toEqual(['1', '2', '3']);
+    });
+
+    it('should skip dismissed pairs', () => {
+      const expenses = [makeExpense('1'), makeExpense('2')];
+
+      expect(findDuplicateGroups(expenses, new Set([pairKey('2', '1')]))).toEqual([]);
+    });
+  });
+
+  describe('groupPairKeys', () => {
+    it('should list every pair in the group', () => {
+      const [group] = findDuplicateGroups(
+        [makeExpense('1'), makeExpense('2'), makeExpense('3')],
+        new Set()
+      );
+
+      expect(groupPairKeys(group)).toEqual(['1|2', '1|3', '2|3']);
+    });
+  });
+
+  describe('mergeDuplicateGroup', () => {
+    it('should keep the chosen expense and carry over a bank reference', () => {
+      const [group] = findDuplicateGroups(
+        [makeExpense('1'), makeExpense('2', { externalId: 'ofx:1:A' })],
+        new Set()
+      );
+
+      const { merged, removedIds } = mergeDuplicateGroup(group.expenses[0], group);
+
+      expect(merged).toEqual({ ...makeExpense('1'), externalId: 'ofx:1:A' });
+      expect(removedIds).toEqual(['2']);
+    });
+  });
+});
@@ -0,0 +1,42 @@
+import { buildCSV } from '@/utils/export';
+import { parseCSV } from '@/utils/csvImport';
+import { createCategory } from '@/lib/categories';
+import { createConversion } from '@/lib/exchangeRates';
+import { Expense } from '@/types/expense';
+
+const conversion = createConversion({ base: 'GBP', rates: [] }, 'GBP');
+
+const expense: Expense = {
+  id: '1',
+  date: '2025-01-15',
+  amount: { minor: 1250, currency: 'GBP' },
+  categoryId: 'drinks',
+  description: 'Team lunch',
+  createdAt: '2025-01-15T10:00:00.000Z',
+  updatedAt: '2025-01-15T10:00:00.000Z',
+};
+
+describe('Export Utilities', () => {
+  describe('buildCSV', () => {
+    it('should quote category names with commas and quotes', () => {
+      const category = {
+        ...createCategory({ name: 'Food, "Drink"', color: 'orange', icon: '🍹' }),
+        id: 'drinks',
+      };
+      const csv = buildCSV([expense], [category], conversion);
+
+      expect(csv.split('\n')[1]).toBe(
+        '15/01/2025,Expense,"Food, ""Drink""",12.50,GBP,12.50,"Team lunch"'
+      );
+      expect(parseCSV(csv, ',')[1]).toEqual([
+        '15/01/2025',
+        'Expense',
+        'Food, "Drink"',
+        '12.50',
+        'GBP',
+        '12.50',
+        'Team lunch',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,48 @@
+import {
+  formatDate,
+  formatDateTime,
+  formatFileSize,
+  formatMonth,
+  isSupportedLocale,
+} from '@/utils/locale';
+
+describe('Locale Utilities', () => {
+  describe('formatDate', () => {
+    it('should format dates in the given locale', () => {
+      expect(formatDate('2025-01-15', 'en-GB')).toBe('15 Jan 2025');
+      expect(formatDate('2025-01-15', 'en-US')).toBe('Jan 15, 2025');
+      expect(formatDate('2025-01-15', 'de-DE')).toBe('15. Jan. 2025');
+    });
+
+    it('should read date-only strings as local dates', () => {
+      expect(formatDate('2025-01-01', 'en-GB')).toBe('1 Jan 2025');
+    });
+  });
+
+  describe('formatDateTime', () => {
+    it('should include the time', () => {
+      expect(formatDateTime(new Date(2025, 0, 15, 9, 5), 'en-GB')).toBe('15 Jan 2025, 09:05');
+    });
+  });
+
+  describe('formatMonth', () => {
+    it('should show the month and year in the given locale', () => {
+      expect(formatMonth('2026-10', 'en-GB')).toBe('Oct 2026');
+      expect(formatMonth('2026-10', 'de-DE')).toBe('Okt. 2026');
+    });
+  });
+
+  describe('formatFileSize', () => {
+    it('should use kilobytes for small files and megabytes for large ones', () => {
+      expect(formatFileSize(84_200, 'en-GB')).toBe('84 kB');
+      expect(formatFileSize(2_450_000, 'de-DE')).toBe('2,5 MB');
+    });
+  });
+
+  describe('isSupportedLocale', () => {
+    it('should only accept locales offered in settings', () => {
+      expect(isSupportedLocale('de-DE')).toBe(true);
+      expect(isSupportedLocale('xx-YY')).toBe(false);
+    });
+  });
+});
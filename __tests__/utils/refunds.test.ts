@@ -0,0 +1,107 @@
+import { refundsByOriginal, summariseRefunds, withRefundedCategories } from '@/utils/refunds';
+import { Expense } from '@/types/expense';
+
+const makeExpense = (id: string, minor: number, overrides: Partial<Expense> = {}): Expense => ({
+  id,
+  date: '2025-03-01',
+  amount: { minor, currency: 'GBP' },
+  categoryId: 'clothing',
+  description: `Expense ${id}`,
+  createdAt: '2025-03-01T00:00:00.000Z',
+  updatedAt: '2025-03-01T00:00:00.000Z',
+  ...overrides,
+});
+
+const refund = (id: string, minor: number, date: string, refundOf = 'shoes'): Expense =>
+  makeExpense(id, minor, { type: 'refund', refundOf, date, categoryId: 'other' });
+
+const original = makeExpense('shoes', 12000);
+
+describe('Refund Utilities', () => {
+  describe('refundsByOriginal', () => {
+    it('should group linked refunds by the expense they refund', () => {
+      const first = refund('r1', 3000, '2025-03-05');
+      const other = refund('r2', 500, '2025-03-06', 'coat');
+      const linked = refundsByOriginal([
+        original,
+        first,
+        other,
+        refund('r3', 100, '2025-03-07'),
+        makeExpense('r4', 100, { type: 'refund' }),
+      ]);
+
+      expect(linked.get('shoes')?.map(expense => expense.id)).toEqual(['r1', 'r3']);
+      expect(linked.get('coat')).toEqual([other]);
+      expect(linked.size).toBe(2);
+    });
+
+    it('should ignore links on records that are not refunds', () => {
+      expect(refundsByOriginal([makeExpense('x', 100, { refundOf: 'shoes' })]).size).toBe(0);
+    });
+  });
+
+  describe('summariseRefunds', () => {
+    it('should report an expense with no refunds as not refunded', () => {
+      expect(summariseRefunds(original)).toEqual({
+        refunds: [],
+        refunded: 0,
+        net: 12000,
+        status: 'none',
+      });
+    });
+
+    it('should add up partial refunds, oldest first', () => {
+      const later = refund('r2', 2000, '2025-03-20');
+      const earlier = refund('r1', 3000, '2025-03-05');
+      const summary = summariseRefunds(original, [later, earlier]);
+
+      expect(summary.refunds).toEqual([earlier, later]);
+      expect(summary).toMatchObject({ refunded: 5000, net: 7000, status: 'partial' });
+    });
+
+    it('should mark an expense refunded in full', () => {
+      expect(summariseRefunds(original, [refund('r1', 12000, '2025-03-05')])).toMatchObject({
+        net: 0,
+        status: 'full',
+      });
+    });
+
+    it('should leave out refunds in another currency', () => {
+      const euros = {
+        ...refund('r1', 3000, '2025-03-05'),
+        amount: { minor: 3000, currency: 'EUR' },
+      };
+
+      expect(summariseRefunds(original, [euros])).toMatchObject({ refunded: 0, status: 'none' });
+    });
+  });
+
+  describe('withRefundedCategories', () => {
+    it("should give linked refunds the original's category and items", () => {
+      const itemised = makeExpense('shop', 5000, {
+        lineItems: [
+          { id: 'a', description: 'Shirt', amount: 3000, categoryId: 'clothing' },
+          { id: 'b', description: 'Soap', amount: 2000, categoryId: 'household' },
+        ],
+      });
+      const [, linked] = withRefundedCategories([
+        itemised,
+        refund('r1', 1000, '2025-03-05', 'shop'),
+      ]);
+
+      expect(linked.categoryId).toBe('clothing');
+      expect(linked.lineItems).toEqual(itemised.lineItems);
+    });
+
+    it('should leave unlinked refunds and refunds of missing expenses alone', () => {
+      const unlinked = makeExpense('r1', 100, { type: 'refund', categoryId: 'other' });
+      const orphaned = refund('r2', 100, '2025-03-05', 'deleted');
+
+      expect(withRefundedCategories([original, unlinked, orphaned])).toEqual([
+        original,
+        unlinked,
+        orphaned,
+      ]);
+    });
+  });
+});
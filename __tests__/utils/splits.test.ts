@@ -0,0 +1,91 @@
+import {
+  allocate,
+  categoryShares,
+  primaryCategoryId,
+  splitAmounts,
+  toExpenseSplit,
+  toSplitFormData,
+} from '@/utils/splits';
+import { LineItem } from '@/types/expense';
+
+const items: LineItem[] = [
+  { id: 'a', description: 'Vegetables', amount: 1200, categoryId: 'food' },
+  { id: 'b', description: 'Light bulbs', amount: 800, categoryId: 'shopping' },
+];
+
+describe('Splitting expenses', () => {
+  describe('allocate', () => {
+    it('should always add up to the total, giving leftovers to the largest remainders', () => {
+      expect(allocate(100, [1, 1, 1])).toEqual([34, 33, 33]);
+      expect(allocate(1000, [1, 2, 2])).toEqual([200, 400, 400]);
+      expect(allocate(5, [10, 60, 30])).toEqual([1, 3, 1]);
+    });
+
+    it('should handle negative totals and weights that sum to zero', () => {
+      expect(allocate(-100, [1, 1, 1])).toEqual([-34, -33, -33]);
+      expect(allocate(10, [0, 0])).toEqual([5, 5]);
+      expect(allocate(10, [])).toEqual([]);
+    });
+  });
+
+  describe('categoryShares', () => {
+    it('should put the whole amount in the category of an expense without items', () => {
+      expect(categoryShares({ categoryId: 'bills' }, 4200)).toEqual([
+        { categoryId: 'bills', amount: 4200 },
+      ]);
+    });
+
+    it('should share a converted total in proportion to the items', () => {
+      expect(categoryShares({ categoryId: 'food', lineItems: items }, 1667)).toEqual([
+        { categoryId: 'food', amount: 1000 },
+        { categoryId: 'shopping', amount: 667 },
+      ]);
+    });
+  });
+
+  describe('splitAmounts', () => {
+    it('should split equally, by percentage or by the exact amounts', () => {
+      const people = ['Ana', 'Ben', 'Cat'];
+      const split = (method: 'equal' | 'percentage' | 'exact', values: number[]) =>
+        splitAmounts(
+          { method, shares: people.map((person, i) => ({ person, value: values[i] })) },
+          10000
+        ).map(share => share.amount);
+
+      expect(split('equal', [1, 1, 1])).toEqual([3334, 3333, 3333]);
+      expect(split('percentage', [50, 25, 25])).toEqual([5000, 2500, 2500]);
+      expect(split('exact', [7000, 2000, 1000])).toEqual([7000, 2000, 1000]);
+    });
+  });
+
+  describe('primaryCategoryId', () => {
+    it('should pick the category of the largest item', () => {
+      expect(primaryCategoryId(items, 'other')).toBe('food');
+      expect(primaryCategoryId([], 'other')).toBe('other');
+    });
+  });
+
+  describe('form conversion', () => {
+    it('should round-trip a split through its form fields', () => {
+      const split = toExpenseSplit(
+        {
+          method: 'exact',
+          shares: [
+            { person: ' Ana ', value: '12.50' },
+            { person: 'Ben', value: '7.50' },
+          ],
+        },
+        'GBP'
+      );
+
+      expect(split.shares).toEqual([
+        { person: 'Ana', value: 1250 },
+        { person: 'Ben', value: 750 },
+      ]);
+      expect(toSplitFormData(split, 'GBP', 'de-DE').shares[0]).toEqual({
+        person: 'Ana',
+        value: '12,50',
+      });
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  detectStatementFormat,
+  parseCAMT053,
+  parseOFX,
+  parseQIF,
+  parseStatement,
+} from '@/utils/statementImport';
+
+const OFX_SGML = `OFXHEADER:100
+DATA:OFXSGML
+VERSION:102
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<CURDEF>EUR
+<BANKACCTFROM><BANKID>123456<ACCTID>12345678<ACCTTYPE>CHECKING</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20250115120000.000[0:GMT]
+<TRNAMT>-12.50
+<FITID>202501150001
+<NAME>TESCO STORES
+<MEMO>Card purchase
+</STMTTRN>
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20250116
+<TRNAMT>1500.00
+<FITID>202501160001
+<NAME>SALARY
+</STMTTRN>
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+const QIF = `!Type:Bank
+D15/01/2025
+T-12.50
+PTesco Stores
+MGroceries
+^
+D16/01/2025
+T-3.20
+PCoffee Shop
+^
+D16/01/2025
+T-3.20
+PCoffee Shop
+^
+D17/01/2025
+T1,500.00
+PSalary
+^
+`;
+
+const CAMT = `<?xml version="1.0" encoding="UTF-8"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02">
+  <BkToCstmrStmt>
+    <Stmt>
+      <Id>STMT-1</Id>
+      <Acct><Id><IBAN>GB29NWBK60161331926819</IBAN></Id></Acct>
+      <Ntry>
+        <Amt Ccy="GBP">42.00</Amt>
+        <CdtDbtInd>DBIT</CdtDbtInd>
+        <BookgDt><Dt>2025-01-20</Dt></BookgDt>
+        <AcctSvcrRef>REF-001</AcctSvcrRef>
+        <NtryDtls><TxDtls>
+          <RltdPties><Cdtr><Nm>Energy Co</Nm></Cdtr></RltdPties>
+          <RmtInf><Ustrd>January bill</Ustrd></RmtInf>
+        </TxDtls></NtryDtls>
+      </Ntry>
+      <Ntry>
+        <Amt Ccy="GBP">10.00</Amt>
+        <CdtDbtInd>CRDT</CdtDbtInd>
+        <BookgDt><Dt>2025-01-21</Dt></BookgDt>
+        <AcctSvcrRef>REF-002</AcctSvcrRef>
+      </Ntry>
+    </Stmt>
+  </BkToCstmrStmt>
+</Document>`;
+
+describe('Statement Import Utilities', () => {
+  describe('detectStatementFormat', () => {
+    it('should detect each format from its content', () => {
+      expect(detectStatementFormat(OFX_SGML)).toBe('ofx');
+      expect(detectStatementFormat(QIF)).toBe('qif');
+      expect(detectStatementFormat(CAMT)).toBe('camt053');
+    });
+
+    it('should fall back to the file extension', () => {
+      expect(detectStatementFormat('', 'export.qfx')).toBe('ofx');
+      expect(detectStatementFormat('', 'notes.txt')).toBeNull();
+    });
+  });
+
+  describe('parseOFX', () => {
+    it('should read SGML transactions with their FITID', () => {
+      const statement = parseOFX(OFX_SGML);
+
+      expect(statement.accountId).toBe('12345678');
+      expect(statement.currency).toBe('EUR');
+      expect(statement.transactions).toEqual([
+        {
+          externalId: 'ofx:12345678:202501150001',
+          date: '2025-01-15',
+          amount: 12.5,
+          isDebit: true,
+          description: 'TESCO STORES - Card purchase',
+        },
+        {
+          externalId: 'ofx:12345678:202501160001',
+          date: '2025-01-16',
+          amount: 1500,
+          isDebit: false,
+          description: 'SALARY',
+        },
+      ]);
+    });
+
+    it('should read XML (OFX 2) transactions', () => {
+      const xml = `<?xml version="1.0"?><OFX><BANKTRANLIST><STMTTRN><TRNTYPE>DEBIT</TRNTYPE><DTPOSTED>20250201</DTPOSTED><TRNAMT>-9.99</TRNAMT><FITID>X1</FITID><NAME>Streaming &amp; Co</NAME></STMTTRN></BANKTRANLIST></OFX>`;
+      const [transaction] = parseOFX(xml).transactions;
+
+      expect(transaction.externalId).toBe('ofx::X1');
+      expect(transaction.amount).toBe(9.99);
+      expect(transaction.description).toBe('Streaming & Co');
+    });
+  });
+
+  describe('parseQIF', () => {
+    it('should read records and give identical ones distinct stable ids', () => {
+      const { transactions } = parseQIF(QIF);
+
+      expect(transactions).toHaveLength(4);
+      expect(transactions[0]).toEqual({
+        externalId: 'qif:2025-01-15:-12.5:Tesco Stores:1',
+        date: '2025-01-15',
+        amount: 12.5,
+        isDebit: true,
+        description: 'Tesco Stores - Groceries',
+      });
+      expect(transactions[1].externalId).not.toBe(transactions[2].externalId);
+      expect(transactions[3].isDebit).toBe(false);
+      expect(transactions[3].amount).toBe(1500);
+    });
+
+    it('should produce the same ids when the file is parsed again', () => {
+      expect(parseQIF(QIF).transactions.map(t => t.externalId)).toEqual(
+        parseQIF(QIF).transactions.map(t => t.externalId)
+      );
+    });
+  });
+
+  describe('parseCAMT053', () => {
+    it('should read entries with direction, counterparty and remittance info', () => {
+      const statement = parseCAMT053(CAMT);
+
+      expect(statement.accountId).toBe('GB29NWBK60161331926819');
+      expect(statement.currency).toBe('GBP');
+      expect(statement.transactions[0]).toEqual({
+        externalId: 'camt053:GB29NWBK60161331926819:REF-001',
+        date: '2025-01-20',
+        amount: 42,
+        isDebit: true,
+        description: 'Energy Co - January bill',
+      });
+      expect(statement.transactions[1].isDebit).toBe(false);
+    });
+  });
+
+  describe('parseStatement', () => {
+    it('should reject unrecognised files', () => {
+      expect(() => parseStatement('hello', 'notes.txt')).toThrow('Unrecognised statement format');
+    });
+  });
+});
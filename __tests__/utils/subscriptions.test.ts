@@ -0,0 +1,145 @@
+import { detectSubscriptions, merchantKey } from '@/utils/subscriptions';
+import { Expense } from '@/types/expense';
+
+let nextId = 0;
+
+const makeExpense = (
+  date: string,
+  minor: number,
+  description: string,
+  currency = 'GBP'
+): Expense => ({
+  id: String(++nextId),
+  date,
+  amount: { minor, currency },
+  categoryId: 'entertainment',
+  description,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+describe('Subscription detection', () => {
+  describe('merchantKey', () => {
+    it('should ignore case, punctuation and words with digits', () => {
+      expect(merchantKey('NETFLIX.COM 4471*2290')).toBe('netflix com');
+      expect(merchantKey('Netflix.com ref 0825')).toBe('netflix com ref');
+      expect(merchantKey('2025')).toBe('2025');
+    });
+
+    it('should keep letters outside the Latin alphabet', () => {
+      expect(merchantKey('Müller Drogerie 0412')).toBe('müller drogerie');
+      expect(merchantKey('Café Noir')).toBe('café noir');
+      expect(merchantKey('Яндекс Плюс')).toBe('яндекс плюс');
+      expect(merchantKey('ネットフリックス')).toBe('ネットフリックス');
+      expect(merchantKey('*** !!')).toBe('');
+    });
+  });
+
+  describe('detectSubscriptions', () => {
+    it('should find monthly charges and track price changes', () => {
+      const expenses = [
+        makeExpense('2025-01-03', 999, 'NETFLIX.COM 1234'),
+        makeExpense('2025-02-03', 999, 'NETFLIX.COM 5678'),
+        makeExpense('2025-03-04', 1099, 'NETFLIX.COM 9012'),
+        makeExpense('2025-04-03', 1099, 'NETFLIX.COM 3456'),
+        makeExpense('2025-02-14', 4500, 'Dinner out'),
+      ];
+
+      const [subscription, ...others] = detectSubscriptions(expenses, '2025-04-20');
+
+      expect(others).toHaveLength(0);
+      expect(subscription).toMatchObject({
+        description: 'NETFLIX.COM 3456',
+        cadence: 'monthly',
+        latest: { minor: 1099, currency: 'GBP' },
+        annualCost: { minor: 13188, currency: 'GBP' },
+        priceChanges: [
+          {
+            date: '2025-03-04',
+            from: { minor: 999, currency: 'GBP' },
+            to: { minor: 1099, currency: 'GBP' },
+          },
+        ],
+        lastDate: '2025-04-03',
+        active: true,
+      });
+      expect(subscription.charges).toHaveLength(4);
+    });
+
+    it('should recognise weekly, quarterly and yearly cadences', () => {
+      const expenses = [
+        ...['2025-03-03', '2025-03-10', '2025-03-17', '2025-03-24'].map(date =>
+          makeExpense(date, 350, 'Veg box')
+        ),
+        ...['2024-07-01', '2024-10-01', '2025-01-01'].map(date =>
+          makeExpense(date, 4200, 'Water rates')
+        ),
+        ...['2024-02-10', '2025-02-10'].map(date => makeExpense(date, 16950, 'TV licence')),
+      ];
+
+      const cadences = Object.fromEntries(
+        detectSubscriptions(expenses, '2025-03-25').map(s => [s.description, s.cadence])
+      );
+
+      expect(cadences).toEqual({
+        'Veg box': 'weekly',
+        'Water rates': 'quarterly',
+        'TV licence': 'yearly',
+      });
+    });
+
+    it('should tolerate one missed charge but not irregular ones', () => {
+      const missed = ['2025-01-01', '2025-02-01', '2025-04-01', '2025-05-01', '2025-06-01'];
+      const irregular = ['2025-01-01', '2025-01-09', '2025-02-20', '2025-03-02'];
+
+      const detected = detectSubscriptions(
+        [
+          ...missed.map(date => makeExpense(date, 1500, 'Gym')),
+          ...irregular.map(date => makeExpense(date, 1500, 'Cinema')),
+        ],
+        '2025-06-10'
+      );
+
+      expect(detected.map(s => s.description)).toEqual(['Gym']);
+    });
+
+    it('should ignore repeated merchants with very different amounts', () => {
+      const expenses = ['2025-01-05', '2025-02-05', '2025-03-05'].map((date, index) =>
+        makeExpense(date, [2000, 6500, 1200][index], 'Corner shop')
+      );
+
+      expect(detectSubscriptions(expenses, '2025-03-10')).toEqual([]);
+    });
+
+    it('should keep currencies apart and mark lapsed subscriptions as inactive', () => {
+      const dates = ['2024-06-01', '2024-07-01', '2024-08-01'];
+      const expenses = [
+        ...dates.map(date => makeExpense(date, 1299, 'Music')),
+        ...dates.map(date => makeExpense(date, 1199, 'Music', 'EUR')),
+        makeExpense('2024-09-01', 1199, 'Music', 'EUR'),
+      ];
+
+      const detected = detectSubscriptions(expenses, '2024-10-15');
+
+      expect(detected.map(s => [s.latest.currency, s.active])).toEqual([
+        ['EUR', true],
+        ['GBP', false],
+      ]);
+    });
+
+    it('should not group merchants whose names only differ outside the Latin alphabet', () => {
+      const dates = ['2025-01-05', '2025-02-05', '2025-03-05'];
+      const expenses = [
+        ...dates.map(date => makeExpense(date, 999, 'Яндекс Плюс')),
+        makeExpense('2025-01-20', 999, 'Кинопоиск'),
+        makeExpense('2025-02-20', 999, 'Окко'),
+        ...dates.map(date => makeExpense(date, 500, '★★★')),
+      ];
+
+      const detected = detectSubscriptions(expenses, '2025-03-10');
+
+      expect(detected.map(subscription => subscription.key)).toEqual(['яндекс плюс|GBP']);
+      expect(detected[0].charges).toHaveLength(3);
+    });
+  });
+});
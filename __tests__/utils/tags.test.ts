@@ -0,0 +1,72 @@
+import { addTag, collectTags, matchesTags, normaliseTag, suggestTags } from '@/utils/tags';
+import { Expense } from '@/types/expense';
+
+const makeExpense = (id: string, tags?: string[]): Expense => ({
+  id,
+  date: '2025-01-15',
+  amount: { minor: 1000, currency: 'GBP' },
+  categoryId: 'food',
+  description: `Expense ${id}`,
+  ...(tags ? { tags } : {}),
+  createdAt: '2025-01-15T10:00:00.000Z',
+  updatedAt: '2025-01-15T10:00:00.000Z',
+});
+
+describe('Tag Utilities', () => {
+  describe('normaliseTag', () => {
+    it('should lower-case, drop a leading hash and join words with dashes', () => {
+      expect(normaliseTag('  #Holiday 2026 ')).toBe('holiday-2026');
+    });
+
+    it('should cap the length', () => {
+      expect(normaliseTag('x'.repeat(50))).toHaveLength(30);
+    });
+  });
+
+  describe('addTag', () => {
+    it('should ignore blank and repeated tags', () => {
+      expect(addTag(['client-acme'], 'Client Acme')).toEqual(['client-acme']);
+      expect(addTag(['client-acme'], '  ')).toEqual(['client-acme']);
+      expect(addTag(['client-acme'], 'tax-deductible')).toEqual(['client-acme', 'tax-deductible']);
+    });
+  });
+
+  describe('collectTags', () => {
+    it('should list tags by how often they are used', () => {
+      const expenses = [
+        makeExpense('1', ['work', 'travel']),
+        makeExpense('2', ['travel']),
+        makeExpense('3'),
+      ];
+
+      expect(collectTags(expenses)).toEqual(['travel', 'work']);
+    });
+  });
+
+  describe('suggestTags', () => {
+    const known = ['holiday-2026', 'client-acme', 'school-holiday'];
+
+    it('should put prefix matches before other matches', () => {
+      expect(suggestTags('hol', known, [])).toEqual(['holiday-2026', 'school-holiday']);
+    });
+
+    it('should leave out tags that are already chosen', () => {
+      expect(suggestTags('', known, ['client-acme'])).toEqual(['holiday-2026', 'school-holiday']);
+    });
+  });
+
+  describe('matchesTags', () => {
+    const expense = makeExpense('1', ['work', 'travel']);
+
+    it('should match any or all of the chosen tags', () => {
+      expect(matchesTags(expense, ['work', 'food'], 'any')).toBe(true);
+      expect(matchesTags(expense, ['work', 'food'], 'all')).toBe(false);
+      expect(matchesTags(expense, ['work', 'travel'], 'all')).toBe(true);
+    });
+
+    it('should let everything through when no tags are chosen', () => {
+      expect(matchesTags(makeExpense('2'), [], 'all')).toBe(true);
+      expect(matchesTags(makeExpense('2'), ['work'], 'any')).toBe(false);
+    });
+  });
+});
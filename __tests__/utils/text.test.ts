@@ -0,0 +1,15 @@
+import { normaliseText } from '@/utils/text';
+
+describe('Text Utilities', () => {
+  describe('normaliseText', () => {
+    it('should lower-case and drop punctuation between words', () => {
+      expect(normaliseText('  NETFLIX.COM  4471*2290 ')).toBe('netflix com 4471 2290');
+    });
+
+    it('should keep letters in any script', () => {
+      expect(normaliseText('Müller, Café!')).toBe('müller café');
+      expect(normaliseText('寿司・ラーメン')).toBe('寿司 ラーメン');
+      expect(normaliseText('★★★')).toBe('');
+    });
+  });
+});
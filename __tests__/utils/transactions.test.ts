@@ -0,0 +1,51 @@
+import {
+  amountSign,
+  categoryKindFor,
+  isTransactionType,
+  outflow,
+  spendingAmount,
+  transactionType,
+} from '@/utils/transactions';
+
+describe('Transaction Utilities', () => {
+  describe('transactionType', () => {
+    it('should treat records without a type as expenses', () => {
+      expect(transactionType({})).toBe('expense');
+      expect(transactionType({ type: 'refund' })).toBe('refund');
+    });
+
+    it('should only accept the known types', () => {
+      expect(isTransactionType('income')).toBe(true);
+      expect(isTransactionType('transfer')).toBe(false);
+    });
+  });
+
+  describe('categoryKindFor', () => {
+    it('should file refunds under spending categories and income under its own', () => {
+      expect(categoryKindFor('expense')).toBe('expense');
+      expect(categoryKindFor('refund')).toBe('expense');
+      expect(categoryKindFor('income')).toBe('income');
+    });
+  });
+
+  describe('outflow and spendingAmount', () => {
+    it('should count money coming in as negative outflow', () => {
+      expect(outflow({}, 1000)).toBe(1000);
+      expect(outflow({ type: 'refund' }, 1000)).toBe(-1000);
+      expect(outflow({ type: 'income' }, 1000)).toBe(-1000);
+    });
+
+    it('should take refunds off spending and leave income out of it', () => {
+      expect(spendingAmount({}, 1000)).toBe(1000);
+      expect(spendingAmount({ type: 'refund' }, 1000)).toBe(-1000);
+      expect(spendingAmount({ type: 'income' }, 1000)).toBe(0);
+    });
+  });
+
+  describe('amountSign', () => {
+    it('should mark only money coming in', () => {
+      expect(amountSign({})).toBe('');
+      expect(amountSign({ type: 'income' })).toBe('+');
+    });
+  });
+});
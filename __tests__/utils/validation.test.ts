@@ -1,13 +1,21 @@
-import { validateExpenseForm, hasErrors } from '@/utils/validation';
-import { ExpenseFormData } from '@/types/expense';
+import {
+  validateExpenseForm,
+  validateRecurrenceForm,
+  validateRefund,
+  hasErrors,
+} from '@/utils/validation';
+import { Expense, ExpenseFormData, RecurrenceFormData } from '@/types/expense';
+import { createTranslator } from '@/lib/i18n';
 
 describe('Validation Utilities', () => {
   describe('validateExpenseForm', () => {
     const validFormData: ExpenseFormData = {
       date: '2025-01-01',
       amount: '50.00',
-      category: 'Food',
+      currency: 'GBP',
+      categoryId: 'food',
       description: 'Test expense',
+      tags: [],
     };
 
     it('should return no errors for valid data', () => {
@@ -15,6 +23,15 @@ describe('Validation Utilities', () => {
       expect(Object.keys(errors)).toHaveLength(0);
     });
 
+    it('should report errors in the given language', () => {
+      const errors = validateExpenseForm(
+        { ...validFormData, date: '', amount: '12.345' },
+        createTranslator('de')
+      );
+      expect(errors.date).toBe('Datum ist erforderlich');
+      expect(errors.amount).toBe('Beträge in GBP dürfen höchstens 2 Nachkommastellen haben');
+    });
+
     describe('date validation', () => {
       it('should require date', () => {
         const errors = validateExpenseForm({
@@ -69,12 +86,19 @@ describe('Validation Utilities', () => {
         expect(errors.amount).toBe('Amount must be a positive number');
       });
 
-      it('should reject negative amounts', () => {
+      it('should reject negative amounts, pointing to income and refunds', () => {
         const errors = validateExpenseForm({
           ...validFormData,
           amount: '-10',
         });
-        expect(errors.amount).toBe('Amount must be a positive number');
+        expect(errors.amount).toBe(
+          'Enter the amount without a minus sign; money coming in is income or a refund'
+        );
+      });
+
+      it('should accept income and refunds with positive amounts', () => {
+        expect(validateExpenseForm({ ...validFormData, type: 'income' })).toEqual({});
+        expect(validateExpenseForm({ ...validFormData, type: 'refund' })).toEqual({});
       });
 
       it('should reject non-numeric amounts', () => {
@@ -108,25 +132,37 @@ describe('Validation Utilities', () => {
         });
         expect(errors.amount).toBeUndefined();
       });
+
+      it("should reject more decimal places than the currency's minor unit", () => {
+        expect(validateExpenseForm({ ...validFormData, amount: '12.345' }).amount).toBe(
+          'GBP amounts can have at most 2 decimal places'
+        );
+        expect(
+          validateExpenseForm({ ...validFormData, amount: '1250.5', currency: 'JPY' }).amount
+        ).toBe('JPY amounts cannot have decimal places');
+        expect(
+          validateExpenseForm({ ...validFormData, amount: '1250', currency: 'JPY' }).amount
+        ).toBeUndefined();
+      });
     });
 
     describe('category validation', () => {
       it('should require category', () => {
         const errors = validateExpenseForm({
           ...validFormData,
-          category: '' as any,
+          categoryId: '',
         });
-        expect(errors.category).toBe('Category is required');
+        expect(errors.categoryId).toBe('Category is required');
       });
 
       it('should accept valid categories', () => {
-        const categories = ['Food', 'Transportation', 'Entertainment', 'Shopping', 'Bills', 'Other'];
+        const categories = ['food', 'transportation', 'groceries', crypto.randomUUID()];
         categories.forEach(category => {
           const errors = validateExpenseForm({
             ...validFormData,
-            category: category as any,
+            categoryId: category,
           });
-          expect(errors.category).toBeUndefined();
+          expect(errors.categoryId).toBeUndefined();
         });
       });
     });
@@ -175,20 +211,192 @@ describe('Validation Utilities', () => {
       });
     });
 
+    it('should limit the number of tags', () => {
+      const tags = Array.from({ length: 11 }, (_, i) => `tag-${i}`);
+
+      expect(validateExpenseForm({ ...validFormData, tags }).tags).toBe('Use at most 10 tags');
+      expect(validateExpenseForm({ ...validFormData, tags: tags.slice(0, 10) }).tags).toBeUndefined();
+    });
+
+    describe('line item validation', () => {
+      const item = (amount: string, categoryId = 'food') => ({
+        id: amount,
+        description: '',
+        amount,
+        categoryId,
+      });
+
+      it('should require the items to add up to the amount', () => {
+        const check = (lineItems: ExpenseFormData['lineItems']) =>
+          validateExpenseForm({ ...validFormData, lineItems }).lineItems;
+
+        expect(check([item('30.00'), item('20.00', 'shopping')])).toBeUndefined();
+        expect(check([item('30.00'), item('19.99')])).toBe('The items must add up to the amount');
+        expect(check([item('50.00', '')])).toBe('Each item needs a category');
+        expect(check([item('0'), item('50.00')])).toBe('Each item needs an amount above zero');
+      });
+    });
+
+    describe('split validation', () => {
+      const split = (
+        method: 'equal' | 'percentage' | 'exact',
+        shares: [string, string][]
+      ): ExpenseFormData['split'] => ({
+        method,
+        shares: shares.map(([person, value]) => ({ person, value })),
+      });
+      const check = (value: ExpenseFormData['split']) =>
+        validateExpenseForm({ ...validFormData, split: value }).split;
+
+      it('should need at least two distinct, named people', () => {
+        expect(check(split('equal', [['Ana', '']]))).toBe('Share between at least two people');
+        expect(check(split('equal', [['Ana', ''], [' ', '']]))).toBe('Each person needs a name');
+        expect(check(split('equal', [['Ana', ''], ['ana ', '']]))).toBe(
+          'Each person can only appear once'
+        );
+        expect(check(split('equal', [['Ana', ''], ['Ben', '']]))).toBeUndefined();
+      });
+
+      it('should require percentages to make 100%', () => {
+        const thirds = split('percentage', [
+          ['Ana', '33.3'],
+          ['Ben', '33.3'],
+          ['Cat', '33.4'],
+        ]);
+
+        expect(check(thirds)).toBeUndefined();
+        expect(check(split('percentage', [['Ana', '50'], ['Ben', '40']]))).toBe(
+          'The percentages must add up to 100%'
+        );
+        expect(check(split('percentage', [['Ana', '50'], ['Ben', 'half']]))).toBe(
+          'Percentages must be numbers with at most two decimals'
+        );
+      });
+
+      it('should require exact shares to make up the amount', () => {
+        expect(check(split('exact', [['Ana', '35.00'], ['Ben', '15.00']]))).toBeUndefined();
+        expect(check(split('exact', [['Ana', '35.00'], ['Ben', '10.00']]))).toBe(
+          'The shares must add up to the amount'
+        );
+        expect(check(split('exact', [['Ana', '50.001'], ['Ben', '0']]))).toBe(
+          'Each share must be an amount of zero or more'
+        );
+      });
+
+      it('should require a payer and a split for group expenses', () => {
+        const errors = validateExpenseForm({ ...validFormData, groupId: 'trip' });
+        expect(errors.paidBy).toBe('Choose who paid');
+        expect(errors.split).toBe('Group expenses need to be split between members');
+
+        expect(
+          validateExpenseForm({
+            ...validFormData,
+            groupId: 'trip',
+            paidBy: 'ana',
+            split: split('equal', [['Ana', ''], ['Ben', '']]),
+          })
+        ).toEqual({});
+      });
+    });
+
     it('should return multiple errors for multiple invalid fields', () => {
       const errors = validateExpenseForm({
         date: '',
         amount: '',
-        category: '' as any,
+        currency: 'GBP',
+        categoryId: '',
         description: '',
+        tags: [],
       });
       expect(errors.date).toBeTruthy();
       expect(errors.amount).toBeTruthy();
-      expect(errors.category).toBeTruthy();
+      expect(errors.categoryId).toBeTruthy();
       expect(errors.description).toBeTruthy();
     });
   });
 
+  describe('validateRefund', () => {
+    const original: Expense = {
+      id: 'shoes',
+      date: '2025-01-01',
+      amount: { minor: 8000, currency: 'GBP' },
+      categoryId: 'clothing',
+      description: 'Shoes',
+      createdAt: '2025-01-01T00:00:00.000Z',
+      updatedAt: '2025-01-01T00:00:00.000Z',
+    };
+    const refund: ExpenseFormData = {
+      type: 'refund',
+      refundOf: 'shoes',
+      date: '2025-01-10',
+      amount: '30.00',
+      currency: 'GBP',
+      categoryId: 'clothing',
+      description: 'Refund: Shoes',
+      tags: [],
+    };
+
+    it('should accept refunds up to what is left of the expense', () => {
+      expect(validateRefund(refund, original, 3000)).toEqual({});
+    });
+
+    it('should reject refunds of more than is left', () => {
+      expect(validateRefund(refund, original, 2999).amount).toBe(
+        'A refund cannot be more than what is left to refund'
+      );
+    });
+
+    it("should require the expense's currency", () => {
+      expect(validateRefund({ ...refund, currency: 'EUR' }, original, 8000).currency).toBe(
+        'Refunds are in the currency of the expense (GBP)'
+      );
+    });
+  });
+
+  describe('validateRecurrenceForm', () => {
+    const validRecurrence: RecurrenceFormData = {
+      frequency: 'monthly',
+      dayOfMonth: '15',
+      ends: 'never',
+      endDate: '',
+      occurrenceLimit: '12',
+    };
+
+    it('should accept a valid schedule', () => {
+      expect(validateRecurrenceForm(validRecurrence, '2025-01-15')).toEqual({});
+    });
+
+    it('should require a day of month from 1 to 31 for monthly and yearly rules', () => {
+      expect(
+        validateRecurrenceForm({ ...validRecurrence, dayOfMonth: '32' }, '2025-01-15').dayOfMonth
+      ).toBe('Day of month must be a whole number from 1 to 31');
+      expect(
+        validateRecurrenceForm(
+          { ...validRecurrence, frequency: 'weekly', dayOfMonth: '' },
+          '2025-01-15'
+        )
+      ).toEqual({});
+    });
+
+    it('should check the end date and number of times only for the chosen ending', () => {
+      expect(
+        validateRecurrenceForm(
+          { ...validRecurrence, ends: 'onDate', endDate: '2025-01-01' },
+          '2025-01-15'
+        ).endDate
+      ).toBe('End date cannot be before the first occurrence');
+      expect(
+        validateRecurrenceForm(
+          { ...validRecurrence, ends: 'afterCount', occurrenceLimit: '1.5' },
+          '2025-01-15'
+        ).occurrenceLimit
+      ).toBe('Number of times must be a whole number from 1 to 1000');
+      expect(
+        validateRecurrenceForm({ ...validRecurrence, occurrenceLimit: '0' }, '2025-01-15')
+      ).toEqual({});
+    });
+  });
+
   describe('hasErrors', () => {
     it('should return true when there are errors', () => {
       const errors = { date: 'Date is required' };
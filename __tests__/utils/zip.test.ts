@@ -0,0 +1,52 @@
+/**
+ * @jest-environment node
+ */
+
+import { crc32, createZip } from '@/utils/zip';
+
+const readUint32 = (bytes: Uint8Array, offset: number) =>
+  new DataView(bytes.buffer, bytes.byteOffset).getUint32(offset, true);
+
+const readUint16 = (bytes: Uint8Array, offset: number) =>
+  new DataView(bytes.buffer, bytes.byteOffset).getUint16(offset, true);
+
+describe('ZIP writer', () => {
+  describe('crc32', () => {
+    it('should match the standard check value', () => {
+      expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+    });
+  });
+
+  describe('createZip', () => {
+    it('should store each entry with a central directory pointing back to it', () => {
+      const encoder = new TextEncoder();
+      const entries = [
+        { name: 'expenses.csv', data: encoder.encode('Date,Amount\n') },
+        { name: 'receipts/café.png', data: new Uint8Array([1, 2, 3]) },
+      ];
+
+      const zip = createZip(entries, new Date(2025, 0, 15, 12, 30, 0));
+
+      // The end record sits last, with the entry count and where the directory starts
+      const end = zip.length - 22;
+      expect(readUint32(zip, end)).toBe(0x06054b50);
+      expect(readUint16(zip, end + 10)).toBe(2);
+      const directory = readUint32(zip, end + 16);
+
+      // The second directory record points at the second local header
+      const firstName = encoder.encode('expenses.csv').length;
+      const second = directory + 46 + firstName;
+      expect(readUint32(zip, second)).toBe(0x02014b50);
+      const local = readUint32(zip, second + 42);
+      expect(readUint32(zip, local)).toBe(0x04034b50);
+      expect(readUint32(zip, local + 14)).toBe(crc32(entries[1].data));
+
+      const nameLength = readUint16(zip, local + 26);
+      const name = new TextDecoder().decode(zip.slice(local + 30, local + 30 + nameLength));
+      expect(name).toBe('receipts/café.png');
+      expect(Array.from(zip.slice(local + 30 + nameLength, local + 33 + nameLength))).toEqual([
+        1, 2, 3,
+      ]);
+    });
+  });
+});
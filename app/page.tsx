@@ -1,56 +1,450 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
-import { Expense, ExpenseFormData } from '@/types/expense';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import {
+  Account,
+  Budget,
+  Category,
+  Expense,
+  ExpenseFormData,
+  Group,
+  RecurrenceSchedule,
+  RecurringRule,
+  Settlement,
+  TrashedExpense,
+} from '@/types/expense';
+import {
+  ExpenseRepository,
+  NewExpense,
+  openExpenseRepository,
+  toNewExpense,
+} from '@/lib/repository';
 import { storageUtils } from '@/lib/storage';
-import { exportToCSV } from '@/utils/export';
+import { AppSettings, defaultSettings, settingsStorage } from '@/lib/settings';
+import {
+  CategoryInput,
+  categoryStorage,
+  createCategory,
+  findCategory,
+  mergeCategoryInto,
+  recategoriseExpenses,
+  updateCategory,
+} from '@/lib/categories';
+import { SyncChannel, applySyncMessage, createSyncChannel } from '@/lib/sync';
+import {
+  RateTable,
+  createConversion,
+  createRateTable,
+  currencyOptions,
+  rateStorage,
+} from '@/lib/exchangeRates';
+import {
+  AppliedChanges,
+  ExpenseChange,
+  HistoryOperation,
+  HistoryState,
+  applyChanges,
+  createOperation,
+  loadHistory,
+  recordOperation,
+  redoOperation,
+  saveHistory,
+  undoOperation,
+} from '@/lib/history';
+import { BackupFile, RestoreMode, createBackup, restoreBackup } from '@/lib/backup';
+import { StoredAttachment, referencedAttachmentIds } from '@/lib/attachments';
+import { BudgetAlert, budgetStorage, findBudgetAlerts } from '@/lib/budgets';
+import { LANGUAGES, Language, createTranslator } from '@/lib/i18n';
+import { generateDueExpenses, recurringStorage, startRuleFromExpense } from '@/lib/recurring';
+import { groupStorage } from '@/lib/groups';
+import { accountStorage } from '@/lib/accounts';
+import { downloadFile, exportToCSV, exportToZip } from '@/utils/export';
+import {
+  DuplicateGroup,
+  findDuplicateGroups,
+  findDuplicatesOf,
+  groupPairKeys,
+  mergeDuplicateGroup,
+} from '@/utils/duplicates';
+import { refundsByOriginal, summariseRefunds } from '@/utils/refunds';
+import { collectTags } from '@/utils/tags';
+import { format, subDays } from 'date-fns';
 import { Dashboard } from '@/components/Dashboard';
 import { ExpenseList } from '@/components/ExpenseList';
 import { ExpenseForm } from '@/components/ExpenseForm';
+import { TrashView } from '@/components/TrashView';
+import { BackupRestore } from '@/components/BackupRestore';
+import { CSVImport } from '@/components/CSVImport';
+import { StatementImport } from '@/components/StatementImport';
+import { DuplicateFinder } from '@/components/DuplicateFinder';
+import { CategoryManager } from '@/components/CategoryManager';
+import { BudgetManager } from '@/components/BudgetManager';
+import { RecurringRules } from '@/components/RecurringRules';
+import { GroupLedger } from '@/components/GroupLedger';
+import { AccountManager } from '@/components/AccountManager';
+import { ExchangeRates } from '@/components/ExchangeRates';
 import { Modal } from '@/components/ui/Modal';
 import { Button } from '@/components/ui/Button';
+import { Select } from '@/components/ui/Select';
+import { Toast } from '@/components/ui/Toast';
 
-type ViewMode = 'dashboard' | 'expenses';
+type ViewMode =
+  | 'dashboard'
+  | 'expenses'
+  | 'categories'
+  | 'budgets'
+  | 'recurring'
+  | 'groups'
+  | 'accounts'
+  | 'currencies'
+  | 'trash';
+
+interface ToastState {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+}
 
 export default function Home() {
   const [expenses, setExpenses] = useState<Expense[]>([]);
+  const [trash, setTrash] = useState<TrashedExpense[]>([]);
+  const [categories, setCategories] = useState<Category[]>([]);
+  const [budgets, setBudgets] = useState<Budget[]>([]);
+  const [recurringRules, setRecurringRules] = useState<RecurringRule[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [settlements, setSettlements] = useState<Settlement[]>([]);
+  const [accounts, setAccounts] = useState<Account[]>([]);
+  const [settings, setSettings] = useState<AppSettings>(defaultSettings);
+  const [rateTable, setRateTable] = useState<RateTable>(() => createRateTable());
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [isStatementImportOpen, setIsStatementImportOpen] = useState(false);
+  const [isDuplicatesOpen, setIsDuplicatesOpen] = useState(false);
+  const [dismissedDuplicates, setDismissedDuplicates] = useState<string[]>([]);
   const [editingExpense, setEditingExpense] = useState<Expense | null>(null);
+  const [refundingExpense, setRefundingExpense] = useState<Expense | null>(null);
   const [viewMode, setViewMode] = useState<ViewMode>('dashboard');
   const [isLoaded, setIsLoaded] = useState(false);
+  const [quarantinedCount, setQuarantinedCount] = useState(0);
+  const [isReadOnly, setIsReadOnly] = useState(false);
+  const repositoryRef = useRef<ExpenseRepository | null>(null);
+  const syncChannelRef = useRef<SyncChannel | null>(null);
+  const [history, setHistory] = useState<HistoryState>({ past: [], future: [] });
+  // Read by undo and redo, so handlers captured by an older toast still see the latest journal
+  const historyRef = useRef<HistoryState>(history);
+  const [toast, setToast] = useState<ToastState | null>(null);
+
+  // Open the storage backend and load expenses on mount
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      const { repository } = await openExpenseRepository();
+
+      // Drop anything that has outlived the trash retention period
+      const loadedSettings = settingsStorage.getSettings();
+      if (loadedSettings.trashRetentionDays > 0) {
+        await repository.purgeTrashedBefore(
+          subDays(new Date(), loadedSettings.trashRetentionDays).toISOString()
+        );
+      }
+
+      const loadedExpenses = await repository.getAll();
+
+      // Add whatever recurring expenses have fallen due since the app was last open
+      const rules = recurringStorage.getRules();
+      const generated = generateDueExpenses(rules, loadedExpenses);
+      if (generated.rules.some((rule, index) => rule !== rules[index])) {
+        recurringStorage.saveRules(generated.rules);
+      }
+      const added = generated.due.length > 0 ? await repository.addMany(generated.due) : [];
+
+      // Record them as one undoable step
+      const loadT = createTranslator(loadedSettings.language);
+      const generatedOperation =
+        added.length > 0
+          ? createOperation(
+              'bulk',
+              loadT('history.recurringAdded', { count: added.length }),
+              added.map(expense => ({ id: expense.id, before: null, after: expense }))
+            )
+          : null;
+      const loadedHistory = generatedOperation
+        ? recordOperation(loadHistory(), generatedOperation)
+        : loadHistory();
+      if (generatedOperation) saveHistory(loadedHistory);
+
+      // Clear out receipt files nothing refers to any more, keeping those undo could bring back
+      const referenced = referencedAttachmentIds([
+        ...loadedExpenses,
+        ...(await repository.getTrash()),
+        ...[...loadedHistory.past, ...loadedHistory.future].flatMap(operation =>
+          operation.changes.flatMap(change => [change.before, change.after])
+        ),
+      ]);
+      const unreferenced = (await repository.getAttachmentIds()).filter(id => !referenced.has(id));
+      if (unreferenced.length > 0) await repository.deleteAttachments(unreferenced);
+      if (cancelled) return;
+
+      repositoryRef.current = repository;
+      setExpenses([...loadedExpenses, ...added]);
+      setRecurringRules(generated.rules);
+      setCategories(categoryStorage.getCategories());
+      setBudgets(budgetStorage.getBudgets());
+      setGroups(groupStorage.getGroups());
+      setSettlements(groupStorage.getSettlements());
+      setAccounts(accountStorage.getAccounts());
+      setRateTable(rateStorage.getRateTable());
+      setQuarantinedCount(storageUtils.getUnseenQuarantineCount());
+      setIsReadOnly(repository.isReadOnly());
+      historyRef.current = loadedHistory;
+      setHistory(loadedHistory);
+      setSettings(loadedSettings);
+      setDismissedDuplicates(storageUtils.getDismissedDuplicates());
+      setIsLoaded(true);
+
+      if (generatedOperation) {
+        setToast({
+          message: generatedOperation.label,
+          actionLabel: loadT('app.undo'),
+          onAction: () => shortcutsRef.current.undo(),
+        });
+      }
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // The trash changes whenever expenses do, including deletes made in other tabs
+  useEffect(() => {
+    const repository = repositoryRef.current;
+    if (!isLoaded || !repository) return;
+
+    let cancelled = false;
+    repository.getTrash().then(items => {
+      if (!cancelled) setTrash(items);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [expenses, isLoaded]);
+
+  // Keep this tab in step with changes made in other tabs
+  useEffect(() => {
+    if (!isLoaded) return;
+
+    const channel = createSyncChannel(async message => {
+      if (message.type === 'reload') {
+        const repository = repositoryRef.current;
+        setCategories(categoryStorage.getCategories());
+        setBudgets(budgetStorage.getBudgets());
+        setRecurringRules(recurringStorage.getRules());
+        setGroups(groupStorage.getGroups());
+        setSettlements(groupStorage.getSettlements());
+        setAccounts(accountStorage.getAccounts());
+        setRateTable(rateStorage.getRateTable());
+        setSettings(settingsStorage.getSettings());
+        if (repository) setExpenses(await repository.getAll());
+        return;
+      }
+      setExpenses(prev => applySyncMessage(prev, message));
+    });
+    syncChannelRef.current = channel;
+
+    return () => {
+      channel.close();
+      syncChannelRef.current = null;
+    };
+  }, [isLoaded]);
+
+  // Screen readers and spell checkers follow the document's language
+  useEffect(() => {
+    document.documentElement.lang = settings.language;
+  }, [settings.language]);
+
+  // Reflect repository writes in local state and tell the other tabs about them
+  const publishChanges = ({ upserted, deletedIds }: AppliedChanges) => {
+    setExpenses(prev =>
+      applySyncMessage(applySyncMessage(prev, { type: 'delete', ids: deletedIds }), {
+        type: 'upsert',
+        expenses: upserted,
+      })
+    );
+
+    if (deletedIds.length > 0) {
+      syncChannelRef.current?.post({ type: 'delete', ids: deletedIds });
+    }
+    if (upserted.length > 0) {
+      syncChannelRef.current?.post({ type: 'upsert', expenses: upserted });
+    }
+  };
+
+  const updateHistory = (next: HistoryState) => {
+    historyRef.current = next;
+    setHistory(next);
+    saveHistory(next);
+  };
 
-  // Load expenses from localStorage on mount
+  const recordAndNotify = (operation: HistoryOperation) => {
+    updateHistory(recordOperation(historyRef.current, operation));
+    setToast({ message: operation.label, actionLabel: t('app.undo'), onAction: handleUndo });
+  };
+
+  const handleUndo = async () => {
+    const repository = repositoryRef.current;
+    const result = undoOperation(historyRef.current);
+    if (!repository || !result) return;
+
+    publishChanges(await applyChanges(repository, result.operation.changes, 'undo'));
+    updateHistory(result.state);
+    setToast({
+      message: t('app.undone', { label: result.operation.label }),
+      actionLabel: t('app.redo'),
+      onAction: handleRedo,
+    });
+  };
+
+  const handleRedo = async () => {
+    const repository = repositoryRef.current;
+    const result = redoOperation(historyRef.current);
+    if (!repository || !result) return;
+
+    publishChanges(await applyChanges(repository, result.operation.changes, 'redo'));
+    updateHistory(result.state);
+    setToast({
+      message: t('app.redone', { label: result.operation.label }),
+      actionLabel: t('app.undo'),
+      onAction: handleUndo,
+    });
+  };
+
+  const shortcutsRef = useRef({ undo: handleUndo, redo: handleRedo });
+  shortcutsRef.current = { undo: handleUndo, redo: handleRedo };
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS), leaving text fields to their native undo
   useEffect(() => {
-    const loadedExpenses = storageUtils.getExpenses();
-    setExpenses(loadedExpenses);
-    setIsLoaded(true);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== 'z') return;
+
+      const target = e.target as HTMLElement | null;
+      if (
+        target &&
+        (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName))
+      ) {
+        return;
+      }
+
+      e.preventDefault();
+      if (e.shiftKey) {
+        shortcutsRef.current.redo();
+      } else {
+        shortcutsRef.current.undo();
+      }
+    };
+
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
   }, []);
 
-  const handleAddExpense = (formData: ExpenseFormData) => {
-    const newExpense = storageUtils.addExpense({
-      date: formData.date,
-      amount: parseFloat(formData.amount),
-      category: formData.category,
-      description: formData.description,
+  const handleCloseToast = useCallback(() => setToast(null), []);
+
+  const updateRecurringRules = (next: RecurringRule[]) => {
+    setRecurringRules(next);
+    recurringStorage.saveRules(next);
+    syncChannelRef.current?.post({ type: 'reload' });
+  };
+
+  // Save a new rule, adding the occurrences a back-dated first expense has already missed
+  const startRecurring = async (rule: RecurringRule): Promise<Expense[]> => {
+    const repository = repositoryRef.current;
+    const { due, rules } = generateDueExpenses([rule], expenses);
+    updateRecurringRules([...recurringRules, ...rules]);
+    return repository && due.length > 0 ? repository.addMany(due) : [];
+  };
+
+  // Receipt files are stored before the expense that refers to them
+  const saveAttachments = async (files: StoredAttachment[]): Promise<boolean> => {
+    const repository = repositoryRef.current;
+    if (!repository) return false;
+
+    try {
+      if (files.length > 0) await repository.putAttachments(files);
+      return true;
+    } catch (error) {
+      console.error('Error saving receipts:', error);
+      setToast({ message: t('app.receiptsNotSaved') });
+      return false;
+    }
+  };
+
+  const loadAttachment = useCallback(
+    async (id: string) => (await repositoryRef.current?.getAttachment(id)) ?? null,
+    []
+  );
+
+  const handleAddExpense = async (
+    formData: ExpenseFormData,
+    recurrence?: RecurrenceSchedule,
+    files: StoredAttachment[] = []
+  ) => {
+    const repository = repositoryRef.current;
+    if (!repository || !(await saveAttachments(files))) return;
+
+    const rule = recurrence ? startRuleFromExpense(toNewExpense(formData), recurrence) : null;
+    const newExpense = await repository.add({
+      ...toNewExpense(formData),
+      ...(rule ? { recurringRuleId: rule.id } : {}),
     });
+    const added = rule ? await startRecurring(rule) : [];
 
-    setExpenses(prev => [...prev, newExpense]);
+    publishChanges({ upserted: [newExpense, ...added], deletedIds: [] });
+    recordAndNotify(
+      createOperation(
+        added.length > 0 ? 'bulk' : 'add',
+        t('history.expenseAdded'),
+        [newExpense, ...added].map(expense => ({ id: expense.id, before: null, after: expense }))
+      )
+    );
     setIsModalOpen(false);
   };
 
-  const handleEditExpense = (formData: ExpenseFormData) => {
-    if (!editingExpense) return;
+  const handleEditExpense = async (
+    formData: ExpenseFormData,
+    recurrence?: RecurrenceSchedule,
+    files: StoredAttachment[] = []
+  ) => {
+    const repository = repositoryRef.current;
+    if (!editingExpense || !repository || !(await saveAttachments(files))) return;
 
-    const updatedExpense = storageUtils.updateExpense(editingExpense.id, {
-      date: formData.date,
-      amount: parseFloat(formData.amount),
-      category: formData.category,
-      description: formData.description,
+    const rule = recurrence ? startRuleFromExpense(toNewExpense(formData), recurrence) : null;
+    const previous = await repository.getById(editingExpense.id);
+    const updatedExpense = await repository.update(editingExpense.id, {
+      // Cleared unless the form still has them
+      type: undefined,
+      refundOf: undefined,
+      lineItems: undefined,
+      split: undefined,
+      groupId: undefined,
+      paidBy: undefined,
+      accountId: undefined,
+      ...toNewExpense(formData),
+      ...(rule ? { recurringRuleId: rule.id } : {}),
     });
 
     if (updatedExpense) {
-      setExpenses(prev =>
-        prev.map(exp => (exp.id === updatedExpense.id ? updatedExpense : exp))
+      const added = rule ? await startRecurring(rule) : [];
+      publishChanges({ upserted: [updatedExpense, ...added], deletedIds: [] });
+      recordAndNotify(
+        createOperation(added.length > 0 ? 'bulk' : 'update', t('history.expenseUpdated'), [
+          { id: updatedExpense.id, before: previous, after: updatedExpense },
+          ...added.map(expense => ({ id: expense.id, before: null, after: expense })),
+        ])
       );
     }
 
@@ -58,30 +452,385 @@ export default function Home() {
     setIsModalOpen(false);
   };
 
-  const handleDeleteExpense = (id: string) => {
-    const success = storageUtils.deleteExpense(id);
-    if (success) {
-      setExpenses(prev => prev.filter(exp => exp.id !== id));
+  // Bank references already seen, so re-importing a statement skips what is stored or trashed
+  const existingExternalIds = useMemo(
+    () =>
+      new Set(
+        [...expenses, ...trash]
+          .map(expense => expense.externalId)
+          .filter((id): id is string => !!id)
+      ),
+    [expenses, trash]
+  );
+
+  const duplicateGroups = useMemo(
+    () => findDuplicateGroups(expenses, new Set(dismissedDuplicates)),
+    [expenses, dismissedDuplicates]
+  );
+
+  const knownTags = useMemo(() => collectTags(expenses), [expenses]);
+
+  const conversion = useMemo(
+    () => createConversion(rateTable, settings.baseCurrency),
+    [rateTable, settings.baseCurrency]
+  );
+  const t = useMemo(() => createTranslator(settings.language), [settings.language]);
+  const currencies = useMemo(
+    () =>
+      currencyOptions(
+        rateTable,
+        settings.baseCurrency,
+        ...expenses.map(expense => expense.amount.currency)
+      ),
+    [rateTable, settings.baseCurrency, expenses]
+  );
+
+  const findFormDuplicates = (formData: ExpenseFormData): Expense[] =>
+    findDuplicatesOf(toNewExpense(formData), expenses, editingExpense?.id);
+
+  // The expense being edited is left out so its old amount is not counted twice
+  const findFormBudgetAlerts = (formData: ExpenseFormData): BudgetAlert[] =>
+    findBudgetAlerts(
+      budgets,
+      expenses.filter(expense => expense.id !== editingExpense?.id),
+      categories,
+      conversion,
+      toNewExpense(formData)
+    );
+
+  // The expense a new or edited refund gives money back for, and what is left of it once its
+  // other refunds are taken off
+  const refundTarget =
+    refundingExpense ??
+    (editingExpense?.type === 'refund'
+      ? expenses.find(expense => expense.id === editingExpense.refundOf)
+      : undefined);
+  const refundable = refundTarget
+    ? summariseRefunds(
+        refundTarget,
+        refundsByOriginal(expenses.filter(expense => expense.id !== editingExpense?.id)).get(
+          refundTarget.id
+        )
+      ).net
+    : undefined;
+
+  const handleMergeDuplicates = async (keep: Expense, group: DuplicateGroup) => {
+    const repository = repositoryRef.current;
+    if (!repository) return;
+
+    const { merged, removedIds } = mergeDuplicateGroup(keep, group);
+    const changes: ExpenseChange[] = [];
+    const upserted: Expense[] = [];
+
+    if (merged.externalId !== keep.externalId) {
+      const updated = await repository.update(keep.id, { externalId: merged.externalId });
+      if (updated) {
+        changes.push({ id: keep.id, before: keep, after: updated });
+        upserted.push(updated);
+      }
     }
+
+    const deletedIds = await repository.deleteMany(removedIds);
+    deletedIds.forEach(id =>
+      changes.push({
+        id,
+        before: group.expenses.find(expense => expense.id === id) ?? null,
+        after: null,
+      })
+    );
+
+    publishChanges({ upserted, deletedIds });
+    recordAndNotify(createOperation('bulk', t('history.duplicatesMerged'), changes));
+  };
+
+  const handleDismissDuplicates = (group: DuplicateGroup) => {
+    setDismissedDuplicates(storageUtils.dismissDuplicates(groupPairKeys(group)));
+  };
+
+  const handleImportStatement = async (newExpenses: NewExpense[]) => {
+    await addImportedExpenses(
+      newExpenses.filter(
+        expense => !expense.externalId || !existingExternalIds.has(expense.externalId)
+      )
+    );
+  };
+
+  const handleImportExpenses = async (rows: ExpenseFormData[]) => {
+    await addImportedExpenses(rows.map(toNewExpense));
+  };
+
+  const addImportedExpenses = async (newExpenses: NewExpense[]) => {
+    const repository = repositoryRef.current;
+    if (!repository || newExpenses.length === 0) return;
+
+    const added = await repository.addMany(newExpenses);
+
+    publishChanges({ upserted: added, deletedIds: [] });
+    recordAndNotify(
+      createOperation(
+        'bulk',
+        t('history.expensesImported', { count: added.length }),
+        added.map(expense => ({ id: expense.id, before: null, after: expense }))
+      )
+    );
+  };
+
+  const handleDeleteExpenses = async (ids: string[]) => {
+    const repository = repositoryRef.current;
+    if (!repository) return;
+
+    const previous = new Map<string, Expense>();
+    for (const id of ids) {
+      const expense = await repository.getById(id);
+      if (expense) previous.set(id, expense);
+    }
+
+    const deletedIds = await repository.deleteMany(Array.from(previous.keys()));
+    if (deletedIds.length === 0) return;
+
+    const changes: ExpenseChange[] = deletedIds.map(id => ({
+      id,
+      before: previous.get(id) ?? null,
+      after: null,
+    }));
+
+    publishChanges({ upserted: [], deletedIds });
+    recordAndNotify(
+      createOperation(
+        changes.length === 1 ? 'delete' : 'bulk',
+        t('history.expensesTrashed', { count: changes.length }),
+        changes
+      )
+    );
+  };
+
+  const handleRestoreExpenses = async (ids: string[]) => {
+    const repository = repositoryRef.current;
+    if (!repository) return;
+
+    const restored = await repository.restore(ids);
+    if (restored.length === 0) return;
+
+    publishChanges({ upserted: restored, deletedIds: [] });
+    recordAndNotify(
+      createOperation(
+        restored.length === 1 ? 'add' : 'bulk',
+        t('history.expensesRestored', { count: restored.length }),
+        restored.map(expense => ({ id: expense.id, before: null, after: expense }))
+      )
+    );
+  };
+
+  const handlePurgeExpenses = async (ids: string[]) => {
+    const repository = repositoryRef.current;
+    if (!repository) return;
+
+    await repository.purge(ids);
+    setTrash(await repository.getTrash());
+    syncChannelRef.current?.post({ type: 'reload' });
+  };
+
+  const updateCategories = (next: Category[]) => {
+    setCategories(next);
+    categoryStorage.saveCategories(next);
+    syncChannelRef.current?.post({ type: 'reload' });
+  };
+
+  const handleCreateCategory = (input: CategoryInput) => {
+    updateCategories([...categories, createCategory(input, categories)]);
+  };
+
+  const handleUpdateCategory = (
+    id: string,
+    updates: Partial<CategoryInput & { archived: boolean }>
+  ) => {
+    updateCategories(updateCategory(categories, id, updates));
+  };
+
+  // Recategorise through the repository so the move can be undone; the source is archived, not deleted
+  const handleMergeCategories = async (sourceId: string, targetId: string) => {
+    const repository = repositoryRef.current;
+    if (!repository) return;
+
+    const recategorised = recategoriseExpenses(expenses, sourceId, targetId);
+    const source = findCategory(categories, sourceId);
+    const target = findCategory(categories, targetId);
+
+    if (recategorised.length > 0) {
+      await repository.putMany(recategorised);
+      publishChanges({ upserted: recategorised, deletedIds: [] });
+      recordAndNotify(
+        createOperation(
+          'bulk',
+          t('history.categoriesMerged', { source: source.name, target: target.name }),
+          recategorised.map(expense => ({
+            id: expense.id,
+            before: expenses.find(existing => existing.id === expense.id) ?? null,
+            after: expense,
+          }))
+        )
+      );
+    }
+
+    updateCategories(mergeCategoryInto(categories, sourceId, targetId));
+  };
+
+  const handleBudgetsChange = (next: Budget[]) => {
+    setBudgets(next);
+    budgetStorage.saveBudgets(next);
+    syncChannelRef.current?.post({ type: 'reload' });
+  };
+
+  const handleGroupsChange = (next: Group[]) => {
+    setGroups(next);
+    groupStorage.saveGroups(next);
+    syncChannelRef.current?.post({ type: 'reload' });
+  };
+
+  const handleSettlementsChange = (next: Settlement[]) => {
+    setSettlements(next);
+    groupStorage.saveSettlements(next);
+    syncChannelRef.current?.post({ type: 'reload' });
+  };
+
+  const handleAccountsChange = (next: Account[]) => {
+    setAccounts(next);
+    accountStorage.saveAccounts(next);
+    syncChannelRef.current?.post({ type: 'reload' });
+  };
+
+  // Cleared marks go through the repository so a reconciliation can be undone
+  const handleReconcile = async (updated: Expense[]) => {
+    const repository = repositoryRef.current;
+    if (!repository || updated.length === 0) return;
+
+    await repository.putMany(updated);
+    publishChanges({ upserted: updated, deletedIds: [] });
+    recordAndNotify(
+      createOperation(
+        'bulk',
+        t('history.expensesReconciled', { count: updated.length }),
+        updated.map(expense => ({
+          id: expense.id,
+          before: expenses.find(existing => existing.id === expense.id) ?? null,
+          after: expense,
+        }))
+      )
+    );
+  };
+
+  const handleRetentionChange = (trashRetentionDays: number) => {
+    setSettings(settingsStorage.updateSettings({ trashRetentionDays }));
+    syncChannelRef.current?.post({ type: 'reload' });
+  };
+
+  const handleRateTableChange = (next: RateTable) => {
+    setRateTable(next);
+    rateStorage.saveRateTable(next);
+    syncChannelRef.current?.post({ type: 'reload' });
+  };
+
+  const handleBaseCurrencyChange = (baseCurrency: string) => {
+    setSettings(settingsStorage.updateSettings({ baseCurrency }));
+    syncChannelRef.current?.post({ type: 'reload' });
+  };
+
+  const handleLocaleChange = (locale: string) => {
+    setSettings(settingsStorage.updateSettings({ locale }));
+    syncChannelRef.current?.post({ type: 'reload' });
+  };
+
+  const handleLanguageChange = (language: Language) => {
+    setSettings(settingsStorage.updateSettings({ language }));
+    syncChannelRef.current?.post({ type: 'reload' });
   };
 
   const handleOpenAddModal = () => {
     setEditingExpense(null);
+    setRefundingExpense(null);
     setIsModalOpen(true);
   };
 
   const handleOpenEditModal = (expense: Expense) => {
     setEditingExpense(expense);
+    setRefundingExpense(null);
+    setIsModalOpen(true);
+  };
+
+  const handleOpenRefundModal = (expense: Expense) => {
+    setEditingExpense(null);
+    setRefundingExpense(expense);
     setIsModalOpen(true);
   };
 
   const handleCloseModal = () => {
     setIsModalOpen(false);
     setEditingExpense(null);
+    setRefundingExpense(null);
   };
 
   const handleExport = () => {
-    exportToCSV(expenses);
+    exportToCSV(expenses, categories, conversion, t);
+  };
+
+  const handleExportZip = async () => {
+    const repository = repositoryRef.current;
+    if (!repository) return;
+
+    await exportToZip(expenses, categories, conversion, id => repository.getAttachment(id), t);
+  };
+
+  const handleBackup = async () => {
+    const repository = repositoryRef.current;
+    if (!repository) return;
+
+    const backup = await createBackup(repository);
+    downloadFile(
+      JSON.stringify(backup, null, 2),
+      `expense-tracker-backup_${format(new Date(), 'yyyy-MM-dd')}.json`,
+      'application/json'
+    );
+  };
+
+  // Records that could not be read, as stored, so they can be repaired by hand
+  const handleDownloadQuarantine = () => {
+    downloadFile(
+      JSON.stringify(storageUtils.getQuarantine(), null, 2),
+      `expense-tracker-quarantine_${format(new Date(), 'yyyy-MM-dd')}.json`,
+      'application/json'
+    );
+  };
+
+  const handleDismissQuarantine = () => {
+    storageUtils.acknowledgeQuarantine();
+    setQuarantinedCount(0);
+  };
+
+  const handleRestoreBackup = async (backup: BackupFile, mode: RestoreMode) => {
+    const repository = repositoryRef.current;
+    if (!repository) return;
+
+    const changes = await restoreBackup(repository, backup, mode);
+
+    setExpenses(await repository.getAll());
+    setSettings(settingsStorage.getSettings());
+    setCategories(categoryStorage.getCategories());
+    setBudgets(budgetStorage.getBudgets());
+    setRecurringRules(recurringStorage.getRules());
+    setGroups(groupStorage.getGroups());
+    setSettlements(groupStorage.getSettlements());
+    setAccounts(accountStorage.getAccounts());
+    setRateTable(rateStorage.getRateTable());
+    setQuarantinedCount(storageUtils.getUnseenQuarantineCount());
+    setIsReadOnly(repository.isReadOnly());
+    setDismissedDuplicates(storageUtils.getDismissedDuplicates());
+    syncChannelRef.current?.post({ type: 'reload' });
+
+    if (changes.length > 0) {
+      recordAndNotify(createOperation('bulk', t('history.backupRestored'), changes));
+    } else {
+      setToast({ message: t('history.backupUnchanged') });
+    }
   };
 
   if (!isLoaded) {
@@ -89,7 +838,7 @@ export default function Home() {
       <div className="min-h-screen flex items-center justify-center">
         <div className="text-center">
           <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600 mx-auto mb-4"></div>
-          <p className="text-gray-600">Loading your expenses...</p>
+          <p className="text-gray-600">{t('app.loading')}</p>
         </div>
       </div>
     );
@@ -100,19 +849,61 @@ export default function Home() {
       {/* Header */}
       <header className="bg-white shadow-sm border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4">
-          <div className="flex items-center justify-between">
-            <h1 className="text-3xl font-bold text-gray-900">💼 Expense Tracker</h1>
-            <div className="flex gap-3">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <h1 className="text-3xl font-bold text-gray-900">💼 {t('app.title')}</h1>
+            <div className="flex flex-wrap gap-3">
+              <Button
+                variant="ghost"
+                onClick={handleUndo}
+                disabled={history.past.length === 0}
+                title={t('app.undoTitle')}
+              >
+                ↶ {t('app.undo')}
+              </Button>
+              <Button
+                variant="ghost"
+                onClick={handleRedo}
+                disabled={history.future.length === 0}
+                title={t('app.redoTitle')}
+              >
+                ↷ {t('app.redo')}
+              </Button>
+              <Button variant="secondary" onClick={() => setIsImportOpen(true)}>
+                {t('app.importCsv')}
+              </Button>
+              <Button variant="secondary" onClick={() => setIsStatementImportOpen(true)}>
+                {t('app.importStatement')}
+              </Button>
+              <Button variant="secondary" onClick={() => setIsBackupOpen(true)}>
+                {t('app.backup')}
+              </Button>
               <Button
                 variant="secondary"
                 onClick={handleExport}
                 disabled={expenses.length === 0}
               >
-                Export CSV
+                {t('app.exportCsv')}
+              </Button>
+              <Button
+                variant="secondary"
+                onClick={handleExportZip}
+                disabled={expenses.length === 0}
+                title={t('app.exportZipTitle')}
+              >
+                {t('app.exportZip')}
               </Button>
               <Button variant="primary" onClick={handleOpenAddModal}>
-                + Add Expense
+                {t('app.addExpense')}
               </Button>
+              <div className="w-32">
+                <Select
+                  id="language"
+                  aria-label={t('app.language')}
+                  options={LANGUAGES}
+                  value={settings.language}
+                  onChange={e => handleLanguageChange(e.target.value as Language)}
+                />
+              </div>
             </div>
           </div>
         </div>
@@ -121,7 +912,7 @@ export default function Home() {
       {/* Navigation Tabs */}
       <div className="bg-white border-b border-gray-200">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
-          <nav className="flex space-x-8" aria-label="Tabs">
+          <nav className="flex space-x-8" aria-label={t('app.tabs')}>
             <button
               onClick={() => setViewMode('dashboard')}
               className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
@@ -130,7 +921,7 @@ export default function Home() {
                   : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
               }`}
             >
-              Dashboard
+              {t('app.tab.dashboard')}
             </button>
             <button
               onClick={() => setViewMode('expenses')}
@@ -140,7 +931,79 @@ export default function Home() {
                   : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
               }`}
             >
-              All Expenses
+              {t('app.tab.expenses')}
+            </button>
+            <button
+              onClick={() => setViewMode('categories')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                viewMode === 'categories'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {t('app.tab.categories')}
+            </button>
+            <button
+              onClick={() => setViewMode('budgets')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                viewMode === 'budgets'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {t('app.tab.budgets')}
+            </button>
+            <button
+              onClick={() => setViewMode('recurring')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                viewMode === 'recurring'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {t('app.tab.recurring')}
+            </button>
+            <button
+              onClick={() => setViewMode('groups')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                viewMode === 'groups'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {t('app.tab.groups')}
+            </button>
+            <button
+              onClick={() => setViewMode('accounts')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                viewMode === 'accounts'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {t('app.tab.accounts')}
+            </button>
+            <button
+              onClick={() => setViewMode('currencies')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                viewMode === 'currencies'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {t('app.tab.currencies')}
+            </button>
+            <button
+              onClick={() => setViewMode('trash')}
+              className={`py-4 px-1 border-b-2 font-medium text-sm transition-colors ${
+                viewMode === 'trash'
+                  ? 'border-blue-500 text-blue-600'
+                  : 'border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {trash.length > 0
+                ? t('app.tab.trashCount', { count: trash.length })
+                : t('app.tab.trash')}
             </button>
           </nav>
         </div>
@@ -148,13 +1011,130 @@ export default function Home() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {viewMode === 'dashboard' ? (
-          <Dashboard expenses={expenses} />
-        ) : (
+        {isReadOnly && (
+          <div className="mb-6 bg-red-50 border border-red-200 rounded-lg p-4">
+            <p className="text-sm text-red-800">⚠️ {t('app.readOnly')}</p>
+          </div>
+        )}
+        {quarantinedCount > 0 && (
+          <div className="mb-6 flex items-center justify-between bg-yellow-50 border border-yellow-200 rounded-lg p-4">
+            <p className="text-sm text-yellow-800">
+              ⚠️ {t('app.quarantined', { count: quarantinedCount })}
+            </p>
+            <div className="flex items-center gap-2">
+              <Button variant="ghost" size="sm" onClick={handleDownloadQuarantine}>
+                {t('app.downloadQuarantined')}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={handleDismissQuarantine}>
+                {t('app.dismiss')}
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {viewMode === 'dashboard' && (
+          <Dashboard
+            expenses={expenses}
+            categories={categories}
+            budgets={budgets}
+            accounts={accounts}
+            conversion={conversion}
+            locale={settings.locale}
+            t={t}
+          />
+        )}
+        {viewMode === 'expenses' && (
           <ExpenseList
             expenses={expenses}
+            categories={categories}
+            groups={groups}
+            accounts={accounts}
+            conversion={conversion}
+            locale={settings.locale}
+            t={t}
             onEdit={handleOpenEditModal}
-            onDelete={handleDeleteExpense}
+            onRefund={handleOpenRefundModal}
+            onDelete={id => handleDeleteExpenses([id])}
+            onBulkDelete={handleDeleteExpenses}
+            duplicateCount={duplicateGroups.length}
+            onFindDuplicates={() => setIsDuplicatesOpen(true)}
+            loadAttachment={loadAttachment}
+          />
+        )}
+        {viewMode === 'categories' && (
+          <CategoryManager
+            categories={categories}
+            expenses={expenses}
+            onCreate={handleCreateCategory}
+            onUpdate={handleUpdateCategory}
+            onMerge={handleMergeCategories}
+            t={t}
+          />
+        )}
+        {viewMode === 'budgets' && (
+          <BudgetManager
+            budgets={budgets}
+            categories={categories}
+            baseCurrency={settings.baseCurrency}
+            locale={settings.locale}
+            t={t}
+            onChange={handleBudgetsChange}
+          />
+        )}
+        {viewMode === 'recurring' && (
+          <RecurringRules
+            rules={recurringRules}
+            categories={categories}
+            locale={settings.locale}
+            t={t}
+            onChange={updateRecurringRules}
+          />
+        )}
+        {viewMode === 'groups' && (
+          <GroupLedger
+            groups={groups}
+            settlements={settlements}
+            expenses={expenses}
+            conversion={conversion}
+            locale={settings.locale}
+            t={t}
+            onGroupsChange={handleGroupsChange}
+            onSettlementsChange={handleSettlementsChange}
+          />
+        )}
+        {viewMode === 'accounts' && (
+          <AccountManager
+            accounts={accounts}
+            expenses={expenses}
+            conversion={conversion}
+            locale={settings.locale}
+            t={t}
+            onChange={handleAccountsChange}
+            onReconcile={handleReconcile}
+          />
+        )}
+        {viewMode === 'currencies' && (
+          <ExchangeRates
+            table={rateTable}
+            baseCurrency={settings.baseCurrency}
+            expenses={expenses}
+            onChange={handleRateTableChange}
+            onBaseCurrencyChange={handleBaseCurrencyChange}
+            locale={settings.locale}
+            onLocaleChange={handleLocaleChange}
+            t={t}
+          />
+        )}
+        {viewMode === 'trash' && (
+          <TrashView
+            trash={trash}
+            categories={categories}
+            retentionDays={settings.trashRetentionDays}
+            locale={settings.locale}
+            onRestore={handleRestoreExpenses}
+            onPurge={handlePurgeExpenses}
+            onRetentionChange={handleRetentionChange}
+            t={t}
           />
         )}
       </main>
@@ -163,14 +1143,112 @@ export default function Home() {
       <Modal
         isOpen={isModalOpen}
         onClose={handleCloseModal}
-        title={editingExpense ? 'Edit Expense' : 'Add New Expense'}
+        title={
+          editingExpense
+            ? t('app.modal.editExpense')
+            : refundingExpense
+              ? t('app.modal.addRefund')
+              : t('app.modal.addExpense')
+        }
       >
         <ExpenseForm
           onSubmit={editingExpense ? handleEditExpense : handleAddExpense}
           onCancel={handleCloseModal}
           initialData={editingExpense || undefined}
+          categories={categories}
+          knownTags={knownTags}
+          currencies={currencies}
+          conversion={conversion}
+          locale={settings.locale}
+          t={t}
+          groups={groups}
+          accounts={accounts}
+          findDuplicates={findFormDuplicates}
+          checkBudgets={findFormBudgetAlerts}
+          refunding={refundTarget}
+          refundable={refundable}
+        />
+      </Modal>
+
+      {/* Find Duplicates Modal */}
+      <Modal
+        isOpen={isDuplicatesOpen}
+        onClose={() => setIsDuplicatesOpen(false)}
+        title={t('app.modal.findDuplicates')}
+        size="lg"
+      >
+        <DuplicateFinder
+          groups={duplicateGroups}
+          categories={categories}
+          locale={settings.locale}
+          onMerge={handleMergeDuplicates}
+          onDismiss={handleDismissDuplicates}
+          t={t}
         />
       </Modal>
+
+      {/* CSV Import Modal */}
+      <Modal
+        isOpen={isImportOpen}
+        onClose={() => setIsImportOpen(false)}
+        title={t('app.modal.importCsv')}
+        size="xl"
+      >
+        <CSVImport
+          expenses={expenses}
+          categories={categories}
+          defaultCurrency={settings.baseCurrency}
+          locale={settings.locale}
+          onImport={handleImportExpenses}
+          onClose={() => setIsImportOpen(false)}
+          t={t}
+        />
+      </Modal>
+
+      {/* Bank Statement Import Modal */}
+      <Modal
+        isOpen={isStatementImportOpen}
+        onClose={() => setIsStatementImportOpen(false)}
+        title={t('app.modal.importStatement')}
+        size="xl"
+      >
+        <StatementImport
+          existingExternalIds={existingExternalIds}
+          expenses={expenses}
+          categories={categories}
+          defaultCurrency={settings.baseCurrency}
+          locale={settings.locale}
+          onImport={handleImportStatement}
+          onClose={() => setIsStatementImportOpen(false)}
+          t={t}
+        />
+      </Modal>
+
+      {/* Backup & Restore Modal */}
+      <Modal
+        isOpen={isBackupOpen}
+        onClose={() => setIsBackupOpen(false)}
+        title={t('app.modal.backup')}
+      >
+        <BackupRestore
+          expenses={expenses}
+          locale={settings.locale}
+          onBackup={handleBackup}
+          onRestore={handleRestoreBackup}
+          onClose={() => setIsBackupOpen(false)}
+          t={t}
+        />
+      </Modal>
+
+      <Toast
+        message={toast?.message ?? null}
+        actionLabel={toast?.actionLabel}
+        onAction={() => {
+          toast?.onAction?.();
+          setToast(null);
+        }}
+        onClose={handleCloseToast}
+      />
     </div>
   );
 }
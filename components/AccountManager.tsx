@@ -0,0 +1,363 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Account, AccountType, Expense } from '@/types/expense';
+import {
+  ACCOUNT_ICONS,
+  ACCOUNT_TYPES,
+  clearedTotal,
+  createAccount,
+  setCleared,
+  statementLines,
+  updateAccount,
+} from '@/lib/accounts';
+import { CurrencyConversion } from '@/lib/exchangeRates';
+import { Translator } from '@/lib/i18n';
+import { formatAmountInput, formatMoney, normaliseAmount, parseMoney } from '@/utils/currency';
+import { formatDate } from '@/utils/locale';
+import { amountSign } from '@/utils/transactions';
+import { format, startOfMonth } from 'date-fns';
+import { Button } from './ui/Button';
+import { Card } from './ui/Card';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+
+interface AccountManagerProps {
+  accounts: Account[];
+  expenses: Expense[];
+  // Statements are reconciled in the base currency
+  conversion: CurrencyConversion;
+  locale: string;
+  t: Translator;
+  onChange: (accounts: Account[]) => void;
+  // Expenses whose cleared mark changed while reconciling
+  onReconcile: (expenses: Expense[]) => void;
+}
+
+interface ReconciliationProps {
+  accounts: Account[];
+  expenses: Expense[];
+  conversion: CurrencyConversion;
+  locale: string;
+  t: Translator;
+  onReconcile: (expenses: Expense[]) => void;
+}
+
+// Tick off an account's expenses against a statement until they add up to its balance
+const Reconciliation: React.FC<ReconciliationProps> = ({
+  accounts,
+  expenses,
+  conversion,
+  locale,
+  t,
+  onReconcile,
+}) => {
+  const { baseCurrency } = conversion;
+  const [accountId, setAccountId] = useState(accounts[0]?.id ?? '');
+  const [startDate, setStartDate] = useState(() =>
+    format(startOfMonth(new Date()), 'yyyy-MM-dd')
+  );
+  const [endDate, setEndDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [balance, setBalance] = useState('');
+  // Null until something is ticked or unticked, showing what is stored
+  const [ticked, setTicked] = useState<Set<string> | null>(null);
+
+  const lines = statementLines(expenses, accountId, { startDate, endDate }, conversion);
+  const clearedIds =
+    ticked ?? new Set(lines.filter(line => line.expense.cleared).map(line => line.expense.id));
+  const total = clearedTotal(lines, clearedIds);
+  const statement = parseMoney(normaliseAmount(balance, locale) ?? balance, baseCurrency);
+  const difference = statement ? statement.minor - total : null;
+  const changed = setCleared(lines.map(line => line.expense), clearedIds);
+  const money = (minor: number) => formatMoney({ minor, currency: baseCurrency }, locale);
+
+  // A different account or period starts again from what is stored
+  const changePeriod = (update: () => void) => {
+    update();
+    setTicked(null);
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(clearedIds);
+    if (next.has(id)) {
+      next.delete(id);
+    } else {
+      next.add(id);
+    }
+    setTicked(next);
+  };
+
+  return (
+    <Card title={t('accounts.reconcileTitle')}>
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start">
+        <Select
+          id="reconcile-account"
+          label={t('accounts.account')}
+          value={accountId}
+          onChange={e => changePeriod(() => setAccountId(e.target.value))}
+          options={accounts.map(account => ({
+            value: account.id,
+            label: `${ACCOUNT_ICONS[account.type]} ${account.name}`,
+          }))}
+        />
+        <Input
+          id="reconcile-start"
+          label={t('accounts.statementStart')}
+          type="date"
+          value={startDate}
+          onChange={e => changePeriod(() => setStartDate(e.target.value))}
+        />
+        <Input
+          id="reconcile-end"
+          label={t('accounts.statementEnd')}
+          type="date"
+          value={endDate}
+          onChange={e => changePeriod(() => setEndDate(e.target.value))}
+        />
+        <Input
+          id="reconcile-balance"
+          label={t('accounts.statementBalance', { currency: baseCurrency })}
+          type="text"
+          inputMode="decimal"
+          placeholder={formatAmountInput({ minor: 0, currency: baseCurrency }, locale)}
+          value={balance}
+          onChange={e => setBalance(e.target.value)}
+        />
+      </div>
+
+      {lines.length === 0 ? (
+        <p className="mt-4 text-center text-gray-500 py-6 bg-gray-50 rounded-lg">
+          {t('accounts.noStatementLines')}
+        </p>
+      ) : (
+        <ul className="mt-4 divide-y divide-gray-100">
+          {lines.map(({ expense, amount }) => (
+            <li key={expense.id}>
+              <label className="flex items-center gap-3 py-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={clearedIds.has(expense.id)}
+                  onChange={() => toggle(expense.id)}
+                  className="rounded border-gray-300"
+                />
+                <span className="w-24 text-gray-500">{formatDate(expense.date, locale)}</span>
+                <span className="flex-1 text-gray-900">{expense.description}</span>
+                <span className="text-right">
+                  <span className="font-semibold text-gray-900">
+                    {amountSign(expense)}
+                    {formatMoney(expense.amount, locale)}
+                  </span>
+                  {expense.amount.currency !== baseCurrency && (
+                    <span className="block text-xs text-gray-500">
+                      {amount === null ? t('accounts.noRate') : `≈ ${money(amount)}`}
+                    </span>
+                  )}
+                </span>
+              </label>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="mt-4 flex flex-wrap items-center justify-between gap-4 border-t pt-4">
+        <div className="text-sm space-y-1">
+          <p className="text-gray-700">{t('accounts.clearedTotal', { amount: money(total) })}</p>
+          {difference !== null && (
+            <p
+              className={`font-semibold ${difference === 0 ? 'text-green-700' : 'text-red-600'}`}
+              aria-live="polite"
+            >
+              {difference === 0
+                ? t('accounts.balanced')
+                : difference > 0
+                  ? t('accounts.toClear', { amount: money(difference) })
+                  : t('accounts.overStatement', { amount: money(-difference) })}
+            </p>
+          )}
+        </div>
+        <Button
+          variant="primary"
+          disabled={changed.length === 0}
+          onClick={() => {
+            onReconcile(changed);
+            setTicked(null);
+          }}
+        >
+          {t('accounts.saveCleared', { count: changed.length })}
+        </Button>
+      </div>
+    </Card>
+  );
+};
+
+export const AccountManager: React.FC<AccountManagerProps> = ({
+  accounts,
+  expenses,
+  conversion,
+  locale,
+  t,
+  onChange,
+  onReconcile,
+}) => {
+  const [name, setName] = useState('');
+  const [type, setType] = useState<AccountType>('card');
+  const [error, setError] = useState<string>();
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const typeOptions = ACCOUNT_TYPES.map(value => ({
+    value,
+    label: `${ACCOUNT_ICONS[value]} ${t(`accounts.type.${value}`)}`,
+  }));
+  const isTaken = (value: string, exceptId?: string) =>
+    accounts.some(
+      account =>
+        account.id !== exceptId && account.name.toLowerCase() === value.trim().toLowerCase()
+    );
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) {
+      setError(t('accounts.nameRequired'));
+      return;
+    }
+    if (isTaken(name)) {
+      setError(t('accounts.nameTaken'));
+      return;
+    }
+
+    onChange([...accounts, createAccount({ name, type })]);
+    setName('');
+    setError(undefined);
+  };
+
+  const handleRename = (id: string) => {
+    if (editingName.trim() && !isTaken(editingName, id)) {
+      onChange(updateAccount(accounts, id, { name: editingName }));
+    }
+    setEditingId(null);
+  };
+
+  const activeAccounts = accounts.filter(account => !account.archived);
+
+  return (
+    <div className="space-y-6">
+      <Card title={t('accounts.newTitle')}>
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
+          <Input
+            id="account-name"
+            label={t('accounts.name')}
+            placeholder={t('accounts.namePlaceholder')}
+            value={name}
+            onChange={e => {
+              setName(e.target.value);
+              setError(undefined);
+            }}
+            error={error}
+          />
+          <Select
+            id="account-type"
+            label={t('accounts.type')}
+            value={type}
+            onChange={e => setType(e.target.value as AccountType)}
+            options={typeOptions}
+          />
+          <Button type="submit" variant="primary" className="md:mt-6">
+            {t('accounts.create')}
+          </Button>
+        </form>
+      </Card>
+
+      <Card title={t('accounts.title')}>
+        {accounts.length === 0 ? (
+          <p className="text-center text-gray-500 py-6 bg-gray-50 rounded-lg">
+            {t('accounts.empty')}
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {accounts.map(account => {
+              const onAccount = expenses.filter(expense => expense.accountId === account.id);
+              const uncleared = onAccount.filter(expense => !expense.cleared).length;
+
+              return (
+                <div
+                  key={account.id}
+                  className="flex items-center justify-between gap-4 py-3 text-sm"
+                >
+                  {editingId === account.id ? (
+                    <form
+                      onSubmit={e => {
+                        e.preventDefault();
+                        handleRename(account.id);
+                      }}
+                      className="flex flex-1 items-center gap-2"
+                    >
+                      <Input
+                        aria-label={t('accounts.name')}
+                        value={editingName}
+                        onChange={e => setEditingName(e.target.value)}
+                        autoFocus
+                      />
+                      <Button type="submit" variant="secondary" size="sm">
+                        {t('accounts.save')}
+                      </Button>
+                    </form>
+                  ) : (
+                    <div className={account.archived ? 'opacity-60' : ''}>
+                      <p className="font-medium text-gray-900">
+                        {ACCOUNT_ICONS[account.type]} {account.name}
+                      </p>
+                      <p className="text-gray-500">
+                        {t(`accounts.type.${account.type}`)} ·{' '}
+                        {t('accounts.expenseCount', { count: onAccount.length })}
+                        {uncleared > 0 && ` · ${t('accounts.uncleared', { count: uncleared })}`}
+                        {account.archived && ` · ${t('accounts.archived')}`}
+                      </p>
+                    </div>
+                  )}
+                  <div className="flex items-center gap-2">
+                    {editingId !== account.id && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => {
+                          setEditingId(account.id);
+                          setEditingName(account.name);
+                        }}
+                      >
+                        {t('accounts.rename')}
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() =>
+                        onChange(
+                          updateAccount(accounts, account.id, { archived: !account.archived })
+                        )
+                      }
+                    >
+                      {account.archived ? t('accounts.unarchive') : t('accounts.archive')}
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+        <p className="text-xs text-gray-400 mt-4">{t('accounts.note')}</p>
+      </Card>
+
+      {activeAccounts.length > 0 && (
+        <Reconciliation
+          accounts={activeAccounts}
+          expenses={expenses}
+          conversion={conversion}
+          locale={locale}
+          t={t}
+          onReconcile={onReconcile}
+        />
+      )}
+    </div>
+  );
+};
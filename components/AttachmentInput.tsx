@@ -0,0 +1,94 @@
+'use client';
+
+import React, { useRef, useState } from 'react';
+import { Attachment } from '@/types/expense';
+import { Translator } from '@/lib/i18n';
+import { isPdfAttachment } from '@/lib/attachments';
+import { formatFileSize } from '@/utils/locale';
+
+interface AttachmentInputProps {
+  id: string;
+  attachments: Attachment[];
+  // Files picked or dropped; the form checks and stores them
+  onAdd: (files: File[]) => void;
+  onRemove: (id: string) => void;
+  locale: string;
+  t: Translator;
+  error?: string;
+}
+
+export const AttachmentInput: React.FC<AttachmentInputProps> = ({
+  id,
+  attachments,
+  onAdd,
+  onRemove,
+  locale,
+  t,
+  error,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState(false);
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragging(false);
+    if (e.dataTransfer.files.length > 0) onAdd(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div className="w-full">
+      <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+        {t('form.receipts')}
+      </label>
+      <div
+        onDragOver={e => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={`px-3 py-4 border-2 border-dashed rounded-lg text-center text-sm ${
+          isDragging ? 'border-blue-500 bg-blue-50' : error ? 'border-red-500' : 'border-gray-300'
+        } text-gray-500 cursor-pointer hover:border-blue-400`}
+      >
+        {t('form.receiptsDrop')}
+      </div>
+      <input
+        ref={inputRef}
+        id={id}
+        type="file"
+        accept="image/*,application/pdf"
+        multiple
+        className="hidden"
+        onChange={e => {
+          if (e.target.files) onAdd(Array.from(e.target.files));
+          // Picking the same file again after removing it should still add it
+          e.target.value = '';
+        }}
+      />
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+      {attachments.length > 0 && (
+        <ul className="mt-2 space-y-1">
+          {attachments.map(attachment => (
+            <li key={attachment.id} className="flex items-center gap-2 text-sm text-gray-700">
+              <span>{isPdfAttachment(attachment) ? '📄' : '🖼️'}</span>
+              <span className="flex-1 truncate">{attachment.name}</span>
+              <span className="text-xs text-gray-500">
+                {formatFileSize(attachment.size, locale)}
+              </span>
+              <button
+                type="button"
+                onClick={() => onRemove(attachment.id)}
+                className="text-gray-400 hover:text-red-600"
+                aria-label={t('form.removeReceipt', { name: attachment.name })}
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { Attachment } from '@/types/expense';
+import { Translator } from '@/lib/i18n';
+import { isPdfAttachment } from '@/lib/attachments';
+import { formatFileSize } from '@/utils/locale';
+import { Modal } from './ui/Modal';
+
+interface AttachmentThumbnailsProps {
+  attachments: Attachment[];
+  loadAttachment: (id: string) => Promise<Blob | null>;
+  locale: string;
+  t: Translator;
+}
+
+// An object URL for a stored file, released again when the component unmounts.
+// Undefined while loading and null if the file is missing.
+const useAttachmentUrl = (
+  id: string,
+  loadAttachment: (id: string) => Promise<Blob | null>
+): string | null | undefined => {
+  const [url, setUrl] = useState<string | null>();
+
+  useEffect(() => {
+    let cancelled = false;
+    let objectUrl: string | null = null;
+
+    loadAttachment(id)
+      .then(blob => {
+        if (cancelled) return;
+        objectUrl = blob ? URL.createObjectURL(blob) : null;
+        setUrl(objectUrl);
+      })
+      .catch(() => {
+        if (!cancelled) setUrl(null);
+      });
+
+    return () => {
+      cancelled = true;
+      if (objectUrl) URL.revokeObjectURL(objectUrl);
+    };
+  }, [id, loadAttachment]);
+
+  return url;
+};
+
+const Thumbnail: React.FC<{
+  attachment: Attachment;
+  loadAttachment: (id: string) => Promise<Blob | null>;
+  onOpen: () => void;
+  t: Translator;
+}> = ({ attachment, loadAttachment, onOpen, t }) => {
+  const url = useAttachmentUrl(attachment.id, loadAttachment);
+  const isPdf = isPdfAttachment(attachment);
+
+  return (
+    <button
+      type="button"
+      onClick={onOpen}
+      disabled={url === null}
+      title={url === null ? t('list.receiptMissing') : attachment.name}
+      className="w-12 h-12 rounded border border-gray-200 bg-gray-50 overflow-hidden flex items-center justify-center text-xl hover:border-blue-400 disabled:opacity-50"
+    >
+      {url && !isPdf ? (
+        // eslint-disable-next-line @next/next/no-img-element -- object URLs cannot be optimised
+        <img src={url} alt={attachment.name} className="w-full h-full object-cover" />
+      ) : isPdf ? (
+        '📄'
+      ) : (
+        '🖼️'
+      )}
+    </button>
+  );
+};
+
+const Viewer: React.FC<{
+  attachment: Attachment;
+  loadAttachment: (id: string) => Promise<Blob | null>;
+  locale: string;
+  t: Translator;
+}> = ({ attachment, loadAttachment, locale, t }) => {
+  const url = useAttachmentUrl(attachment.id, loadAttachment);
+
+  if (url === undefined) {
+    return <p className="text-center text-gray-500 py-12">{t('app.loading')}</p>;
+  }
+  if (url === null) {
+    return <p className="text-center text-gray-500 py-12">{t('list.receiptMissing')}</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {isPdfAttachment(attachment) ? (
+        <iframe src={url} title={attachment.name} className="w-full h-[70vh] rounded border" />
+      ) : (
+        // eslint-disable-next-line @next/next/no-img-element -- object URLs cannot be optimised
+        <img src={url} alt={attachment.name} className="max-h-[70vh] mx-auto rounded" />
+      )}
+      <div className="flex items-center justify-between text-sm text-gray-500">
+        <span>
+          {attachment.name} · {formatFileSize(attachment.size, locale)}
+        </span>
+        <a href={url} download={attachment.name} className="text-blue-600 hover:underline">
+          {t('list.downloadReceipt')}
+        </a>
+      </div>
+    </div>
+  );
+};
+
+export const AttachmentThumbnails: React.FC<AttachmentThumbnailsProps> = ({
+  attachments,
+  loadAttachment,
+  locale,
+  t,
+}) => {
+  const [openId, setOpenId] = useState<string | null>(null);
+  const open = attachments.find(attachment => attachment.id === openId);
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-1">
+      {attachments.map(attachment => (
+        <Thumbnail
+          key={attachment.id}
+          attachment={attachment}
+          loadAttachment={loadAttachment}
+          onOpen={() => setOpenId(attachment.id)}
+          t={t}
+        />
+      ))}
+      <Modal
+        isOpen={!!open}
+        onClose={() => setOpenId(null)}
+        title={open?.name ?? ''}
+        size="lg"
+      >
+        {open && <Viewer attachment={open} loadAttachment={loadAttachment} locale={locale} t={t} />}
+      </Modal>
+    </div>
+  );
+};
@@ -0,0 +1,159 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Expense } from '@/types/expense';
+import { BackupFile, RestoreMode, parseBackup, previewRestore } from '@/lib/backup';
+import { formatDateTime } from '@/utils/locale';
+import { Translator } from '@/lib/i18n';
+import { Button } from './ui/Button';
+
+interface BackupRestoreProps {
+  expenses: Expense[];
+  // Amounts and dates are shown in this locale's format
+  locale: string;
+  onBackup: () => void;
+  onRestore: (backup: BackupFile, mode: RestoreMode) => Promise<void>;
+  onClose: () => void;
+  // Labels and file errors are shown in the interface language
+  t: Translator;
+}
+
+export const BackupRestore: React.FC<BackupRestoreProps> = ({
+  expenses,
+  locale,
+  onBackup,
+  onRestore,
+  onClose,
+  t,
+}) => {
+  const [backup, setBackup] = useState<BackupFile | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [errors, setErrors] = useState<string[]>([]);
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    const result = parseBackup(await file.text(), t);
+    setBackup(result.backup);
+    setErrors(result.errors);
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+
+    setIsRestoring(true);
+    await onRestore(backup, mode);
+    setIsRestoring(false);
+    onClose();
+  };
+
+  const preview = backup ? previewRestore(expenses, backup, mode) : null;
+
+  return (
+    <div className="space-y-6">
+      {/* Backup */}
+      <div>
+        <h4 className="text-sm font-semibold text-gray-900 mb-1">{t('backup.createTitle')}</h4>
+        <p className="text-sm text-gray-600 mb-3">{t('backup.createNote')}</p>
+        <Button variant="secondary" onClick={onBackup}>
+          {t('backup.download')}
+        </Button>
+      </div>
+
+      {/* Restore */}
+      <div className="border-t border-gray-200 pt-6">
+        <h4 className="text-sm font-semibold text-gray-900 mb-1">{t('backup.restoreTitle')}</h4>
+        <label className="block">
+          <span className="sr-only">{t('backup.chooseFile')}</span>
+          <input
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileChange}
+            className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-200 file:text-gray-900 hover:file:bg-gray-300"
+          />
+        </label>
+
+        {errors.length > 0 && (
+          <ul className="mt-3 space-y-1">
+            {errors.map(error => (
+              <li key={error} className="text-sm text-red-600">
+                {error}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {backup && preview && (
+          <div className="mt-4 space-y-4">
+            <p className="text-sm text-gray-600">
+              {fileName}
+              {backup.createdAt &&
+                ` · ${t('backup.created', { date: formatDateTime(backup.createdAt, locale) })}`}
+              {` · ${t('backup.expenseCount', { count: backup.data.expenses.length })}`}
+            </p>
+
+            <div className="space-y-2">
+              <label className="flex items-start gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  checked={mode === 'merge'}
+                  onChange={() => setMode('merge')}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium text-gray-900">{t('backup.merge')}</span>
+                  <span className="block text-gray-500">{t('backup.mergeNote')}</span>
+                </span>
+              </label>
+              <label className="flex items-start gap-2 text-sm">
+                <input
+                  type="radio"
+                  name="restore-mode"
+                  checked={mode === 'replace'}
+                  onChange={() => setMode('replace')}
+                  className="mt-1"
+                />
+                <span>
+                  <span className="font-medium text-gray-900">{t('backup.replace')}</span>
+                  <span className="block text-gray-500">{t('backup.replaceNote')}</span>
+                </span>
+              </label>
+            </div>
+
+            <div className="grid grid-cols-2 gap-2 text-sm bg-gray-50 rounded-lg p-4">
+              <span className="text-gray-600">{t('backup.added')}</span>
+              <span className="font-semibold text-gray-900 text-right">{preview.added}</span>
+              <span className="text-gray-600">{t('backup.updated')}</span>
+              <span className="font-semibold text-gray-900 text-right">{preview.updated}</span>
+              <span className="text-gray-600">{t('backup.unchanged')}</span>
+              <span className="font-semibold text-gray-900 text-right">{preview.unchanged}</span>
+              <span className="text-gray-600">{t('backup.removed')}</span>
+              <span className="font-semibold text-gray-900 text-right">{preview.removed}</span>
+              <span className="text-gray-600">{t('backup.trash')}</span>
+              <span className="font-semibold text-gray-900 text-right">{preview.trash}</span>
+            </div>
+
+            <div className="flex gap-3">
+              <Button
+                variant="primary"
+                className="flex-1"
+                onClick={handleRestore}
+                disabled={isRestoring}
+              >
+                {isRestoring ? t('backup.restoring') : t('backup.restore')}
+              </Button>
+              <Button variant="secondary" onClick={onClose} disabled={isRestoring}>
+                {t('backup.cancel')}
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
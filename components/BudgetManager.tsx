@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Budget, Category } from '@/types/expense';
+import { categoriesOfKind, categoryOptions, getCategoryLabel } from '@/lib/categories';
+import { BudgetInput, removeBudget, setBudget } from '@/lib/budgets';
+import { Translator } from '@/lib/i18n';
+import { formatAmountInput, formatMoney, normaliseAmount, parseMoney } from '@/utils/currency';
+import { formatDate } from '@/utils/locale';
+import { Button } from './ui/Button';
+import { Card } from './ui/Card';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+
+interface BudgetManagerProps {
+  budgets: Budget[];
+  categories: Category[];
+  // New budgets are set in this currency
+  baseCurrency: string;
+  // Amounts are typed and shown in this locale's format
+  locale: string;
+  // Labels and errors are shown in the interface language
+  t: Translator;
+  onChange: (budgets: Budget[]) => void;
+}
+
+export const BudgetManager: React.FC<BudgetManagerProps> = ({
+  budgets,
+  categories,
+  baseCurrency,
+  locale,
+  t,
+  onChange,
+}) => {
+  const [categoryId, setCategoryId] = useState('');
+  const [amount, setAmount] = useState('');
+  const [rollover, setRollover] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const budgetLabel = (budget: Budget) =>
+    budget.categoryId ? getCategoryLabel(categories, budget.categoryId) : t('budgets.overall');
+
+  // The overall budget first, then categories by name
+  const sortedBudgets = [...budgets].sort(
+    (a, b) =>
+      Number(Boolean(a.categoryId)) - Number(Boolean(b.categoryId)) ||
+      budgetLabel(a).localeCompare(budgetLabel(b))
+  );
+
+  // Picking a category that already has a budget loads it for editing
+  const selectTarget = (id: string) => {
+    const existing = budgets.find(budget => (budget.categoryId ?? '') === id);
+    setCategoryId(id);
+    setAmount(existing ? formatAmountInput(existing.amount, locale) : '');
+    setRollover(existing?.rollover ?? false);
+    setError(null);
+  };
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    const money = parseMoney(normaliseAmount(amount, locale) ?? amount, baseCurrency);
+
+    if (!money || money.minor <= 0) {
+      setError(t('budgets.amountPositive'));
+      return;
+    }
+
+    const input: BudgetInput = {
+      ...(categoryId ? { categoryId } : {}),
+      amount: money,
+      rollover,
+    };
+    onChange(setBudget(budgets, input));
+    selectTarget('');
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card title={t('budgets.newTitle')}>
+        <form
+          onSubmit={handleSave}
+          className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start"
+        >
+          <Select
+            id="budget-category"
+            label={t('budgets.appliesTo')}
+            options={[
+              { value: '', label: t('budgets.overallOption') },
+              ...categoryOptions(categoriesOfKind(categories, 'expense')),
+            ]}
+            value={categoryId}
+            onChange={e => selectTarget(e.target.value)}
+          />
+          <Input
+            id="budget-amount"
+            label={t('budgets.perMonth', { currency: baseCurrency })}
+            type="text"
+            inputMode="decimal"
+            placeholder={formatAmountInput({ minor: 0, currency: baseCurrency }, locale)}
+            value={amount}
+            onChange={e => {
+              setAmount(e.target.value);
+              setError(null);
+            }}
+            error={error ?? undefined}
+          />
+          <label className="flex items-center gap-2 text-sm text-gray-700 md:mt-8">
+            <input
+              type="checkbox"
+              checked={rollover}
+              onChange={e => setRollover(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            {t('budgets.rollover')}
+          </label>
+          <Button type="submit" variant="primary" className="md:mt-6">
+            {t('budgets.save')}
+          </Button>
+        </form>
+        <p className="mt-3 text-sm text-gray-500">{t('budgets.note')}</p>
+      </Card>
+
+      <Card title={t('budgets.title')}>
+        {sortedBudgets.length === 0 ? (
+          <p className="text-center text-gray-500 py-6 bg-gray-50 rounded-lg">
+            {t('budgets.empty')}
+          </p>
+        ) : (
+          <div className="divide-y divide-gray-100">
+            {sortedBudgets.map(budget => (
+              <div key={budget.id} className="flex items-center justify-between py-3 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{budgetLabel(budget)}</p>
+                  <p className="text-gray-500">
+                    {t('budgets.since', { date: formatDate(`${budget.startMonth}-01`, locale) })}
+                    {budget.rollover && ` · ${t('budgets.rollsOver')}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-3">
+                  <span className="font-semibold text-gray-900">
+                    {formatMoney(budget.amount, locale)}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => selectTarget(budget.categoryId ?? '')}
+                  >
+                    {t('budgets.edit')}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange(removeBudget(budgets, budget.id))}
+                  >
+                    {t('budgets.remove')}
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
@@ -0,0 +1,347 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { Category, Expense, ExpenseFormData } from '@/types/expense';
+import {
+  categoriesOfKind,
+  categoryOptions,
+  findCategory,
+  getDefaultCategoryId,
+} from '@/lib/categories';
+import {
+  ColumnMapping,
+  DateFormatOption,
+  IMPORT_FIELDS,
+  ImportField,
+  autoMapColumns,
+  buildImportRows,
+  detectDelimiter,
+  detectHeaderRow,
+  parseCSV,
+} from '@/utils/csvImport';
+import { hasErrors } from '@/utils/validation';
+import { findDuplicatesOf } from '@/utils/duplicates';
+import { amountSign } from '@/utils/transactions';
+import { toNewExpense } from '@/lib/repository';
+import { Translator } from '@/lib/i18n';
+import { Button } from './ui/Button';
+import { Select } from './ui/Select';
+
+interface CSVImportProps {
+  // Current expenses, used to flag rows that are probably already recorded
+  expenses: Expense[];
+  categories: Category[];
+  // Currency for rows when the file has no currency column
+  defaultCurrency: string;
+  // Decides how ambiguous amounts such as "1,234" are read
+  locale: string;
+  onImport: (rows: ExpenseFormData[]) => Promise<void>;
+  onClose: () => void;
+  // Labels and row errors are shown in the interface language
+  t: Translator;
+}
+
+const DATE_FORMATS: DateFormatOption[] = ['dd/MM/yyyy', 'MM/dd/yyyy', 'yyyy-MM-dd'];
+
+export const CSVImport: React.FC<CSVImportProps> = ({
+  expenses,
+  categories,
+  defaultCurrency,
+  locale,
+  onImport,
+  onClose,
+  t,
+}) => {
+  const delimiterOptions = [
+    { value: ',', label: t('csvImport.delimiter.comma') },
+    { value: ';', label: t('csvImport.delimiter.semicolon') },
+    { value: '\t', label: t('csvImport.delimiter.tab') },
+    { value: '|', label: t('csvImport.delimiter.pipe') },
+  ];
+  const dateFormatOptions = [
+    { value: 'auto', label: t('csvImport.detectDateFormat') },
+    ...DATE_FORMATS.map(value => ({ value, label: value })),
+  ];
+
+  const [text, setText] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [delimiter, setDelimiter] = useState(',');
+  const [hasHeader, setHasHeader] = useState(true);
+  const [dateFormat, setDateFormat] = useState<DateFormatOption>('auto');
+  const [defaultCategoryId, setDefaultCategoryId] = useState(() => getDefaultCategoryId(categories));
+  const [mapping, setMapping] = useState<ColumnMapping>({
+    date: null,
+    amount: null,
+    currency: null,
+    category: null,
+    description: null,
+    type: null,
+  });
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const rows = useMemo(() => (text ? parseCSV(text, delimiter) : []), [text, delimiter]);
+
+  const importRows = useMemo(
+    () =>
+      buildImportRows(
+        rows,
+        {
+          mapping,
+          hasHeader,
+          dateFormat,
+          categories,
+          defaultCategoryId,
+          defaultCurrency,
+          locale,
+        },
+        t
+      ),
+    [
+      rows,
+      mapping,
+      hasHeader,
+      dateFormat,
+      categories,
+      defaultCategoryId,
+      defaultCurrency,
+      locale,
+      t,
+    ]
+  );
+
+  const duplicateRows = useMemo(
+    () =>
+      new Set(
+        importRows
+          .filter(
+            row =>
+              !hasErrors(row.errors) &&
+              findDuplicatesOf(toNewExpense(row.formData), expenses).length > 0
+          )
+          .map(row => row.rowNumber)
+      ),
+    [importRows, expenses]
+  );
+
+  const validRows = importRows.filter(row => !hasErrors(row.errors));
+  const invalidCount = importRows.length - validRows.length;
+  const rowsToImport = skipDuplicates
+    ? validRows.filter(row => !duplicateRows.has(row.rowNumber))
+    : validRows;
+
+  const columnCount = Math.max(0, ...rows.map(row => row.length));
+  const columnOptions = [
+    { value: '', label: t('csvImport.notInFile') },
+    ...Array.from({ length: columnCount }, (_, index) => ({
+      value: index.toString(),
+      label:
+        hasHeader && rows[0]?.[index]
+          ? rows[0][index]
+          : t('csvImport.column', { number: index + 1 }),
+    })),
+  ];
+
+  // Re-detect everything whenever the delimiter changes the shape of the rows
+  const applyDetection = (content: string, nextDelimiter: string) => {
+    const parsed = parseCSV(content, nextDelimiter);
+    const header = detectHeaderRow(parsed);
+    setHasHeader(header);
+    setMapping(
+      header
+        ? autoMapColumns(parsed[0])
+        : {
+            date: null,
+            amount: null,
+            currency: null,
+            category: null,
+            description: null,
+            type: null,
+          }
+    );
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const content = await file.text();
+    const detected = detectDelimiter(content);
+
+    setFileName(file.name);
+    setText(content);
+    setDelimiter(detected);
+    applyDetection(content, detected);
+  };
+
+  const handleDelimiterChange = (value: string) => {
+    setDelimiter(value);
+    if (text) applyDetection(text, value);
+  };
+
+  const handleMappingChange = (field: ImportField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? null : parseInt(value, 10) }));
+  };
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    await onImport(rowsToImport.map(row => row.formData));
+    setIsImporting(false);
+    onClose();
+  };
+
+  return (
+    <div className="space-y-6">
+      <label className="block">
+        <span className="block text-sm font-medium text-gray-700 mb-1">
+          {t('csvImport.file')}
+        </span>
+        <input
+          type="file"
+          accept=".csv,text/csv,text/plain"
+          onChange={handleFileChange}
+          className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-200 file:text-gray-900 hover:file:bg-gray-300"
+        />
+      </label>
+
+      {text !== null && (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <Select
+              label={t('csvImport.delimiter')}
+              options={delimiterOptions}
+              value={delimiter}
+              onChange={e => handleDelimiterChange(e.target.value)}
+            />
+            <Select
+              label={t('csvImport.dateFormat')}
+              options={dateFormatOptions}
+              value={dateFormat}
+              onChange={e => setDateFormat(e.target.value as DateFormatOption)}
+            />
+            <Select
+              label={t('csvImport.defaultCategory')}
+              options={categoryOptions(categoriesOfKind(categories, 'expense'))}
+              value={defaultCategoryId}
+              onChange={e => setDefaultCategoryId(e.target.value)}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={hasHeader}
+              onChange={e => setHasHeader(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            {t('csvImport.hasHeader')}
+          </label>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={skipDuplicates}
+              onChange={e => setSkipDuplicates(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            {t('csvImport.skipDuplicates')}
+          </label>
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">
+              {t('csvImport.columnMapping')}
+            </h4>
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+              {IMPORT_FIELDS.map(field => (
+                <Select
+                  key={field}
+                  label={t(`csvImport.field.${field}`)}
+                  id={`mapping-${field}`}
+                  options={columnOptions}
+                  value={mapping[field]?.toString() ?? ''}
+                  onChange={e => handleMappingChange(field, e.target.value)}
+                />
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <h4 className="text-sm font-semibold text-gray-900 mb-2">
+              {t('csvImport.preview', { file: fileName })}
+            </h4>
+            <div className="max-h-80 overflow-auto border border-gray-200 rounded-lg">
+              <table className="min-w-full text-sm">
+                <thead className="bg-gray-50 sticky top-0">
+                  <tr className="text-left text-gray-600">
+                    <th className="px-3 py-2 font-medium">{t('csvImport.row')}</th>
+                    <th className="px-3 py-2 font-medium">{t('csvImport.field.date')}</th>
+                    <th className="px-3 py-2 font-medium">{t('csvImport.field.amount')}</th>
+                    <th className="px-3 py-2 font-medium">{t('csvImport.field.category')}</th>
+                    <th className="px-3 py-2 font-medium">{t('csvImport.field.description')}</th>
+                    <th className="px-3 py-2 font-medium">{t('csvImport.status')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {importRows.map(row => {
+                    const rowErrors = Object.values(row.errors).filter(Boolean);
+                    return (
+                      <tr
+                        key={row.rowNumber}
+                        className={`border-t border-gray-100 ${rowErrors.length > 0 ? 'bg-red-50' : ''}`}
+                      >
+                        <td className="px-3 py-2 text-gray-500">{row.rowNumber}</td>
+                        <td className="px-3 py-2">{row.formData.date}</td>
+                        <td className="px-3 py-2">
+                          {amountSign(row.formData)}
+                          {row.formData.amount} {row.formData.currency}
+                        </td>
+                        <td className="px-3 py-2">
+                          {findCategory(categories, row.formData.categoryId).name}
+                        </td>
+                        <td className="px-3 py-2 max-w-xs truncate">{row.formData.description}</td>
+                        <td className="px-3 py-2">
+                          {rowErrors.length > 0 ? (
+                            <span className="text-red-600">{rowErrors.join('; ')}</span>
+                          ) : duplicateRows.has(row.rowNumber) ? (
+                            <span className="text-yellow-700">
+                              {t('csvImport.possibleDuplicate')}
+                            </span>
+                          ) : (
+                            <span className="text-green-700">{t('csvImport.ready')}</span>
+                          )}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+            <p className="mt-2 text-sm text-gray-600">
+              {t('csvImport.readyCount', { count: rowsToImport.length })}
+              {invalidCount > 0 && `, ${t('csvImport.invalidCount', { count: invalidCount })}`}
+              {skipDuplicates &&
+                duplicateRows.size > 0 &&
+                `, ${t('csvImport.duplicateCount', { count: duplicateRows.size })}`}
+            </p>
+          </div>
+
+          <div className="flex gap-3">
+            <Button
+              variant="primary"
+              className="flex-1"
+              onClick={handleImport}
+              disabled={isImporting || rowsToImport.length === 0}
+            >
+              {isImporting
+                ? t('csvImport.importing')
+                : t('csvImport.import', { count: rowsToImport.length })}
+            </Button>
+            <Button variant="secondary" onClick={onClose} disabled={isImporting}>
+              {t('csvImport.cancel')}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
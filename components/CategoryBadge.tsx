@@ -0,0 +1,20 @@
+import React from 'react';
+import { Category } from '@/types/expense';
+import { categoryBadgeClasses, findCategory, getCategoryLabel } from '@/lib/categories';
+
+interface CategoryBadgeProps {
+  categories: Category[];
+  categoryId: string;
+}
+
+export const CategoryBadge: React.FC<CategoryBadgeProps> = ({ categories, categoryId }) => {
+  const category = findCategory(categories, categoryId);
+
+  return (
+    <span
+      className={`px-2 py-1 rounded-full text-xs font-medium ${categoryBadgeClasses[category.color]}`}
+    >
+      {category.icon} {getCategoryLabel(categories, categoryId)}
+    </span>
+  );
+};
@@ -0,0 +1,321 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Category, CategoryColor, CategoryKind, Expense } from '@/types/expense';
+import {
+  CATEGORY_COLORS,
+  CategoryInput,
+  categoriesOfKind,
+  categoryKind,
+  categoryOptions,
+  expenseCategoryIds,
+  flattenCategoryTree,
+  validParents,
+  validateCategoryName,
+} from '@/lib/categories';
+import { Translator } from '@/lib/i18n';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { CategoryBadge } from './CategoryBadge';
+
+interface CategoryManagerProps {
+  categories: Category[];
+  expenses: Expense[];
+  onCreate: (input: CategoryInput) => void;
+  onUpdate: (id: string, updates: Partial<CategoryInput & { archived: boolean }>) => void;
+  // Move every expense from the source category into the target and archive the source
+  onMerge: (sourceId: string, targetId: string) => void;
+  // Labels, errors and confirmations are shown in the interface language
+  t: Translator;
+}
+
+const emptyInput: CategoryInput = { name: '', color: 'blue', icon: '🏷️' };
+
+export const CategoryManager: React.FC<CategoryManagerProps> = ({
+  categories,
+  expenses,
+  onCreate,
+  onUpdate,
+  onMerge,
+  t,
+}) => {
+  const kindOptions = (['expense', 'income'] as CategoryKind[]).map(value => ({
+    value,
+    label: t(`categories.kind.${value}`),
+  }));
+  const colorOptions = CATEGORY_COLORS.map(color => ({
+    value: color,
+    label: t(`categories.color.${color}`),
+  }));
+
+  const [newCategory, setNewCategory] = useState<CategoryInput>(emptyInput);
+  const [newError, setNewError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editInput, setEditInput] = useState<CategoryInput>(emptyInput);
+  const [editError, setEditError] = useState<string | null>(null);
+  const [mergingId, setMergingId] = useState<string | null>(null);
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  // An itemised expense counts once towards each category it has items in
+  const expenseCounts = expenses.reduce<Record<string, number>>((counts, expense) => {
+    expenseCategoryIds(expense).forEach(categoryId => {
+      counts[categoryId] = (counts[categoryId] ?? 0) + 1;
+    });
+    return counts;
+  }, {});
+
+  const categoryTree = flattenCategoryTree(categories);
+
+  // Any active category of the same kind except the one being edited and its own subcategories
+  const parentOptions = (kind: CategoryKind, excludeId?: string) => [
+    { value: '', label: t('categories.topLevel') },
+    ...categoryOptions(
+      categoriesOfKind(validParents(categories, excludeId), kind).filter(
+        category => !category.archived
+      )
+    ),
+  ];
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const error = validateCategoryName(newCategory.name, categories, undefined, t);
+    if (error) {
+      setNewError(error);
+      return;
+    }
+
+    onCreate(newCategory);
+    setNewCategory(emptyInput);
+    setNewError(null);
+  };
+
+  const startEditing = (category: Category) => {
+    setEditingId(category.id);
+    setEditInput({
+      name: category.name,
+      color: category.color,
+      icon: category.icon,
+      parentId: category.parentId ?? '',
+    });
+    setEditError(null);
+    setMergingId(null);
+  };
+
+  const handleSaveEdit = () => {
+    if (!editingId) return;
+    const error = validateCategoryName(editInput.name, categories, editingId, t);
+    if (error) {
+      setEditError(error);
+      return;
+    }
+
+    onUpdate(editingId, editInput);
+    setEditingId(null);
+  };
+
+  const startMerging = (category: Category) => {
+    setMergingId(category.id);
+    setMergeTargetId('');
+    setEditingId(null);
+  };
+
+  const handleMerge = (source: Category) => {
+    const target = categories.find(category => category.id === mergeTargetId);
+    if (!target) return;
+
+    const count = expenseCounts[source.id] ?? 0;
+    const message = t('categories.confirmMerge', {
+      count,
+      source: source.name,
+      target: target.name,
+    });
+    if (confirm(message)) {
+      onMerge(source.id, target.id);
+      setMergingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* New Category */}
+      <form
+        onSubmit={handleCreate}
+        className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 grid grid-cols-1 md:grid-cols-6 gap-4 items-start"
+      >
+        <Input
+          id="new-category-name"
+          label={t('categories.newCategory')}
+          placeholder={t('categories.namePlaceholder')}
+          value={newCategory.name}
+          onChange={e => {
+            setNewCategory(prev => ({ ...prev, name: e.target.value }));
+            setNewError(null);
+          }}
+          error={newError ?? undefined}
+          maxLength={40}
+        />
+        <Input
+          id="new-category-icon"
+          label={t('categories.icon')}
+          value={newCategory.icon}
+          onChange={e => setNewCategory(prev => ({ ...prev, icon: e.target.value }))}
+          maxLength={4}
+        />
+        <Select
+          id="new-category-color"
+          label={t('categories.colour')}
+          options={colorOptions}
+          value={newCategory.color}
+          onChange={e =>
+            setNewCategory(prev => ({ ...prev, color: e.target.value as CategoryColor }))
+          }
+        />
+        <Select
+          id="new-category-kind"
+          label={t('categories.usedFor')}
+          options={kindOptions}
+          value={newCategory.kind ?? 'expense'}
+          onChange={e =>
+            setNewCategory(prev => ({
+              ...prev,
+              kind: e.target.value as CategoryKind,
+              parentId: undefined,
+            }))
+          }
+        />
+        <Select
+          id="new-category-parent"
+          label={t('categories.inside')}
+          options={parentOptions(newCategory.kind ?? 'expense')}
+          value={newCategory.parentId ?? ''}
+          onChange={e => setNewCategory(prev => ({ ...prev, parentId: e.target.value }))}
+        />
+        <Button type="submit" variant="primary" className="md:mt-6">
+          {t('categories.add')}
+        </Button>
+      </form>
+
+      {/* Category List */}
+      <div className="space-y-3">
+        {categoryTree.map(({ category, depth }) => (
+          <div
+            key={category.id}
+            className={`bg-white rounded-lg shadow-sm border border-gray-200 p-4 ${
+              category.archived ? 'opacity-60' : ''
+            }`}
+            style={{ marginLeft: `${depth * 1.5}rem` }}
+          >
+            {editingId === category.id ? (
+              <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-start">
+                <Input
+                  id="edit-category-name"
+                  label={t('categories.name')}
+                  value={editInput.name}
+                  onChange={e => {
+                    setEditInput(prev => ({ ...prev, name: e.target.value }));
+                    setEditError(null);
+                  }}
+                  error={editError ?? undefined}
+                  maxLength={40}
+                />
+                <Input
+                  id="edit-category-icon"
+                  label={t('categories.icon')}
+                  value={editInput.icon}
+                  onChange={e => setEditInput(prev => ({ ...prev, icon: e.target.value }))}
+                  maxLength={4}
+                />
+                <Select
+                  id="edit-category-color"
+                  label={t('categories.colour')}
+                  options={colorOptions}
+                  value={editInput.color}
+                  onChange={e =>
+                    setEditInput(prev => ({ ...prev, color: e.target.value as CategoryColor }))
+                  }
+                />
+                <Select
+                  id="edit-category-parent"
+                  label={t('categories.inside')}
+                  options={parentOptions(categoryKind(category), editingId)}
+                  value={editInput.parentId ?? ''}
+                  onChange={e => setEditInput(prev => ({ ...prev, parentId: e.target.value }))}
+                />
+                <div className="flex gap-2 md:mt-6">
+                  <Button variant="primary" size="sm" onClick={handleSaveEdit}>
+                    {t('categories.save')}
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={() => setEditingId(null)}>
+                    {t('categories.cancel')}
+                  </Button>
+                </div>
+              </div>
+            ) : (
+              <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+                <div className="flex items-center gap-3">
+                  <CategoryBadge categories={categories} categoryId={category.id} />
+                  <span className="text-sm text-gray-500">
+                    {t('categories.expenseCount', { count: expenseCounts[category.id] ?? 0 })}
+                    {categoryKind(category) === 'income' && ` · ${t('categories.incomeMarker')}`}
+                    {category.archived && ` · ${t('categories.archivedMarker')}`}
+                  </span>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="ghost" size="sm" onClick={() => startEditing(category)}>
+                    {t('categories.edit')}
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => startMerging(category)}>
+                    {t('categories.merge')}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onUpdate(category.id, { archived: !category.archived })}
+                  >
+                    {category.archived ? t('categories.unarchive') : t('categories.archive')}
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {mergingId === category.id && (
+              <div className="mt-4 flex flex-col md:flex-row md:items-end gap-3">
+                <div className="md:w-64">
+                  <Select
+                    id={`merge-target-${category.id}`}
+                    label={t('categories.mergeInto', { name: category.name })}
+                    options={[
+                      { value: '', label: t('categories.chooseCategory') },
+                      ...categoryOptions(
+                        categoriesOfKind(
+                          validParents(categories, category.id),
+                          categoryKind(category)
+                        ).filter(other => !other.archived)
+                      ),
+                    ]}
+                    value={mergeTargetId}
+                    onChange={e => setMergeTargetId(e.target.value)}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    variant="primary"
+                    size="sm"
+                    onClick={() => handleMerge(category)}
+                    disabled={!mergeTargetId}
+                  >
+                    {t('categories.merge')}
+                  </Button>
+                  <Button variant="secondary" size="sm" onClick={() => setMergingId(null)}>
+                    {t('categories.cancel')}
+                  </Button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
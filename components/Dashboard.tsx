@@ -1,44 +1,177 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Expense } from '@/types/expense';
-import { calculateSpendingSummary } from '@/utils/calculations';
-import { formatCurrency } from '@/utils/currency';
+import { Account, Budget, Category, Expense } from '@/types/expense';
+import { ACCOUNT_ICONS } from '@/lib/accounts';
+import { categoryBarClasses, findCategory, flattenCategoryTree } from '@/lib/categories';
+import { BUDGET_WARNING_RATIO, calculateBudgetProgress } from '@/lib/budgets';
+import { CurrencyConversion } from '@/lib/exchangeRates';
+import { Translator } from '@/lib/i18n';
+import { calculateCashFlow, calculateSpendingSummary } from '@/utils/calculations';
+import { formatMoney } from '@/utils/currency';
+import { formatDate, formatMonth } from '@/utils/locale';
+import { detectSubscriptions } from '@/utils/subscriptions';
+import { transactionType } from '@/utils/transactions';
 import { Card } from './ui/Card';
 import { ExportHub } from './ExportHub';
 
+// Green while comfortably under budget, yellow from the warning share and red once over
+const budgetBarClass = (ratio: number): string =>
+  ratio > 1 ? 'bg-red-500' : ratio >= BUDGET_WARNING_RATIO ? 'bg-yellow-500' : 'bg-green-500';
+
 interface DashboardProps {
   expenses: Expense[];
+  categories: Category[];
+  budgets: Budget[];
+  accounts: Account[];
+  conversion: CurrencyConversion;
+  // Amounts and dates are shown in this locale's format
+  locale: string;
+  // Labels are shown in the interface language
+  t: Translator;
 }
 
-export const Dashboard: React.FC<DashboardProps> = ({ expenses }) => {
-  const summary = calculateSpendingSummary(expenses);
+export const Dashboard: React.FC<DashboardProps> = ({
+  expenses,
+  categories,
+  budgets,
+  accounts,
+  conversion,
+  locale,
+  t,
+}) => {
+  const summary = calculateSpendingSummary(expenses, categories, conversion);
+  const { baseCurrency } = conversion;
+  // Summary totals are whole minor units of the base currency
+  const formatBase = (minor: number) => formatMoney({ minor, currency: baseCurrency }, locale);
+  const formatShare = (amount: number) =>
+    t('dashboard.ofTotal', {
+      percentage: new Intl.NumberFormat(locale, {
+        minimumFractionDigits: 1,
+        maximumFractionDigits: 1,
+      }).format(summary.totalSpending > 0 ? (amount / summary.totalSpending) * 100 : 0),
+    });
   const [isExportHubOpen, setIsExportHubOpen] = useState(false);
+  const [expandedIds, setExpandedIds] = useState<Set<string>>(new Set());
+
+  // Categories with spending (or active ones at zero) as a tree, biggest first at each level.
+  // Ids with no stored category are listed at the top level.
+  const rollup = summary.categoryRollup;
+  const knownIds = new Set(categories.map(category => category.id));
+  const categoryRows = [
+    ...flattenCategoryTree(
+      categories.filter(category => category.id in rollup),
+      (a, b) => rollup[b.id] - rollup[a.id]
+    ),
+    ...Object.keys(rollup)
+      .filter(categoryId => !knownIds.has(categoryId))
+      .map(categoryId => ({
+        category: findCategory(categories, categoryId),
+        depth: 0,
+        hasChildren: false,
+      })),
+  ];
+
+  // A row is shown when every ancestor above it is expanded
+  const visibleRows = categoryRows.filter((row, index) => {
+    let depth = row.depth;
+    for (let i = index - 1; i >= 0 && depth > 0; i--) {
+      if (categoryRows[i].depth < depth) {
+        if (!expandedIds.has(categoryRows[i].category.id)) return false;
+        depth = categoryRows[i].depth;
+      }
+    }
+    return true;
+  });
+
+  // The last six months of money in and out, newest first
+  const cashFlowRows = calculateCashFlow(expenses, conversion).reverse();
+  const formatRate = (rate: number | null) =>
+    rate === null
+      ? '—'
+      : new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 }).format(rate);
+
+  // Original totals per currency, with the base currency first
+  const currencyRows = Object.entries(summary.currencyTotals).sort(
+    ([a], [b]) => Number(b === baseCurrency) - Number(a === baseCurrency) || a.localeCompare(b)
+  );
+
+  // This month's budgets: the overall one first, then those closest to their limit
+  const budgetRows = calculateBudgetProgress(budgets, expenses, categories, conversion).sort(
+    (a, b) =>
+      Number(Boolean(a.budget.categoryId)) - Number(Boolean(b.budget.categoryId)) ||
+      b.spent / b.limit - a.spent / a.limit
+  );
+
+  // Repeating charges, those still running first and then by yearly cost in the base currency.
+  // A subscription with no exchange rate shows its cost in the currency it is billed in.
+  const subscriptionRows = detectSubscriptions(expenses)
+    .map(subscription => ({
+      subscription,
+      annualBase:
+        conversion.toBase({ amount: subscription.annualCost, date: subscription.lastDate })
+          ?.minor ?? null,
+    }))
+    .sort(
+      (a, b) =>
+        Number(b.subscription.active) - Number(a.subscription.active) ||
+        (b.annualBase ?? 0) - (a.annualBase ?? 0)
+    );
+  const activeSubscriptions = subscriptionRows.filter(row => row.subscription.active);
+  const subscriptionTotal = activeSubscriptions.reduce(
+    (sum, row) => sum + (row.annualBase ?? 0),
+    0
+  );
+
+  // Tags by spending, biggest first
+  const tagRows = Object.entries(summary.tagBreakdown).sort(([, a], [, b]) => b - a);
+
+  // Accounts by spending, biggest first, then whatever was paid without one
+  const accountRows = accounts
+    .map(account => ({ account, amount: summary.accountBreakdown[account.id] ?? 0 }))
+    .filter(row => row.amount > 0 || !row.account.archived)
+    .sort((a, b) => b.amount - a.amount);
+  const unassignedSpending =
+    summary.totalSpending - accountRows.reduce((sum, row) => sum + row.amount, 0);
+
+  const toggleExpanded = (categoryId: string) => {
+    setExpandedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(categoryId)) {
+        next.delete(categoryId);
+      } else {
+        next.add(categoryId);
+      }
+      return next;
+    });
+  };
 
   const summaryCards = [
     {
-      title: 'Total Spending',
-      value: formatCurrency(summary.totalSpending),
+      title: t('dashboard.totalSpending'),
+      value: formatBase(summary.totalSpending),
       icon: '💰',
       color: 'bg-blue-50 border-blue-200',
     },
     {
-      title: 'This Month',
-      value: formatCurrency(summary.monthlySpending),
+      title: t('dashboard.thisMonth'),
+      value: formatBase(summary.monthlySpending),
       icon: '📅',
       color: 'bg-green-50 border-green-200',
     },
     {
-      title: 'Top Category',
+      title: t('dashboard.topCategory'),
       value: summary.topCategory
-        ? `${summary.topCategory.category} (${formatCurrency(summary.topCategory.amount)})`
-        : 'No expenses yet',
+        ? `${findCategory(categories, summary.topCategory.categoryId).name} (${formatBase(
+            summary.topCategory.amount
+          )})`
+        : t('dashboard.noExpensesYet'),
       icon: '🏆',
       color: 'bg-purple-50 border-purple-200',
     },
     {
-      title: 'Total Expenses',
-      value: expenses.length.toString(),
+      title: t('dashboard.totalExpenses'),
+      value: expenses.filter(expense => transactionType(expense) === 'expense').length.toString(),
       icon: '📊',
       color: 'bg-orange-50 border-orange-200',
     },
@@ -55,8 +188,10 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses }) => {
           <svg className="w-5 h-5 mr-2 group-hover:rotate-12 transition-transform" fill="none" stroke="currentColor" viewBox="0 0 24 24">
             <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 15a4 4 0 004 4h9a5 5 0 10-.1-9.999 5.002 5.002 0 10-9.78 2.096A4.001 4.001 0 003 15z" />
           </svg>
-          Open Export Hub
-          <span className="ml-2 px-2 py-0.5 bg-white bg-opacity-20 rounded-full text-xs">Cloud</span>
+          {t('dashboard.openExportHub')}
+          <span className="ml-2 px-2 py-0.5 bg-white bg-opacity-20 rounded-full text-xs">
+            {t('dashboard.cloud')}
+          </span>
         </button>
       </div>
 
@@ -78,46 +213,323 @@ export const Dashboard: React.FC<DashboardProps> = ({ expenses }) => {
         ))}
       </div>
 
+      {summary.unconvertedCount > 0 && (
+        <p className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          {t('dashboard.unconverted', {
+            count: summary.unconvertedCount,
+            currency: baseCurrency,
+          })}
+        </p>
+      )}
+
+      {/* Cash Flow */}
+      <Card title={t('dashboard.cashFlow')}>
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b">
+                <th className="py-2 pr-4 font-medium">{t('dashboard.month')}</th>
+                <th className="py-2 pr-4 font-medium text-right">{t('dashboard.income')}</th>
+                <th className="py-2 pr-4 font-medium text-right">{t('dashboard.spending')}</th>
+                <th className="py-2 pr-4 font-medium text-right">{t('dashboard.netSavings')}</th>
+                <th className="py-2 font-medium text-right">{t('dashboard.savingsRate')}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {cashFlowRows.map(({ month, income, spending, net, savingsRate }) => (
+                <tr key={month} className="border-b border-gray-100 last:border-0">
+                  <td className="py-2 pr-4 text-gray-700">{formatMonth(month, locale)}</td>
+                  <td className="py-2 pr-4 text-right text-gray-900">{formatBase(income)}</td>
+                  <td className="py-2 pr-4 text-right text-gray-900">{formatBase(spending)}</td>
+                  <td
+                    className={`py-2 pr-4 text-right font-semibold ${
+                      net < 0 ? 'text-red-600' : 'text-green-700'
+                    }`}
+                  >
+                    {formatBase(net)}
+                  </td>
+                  <td className="py-2 text-right text-gray-700">{formatRate(savingsRate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-gray-400 mt-3">{t('dashboard.cashFlowNote')}</p>
+      </Card>
+
       {/* Category Breakdown */}
-      <Card title="Spending by Category">
+      <Card title={t('dashboard.byCategory')}>
         <div className="space-y-3">
-          {Object.entries(summary.categoryBreakdown)
-            .sort(([, a], [, b]) => b - a)
-            .map(([category, amount]) => {
-              const percentage =
-                summary.totalSpending > 0
-                  ? (amount / summary.totalSpending) * 100
-                  : 0;
+          {visibleRows.map(({ category, depth, hasChildren }) => {
+            const amount = rollup[category.id];
+            // Refunds can leave a category below zero, which shows as an empty bar
+            const percentage =
+              summary.totalSpending > 0 ? Math.max(0, (amount / summary.totalSpending) * 100) : 0;
+            const isExpanded = expandedIds.has(category.id);
+
+            return (
+              <div
+                key={category.id}
+                className="space-y-1"
+                style={{ paddingLeft: `${depth * 1.5}rem` }}
+              >
+                <div className="flex items-center justify-between text-sm">
+                  <span className="flex items-center gap-1 font-medium text-gray-700">
+                    {hasChildren ? (
+                      <button
+                        onClick={() => toggleExpanded(category.id)}
+                        className="w-5 text-gray-500 hover:text-gray-900"
+                        aria-expanded={isExpanded}
+                        aria-label={t(isExpanded ? 'dashboard.collapse' : 'dashboard.expand', {
+                          name: category.name,
+                        })}
+                      >
+                        {isExpanded ? '▾' : '▸'}
+                      </button>
+                    ) : (
+                      <span className="w-5" />
+                    )}
+                    {category.icon} {category.name}
+                  </span>
+                  <span className="text-gray-900 font-semibold">{formatBase(amount)}</span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`${categoryBarClasses[category.color]} h-2 rounded-full transition-all duration-300`}
+                    style={{ width: `${percentage}%` }}
+                  />
+                </div>
+                <p className="text-xs text-gray-500">{formatShare(amount)}</p>
+              </div>
+            );
+          })}
+        </div>
+        {expenses.length === 0 && (
+          <p className="text-center text-gray-500 py-8">
+            {t('dashboard.noData')}
+          </p>
+        )}
+      </Card>
+
+      {/* Budget Progress */}
+      <Card title={t('dashboard.budgets')}>
+        {budgetRows.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">{t('dashboard.noBudgets')}</p>
+        ) : (
+          <div className="space-y-3">
+            {budgetRows.map(({ budget, limit, carried, spent, remaining }) => {
+              const ratio = limit > 0 ? spent / limit : spent > 0 ? Infinity : 0;
+              const category = budget.categoryId
+                ? findCategory(categories, budget.categoryId)
+                : null;
 
               return (
-                <div key={category} className="space-y-1">
+                <div key={budget.id} className="space-y-1">
                   <div className="flex items-center justify-between text-sm">
-                    <span className="font-medium text-gray-700">{category}</span>
+                    <span className="font-medium text-gray-700">
+                      {category
+                        ? `${category.icon} ${category.name}`
+                        : t('dashboard.overallBudget')}
+                    </span>
                     <span className="text-gray-900 font-semibold">
-                      {formatCurrency(amount)}
+                      {t('dashboard.budgetSpent', {
+                        spent: formatBase(spent),
+                        limit: formatBase(limit),
+                      })}
                     </span>
                   </div>
                   <div className="w-full bg-gray-200 rounded-full h-2">
                     <div
-                      className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                      style={{ width: `${percentage}%` }}
+                      className={`${budgetBarClass(ratio)} h-2 rounded-full transition-all duration-300`}
+                      style={{ width: `${Math.min(ratio, 1) * 100}%` }}
                     />
                   </div>
-                  <p className="text-xs text-gray-500">{percentage.toFixed(1)}% of total</p>
+                  <p className={`text-xs ${remaining < 0 ? 'text-red-600' : 'text-gray-500'}`}>
+                    {remaining < 0
+                      ? t('dashboard.budgetOver', { amount: formatBase(-remaining) })
+                      : t('dashboard.budgetLeft', { amount: formatBase(remaining) })}
+                    {carried > 0 &&
+                      ` · ${t('dashboard.budgetCarried', { amount: formatBase(carried) })}`}
+                  </p>
                 </div>
               );
             })}
-        </div>
-        {expenses.length === 0 && (
-          <p className="text-center text-gray-500 py-8">
-            No spending data available yet. Add your first expense to see analytics.
-          </p>
+          </div>
         )}
       </Card>
 
+      {/* Detected Subscriptions */}
+      <Card title={t('dashboard.subscriptions')}>
+        {subscriptionRows.length === 0 ? (
+          <p className="text-center text-gray-500 py-4">{t('dashboard.noSubscriptions')}</p>
+        ) : (
+          <>
+            {activeSubscriptions.length > 0 && (
+              <p className="text-sm text-gray-600 mb-3">
+                {t('dashboard.subscriptionsTotal', {
+                  count: activeSubscriptions.length,
+                  amount: formatBase(subscriptionTotal),
+                })}
+              </p>
+            )}
+            <div className="divide-y divide-gray-100">
+              {subscriptionRows.map(({ subscription, annualBase }) => (
+                <div
+                  key={subscription.key}
+                  className={`py-3 text-sm ${subscription.active ? '' : 'opacity-60'}`}
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <p className="font-medium text-gray-900">{subscription.description}</p>
+                      <p className="text-gray-500">
+                        {t(`dashboard.cadence.${subscription.cadence}`)} ·{' '}
+                        {formatMoney(subscription.latest, locale)} ·{' '}
+                        {t('dashboard.charges', { count: subscription.charges.length })}
+                      </p>
+                      {!subscription.active && (
+                        <p className="text-gray-500">
+                          {t('dashboard.lapsed', {
+                            date: formatDate(subscription.lastDate, locale),
+                          })}
+                        </p>
+                      )}
+                    </div>
+                    <span className="font-semibold text-gray-900 text-right">
+                      {t('dashboard.perYear', {
+                        amount:
+                          annualBase === null
+                            ? formatMoney(subscription.annualCost, locale)
+                            : formatBase(annualBase),
+                      })}
+                    </span>
+                  </div>
+                  {subscription.priceChanges.length > 0 && (
+                    <ul className="mt-1 space-y-0.5 text-xs">
+                      {subscription.priceChanges.map(change => (
+                        <li
+                          key={change.date}
+                          className={
+                            change.to.minor > change.from.minor ? 'text-red-600' : 'text-green-600'
+                          }
+                        >
+                          {t('dashboard.priceChange', {
+                            from: formatMoney(change.from, locale),
+                            to: formatMoney(change.to, locale),
+                            date: formatDate(change.date, locale),
+                          })}
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </>
+        )}
+        <p className="text-xs text-gray-400 mt-4">{t('dashboard.subscriptionNote')}</p>
+      </Card>
+
+      {/* Account Breakdown */}
+      {accountRows.length > 0 && (
+        <Card title={t('dashboard.byAccount')}>
+          <div className="divide-y divide-gray-100">
+            {accountRows.map(({ account, amount }) => (
+              <div key={account.id} className="flex items-center justify-between py-2 text-sm">
+                <span className="font-medium text-gray-700">
+                  {ACCOUNT_ICONS[account.type]} {account.name}
+                </span>
+                <span className="text-right">
+                  <span className="font-semibold text-gray-900">{formatBase(amount)}</span>
+                  <span className="block text-xs text-gray-500">{formatShare(amount)}</span>
+                </span>
+              </div>
+            ))}
+            {unassignedSpending > 0 && (
+              <div className="flex items-center justify-between py-2 text-sm">
+                <span className="text-gray-500">{t('dashboard.noAccount')}</span>
+                <span className="font-semibold text-gray-900">
+                  {formatBase(unassignedSpending)}
+                </span>
+              </div>
+            )}
+          </div>
+        </Card>
+      )}
+
+      {/* Currency Breakdown */}
+      {currencyRows.length > 1 && (
+        <Card title={t('dashboard.byCurrency')}>
+          <div className="divide-y divide-gray-100">
+            {currencyRows.map(([currency, amount]) => {
+              const converted =
+                currency === baseCurrency
+                  ? amount
+                  : expenses
+                      .filter(expense => expense.amount.currency === currency)
+                      .reduce<number | null>((sum, expense) => {
+                        const value = conversion.toBase(expense);
+                        return sum === null || value === null ? null : sum + value.minor;
+                      }, 0);
+
+              return (
+                <div key={currency} className="flex items-center justify-between py-2 text-sm">
+                  <span className="font-medium text-gray-700">{currency}</span>
+                  <span className="text-right">
+                    <span className="font-semibold text-gray-900">
+                      {formatMoney({ minor: amount, currency }, locale)}
+                    </span>
+                    {currency !== baseCurrency && (
+                      <span className="block text-xs text-gray-500">
+                        {converted === null
+                          ? t('dashboard.noExchangeRate')
+                          : `≈ ${formatBase(converted)}`}
+                      </span>
+                    )}
+                  </span>
+                </div>
+              );
+            })}
+          </div>
+        </Card>
+      )}
+
+      {/* Tag Breakdown */}
+      {tagRows.length > 0 && (
+        <Card title={t('dashboard.byTag')}>
+          <div className="space-y-3">
+            {tagRows.map(([tag, amount]) => {
+              const percentage =
+                summary.totalSpending > 0 ? (amount / summary.totalSpending) * 100 : 0;
+
+              return (
+                <div key={tag} className="space-y-1">
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium text-gray-700">#{tag}</span>
+                    <span className="text-gray-900 font-semibold">{formatBase(amount)}</span>
+                  </div>
+                  <div className="w-full bg-gray-200 rounded-full h-2">
+                    <div
+                      className="bg-indigo-500 h-2 rounded-full transition-all duration-300"
+                      style={{ width: `${percentage}%` }}
+                    />
+                  </div>
+                  <p className="text-xs text-gray-500">{formatShare(amount)}</p>
+                </div>
+              );
+            })}
+          </div>
+          <p className="text-xs text-gray-400 mt-4">
+            {t('dashboard.tagNote')}
+          </p>
+        </Card>
+      )}
+
       {/* Export Hub Modal */}
       <ExportHub
         expenses={expenses}
+        conversion={conversion}
+        locale={locale}
+        t={t}
         isOpen={isExportHubOpen}
         onClose={() => setIsExportHubOpen(false)}
       />
@@ -0,0 +1,91 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Category, Expense } from '@/types/expense';
+import { findCategory } from '@/lib/categories';
+import { DuplicateGroup } from '@/utils/duplicates';
+import { formatMoney } from '@/utils/currency';
+import { formatDate } from '@/utils/locale';
+import { Translator } from '@/lib/i18n';
+import { Button } from './ui/Button';
+
+interface DuplicateFinderProps {
+  groups: DuplicateGroup[];
+  categories: Category[];
+  // Amounts and dates are shown in this locale's format
+  locale: string;
+  onMerge: (keep: Expense, group: DuplicateGroup) => void;
+  onDismiss: (group: DuplicateGroup) => void;
+  // Labels are shown in the interface language
+  t: Translator;
+}
+
+export const DuplicateFinder: React.FC<DuplicateFinderProps> = ({
+  groups,
+  categories,
+  locale,
+  onMerge,
+  onDismiss,
+  t,
+}) => {
+  // Chosen expense to keep per group; defaults to the one recorded first
+  const [keepIds, setKeepIds] = useState<Record<string, string>>({});
+
+  if (groups.length === 0) {
+    return (
+      <div className="text-center py-12 bg-gray-50 rounded-lg">
+        <p className="text-gray-500 text-lg">{t('duplicates.none')}</p>
+        <p className="text-gray-400 text-sm mt-2">{t('duplicates.noneNote')}</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-gray-600">{t('duplicates.note')}</p>
+
+      {groups.map(group => {
+        const keepId = keepIds[group.key] ?? group.expenses[0].id;
+        const keep = group.expenses.find(expense => expense.id === keepId) ?? group.expenses[0];
+
+        return (
+          <div key={group.key} className="border border-gray-200 rounded-lg p-4">
+            <div className="space-y-2">
+              {group.expenses.map(expense => (
+                <label key={expense.id} className="flex items-start gap-3 text-sm">
+                  <input
+                    type="radio"
+                    name={`keep-${group.key}`}
+                    checked={expense.id === keep.id}
+                    onChange={() => setKeepIds(prev => ({ ...prev, [group.key]: expense.id }))}
+                    className="mt-1"
+                  />
+                  <span className="flex-1">
+                    <span className="font-medium text-gray-900">{expense.description}</span>
+                    <span className="block text-gray-500">
+                      {formatDate(expense.date, locale)} ·{' '}
+                      {findCategory(categories, expense.categoryId).name}
+                      {expense.externalId && ` · ${t('duplicates.imported')}`}
+                    </span>
+                  </span>
+                  <span className="font-semibold text-gray-900">
+                    {formatMoney(expense.amount, locale)}
+                  </span>
+                </label>
+              ))}
+            </div>
+
+            <div className="flex gap-2 mt-4">
+              <Button variant="primary" size="sm" onClick={() => onMerge(keep, group)}>
+                {t('duplicates.merge')}
+              </Button>
+              <Button variant="secondary" size="sm" onClick={() => onDismiss(group)}>
+                {t('duplicates.dismiss')}
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,253 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Expense } from '@/types/expense';
+import {
+  RateTable,
+  currencyOptions,
+  findRate,
+  importRates,
+  isCurrencyCode,
+  parseRatesFile,
+  removeRate,
+  setRate,
+} from '@/lib/exchangeRates';
+import { formatMoney } from '@/utils/currency';
+import { SUPPORTED_LOCALES, formatDate } from '@/utils/locale';
+import { format } from 'date-fns';
+import { Translator } from '@/lib/i18n';
+import { Button } from './ui/Button';
+import { Card } from './ui/Card';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+
+interface ExchangeRatesProps {
+  table: RateTable;
+  baseCurrency: string;
+  // Used to point out currencies that are in use but have no rate yet
+  expenses: Expense[];
+  onChange: (table: RateTable) => void;
+  onBaseCurrencyChange: (currency: string) => void;
+  // Regional format for amounts and dates across the app
+  locale: string;
+  onLocaleChange: (locale: string) => void;
+  // Labels and errors are shown in the interface language
+  t: Translator;
+}
+
+export const ExchangeRates: React.FC<ExchangeRatesProps> = ({
+  table,
+  baseCurrency,
+  expenses,
+  onChange,
+  onBaseCurrencyChange,
+  locale,
+  onLocaleChange,
+  t,
+}) => {
+  const [currency, setCurrency] = useState('EUR');
+  const [rate, setRateValue] = useState('');
+  const [date, setDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [formError, setFormError] = useState<string | null>(null);
+  const [importMessage, setImportMessage] = useState<{ text: string; isError: boolean } | null>(
+    null
+  );
+
+  const usedCurrencies = Array.from(new Set(expenses.map(expense => expense.amount.currency)));
+  const today = format(new Date(), 'yyyy-MM-dd');
+  const missingRates = Array.from(new Set([...usedCurrencies, baseCurrency])).filter(
+    code => findRate(table, code, today) === null
+  );
+  const options = currencyOptions(table, baseCurrency, ...usedCurrencies);
+
+  const handleAddRate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(rate);
+
+    if (currency === table.base) {
+      setFormError(t('rates.baseNeedsNoRate', { currency: table.base }));
+      return;
+    }
+    if (!isCurrencyCode(currency)) {
+      setFormError(t('rates.currencyRequired'));
+      return;
+    }
+    if (isNaN(value) || value <= 0) {
+      setFormError(t('rates.ratePositive'));
+      return;
+    }
+    if (!date) {
+      setFormError(t('rates.dateRequired'));
+      return;
+    }
+
+    onChange(setRate(table, { currency, rate: value, date }));
+    setRateValue('');
+    setFormError(null);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = parseRatesFile(await file.text(), t);
+      onChange(importRates(table, parsed, t));
+      setImportMessage({
+        text: t('rates.imported', { count: parsed.rates.length, file: file.name }),
+        isError: false,
+      });
+    } catch (error) {
+      setImportMessage({
+        text: error instanceof Error ? error.message : t('rates.unreadable'),
+        isError: true,
+      });
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card title={t('rates.regionalFormat')}>
+        <div className="md:w-64">
+          <Select
+            id="locale"
+            options={SUPPORTED_LOCALES}
+            value={locale}
+            onChange={e => onLocaleChange(e.target.value)}
+          />
+        </div>
+        <p className="mt-2 text-sm text-gray-500">
+          {t('rates.regionalFormatNote', {
+            amount: formatMoney({ minor: 123456, currency: baseCurrency }, locale),
+            date: formatDate(new Date(), locale),
+          })}
+        </p>
+      </Card>
+
+      <Card title={t('rates.baseCurrency')}>
+        <div className="md:w-64">
+          <Select
+            id="base-currency"
+            options={options}
+            value={baseCurrency}
+            onChange={e => onBaseCurrencyChange(e.target.value)}
+          />
+        </div>
+        <p className="mt-2 text-sm text-gray-500">{t('rates.baseCurrencyNote')}</p>
+        {missingRates.length > 0 && (
+          <p className="mt-3 p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+            {t('rates.missing', {
+              count: missingRates.length,
+              currencies: missingRates.join(', '),
+            })}
+          </p>
+        )}
+      </Card>
+
+      <Card title={t('rates.title')}>
+        <form
+          onSubmit={handleAddRate}
+          className="grid grid-cols-1 md:grid-cols-4 gap-4 items-start"
+        >
+          <Select
+            id="rate-currency"
+            label={t('rates.buys', { base: table.base })}
+            options={options.filter(option => option.value !== table.base)}
+            value={currency}
+            onChange={e => {
+              setCurrency(e.target.value);
+              setFormError(null);
+            }}
+          />
+          <Input
+            id="rate-value"
+            label={t('rates.per', { currency, base: table.base })}
+            type="number"
+            step="any"
+            min="0"
+            placeholder={t('rates.ratePlaceholder')}
+            value={rate}
+            onChange={e => {
+              setRateValue(e.target.value);
+              setFormError(null);
+            }}
+            error={formError ?? undefined}
+          />
+          <Input
+            id="rate-date"
+            label={t('rates.appliesFrom')}
+            type="date"
+            value={date}
+            onChange={e => setDate(e.target.value)}
+          />
+          <Button type="submit" variant="primary" className="md:mt-6">
+            {t('rates.save')}
+          </Button>
+        </form>
+
+        <label className="block mt-6">
+          <span className="block text-sm font-medium text-gray-700 mb-1">
+            {t('rates.importFile')}
+          </span>
+          <input
+            type="file"
+            accept=".json,.csv,application/json,text/csv"
+            onChange={handleFileChange}
+            className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-200 file:text-gray-900 hover:file:bg-gray-300"
+          />
+        </label>
+        {importMessage && (
+          <p
+            className={`mt-2 text-sm ${importMessage.isError ? 'text-red-600' : 'text-green-700'}`}
+          >
+            {importMessage.text}
+          </p>
+        )}
+
+        {table.rates.length === 0 ? (
+          <p className="mt-6 text-center text-gray-500 py-6 bg-gray-50 rounded-lg">
+            {t('rates.empty')}
+          </p>
+        ) : (
+          <div className="mt-6 overflow-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50">
+                <tr className="text-left text-gray-600">
+                  <th className="px-3 py-2 font-medium">{t('rates.currency')}</th>
+                  <th className="px-3 py-2 font-medium">
+                    {t('rates.perBase', { base: table.base })}
+                  </th>
+                  <th className="px-3 py-2 font-medium">{t('rates.appliesFrom')}</th>
+                  <th className="px-3 py-2" />
+                </tr>
+              </thead>
+              <tbody>
+                {table.rates.map(entry => (
+                  <tr key={`${entry.currency}|${entry.date}`} className="border-t border-gray-100">
+                    <td className="px-3 py-2 font-medium text-gray-900">{entry.currency}</td>
+                    <td className="px-3 py-2">
+                      {new Intl.NumberFormat(locale, { maximumFractionDigits: 6 }).format(
+                        entry.rate
+                      )}
+                    </td>
+                    <td className="px-3 py-2">{formatDate(entry.date, locale)}</td>
+                    <td className="px-3 py-2 text-right">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onChange(removeRate(table, entry.currency, entry.date))}
+                      >
+                        {t('rates.remove')}
+                      </Button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+};
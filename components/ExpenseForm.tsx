@@ -4,45 +4,165 @@ import React, { useState, useEffect } from 'react';
 import { Input } from './ui/Input';
 import { Select } from './ui/Select';
 import { Button } from './ui/Button';
-import { ExpenseFormData, ExpenseCategory, Expense } from '@/types/expense';
-import { validateExpenseForm, hasErrors } from '@/utils/validation';
+import { TagInput } from './TagInput';
+import { RecurrenceFields } from './RecurrenceFields';
+import { AttachmentInput } from './AttachmentInput';
+import { LineItemFields, newLineItem } from './LineItemFields';
+import { SplitFields } from './SplitFields';
+import {
+  Account,
+  ExpenseFormData,
+  Expense,
+  Category,
+  Group,
+  LineItemFormData,
+  RecurrenceFormData,
+  RecurrenceSchedule,
+  SplitFormData,
+  TransactionType,
+} from '@/types/expense';
+import {
+  MAX_ATTACHMENT_SIZE,
+  StoredAttachment,
+  createAttachment,
+  isAcceptedAttachmentType,
+} from '@/lib/attachments';
+import { accountOptions } from '@/lib/accounts';
+import { BudgetAlert } from '@/lib/budgets';
+import { categoriesOfKind, categoryOptions, findCategory } from '@/lib/categories';
+import { CurrencyConversion } from '@/lib/exchangeRates';
+import { Translator } from '@/lib/i18n';
+import { toRecurrenceFormData, toRecurrenceSchedule } from '@/lib/recurring';
+import {
+  RecurrenceErrors,
+  validateExpenseForm,
+  validateRecurrenceForm,
+  validateRefund,
+  hasErrors,
+} from '@/utils/validation';
+import { formatAmountInput, formatMoney, normaliseAmount, parseMoney } from '@/utils/currency';
+import { formatDate, formatFileSize } from '@/utils/locale';
+import { toLineItemFormData, toSplitFormData } from '@/utils/splits';
+import {
+  TRANSACTION_ICONS,
+  TRANSACTION_TYPES,
+  categoryKindFor,
+  transactionType,
+} from '@/utils/transactions';
 import { format } from 'date-fns';
 
 interface ExpenseFormProps {
-  onSubmit: (data: ExpenseFormData) => void;
+  // A schedule is passed when the expense is to repeat, and the files of newly added receipts
+  onSubmit: (
+    data: ExpenseFormData,
+    recurrence?: RecurrenceSchedule,
+    files?: StoredAttachment[]
+  ) => void;
   onCancel: () => void;
   initialData?: Expense;
+  categories: Category[];
+  // Tags already in use, for autocomplete
+  knownTags: string[];
+  currencies: { value: string; label: string }[];
+  // New expenses start in the base currency; others show what they convert to
+  conversion: CurrencyConversion;
+  // Amounts are typed and shown in this locale's format, e.g. "12,50" for de-DE
+  locale: string;
+  // Labels and validation errors are shown in the interface language
+  t: Translator;
+  // Groups the expense can be shared in, with who paid and each member's share
+  groups?: Group[];
+  // Accounts and payment methods the expense can be paid with
+  accounts?: Account[];
+  // Existing expenses that look like the one being saved; the user confirms before saving
+  findDuplicates?: (data: ExpenseFormData) => Expense[];
+  // Budgets the expense would bring near or over their limit; also confirmed before saving
+  checkBudgets?: (data: ExpenseFormData) => BudgetAlert[];
+  // The expense a refund gives money back for, and how much of it is left to refund in minor
+  // units. The refund is in its currency and comes off its categories.
+  refunding?: Expense;
+  refundable?: number;
 }
 
-const categoryOptions = [
-  { value: 'Food', label: 'Food' },
-  { value: 'Transportation', label: 'Transportation' },
-  { value: 'Entertainment', label: 'Entertainment' },
-  { value: 'Shopping', label: 'Shopping' },
-  { value: 'Bills', label: 'Bills' },
-  { value: 'Other', label: 'Other' },
-];
-
 export const ExpenseForm: React.FC<ExpenseFormProps> = ({
   onSubmit,
   onCancel,
   initialData,
+  categories,
+  knownTags,
+  currencies,
+  conversion,
+  locale,
+  t,
+  groups = [],
+  accounts = [],
+  findDuplicates,
+  checkBudgets,
+  refunding,
+  refundable = refunding?.amount.minor ?? 0,
 }) => {
+  // Income picks from income categories; expenses and refunds from the spending ones
+  const optionsFor = (type: TransactionType) =>
+    categoryOptions(categoriesOfKind(categories, categoryKindFor(type)), initialData?.categoryId);
+  const startingAccountId = initialData ? initialData.accountId : refunding?.accountId;
+  const paymentOptions = accountOptions(accounts, startingAccountId);
+
+  // A new refund starts out as everything that is left of the expense, paid back the same way
   const [formData, setFormData] = useState<ExpenseFormData>({
+    type: initialData?.type ?? (refunding ? 'refund' : undefined),
+    refundOf: initialData?.refundOf ?? refunding?.id,
     date: initialData ? format(new Date(initialData.date), 'yyyy-MM-dd') : format(new Date(), 'yyyy-MM-dd'),
-    amount: initialData ? initialData.amount.toString() : '',
-    category: initialData?.category || 'Food',
-    description: initialData?.description || '',
+    amount: initialData
+      ? formatAmountInput(initialData.amount, locale)
+      : refunding
+        ? formatAmountInput({ minor: refundable, currency: refunding.amount.currency }, locale)
+        : '',
+    currency: initialData?.amount.currency ?? refunding?.amount.currency ?? conversion.baseCurrency,
+    categoryId:
+      initialData?.categoryId ||
+      refunding?.categoryId ||
+      optionsFor(transactionType(initialData ?? {}))[0]?.value ||
+      '',
+    description:
+      initialData?.description ||
+      (refunding ? t('form.refundDescription', { description: refunding.description }) : ''),
+    tags: initialData?.tags ?? [],
+    attachments: initialData?.attachments ?? [],
+    lineItems: initialData?.lineItems
+      ? toLineItemFormData(initialData.lineItems, initialData.amount.currency, locale)
+      : undefined,
+    split: initialData?.split
+      ? toSplitFormData(initialData.split, initialData.amount.currency, locale)
+      : undefined,
+    groupId: initialData?.groupId,
+    paidBy: initialData?.paidBy,
+    accountId: startingAccountId,
   });
 
   const [errors, setErrors] = useState<ReturnType<typeof validateExpenseForm>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [duplicates, setDuplicates] = useState<Expense[]>([]);
+  const [budgetAlerts, setBudgetAlerts] = useState<BudgetAlert[]>([]);
+  const [repeats, setRepeats] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceFormData>(() =>
+    toRecurrenceFormData(formData.date)
+  );
+  const [recurrenceErrors, setRecurrenceErrors] = useState<RecurrenceErrors>({});
+  // Receipts added in this form, not stored until the expense is saved
+  const [pendingFiles, setPendingFiles] = useState<StoredAttachment[]>([]);
+  const [attachmentError, setAttachmentError] = useState<string>();
+  const needsConfirmation = duplicates.length > 0 || budgetAlerts.length > 0;
+  const group = groups.find(other => other.id === formData.groupId);
+  const type = transactionType(formData);
+  const options = optionsFor(type);
 
   const handleChange = (
     e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
   ) => {
     const { name, value } = e.target;
     setFormData(prev => ({ ...prev, [name]: value }));
+    setDuplicates([]);
+    setBudgetAlerts([]);
 
     // Clear error for this field when user starts typing
     if (errors[name as keyof typeof errors]) {
@@ -50,26 +170,248 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
     }
   };
 
+  // Validation and storage work on a plain decimal, whichever locale it was typed in
+  const normalise = (data: ExpenseFormData): ExpenseFormData => ({
+    ...data,
+    amount: normaliseAmount(data.amount, locale) ?? data.amount,
+    // New expenses without receipts carry no attachment list at all
+    attachments:
+      data.attachments?.length || initialData?.attachments ? data.attachments : undefined,
+    lineItems: data.lineItems?.map(item => ({
+      ...item,
+      amount: normaliseAmount(item.amount, locale) ?? item.amount,
+    })),
+    split: data.split && {
+      ...data.split,
+      shares: data.split.shares.map(share => ({
+        ...share,
+        value: normaliseAmount(share.value, locale) ?? share.value,
+      })),
+    },
+  });
+
+  const amount = parseMoney(normalise(formData).amount, formData.currency);
+  // What line items and exact shares have to add up to
+  const total = amount && amount.minor > 0 ? amount.minor : null;
+  const converted =
+    formData.currency !== conversion.baseCurrency && amount && amount.minor > 0
+      ? conversion.toBase({ amount, date: formData.date })
+      : undefined;
+
+  const budgetAlertMessage = ({ progress, threshold, spentAfter }: BudgetAlert): string => {
+    const { budget, limit } = progress;
+    const params = {
+      name: budget.categoryId
+        ? findCategory(categories, budget.categoryId).name
+        : t('form.overallSpending'),
+      spent: formatMoney({ minor: spentAfter, currency: conversion.baseCurrency }, locale),
+      limit: formatMoney({ minor: limit, currency: conversion.baseCurrency }, locale),
+    };
+    if (threshold >= 1) return t('form.budgetExceeded', params);
+
+    const percentage = new Intl.NumberFormat(locale, { maximumFractionDigits: 0 }).format(
+      (spentAfter / limit) * 100
+    );
+    return t('form.budgetNearing', { ...params, percentage });
+  };
+
+  // The first item starts out as the whole expense, ready to be broken down
+  const handleItemiseChange = (checked: boolean) =>
+    handleLineItemsChange(
+      checked
+        ? [newLineItem(formData.categoryId, formData.amount), newLineItem(formData.categoryId)]
+        : undefined
+    );
+
+  const handleLineItemsChange = (lineItems?: LineItemFormData[]) => {
+    setFormData(prev => ({ ...prev, lineItems }));
+    setBudgetAlerts([]);
+    setErrors(prev => ({ ...prev, lineItems: undefined }));
+  };
+
+  const handleSplitChange = (split?: SplitFormData) => {
+    setFormData(prev => ({ ...prev, split }));
+    setErrors(prev => ({ ...prev, split: undefined }));
+  };
+
+  // Categories that do not suit the new type fall back to the first that does. Only expenses
+  // are shared, so income and refunds leave any group or split behind.
+  const handleTypeChange = (next: TransactionType) => {
+    const nextOptions = optionsFor(next);
+    const suited = (categoryId: string) =>
+      nextOptions.some(option => option.value === categoryId)
+        ? categoryId
+        : (nextOptions[0]?.value ?? '');
+    setFormData(prev => ({
+      ...prev,
+      type: next,
+      categoryId: suited(prev.categoryId),
+      lineItems: prev.lineItems?.map(item => ({ ...item, categoryId: suited(item.categoryId) })),
+      ...(next === 'expense' ? {} : { split: undefined, groupId: undefined, paidBy: undefined }),
+    }));
+    setDuplicates([]);
+    setBudgetAlerts([]);
+    setErrors(prev => ({
+      ...prev,
+      categoryId: undefined,
+      lineItems: undefined,
+      split: undefined,
+      paidBy: undefined,
+    }));
+  };
+
+  // A group expense starts out paid by the first member and shared equally by everyone.
+  // Leaving the group keeps the shares as a split between the same names.
+  const handleGroupChange = (groupId: string) => {
+    const chosen = groups.find(other => other.id === groupId);
+    setFormData(prev => ({
+      ...prev,
+      groupId: chosen?.id,
+      paidBy: chosen?.members[0]?.id,
+      split: chosen
+        ? {
+            method: 'equal',
+            shares: chosen.members.map(member => ({
+              person: member.name,
+              memberId: member.id,
+              value: '',
+            })),
+          }
+        : prev.split && {
+            ...prev.split,
+            shares: prev.split.shares.map(({ person, value }) => ({ person, value })),
+          },
+    }));
+    setErrors(prev => ({ ...prev, split: undefined, paidBy: undefined }));
+  };
+
+  // Monthly and yearly schedules start out on the expense's day of the month
+  const handleRepeatsChange = (checked: boolean) => {
+    setRepeats(checked);
+    setRecurrence(toRecurrenceFormData(formData.date));
+    setRecurrenceErrors({});
+  };
+
+  // Picked, dropped and pasted files all end up here
+  const handleAddFiles = (files: File[]) => {
+    const rejected = files.find(
+      file => !isAcceptedAttachmentType(file.type) || file.size > MAX_ATTACHMENT_SIZE
+    );
+    setAttachmentError(
+      !rejected
+        ? undefined
+        : isAcceptedAttachmentType(rejected.type)
+          ? t('form.receiptTooLarge', {
+              name: rejected.name,
+              max: formatFileSize(MAX_ATTACHMENT_SIZE, locale),
+            })
+          : t('form.receiptType', { name: rejected.name })
+    );
+
+    const created = files
+      .filter(file => isAcceptedAttachmentType(file.type) && file.size <= MAX_ATTACHMENT_SIZE)
+      .map(createAttachment);
+    if (created.length === 0) return;
+
+    setFormData(prev => ({
+      ...prev,
+      attachments: [...(prev.attachments ?? []), ...created.map(({ attachment }) => attachment)],
+    }));
+    setPendingFiles(prev => [...prev, ...created.map(({ file }) => file)]);
+  };
+
+  const handleRemoveAttachment = (id: string) => {
+    setFormData(prev => ({
+      ...prev,
+      attachments: (prev.attachments ?? []).filter(attachment => attachment.id !== id),
+    }));
+    setPendingFiles(prev => prev.filter(file => file.id !== id));
+    setAttachmentError(undefined);
+  };
+
+  // A screenshot pasted anywhere in the form is attached; pasted text is left alone
+  const handlePaste = (e: React.ClipboardEvent<HTMLFormElement>) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+
+    e.preventDefault();
+    handleAddFiles(files);
+  };
+
+  const handleTagsChange = (tags: string[]) => {
+    setFormData(prev => ({ ...prev, tags }));
+    if (errors.tags) {
+      setErrors(prev => ({ ...prev, tags: undefined }));
+    }
+  };
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     setIsSubmitting(true);
 
-    const validationErrors = validateExpenseForm(formData);
+    const data = normalise(formData);
+    const validationErrors = {
+      ...(refunding ? validateRefund(data, refunding, refundable, t) : {}),
+      ...validateExpenseForm(data, t),
+    };
+    const scheduleErrors = repeats ? validateRecurrenceForm(recurrence, data.date, t) : {};
 
-    if (hasErrors(validationErrors)) {
+    if (hasErrors(validationErrors) || hasErrors(scheduleErrors)) {
       setErrors(validationErrors);
+      setRecurrenceErrors(scheduleErrors);
       setIsSubmitting(false);
       return;
     }
 
-    onSubmit(formData);
+    // First save with a likely duplicate or a strained budget shows a warning; saving again confirms
+    if (!needsConfirmation) {
+      const matches = findDuplicates?.(data) ?? [];
+      const alerts = checkBudgets?.(data) ?? [];
+      if (matches.length > 0 || alerts.length > 0) {
+        setDuplicates(matches);
+        setBudgetAlerts(alerts);
+        setIsSubmitting(false);
+        return;
+      }
+    }
+
+    onSubmit(data, repeats ? toRecurrenceSchedule(recurrence) : undefined, pendingFiles);
     setIsSubmitting(false);
   };
 
   return (
-    <form onSubmit={handleSubmit} className="space-y-4">
+    <form onSubmit={handleSubmit} onPaste={handlePaste} className="space-y-4">
+      {refunding ? (
+        <div className="p-3 bg-gray-50 rounded-lg text-sm">
+          <p className="font-medium text-gray-900">
+            {TRANSACTION_ICONS.refund} {t('form.refundOf', { description: refunding.description })}
+          </p>
+          <p className="text-gray-500">
+            {t('form.refundable', {
+              amount: formatMoney(
+                { minor: refundable, currency: refunding.amount.currency },
+                locale
+              ),
+              total: formatMoney(refunding.amount, locale),
+            })}
+          </p>
+        </div>
+      ) : (
+        <Select
+          id="type"
+          label={t('form.type')}
+          value={type}
+          onChange={e => handleTypeChange(e.target.value as TransactionType)}
+          options={TRANSACTION_TYPES.map(value => ({
+            value,
+            label: `${TRANSACTION_ICONS[value]} ${t(`form.type.${value}`)}`,
+          }))}
+        />
+      )}
+
       <Input
-        label="Date"
+        id="date"
+        label={t('form.date')}
         type="date"
         name="date"
         value={formData.date}
@@ -79,32 +421,97 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
         required
       />
 
-      <Input
-        label="Amount (£)"
-        type="number"
-        name="amount"
-        value={formData.amount}
-        onChange={handleChange}
-        error={errors.amount}
-        placeholder="0.00"
-        step="0.01"
-        min="0"
-        required
-      />
+      <div>
+        <div className="flex gap-3">
+          <div className="flex-1">
+            <Input
+              id="amount"
+              label={t('form.amount')}
+              type="text"
+              inputMode="decimal"
+              name="amount"
+              value={formData.amount}
+              onChange={handleChange}
+              error={errors.amount}
+              placeholder={formatAmountInput({ minor: 0, currency: formData.currency }, locale)}
+              required
+            />
+          </div>
+          <div className="w-28">
+            <Select
+              id="currency"
+              label={t('form.currency')}
+              name="currency"
+              value={formData.currency}
+              onChange={handleChange}
+              error={errors.currency}
+              options={currencies}
+              disabled={!!refunding}
+            />
+          </div>
+        </div>
+        {converted !== undefined && (
+          <p className="mt-1 text-xs text-gray-500">
+            {converted === null
+              ? t('form.noRate', { currency: formData.currency })
+              : `≈ ${formatMoney(converted, locale)}`}
+          </p>
+        )}
+      </div>
 
-      <Select
-        label="Category"
-        name="category"
-        value={formData.category}
-        onChange={handleChange}
-        error={errors.category}
-        options={categoryOptions}
-        required
-      />
+      {paymentOptions.length > 0 && (
+        <Select
+          id="account"
+          label={t('form.account')}
+          name="accountId"
+          value={formData.accountId ?? ''}
+          onChange={handleChange}
+          options={[{ value: '', label: t('form.noAccount') }, ...paymentOptions]}
+        />
+      )}
+
+      {!formData.lineItems && !refunding && (
+        <Select
+          id="category"
+          label={t('form.category')}
+          name="categoryId"
+          value={formData.categoryId}
+          onChange={handleChange}
+          error={errors.categoryId}
+          options={options}
+          required
+        />
+      )}
+
+      {!refunding && (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={!!formData.lineItems}
+              onChange={e => handleItemiseChange(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            {t('form.itemise')}
+          </label>
+          {formData.lineItems && (
+            <LineItemFields
+              items={formData.lineItems}
+              onChange={handleLineItemsChange}
+              currency={formData.currency}
+              total={total}
+              categoryOptions={options}
+              locale={locale}
+              t={t}
+              error={errors.lineItems}
+            />
+          )}
+        </div>
+      )}
 
       <div className="w-full">
         <label htmlFor="description" className="block text-sm font-medium text-gray-700 mb-1">
-          Description
+          {t('form.description')}
         </label>
         <textarea
           id="description"
@@ -115,7 +522,7 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
             errors.description ? 'border-red-500' : 'border-gray-300'
           }`}
           rows={3}
-          placeholder="Enter expense description..."
+          placeholder={t('form.descriptionPlaceholder')}
           maxLength={200}
           required
         />
@@ -123,10 +530,157 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
           <p className="mt-1 text-sm text-red-600">{errors.description}</p>
         )}
         <p className="mt-1 text-xs text-gray-500">
-          {formData.description.length}/200 characters
+          {t('form.characters', { count: formData.description.length, max: 200 })}
         </p>
       </div>
 
+      <TagInput
+        id="tags"
+        label={t('form.tags')}
+        tags={formData.tags}
+        onChange={handleTagsChange}
+        knownTags={knownTags}
+        placeholder={t('form.tagsPlaceholder')}
+        error={errors.tags}
+        t={t}
+      />
+
+      {type === 'expense' && (
+        <div className="space-y-3">
+          {(groups.length > 0 || formData.groupId) && (
+            <div className="flex gap-3">
+              <Select
+                id="group"
+                label={t('form.group')}
+                value={formData.groupId ?? ''}
+                onChange={e => handleGroupChange(e.target.value)}
+                options={[
+                  { value: '', label: t('form.noGroup') },
+                  ...groups.map(other => ({ value: other.id, label: other.name })),
+                ]}
+              />
+              {group && (
+                <Select
+                  id="paid-by"
+                  label={t('form.paidBy')}
+                  name="paidBy"
+                  value={formData.paidBy ?? ''}
+                  onChange={handleChange}
+                  error={errors.paidBy}
+                  options={group.members.map(member => ({ value: member.id, label: member.name }))}
+                />
+              )}
+            </div>
+          )}
+          {!group && (
+            <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+              <input
+                type="checkbox"
+                checked={!!formData.split}
+                onChange={e =>
+                  handleSplitChange(
+                    e.target.checked
+                      ? {
+                          method: 'equal',
+                          shares: [
+                            { person: '', value: '' },
+                            { person: '', value: '' },
+                          ],
+                        }
+                      : undefined
+                  )
+                }
+                className="rounded border-gray-300"
+              />
+              {t('form.share')}
+            </label>
+          )}
+          {formData.split && (
+            <SplitFields
+              value={formData.split}
+              onChange={handleSplitChange}
+              currency={formData.currency}
+              total={total}
+              members={group?.members}
+              locale={locale}
+              t={t}
+              error={errors.split}
+            />
+          )}
+        </div>
+      )}
+
+      <AttachmentInput
+        id="receipts"
+        attachments={formData.attachments ?? []}
+        onAdd={handleAddFiles}
+        onRemove={handleRemoveAttachment}
+        locale={locale}
+        t={t}
+        error={attachmentError}
+      />
+
+      {refunding ? null : initialData?.recurringRuleId ? (
+        <p className="text-sm text-gray-500">🔁 {t('form.alreadyRecurring')}</p>
+      ) : (
+        <div className="space-y-3">
+          <label className="flex items-center gap-2 text-sm font-medium text-gray-700">
+            <input
+              type="checkbox"
+              checked={repeats}
+              onChange={e => handleRepeatsChange(e.target.checked)}
+              className="rounded border-gray-300"
+            />
+            {t('form.repeat')}
+          </label>
+          {repeats && (
+            <>
+              <RecurrenceFields
+                id="recurrence"
+                value={recurrence}
+                onChange={value => {
+                  setRecurrence(value);
+                  setRecurrenceErrors({});
+                }}
+                errors={recurrenceErrors}
+                t={t}
+              />
+              <p className="text-xs text-gray-500">{t('form.repeatNote')}</p>
+            </>
+          )}
+        </div>
+      )}
+
+      {duplicates.length > 0 && (
+        <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+          <p className="font-medium">{t('form.duplicateWarning')}</p>
+          <ul className="mt-1 list-disc list-inside">
+            {duplicates.slice(0, 3).map(expense => (
+              <li key={expense.id}>
+                {formatDate(expense.date, locale)} · {formatMoney(expense.amount, locale)} ·{' '}
+                {expense.description}
+              </li>
+            ))}
+          </ul>
+          <p className="mt-1">{t('form.saveAgain')}</p>
+        </div>
+      )}
+
+      {budgetAlerts.length > 0 && (
+        <div
+          className={`p-3 border rounded-lg text-sm ${
+            budgetAlerts.some(alert => alert.threshold >= 1)
+              ? 'bg-red-50 border-red-200 text-red-800'
+              : 'bg-yellow-50 border-yellow-200 text-yellow-800'
+          }`}
+        >
+          {budgetAlerts.map(alert => (
+            <p key={alert.progress.budget.id}>{budgetAlertMessage(alert)}</p>
+          ))}
+          <p className="mt-1">{t('form.saveAgainBudget')}</p>
+        </div>
+      )}
+
       <div className="flex gap-3 pt-4">
         <Button
           type="submit"
@@ -134,7 +688,13 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
           className="flex-1"
           disabled={isSubmitting}
         >
-          {isSubmitting ? 'Saving...' : initialData ? 'Update Expense' : 'Add Expense'}
+          {isSubmitting
+            ? t('form.saving')
+            : needsConfirmation
+              ? t('form.saveAnyway')
+              : initialData
+                ? t('form.update')
+                : t('form.add')}
         </Button>
         <Button
           type="button"
@@ -142,7 +702,7 @@ export const ExpenseForm: React.FC<ExpenseFormProps> = ({
           onClick={onCancel}
           disabled={isSubmitting}
         >
-          Cancel
+          {t('form.cancel')}
         </Button>
       </div>
     </form>
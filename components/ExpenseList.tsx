@@ -1,50 +1,79 @@
 'use client';
 
 import React, { useState } from 'react';
-import { Expense, ExpenseCategory } from '@/types/expense';
-import { formatCurrency } from '@/utils/currency';
-import { format } from 'date-fns';
+import { Account, Category, Expense, Group, TagMatch, TransactionType } from '@/types/expense';
+import { ACCOUNT_ICONS } from '@/lib/accounts';
+import { CurrencyConversion } from '@/lib/exchangeRates';
+import { Translator } from '@/lib/i18n';
+import { formatMoney } from '@/utils/currency';
+import { addTag, collectTags, matchesTags } from '@/utils/tags';
+import { formatDate } from '@/utils/locale';
+import { refundsByOriginal, summariseRefunds } from '@/utils/refunds';
+import { splitAmounts } from '@/utils/splits';
+import {
+  TRANSACTION_ICONS,
+  TRANSACTION_TYPES,
+  amountSign,
+  transactionType,
+} from '@/utils/transactions';
 import { Button } from './ui/Button';
 import { Input } from './ui/Input';
 import { Select } from './ui/Select';
+import { CategoryBadge } from './CategoryBadge';
+import { TagInput } from './TagInput';
+import { AttachmentThumbnails } from './AttachmentThumbnails';
 
 interface ExpenseListProps {
   expenses: Expense[];
+  categories: Category[];
+  // Group expenses say who paid and in which group
+  groups: Group[];
+  accounts: Account[];
+  conversion: CurrencyConversion;
+  // Amounts and dates are shown in this locale's format
+  locale: string;
+  // Labels are shown in the interface language
+  t: Translator;
   onEdit: (expense: Expense) => void;
+  // Records money coming back for the expense, linked to it
+  onRefund: (expense: Expense) => void;
   onDelete: (id: string) => void;
+  onBulkDelete: (ids: string[]) => void;
+  // Number of likely-duplicate groups across all expenses
+  duplicateCount: number;
+  onFindDuplicates: () => void;
+  // Reads a receipt's file for its thumbnail and viewer
+  loadAttachment: (id: string) => Promise<Blob | null>;
 }
 
-const categoryFilterOptions = [
-  { value: 'All', label: 'All Categories' },
-  { value: 'Food', label: 'Food' },
-  { value: 'Transportation', label: 'Transportation' },
-  { value: 'Entertainment', label: 'Entertainment' },
-  { value: 'Shopping', label: 'Shopping' },
-  { value: 'Bills', label: 'Bills' },
-  { value: 'Other', label: 'Other' },
-];
-
-const getCategoryColor = (category: ExpenseCategory): string => {
-  const colors: Record<ExpenseCategory, string> = {
-    Food: 'bg-green-100 text-green-800',
-    Transportation: 'bg-blue-100 text-blue-800',
-    Entertainment: 'bg-purple-100 text-purple-800',
-    Shopping: 'bg-pink-100 text-pink-800',
-    Bills: 'bg-orange-100 text-orange-800',
-    Other: 'bg-gray-100 text-gray-800',
-  };
-  return colors[category];
-};
-
 export const ExpenseList: React.FC<ExpenseListProps> = ({
   expenses,
+  categories,
+  groups,
+  accounts,
+  conversion,
+  locale,
+  t,
   onEdit,
+  onRefund,
   onDelete,
+  onBulkDelete,
+  duplicateCount,
+  onFindDuplicates,
+  loadAttachment,
 }) => {
   const [searchQuery, setSearchQuery] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [categoryFilter, setCategoryFilter] = useState<string>('All');
+  const [typeFilter, setTypeFilter] = useState<TransactionType | 'All'>('All');
+  // An account id, 'All', or 'None' for expenses with no account
+  const [accountFilter, setAccountFilter] = useState<string>('All');
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
+  const [tagFilter, setTagFilter] = useState<string[]>([]);
+  const [tagMatch, setTagMatch] = useState<TagMatch>('any');
+
+  const knownTags = collectTags(expenses);
 
   const filteredExpenses = expenses.filter(expense => {
     // Search filter
@@ -52,122 +81,393 @@ export const ExpenseList: React.FC<ExpenseListProps> = ({
       .toLowerCase()
       .includes(searchQuery.toLowerCase());
 
-    // Category filter
+    // Category filter; an itemised expense matches any of its items' categories
     const matchesCategory =
-      categoryFilter === 'All' || expense.category === categoryFilter;
+      categoryFilter === 'All' ||
+      expense.categoryId === categoryFilter ||
+      (expense.lineItems ?? []).some(item => item.categoryId === categoryFilter);
+
+    const matchesType = typeFilter === 'All' || transactionType(expense) === typeFilter;
+
+    const matchesAccount =
+      accountFilter === 'All' ||
+      (accountFilter === 'None' ? !expense.accountId : expense.accountId === accountFilter);
 
     // Date range filter
     const expenseDate = new Date(expense.date);
     const matchesStartDate = !startDate || expenseDate >= new Date(startDate);
     const matchesEndDate = !endDate || expenseDate <= new Date(endDate);
 
-    return matchesSearch && matchesCategory && matchesStartDate && matchesEndDate;
+    return (
+      matchesSearch &&
+      matchesCategory &&
+      matchesType &&
+      matchesAccount &&
+      matchesStartDate &&
+      matchesEndDate &&
+      matchesTags(expense, tagFilter, tagMatch)
+    );
   });
 
   const sortedExpenses = [...filteredExpenses].sort(
     (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
   );
 
+  // Only act on selections that are still visible and still exist
+  const visibleSelectedIds = sortedExpenses
+    .filter(expense => selectedIds.has(expense.id))
+    .map(expense => expense.id);
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    setSelectedIds(
+      visibleSelectedIds.length === sortedExpenses.length
+        ? new Set()
+        : new Set(sortedExpenses.map(expense => expense.id))
+    );
+  };
+
+  const handleBulkDelete = () => {
+    onBulkDelete(visibleSelectedIds);
+    setSelectedIds(new Set());
+  };
+
+  const accountLabel = (expense: Expense): string | null => {
+    const account = accounts.find(other => other.id === expense.accountId);
+    return account ? `${ACCOUNT_ICONS[account.type]} ${account.name}` : null;
+  };
+
+  // "Ana paid · Team trip" for group expenses, as long as the group still exists
+  const paidByLabel = (expense: Expense): string | null => {
+    const group = groups.find(other => other.id === expense.groupId);
+    const payer = group?.members.find(member => member.id === expense.paidBy);
+    return group && payer ? t('list.paidBy', { person: payer.name, group: group.name }) : null;
+  };
+
+  const refunds = refundsByOriginal(expenses);
+  const refundSummary = (expense: Expense) => summariseRefunds(expense, refunds.get(expense.id));
+
+  // How much of an expense has come back and what it comes to now, or what a refund is for
+  const refundLabel = (expense: Expense): string | null => {
+    if (transactionType(expense) === 'refund') {
+      const original = expenses.find(other => other.id === expense.refundOf);
+      return original ? t('list.refundOf', { description: original.description }) : null;
+    }
+
+    const { status, refunded, net } = refundSummary(expense);
+    const money = (minor: number) =>
+      formatMoney({ minor, currency: expense.amount.currency }, locale);
+    if (status === 'full') return t('list.fullyRefunded');
+    return status === 'partial'
+      ? t('list.partlyRefunded', { refunded: money(refunded), net: money(net) })
+      : null;
+  };
+
+  // Expenses can be refunded until everything has come back
+  const canRefund = (expense: Expense): boolean =>
+    transactionType(expense) === 'expense' && refundSummary(expense).status !== 'full';
+
   return (
     <div className="space-y-4">
       {/* Filters */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4 mb-6">
         <Input
-          placeholder="Search expenses..."
+          placeholder={t('list.search')}
           value={searchQuery}
           onChange={e => setSearchQuery(e.target.value)}
         />
 
         <Select
-          options={categoryFilterOptions}
+          options={[
+            { value: 'All', label: t('list.allCategories') },
+            // Archived categories stay filterable since older expenses still use them
+            ...categories.map(category => ({
+              value: category.id,
+              label: `${category.icon} ${
+                category.archived ? t('list.archived', { name: category.name }) : category.name
+              }`,
+            })),
+          ]}
           value={categoryFilter}
           onChange={e => setCategoryFilter(e.target.value)}
         />
 
         <Input
           type="date"
-          placeholder="Start date"
+          placeholder={t('list.startDate')}
           value={startDate}
           onChange={e => setStartDate(e.target.value)}
         />
 
         <Input
           type="date"
-          placeholder="End date"
+          placeholder={t('list.endDate')}
           value={endDate}
           onChange={e => setEndDate(e.target.value)}
         />
+
+        <Select
+          aria-label={t('list.type')}
+          options={[
+            { value: 'All', label: t('list.allTypes') },
+            ...TRANSACTION_TYPES.map(value => ({
+              value,
+              label: `${TRANSACTION_ICONS[value]} ${t(`list.type.${value}`)}`,
+            })),
+          ]}
+          value={typeFilter}
+          onChange={e => setTypeFilter(e.target.value as TransactionType | 'All')}
+        />
+
+        {accounts.length > 0 && (
+          <Select
+            aria-label={t('list.account')}
+            options={[
+              { value: 'All', label: t('list.allAccounts') },
+              { value: 'None', label: t('list.noAccount') },
+              ...accounts.map(account => ({
+                value: account.id,
+                label: `${ACCOUNT_ICONS[account.type]} ${
+                  account.archived ? t('list.archived', { name: account.name }) : account.name
+                }`,
+              })),
+            ]}
+            value={accountFilter}
+            onChange={e => setAccountFilter(e.target.value)}
+          />
+        )}
+
+        {knownTags.length > 0 && (
+          <div className="md:col-span-2 lg:col-span-4 flex flex-col md:flex-row gap-4">
+            <TagInput
+              id="tag-filter"
+              tags={tagFilter}
+              onChange={setTagFilter}
+              knownTags={knownTags}
+              placeholder={t('list.filterTags')}
+              t={t}
+            />
+            <div className="md:w-56">
+              <Select
+                aria-label={t('list.tagMatch')}
+                options={[
+                  { value: 'any', label: t('list.anyTags') },
+                  { value: 'all', label: t('list.allTags') },
+                ]}
+                value={tagMatch}
+                onChange={e => setTagMatch(e.target.value as TagMatch)}
+                disabled={tagFilter.length < 2}
+              />
+            </div>
+          </div>
+        )}
       </div>
 
+      {/* Bulk Actions */}
+      {sortedExpenses.length > 0 && (
+        <div className="flex items-center justify-between">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={visibleSelectedIds.length === sortedExpenses.length}
+              onChange={toggleSelectAll}
+              className="rounded border-gray-300"
+            />
+            {t('list.selectAll')}
+          </label>
+          <div className="flex gap-2">
+            <Button variant="ghost" size="sm" onClick={onFindDuplicates}>
+              {duplicateCount > 0
+                ? t('list.findDuplicatesCount', { count: duplicateCount })
+                : t('list.findDuplicates')}
+            </Button>
+            {visibleSelectedIds.length > 0 && (
+              <Button variant="danger" size="sm" onClick={handleBulkDelete}>
+                {t('list.deleteSelected', { count: visibleSelectedIds.length })}
+              </Button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Expense List */}
       {sortedExpenses.length === 0 ? (
         <div className="text-center py-12 bg-gray-50 rounded-lg">
-          <p className="text-gray-500 text-lg">No expenses found</p>
+          <p className="text-gray-500 text-lg">{t('list.noneFound')}</p>
           <p className="text-gray-400 text-sm mt-2">
-            {expenses.length === 0
-              ? 'Start by adding your first expense'
-              : 'Try adjusting your filters'}
+            {expenses.length === 0 ? t('list.startAdding') : t('list.adjustFilters')}
           </p>
         </div>
       ) : (
         <div className="space-y-3">
-          {sortedExpenses.map(expense => (
-            <div
-              key={expense.id}
-              className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:shadow-md transition-shadow"
-            >
-              <div className="flex items-start justify-between">
-                <div className="flex-1">
-                  <div className="flex items-center gap-2 mb-2">
-                    <span
-                      className={`px-2 py-1 rounded-full text-xs font-medium ${getCategoryColor(
-                        expense.category
-                      )}`}
+          {sortedExpenses.map(expense => {
+            const converted =
+              expense.amount.currency === conversion.baseCurrency
+                ? undefined
+                : conversion.toBase(expense);
+
+            return (
+              <div
+                key={expense.id}
+                className="bg-white rounded-lg shadow-sm border border-gray-200 p-4 hover:shadow-md transition-shadow"
+              >
+                <div className="flex items-start justify-between">
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(expense.id)}
+                    onChange={() => toggleSelected(expense.id)}
+                    className="mt-1 mr-4 rounded border-gray-300"
+                    aria-label={t('list.select', { description: expense.description })}
+                  />
+                  <div className="flex-1">
+                    <div className="flex items-center gap-2 mb-2">
+                      <CategoryBadge categories={categories} categoryId={expense.categoryId} />
+                      <span className="text-sm text-gray-500">
+                        {formatDate(expense.date, locale)}
+                      </span>
+                      {transactionType(expense) !== 'expense' && (
+                        <span className="text-sm text-green-700">
+                          {TRANSACTION_ICONS[transactionType(expense)]}{' '}
+                          {t(`list.type.${transactionType(expense)}`)}
+                        </span>
+                      )}
+                      {expense.recurringRuleId && (
+                        <span className="text-sm" title={t('list.recurring')}>
+                          🔁
+                        </span>
+                      )}
+                      {accountLabel(expense) && (
+                        <span className="text-sm text-gray-500">{accountLabel(expense)}</span>
+                      )}
+                      {expense.cleared && (
+                        <span className="text-sm text-green-700" title={t('list.cleared')}>
+                          ✓
+                        </span>
+                      )}
+                    </div>
+                    <p className="text-gray-900 font-medium mb-1">
+                      {expense.description}
+                    </p>
+                    {expense.tags && expense.tags.length > 0 && (
+                      <div className="flex flex-wrap gap-1 mb-1">
+                        {expense.tags.map(tag => (
+                          <button
+                            key={tag}
+                            onClick={() => setTagFilter(prev => addTag(prev, tag))}
+                            className="px-2 py-0.5 rounded-full bg-gray-100 text-gray-600 text-xs hover:bg-gray-200"
+                            title={t('list.showTagged', { tag })}
+                          >
+                            #{tag}
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                    {expense.lineItems && expense.lineItems.length > 0 && (
+                      <ul className="mb-1 space-y-1">
+                        {expense.lineItems.map(item => (
+                          <li key={item.id} className="flex items-center gap-2 text-sm">
+                            <CategoryBadge categories={categories} categoryId={item.categoryId} />
+                            <span className="text-gray-600">{item.description}</span>
+                            <span className="text-gray-900">
+                              {formatMoney(
+                                { minor: item.amount, currency: expense.amount.currency },
+                                locale
+                              )}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    {paidByLabel(expense) && (
+                      <p className="text-sm text-gray-600 mb-1">💳 {paidByLabel(expense)}</p>
+                    )}
+                    {expense.split && (
+                      <p className="text-sm text-gray-600 mb-1" title={t('list.shared')}>
+                        👥{' '}
+                        {splitAmounts(expense.split, expense.amount.minor)
+                          .map(
+                            ({ person, amount }) =>
+                              `${person} ${formatMoney(
+                                { minor: amount, currency: expense.amount.currency },
+                                locale
+                              )}`
+                          )
+                          .join(' · ')}
+                      </p>
+                    )}
+                    {refundLabel(expense) && (
+                      <p className="text-sm text-green-700 mb-1">
+                        {TRANSACTION_ICONS.refund} {refundLabel(expense)}
+                      </p>
+                    )}
+                    {expense.attachments && expense.attachments.length > 0 && (
+                      <AttachmentThumbnails
+                        attachments={expense.attachments}
+                        loadAttachment={loadAttachment}
+                        locale={locale}
+                        t={t}
+                      />
+                    )}
+                    <p
+                      className={`text-2xl font-bold ${
+                        transactionType(expense) === 'expense' ? 'text-gray-900' : 'text-green-700'
+                      }`}
                     >
-                      {expense.category}
-                    </span>
-                    <span className="text-sm text-gray-500">
-                      {format(new Date(expense.date), 'dd MMM yyyy')}
-                    </span>
+                      {amountSign(expense)}
+                      {formatMoney(expense.amount, locale)}
+                    </p>
+                    {converted !== undefined && (
+                      <p className="text-sm text-gray-500">
+                        {converted === null
+                          ? t('list.noRate', { currency: expense.amount.currency })
+                          : `≈ ${formatMoney(converted, locale)}`}
+                      </p>
+                    )}
                   </div>
-                  <p className="text-gray-900 font-medium mb-1">
-                    {expense.description}
-                  </p>
-                  <p className="text-2xl font-bold text-gray-900">
-                    {formatCurrency(expense.amount)}
-                  </p>
-                </div>
 
-                <div className="flex gap-2 ml-4">
-                  <Button
-                    variant="ghost"
-                    size="sm"
-                    onClick={() => onEdit(expense)}
-                  >
-                    Edit
-                  </Button>
-                  <Button
-                    variant="danger"
-                    size="sm"
-                    onClick={() => {
-                      if (confirm('Are you sure you want to delete this expense?')) {
-                        onDelete(expense.id);
-                      }
-                    }}
-                  >
-                    Delete
-                  </Button>
+                  <div className="flex gap-2 ml-4">
+                    {canRefund(expense) && (
+                      <Button variant="ghost" size="sm" onClick={() => onRefund(expense)}>
+                        {t('list.refund')}
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onEdit(expense)}
+                    >
+                      {t('list.edit')}
+                    </Button>
+                    <Button
+                      variant="danger"
+                      size="sm"
+                      onClick={() => onDelete(expense.id)}
+                    >
+                      {t('list.delete')}
+                    </Button>
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            );
+          })}
         </div>
       )}
 
       {/* Results count */}
       {expenses.length > 0 && (
         <p className="text-sm text-gray-500 text-center">
-          Showing {sortedExpenses.length} of {expenses.length} expenses
+          {t('list.showing', { shown: sortedExpenses.length, count: expenses.length })}
         </p>
       )}
     </div>
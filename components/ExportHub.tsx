@@ -2,11 +2,18 @@
 
 import React, { useState, useMemo } from 'react';
 import { Expense } from '@/types/expense';
-import { formatCurrency } from '@/utils/currency';
+import { CurrencyConversion } from '@/lib/exchangeRates';
+import { MessageKey, Translator } from '@/lib/i18n';
+import { formatMoney } from '@/utils/currency';
 import { QRCodeSVG } from 'qrcode.react';
 
 interface ExportHubProps {
   expenses: Expense[];
+  conversion: CurrencyConversion;
+  // Amounts and dates are shown in this locale's format
+  locale: string;
+  // Labels are shown in the interface language
+  t: Translator;
   isOpen: boolean;
   onClose: () => void;
 }
@@ -17,8 +24,8 @@ type CloudProvider = 'google-sheets' | 'dropbox' | 'onedrive' | 'email' | 'notio
 
 interface ExportHistoryItem {
   id: string;
-  template: string;
-  provider: string;
+  template: ExportTemplate;
+  provider: CloudProvider;
   timestamp: string;
   status: 'success' | 'pending' | 'failed';
   recordCount: number;
@@ -26,14 +33,21 @@ interface ExportHistoryItem {
 
 interface ScheduledExport {
   id: string;
-  template: string;
-  frequency: string;
+  template: ExportTemplate;
+  frequency: MessageKey;
   destination: string;
   nextRun: string;
   enabled: boolean;
 }
 
-export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose }) => {
+export const ExportHub: React.FC<ExportHubProps> = ({
+  expenses,
+  conversion,
+  locale,
+  t,
+  isOpen,
+  onClose,
+}) => {
   const [activeTab, setActiveTab] = useState<TabType>('export');
   const [selectedTemplate, setSelectedTemplate] = useState<ExportTemplate>('monthly-summary');
   const [selectedProvider, setSelectedProvider] = useState<CloudProvider | null>(null);
@@ -47,24 +61,24 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
   const [exportHistory] = useState<ExportHistoryItem[]>([
     {
       id: '1',
-      template: 'Monthly Summary',
-      provider: 'Email',
+      template: 'monthly-summary',
+      provider: 'email',
       timestamp: new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(),
       status: 'success',
       recordCount: 45
     },
     {
       id: '2',
-      template: 'Tax Report',
-      provider: 'Google Sheets',
+      template: 'tax-report',
+      provider: 'google-sheets',
       timestamp: new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString(),
       status: 'success',
       recordCount: 128
     },
     {
       id: '3',
-      template: 'Category Analysis',
-      provider: 'Dropbox',
+      template: 'category-analysis',
+      provider: 'dropbox',
       timestamp: new Date(Date.now() - 3 * 24 * 60 * 60 * 1000).toISOString(),
       status: 'pending',
       recordCount: 89
@@ -75,16 +89,16 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
   const [scheduledExports, setScheduledExports] = useState<ScheduledExport[]>([
     {
       id: '1',
-      template: 'Monthly Summary',
-      frequency: 'Monthly (1st of month)',
+      template: 'monthly-summary',
+      frequency: 'exportHub.frequency.monthlyFirst',
       destination: 'your.email@example.com',
       nextRun: '2025-12-01',
       enabled: true
     },
     {
       id: '2',
-      template: 'Tax Report',
-      frequency: 'Quarterly',
+      template: 'tax-report',
+      frequency: 'exportHub.frequency.quarterly',
       destination: 'Google Sheets',
       nextRun: '2025-12-31',
       enabled: true
@@ -94,30 +108,30 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
   const exportTemplates = [
     {
       id: 'tax-report' as ExportTemplate,
-      name: 'Tax Report',
+      name: t('exportHub.template.taxReport'),
       icon: '📋',
-      description: 'Detailed report formatted for tax purposes with category breakdowns',
+      description: t('exportHub.template.taxReportDescription'),
       color: 'from-green-500 to-emerald-600'
     },
     {
       id: 'monthly-summary' as ExportTemplate,
-      name: 'Monthly Summary',
+      name: t('exportHub.template.monthlySummary'),
       icon: '📊',
-      description: 'Concise monthly overview with key metrics and trends',
+      description: t('exportHub.template.monthlySummaryDescription'),
       color: 'from-blue-500 to-cyan-600'
     },
     {
       id: 'category-analysis' as ExportTemplate,
-      name: 'Category Analysis',
+      name: t('exportHub.template.categoryAnalysis'),
       icon: '📈',
-      description: 'Deep dive into spending patterns by category with visualizations',
+      description: t('exportHub.template.categoryAnalysisDescription'),
       color: 'from-purple-500 to-pink-600'
     },
     {
       id: 'custom' as ExportTemplate,
-      name: 'Custom Export',
+      name: t('exportHub.template.custom'),
       icon: '⚙️',
-      description: 'Build your own export with custom fields and formatting',
+      description: t('exportHub.template.customDescription'),
       color: 'from-gray-500 to-slate-600'
     }
   ];
@@ -127,15 +141,15 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
       id: 'google-sheets' as CloudProvider,
       name: 'Google Sheets',
       icon: '📗',
-      description: 'Live sync to spreadsheet',
+      description: t('exportHub.provider.googleSheetsDescription'),
       status: 'connected',
       color: 'border-green-500 bg-green-50'
     },
     {
       id: 'email' as CloudProvider,
-      name: 'Email',
+      name: t('exportHub.provider.email'),
       icon: '✉️',
-      description: 'Send to your inbox',
+      description: t('exportHub.provider.emailDescription'),
       status: 'ready',
       color: 'border-blue-500 bg-blue-50'
     },
@@ -143,7 +157,7 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
       id: 'dropbox' as CloudProvider,
       name: 'Dropbox',
       icon: '📦',
-      description: 'Save to cloud storage',
+      description: t('exportHub.provider.dropboxDescription'),
       status: 'not-connected',
       color: 'border-gray-300 bg-gray-50'
     },
@@ -151,7 +165,7 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
       id: 'onedrive' as CloudProvider,
       name: 'OneDrive',
       icon: '☁️',
-      description: 'Microsoft cloud sync',
+      description: t('exportHub.provider.onedriveDescription'),
       status: 'not-connected',
       color: 'border-gray-300 bg-gray-50'
     },
@@ -159,15 +173,21 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
       id: 'notion' as CloudProvider,
       name: 'Notion',
       icon: '📝',
-      description: 'Export to workspace',
+      description: t('exportHub.provider.notionDescription'),
       status: 'connected',
       color: 'border-purple-500 bg-purple-50'
     }
   ];
 
+  const templateName = (id: ExportTemplate) =>
+    exportTemplates.find(template => template.id === id)?.name;
+  const providerName = (id: CloudProvider | null) =>
+    cloudProviders.find(provider => provider.id === id)?.name;
+
+  // Minor units of the base currency; expenses with no exchange rate are left out
   const totalAmount = useMemo(() => {
-    return expenses.reduce((sum, exp) => sum + exp.amount, 0);
-  }, [expenses]);
+    return expenses.reduce((sum, exp) => sum + (conversion.toBase(exp)?.minor ?? 0), 0);
+  }, [expenses, conversion]);
 
   const handleExport = async () => {
     if (!selectedProvider) return;
@@ -201,11 +221,11 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'success':
-        return <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">Success</span>;
+        return <span className="px-2 py-1 text-xs font-semibold rounded-full bg-green-100 text-green-800">{t('exportHub.status.success')}</span>;
       case 'pending':
-        return <span className="px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">Pending</span>;
+        return <span className="px-2 py-1 text-xs font-semibold rounded-full bg-yellow-100 text-yellow-800">{t('exportHub.status.pending')}</span>;
       case 'failed':
-        return <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">Failed</span>;
+        return <span className="px-2 py-1 text-xs font-semibold rounded-full bg-red-100 text-red-800">{t('exportHub.status.failed')}</span>;
       default:
         return null;
     }
@@ -217,13 +237,13 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
         return (
           <div className="flex items-center text-xs text-green-600">
             <div className="w-2 h-2 bg-green-500 rounded-full mr-1 animate-pulse"></div>
-            Connected
+            {t('exportHub.connection.connected')}
           </div>
         );
       case 'ready':
-        return <span className="text-xs text-blue-600">Ready</span>;
+        return <span className="text-xs text-blue-600">{t('exportHub.connection.ready')}</span>;
       default:
-        return <span className="text-xs text-gray-400">Not connected</span>;
+        return <span className="text-xs text-gray-400">{t('exportHub.connection.notConnected')}</span>;
     }
   };
 
@@ -234,10 +254,10 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
     const diffHrs = Math.floor(diffMs / (1000 * 60 * 60));
     const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
 
-    if (diffHrs < 1) return 'Just now';
-    if (diffHrs < 24) return `${diffHrs}h ago`;
-    if (diffDays === 1) return 'Yesterday';
-    return `${diffDays} days ago`;
+    if (diffHrs < 1) return t('exportHub.justNow');
+    if (diffHrs < 24) return t('exportHub.hoursAgo', { count: diffHrs });
+    if (diffDays === 1) return t('exportHub.yesterday');
+    return t('exportHub.daysAgo', { count: diffDays });
   };
 
   if (!isOpen) return null;
@@ -253,12 +273,13 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
                 <svg className="w-8 h-8 mr-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M3 15a4 4 0 004 4h9a5 5 0 10-.1-9.999 5.002 5.002 0 10-9.78 2.096A4.001 4.001 0 003 15z" />
                 </svg>
-                Export Hub
+                {t('exportHub.title')}
               </h2>
-              <p className="text-indigo-100 mt-1">Cloud-integrated data export and sharing platform</p>
+              <p className="text-indigo-100 mt-1">{t('exportHub.subtitle')}</p>
             </div>
             <button
               onClick={onClose}
+              aria-label={t('exportHub.close')}
               className="text-white hover:bg-white hover:bg-opacity-20 rounded-lg p-2 transition-colors"
             >
               <svg className="w-6 h-6" fill="none" stroke="currentColor" viewBox="0 0 24 24">
@@ -272,16 +293,18 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
             <div className="flex items-center space-x-4">
               <div className="flex items-center">
                 <div className="w-2 h-2 bg-green-400 rounded-full mr-2 animate-pulse"></div>
-                <span className="text-sm">All systems operational</span>
+                <span className="text-sm">{t('exportHub.operational')}</span>
               </div>
               <div className="text-sm opacity-75">
-                Last sync: 2 minutes ago
+                {t('exportHub.lastSync')}
               </div>
             </div>
             <div className="flex items-center space-x-2">
-              <span className="text-sm font-semibold">{expenses.length} records</span>
+              <span className="text-sm font-semibold">
+                {t('exportHub.records', { count: expenses.length })}
+              </span>
               <span className="text-sm opacity-75">•</span>
-              <span className="text-sm font-semibold">{formatCurrency(totalAmount)}</span>
+              <span className="text-sm font-semibold">{formatMoney({ minor: totalAmount, currency: conversion.baseCurrency }, locale)}</span>
             </div>
           </div>
         </div>
@@ -290,11 +313,11 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
         <div className="border-b border-gray-200 bg-gray-50">
           <div className="flex space-x-1 px-6">
             {[
-              { id: 'export' as TabType, label: 'Export', icon: '🚀' },
-              { id: 'schedule' as TabType, label: 'Schedule', icon: '⏰' },
-              { id: 'history' as TabType, label: 'History', icon: '📜' },
-              { id: 'share' as TabType, label: 'Share', icon: '🔗' },
-              { id: 'integrations' as TabType, label: 'Integrations', icon: '🔌' }
+              { id: 'export' as TabType, label: t('exportHub.tab.export'), icon: '🚀' },
+              { id: 'schedule' as TabType, label: t('exportHub.tab.schedule'), icon: '⏰' },
+              { id: 'history' as TabType, label: t('exportHub.tab.history'), icon: '📜' },
+              { id: 'share' as TabType, label: t('exportHub.tab.share'), icon: '🔗' },
+              { id: 'integrations' as TabType, label: t('exportHub.tab.integrations'), icon: '🔌' }
             ].map(tab => (
               <button
                 key={tab.id}
@@ -318,7 +341,7 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
           {activeTab === 'export' && (
             <div className="space-y-6">
               <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-3">Choose Export Template</h3>
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">{t('exportHub.chooseTemplate')}</h3>
                 <div className="grid grid-cols-2 gap-4">
                   {exportTemplates.map(template => (
                     <button
@@ -341,7 +364,7 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
               </div>
 
               <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-3">Select Destination</h3>
+                <h3 className="text-lg font-semibold text-gray-900 mb-3">{t('exportHub.selectDestination')}</h3>
                 <div className="grid grid-cols-2 gap-3">
                   {cloudProviders.map(provider => (
                     <button
@@ -370,7 +393,7 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
               {/* Email input for email provider */}
               {selectedProvider === 'email' && (
                 <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
-                  <label className="block text-sm font-semibold text-gray-700 mb-2">Email Address</label>
+                  <label className="block text-sm font-semibold text-gray-700 mb-2">{t('exportHub.emailAddress')}</label>
                   <input
                     type="email"
                     value={emailAddress}
@@ -387,23 +410,23 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
                   <svg className="w-5 h-5 mr-2 text-indigo-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
                   </svg>
-                  Export Preview
+                  {t('exportHub.preview')}
                 </h3>
                 <div className="grid grid-cols-3 gap-4">
                   <div className="bg-white rounded-lg p-3 border border-gray-200">
-                    <div className="text-xs text-gray-600 mb-1">Template</div>
+                    <div className="text-xs text-gray-600 mb-1">{t('exportHub.template')}</div>
                     <div className="font-semibold text-gray-900">
-                      {exportTemplates.find(t => t.id === selectedTemplate)?.name || 'Select template'}
+                      {templateName(selectedTemplate) ?? t('exportHub.selectTemplate')}
                     </div>
                   </div>
                   <div className="bg-white rounded-lg p-3 border border-gray-200">
-                    <div className="text-xs text-gray-600 mb-1">Destination</div>
+                    <div className="text-xs text-gray-600 mb-1">{t('exportHub.destination')}</div>
                     <div className="font-semibold text-gray-900">
-                      {cloudProviders.find(p => p.id === selectedProvider)?.name || 'Select destination'}
+                      {providerName(selectedProvider) ?? t('exportHub.selectDestination')}
                     </div>
                   </div>
                   <div className="bg-white rounded-lg p-3 border border-gray-200">
-                    <div className="text-xs text-gray-600 mb-1">Records</div>
+                    <div className="text-xs text-gray-600 mb-1">{t('exportHub.recordsLabel')}</div>
                     <div className="font-semibold text-gray-900">{expenses.length}</div>
                   </div>
                 </div>
@@ -420,14 +443,14 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
                       <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                       <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
                     </svg>
-                    Processing Export...
+                    {t('exportHub.processing')}
                   </>
                 ) : (
                   <>
                     <svg className="w-6 h-6 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
                     </svg>
-                    Export to Cloud
+                    {t('exportHub.exportToCloud')}
                   </>
                 )}
               </button>
@@ -438,39 +461,39 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
           {activeTab === 'schedule' && (
             <div className="space-y-6">
               <div className="bg-gradient-to-r from-indigo-50 to-purple-50 rounded-xl p-6 border border-indigo-100">
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">Automated Backups</h3>
-                <p className="text-gray-700 mb-4">Set up recurring exports to never lose your data. We&apos;ll automatically send your expenses to your chosen destination.</p>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">{t('exportHub.automatedBackups')}</h3>
+                <p className="text-gray-700 mb-4">{t('exportHub.automatedBackupsDescription')}</p>
                 <button className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-medium">
-                  + Create New Schedule
+                  {t('exportHub.createSchedule')}
                 </button>
               </div>
 
               <div>
-                <h3 className="text-lg font-semibold text-gray-900 mb-4">Active Schedules</h3>
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">{t('exportHub.activeSchedules')}</h3>
                 <div className="space-y-3">
                   {scheduledExports.map(schedule => (
                     <div key={schedule.id} className="bg-white rounded-lg border border-gray-200 p-4 hover:shadow-md transition-shadow">
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
                           <div className="flex items-center mb-2">
-                            <h4 className="font-semibold text-gray-900">{schedule.template}</h4>
+                            <h4 className="font-semibold text-gray-900">{templateName(schedule.template)}</h4>
                             <span className={`ml-3 px-2 py-1 text-xs font-medium rounded-full ${
                               schedule.enabled ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-600'
                             }`}>
-                              {schedule.enabled ? 'Active' : 'Paused'}
+                              {schedule.enabled ? t('exportHub.active') : t('exportHub.paused')}
                             </span>
                           </div>
                           <div className="grid grid-cols-3 gap-4 text-sm">
                             <div>
-                              <span className="text-gray-600">Frequency:</span>
-                              <div className="font-medium text-gray-900">{schedule.frequency}</div>
+                              <span className="text-gray-600">{t('exportHub.frequency')}</span>
+                              <div className="font-medium text-gray-900">{t(schedule.frequency)}</div>
                             </div>
                             <div>
-                              <span className="text-gray-600">Destination:</span>
+                              <span className="text-gray-600">{t('exportHub.destinationLabel')}</span>
                               <div className="font-medium text-gray-900">{schedule.destination}</div>
                             </div>
                             <div>
-                              <span className="text-gray-600">Next Run:</span>
+                              <span className="text-gray-600">{t('exportHub.nextRun')}</span>
                               <div className="font-medium text-gray-900">{schedule.nextRun}</div>
                             </div>
                           </div>
@@ -506,9 +529,9 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
           {activeTab === 'history' && (
             <div className="space-y-4">
               <div className="flex items-center justify-between">
-                <h3 className="text-lg font-semibold text-gray-900">Export History</h3>
+                <h3 className="text-lg font-semibold text-gray-900">{t('exportHub.exportHistory')}</h3>
                 <button className="text-sm text-indigo-600 hover:text-indigo-700 font-medium">
-                  Clear History
+                  {t('exportHub.clearHistory')}
                 </button>
               </div>
 
@@ -518,15 +541,15 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
                     <div className="flex items-center justify-between">
                       <div className="flex-1">
                         <div className="flex items-center mb-2">
-                          <h4 className="font-semibold text-gray-900">{item.template}</h4>
+                          <h4 className="font-semibold text-gray-900">{templateName(item.template)}</h4>
                           <span className="mx-2 text-gray-300">•</span>
-                          <span className="text-sm text-gray-600">{item.provider}</span>
+                          <span className="text-sm text-gray-600">{providerName(item.provider)}</span>
                           <span className="ml-3">{getStatusBadge(item.status)}</span>
                         </div>
                         <div className="flex items-center text-sm text-gray-600 space-x-4">
                           <span>{formatTimeAgo(item.timestamp)}</span>
                           <span>•</span>
-                          <span>{item.recordCount} records</span>
+                          <span>{t('exportHub.records', { count: item.recordCount })}</span>
                         </div>
                       </div>
                       <div className="flex items-center space-x-2">
@@ -556,23 +579,23 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
                   <svg className="w-6 h-6 mr-2 text-pink-600" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8.684 13.342C8.886 12.938 9 12.482 9 12c0-.482-.114-.938-.316-1.342m0 2.684a3 3 0 110-2.684m0 2.684l6.632 3.316m-6.632-6l6.632-3.316m0 0a3 3 0 105.367-2.684 3 3 0 00-5.367 2.684zm0 9.316a3 3 0 105.368 2.684 3 3 0 00-5.368-2.684z" />
                   </svg>
-                  Share Your Expenses
+                  {t('exportHub.shareTitle')}
                 </h3>
-                <p className="text-gray-700 mb-4">Generate a secure, shareable link or QR code for your expense data. Perfect for accountants, financial advisors, or team members.</p>
+                <p className="text-gray-700 mb-4">{t('exportHub.shareDescription')}</p>
                 <button
                   onClick={generateShareLink}
                   className="px-6 py-3 bg-gradient-to-r from-pink-600 to-purple-600 text-white rounded-lg hover:from-pink-700 hover:to-purple-700 transition-colors font-semibold shadow-md"
                 >
-                  Generate Share Link
+                  {t('exportHub.generateLink')}
                 </button>
               </div>
 
               {shareLink && (
                 <div className="bg-white rounded-xl border-2 border-indigo-200 p-6 space-y-4">
                   <div className="flex items-center justify-between">
-                    <h4 className="font-semibold text-gray-900">Shareable Link Generated</h4>
+                    <h4 className="font-semibold text-gray-900">{t('exportHub.linkGenerated')}</h4>
                     <span className="px-3 py-1 bg-green-100 text-green-700 rounded-full text-xs font-semibold">
-                      Active for 7 days
+                      {t('exportHub.activeFor', { count: 7 })}
                     </span>
                   </div>
 
@@ -583,7 +606,7 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
                         onClick={() => navigator.clipboard.writeText(shareLink)}
                         className="ml-4 px-3 py-1 bg-indigo-600 text-white rounded text-sm hover:bg-indigo-700 transition-colors"
                       >
-                        Copy
+                        {t('exportHub.copy')}
                       </button>
                     </div>
                   </div>
@@ -593,28 +616,28 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
                       <div className="bg-white p-4 rounded-lg border-2 border-gray-200 mb-3">
                         <QRCodeSVG value={shareLink} size={200} />
                       </div>
-                      <p className="text-sm text-gray-600">Scan this QR code to access the shared data</p>
+                      <p className="text-sm text-gray-600">{t('exportHub.scanQr')}</p>
                     </div>
                   )}
 
                   <div className="grid grid-cols-2 gap-3">
                     <button className="px-4 py-2 bg-blue-50 text-blue-700 rounded-lg hover:bg-blue-100 transition-colors font-medium text-sm">
-                      Set Password Protection
+                      {t('exportHub.passwordProtection')}
                     </button>
                     <button className="px-4 py-2 bg-gray-50 text-gray-700 rounded-lg hover:bg-gray-100 transition-colors font-medium text-sm">
-                      Configure Permissions
+                      {t('exportHub.configurePermissions')}
                     </button>
                   </div>
                 </div>
               )}
 
               <div className="bg-white rounded-lg border border-gray-200 p-6">
-                <h4 className="font-semibold text-gray-900 mb-4">Collaboration Features</h4>
+                <h4 className="font-semibold text-gray-900 mb-4">{t('exportHub.collaboration')}</h4>
                 <div className="space-y-3">
                   <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                     <div>
-                      <div className="font-medium text-gray-900">Allow Comments</div>
-                      <div className="text-sm text-gray-600">Let viewers add notes to expenses</div>
+                      <div className="font-medium text-gray-900">{t('exportHub.allowComments')}</div>
+                      <div className="text-sm text-gray-600">{t('exportHub.allowCommentsDescription')}</div>
                     </div>
                     <div className="relative inline-flex h-6 w-11 items-center rounded-full bg-gray-200">
                       <span className="inline-block h-4 w-4 transform rounded-full bg-white transition-transform translate-x-1" />
@@ -622,8 +645,8 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
                   </div>
                   <div className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
                     <div>
-                      <div className="font-medium text-gray-900">Download Access</div>
-                      <div className="text-sm text-gray-600">Allow viewers to export data</div>
+                      <div className="font-medium text-gray-900">{t('exportHub.downloadAccess')}</div>
+                      <div className="text-sm text-gray-600">{t('exportHub.downloadAccessDescription')}</div>
                     </div>
                     <div className="relative inline-flex h-6 w-11 items-center rounded-full bg-indigo-600">
                       <span className="inline-block h-4 w-4 transform rounded-full bg-white transition-transform translate-x-6" />
@@ -638,8 +661,8 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
           {activeTab === 'integrations' && (
             <div className="space-y-6">
               <div className="bg-gradient-to-r from-blue-50 to-indigo-50 rounded-xl p-6 border border-blue-100">
-                <h3 className="text-lg font-semibold text-gray-900 mb-2">Cloud Integrations</h3>
-                <p className="text-gray-700">Connect your favorite apps and services to automate your expense workflow.</p>
+                <h3 className="text-lg font-semibold text-gray-900 mb-2">{t('exportHub.integrationsTitle')}</h3>
+                <p className="text-gray-700">{t('exportHub.integrationsDescription')}</p>
               </div>
 
               <div className="grid grid-cols-2 gap-4">
@@ -654,15 +677,15 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
                     {provider.status === 'connected' ? (
                       <div className="space-y-2">
                         <button className="w-full px-4 py-2 bg-white border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors font-medium text-sm">
-                          Configure Settings
+                          {t('exportHub.configureSettings')}
                         </button>
                         <button className="w-full px-4 py-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors font-medium text-sm">
-                          Disconnect
+                          {t('exportHub.disconnect')}
                         </button>
                       </div>
                     ) : (
                       <button className="w-full px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors font-medium">
-                        Connect Now
+                        {t('exportHub.connectNow')}
                       </button>
                     )}
                   </div>
@@ -670,7 +693,7 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
               </div>
 
               <div className="bg-white rounded-lg border border-gray-200 p-6">
-                <h4 className="font-semibold text-gray-900 mb-4">Coming Soon</h4>
+                <h4 className="font-semibold text-gray-900 mb-4">{t('exportHub.comingSoon')}</h4>
                 <div className="grid grid-cols-4 gap-4">
                   {['Slack', 'QuickBooks', 'Xero', 'Zapier'].map(service => (
                     <div key={service} className="text-center p-4 bg-gray-50 rounded-lg border border-gray-200 opacity-60">
@@ -694,8 +717,10 @@ export const ExportHub: React.FC<ExportHubProps> = ({ expenses, isOpen, onClose
             </svg>
           </div>
           <div>
-            <div className="font-semibold text-gray-900">Export Successful!</div>
-            <div className="text-sm text-gray-600">Your data has been sent to {cloudProviders.find(p => p.id === selectedProvider)?.name}</div>
+            <div className="font-semibold text-gray-900">{t('exportHub.successTitle')}</div>
+            <div className="text-sm text-gray-600">
+              {t('exportHub.successMessage', { provider: providerName(selectedProvider) ?? '' })}
+            </div>
           </div>
         </div>
       )}
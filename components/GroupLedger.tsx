@@ -0,0 +1,377 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Expense, Group, Settlement } from '@/types/expense';
+import { CurrencyConversion } from '@/lib/exchangeRates';
+import { Translator } from '@/lib/i18n';
+import {
+  SettlementInput,
+  addMembers,
+  calculateGroupBalances,
+  createGroup,
+  createSettlement,
+  planSettlement,
+  removeGroup,
+  removeSettlement,
+} from '@/lib/groups';
+import { formatAmountInput, formatMoney, normaliseAmount, parseMoney } from '@/utils/currency';
+import { formatDate } from '@/utils/locale';
+import { format } from 'date-fns';
+import { Button } from './ui/Button';
+import { Card } from './ui/Card';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+
+interface GroupLedgerProps {
+  groups: Group[];
+  settlements: Settlement[];
+  expenses: Expense[];
+  // Balances are worked out in the base currency, where payments are recorded too
+  conversion: CurrencyConversion;
+  locale: string;
+  t: Translator;
+  onGroupsChange: (groups: Group[]) => void;
+  onSettlementsChange: (settlements: Settlement[]) => void;
+}
+
+interface GroupCardProps extends Omit<GroupLedgerProps, 'groups' | 'onGroupsChange'> {
+  group: Group;
+  onRecord: (input: SettlementInput) => void;
+  onAddMembers: (names: string[]) => void;
+  onDelete: () => void;
+}
+
+const splitNames = (value: string): string[] => value.split(',');
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+// A payment that does not follow the plan, e.g. part of what is owed
+const PaymentForm: React.FC<{
+  group: Group;
+  currency: string;
+  locale: string;
+  t: Translator;
+  onRecord: (input: SettlementInput) => void;
+}> = ({ group, currency, locale, t, onRecord }) => {
+  const memberOptions = group.members.map(member => ({ value: member.id, label: member.name }));
+  const [fromMemberId, setFromMemberId] = useState(group.members[0]?.id ?? '');
+  const [toMemberId, setToMemberId] = useState(group.members[1]?.id ?? '');
+  const [amount, setAmount] = useState('');
+  const [error, setError] = useState<string>();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const money = parseMoney(normaliseAmount(amount, locale) ?? amount, currency);
+    if (!money || money.minor <= 0 || !fromMemberId || fromMemberId === toMemberId) {
+      setError(t('groups.paymentInvalid'));
+      return;
+    }
+
+    onRecord({ groupId: group.id, fromMemberId, toMemberId, amount: money, date: today() });
+    setAmount('');
+    setError(undefined);
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3 items-end">
+        <Select
+          id={`group-${group.id}-from`}
+          label={t('groups.from')}
+          value={fromMemberId}
+          onChange={e => setFromMemberId(e.target.value)}
+          options={memberOptions}
+        />
+        <Select
+          id={`group-${group.id}-to`}
+          label={t('groups.to')}
+          value={toMemberId}
+          onChange={e => setToMemberId(e.target.value)}
+          options={memberOptions}
+        />
+        <Input
+          id={`group-${group.id}-amount`}
+          label={t('groups.amount', { currency })}
+          type="text"
+          inputMode="decimal"
+          placeholder={formatAmountInput({ minor: 0, currency }, locale)}
+          value={amount}
+          onChange={e => {
+            setAmount(e.target.value);
+            setError(undefined);
+          }}
+        />
+        <Button type="submit" variant="secondary">
+          {t('groups.recordPayment')}
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </form>
+  );
+};
+
+const GroupCard: React.FC<GroupCardProps> = ({
+  group,
+  settlements,
+  expenses,
+  conversion,
+  locale,
+  t,
+  onRecord,
+  onAddMembers,
+  onDelete,
+  onSettlementsChange,
+}) => {
+  const [newMembers, setNewMembers] = useState('');
+  const currency = conversion.baseCurrency;
+  const money = (minor: number) => formatMoney({ minor, currency }, locale);
+  const nameOf = (memberId: string) =>
+    group.members.find(member => member.id === memberId)?.name ?? '?';
+
+  const expenseCount = expenses.filter(expense => expense.groupId === group.id).length;
+  const payments = settlements
+    .filter(settlement => settlement.groupId === group.id)
+    .sort((a, b) => b.date.localeCompare(a.date) || b.createdAt.localeCompare(a.createdAt));
+  const { balances, unconvertedCount } = calculateGroupBalances(
+    group,
+    expenses,
+    payments,
+    conversion
+  );
+  const plan = planSettlement(balances);
+
+  return (
+    <Card title={group.name}>
+      <div className="space-y-6">
+        <p className="text-sm text-gray-500">{t('groups.expenseCount', { count: expenseCount })}</p>
+
+        <section>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">{t('groups.balances')}</h4>
+          <div className="divide-y divide-gray-100">
+            {balances.map(({ member, paid, owed, balance }) => (
+              <div key={member.id} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <p className="font-medium text-gray-900">{member.name}</p>
+                  <p className="text-gray-500">
+                    {t('groups.paidAndShare', { paid: money(paid), owed: money(owed) })}
+                  </p>
+                </div>
+                <span
+                  className={`font-semibold ${
+                    balance > 0 ? 'text-green-700' : balance < 0 ? 'text-red-600' : 'text-gray-500'
+                  }`}
+                >
+                  {balance > 0
+                    ? t('groups.isOwed', { amount: money(balance) })
+                    : balance < 0
+                      ? t('groups.owes', { amount: money(-balance) })
+                      : t('groups.settled')}
+                </span>
+              </div>
+            ))}
+          </div>
+          {unconvertedCount > 0 && (
+            <p className="mt-2 text-xs text-yellow-700">
+              {t('groups.unconverted', { count: unconvertedCount })}
+            </p>
+          )}
+        </section>
+
+        <section>
+          <h4 className="text-sm font-semibold text-gray-700 mb-2">{t('groups.plan')}</h4>
+          {plan.length === 0 ? (
+            <p className="text-sm text-gray-500">{t('groups.allSettled')}</p>
+          ) : (
+            <ul className="space-y-2">
+              {plan.map(transfer => (
+                <li
+                  key={`${transfer.fromMemberId}-${transfer.toMemberId}`}
+                  className="flex items-center justify-between gap-3 text-sm"
+                >
+                  <span className="text-gray-900">
+                    {t('groups.transfer', {
+                      from: nameOf(transfer.fromMemberId),
+                      to: nameOf(transfer.toMemberId),
+                      amount: money(transfer.amount),
+                    })}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      onRecord({
+                        groupId: group.id,
+                        fromMemberId: transfer.fromMemberId,
+                        toMemberId: transfer.toMemberId,
+                        amount: { minor: transfer.amount, currency },
+                        date: today(),
+                      })
+                    }
+                  >
+                    {t('groups.recordPayment')}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </section>
+
+        {group.members.length > 1 && (
+          <section>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">{t('groups.otherPayment')}</h4>
+            <PaymentForm
+              group={group}
+              currency={currency}
+              locale={locale}
+              t={t}
+              onRecord={onRecord}
+            />
+          </section>
+        )}
+
+        {payments.length > 0 && (
+          <section>
+            <h4 className="text-sm font-semibold text-gray-700 mb-2">{t('groups.payments')}</h4>
+            <ul className="divide-y divide-gray-100">
+              {payments.map(payment => (
+                <li key={payment.id} className="flex items-center justify-between py-2 text-sm">
+                  <span className="text-gray-700">
+                    {formatDate(payment.date, locale)} ·{' '}
+                    {t('groups.payment', {
+                      from: nameOf(payment.fromMemberId),
+                      to: nameOf(payment.toMemberId),
+                      amount: formatMoney(payment.amount, locale),
+                    })}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onSettlementsChange(removeSettlement(settlements, payment.id))}
+                  >
+                    {t('groups.deletePayment')}
+                  </Button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <form
+          onSubmit={e => {
+            e.preventDefault();
+            onAddMembers(splitNames(newMembers));
+            setNewMembers('');
+          }}
+          className="flex items-end gap-3"
+        >
+          <div className="flex-1">
+            <Input
+              id={`group-${group.id}-members`}
+              label={t('groups.addMembers')}
+              placeholder={t('groups.membersPlaceholder')}
+              value={newMembers}
+              onChange={e => setNewMembers(e.target.value)}
+            />
+          </div>
+          <Button type="submit" variant="secondary">
+            {t('groups.add')}
+          </Button>
+        </form>
+
+        <div className="flex items-center justify-between gap-3 border-t border-gray-100 pt-4">
+          <p className="text-xs text-gray-400">
+            {expenseCount > 0 ? t('groups.deleteBlocked') : ''}
+          </p>
+          <Button variant="danger" size="sm" disabled={expenseCount > 0} onClick={onDelete}>
+            {t('groups.delete')}
+          </Button>
+        </div>
+      </div>
+    </Card>
+  );
+};
+
+export const GroupLedger: React.FC<GroupLedgerProps> = ({
+  groups,
+  settlements,
+  onGroupsChange,
+  onSettlementsChange,
+  ...rest
+}) => {
+  const [name, setName] = useState('');
+  const [members, setMembers] = useState('');
+  const [errors, setErrors] = useState<{ name?: string; members?: string }>({});
+  const { t } = rest;
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const group = createGroup(name, splitNames(members));
+    const nextErrors = {
+      ...(!group.name ? { name: t('groups.nameRequired') } : {}),
+      ...(group.members.length < 2 ? { members: t('groups.membersRequired') } : {}),
+    };
+
+    if (Object.keys(nextErrors).length > 0) {
+      setErrors(nextErrors);
+      return;
+    }
+
+    onGroupsChange([...groups, group]);
+    setName('');
+    setMembers('');
+    setErrors({});
+  };
+
+  const replaceGroup = (updated: Group) =>
+    onGroupsChange(groups.map(group => (group.id === updated.id ? updated : group)));
+
+  return (
+    <div className="space-y-6">
+      <Card title={t('groups.newTitle')}>
+        <form onSubmit={handleCreate} className="grid grid-cols-1 md:grid-cols-3 gap-4 items-start">
+          <Input
+            id="group-name"
+            label={t('groups.name')}
+            placeholder={t('groups.namePlaceholder')}
+            value={name}
+            onChange={e => setName(e.target.value)}
+            error={errors.name}
+          />
+          <Input
+            id="group-members"
+            label={t('groups.members')}
+            placeholder={t('groups.membersPlaceholder')}
+            value={members}
+            onChange={e => setMembers(e.target.value)}
+            error={errors.members}
+          />
+          <Button type="submit" variant="primary" className="md:mt-6">
+            {t('groups.create')}
+          </Button>
+        </form>
+      </Card>
+
+      {groups.length === 0 ? (
+        <p className="text-center text-gray-500 py-6 bg-gray-50 rounded-lg">{t('groups.empty')}</p>
+      ) : (
+        groups.map(group => (
+          <GroupCard
+            key={group.id}
+            group={group}
+            settlements={settlements}
+            onSettlementsChange={onSettlementsChange}
+            onRecord={input => onSettlementsChange([...settlements, createSettlement(input)])}
+            onAddMembers={names => replaceGroup(addMembers(group, names))}
+            onDelete={() => {
+              onGroupsChange(removeGroup(groups, group.id));
+              onSettlementsChange(
+                settlements.filter(settlement => settlement.groupId !== group.id)
+              );
+            }}
+            {...rest}
+          />
+        ))
+      )}
+    </div>
+  );
+};
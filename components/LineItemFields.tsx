@@ -0,0 +1,109 @@
+'use client';
+
+import React from 'react';
+import { LineItemFormData } from '@/types/expense';
+import { Translator } from '@/lib/i18n';
+import { formatMoney, normaliseAmount } from '@/utils/currency';
+import { sumTypedAmounts } from '@/utils/splits';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { PartsCheck } from './PartsCheck';
+
+interface LineItemFieldsProps {
+  items: LineItemFormData[];
+  onChange: (items: LineItemFormData[]) => void;
+  currency: string;
+  // The expense's amount in minor units, or null while it is not a valid amount
+  total: number | null;
+  categoryOptions: { value: string; label: string }[];
+  locale: string;
+  t: Translator;
+  error?: string;
+}
+
+export const newLineItem = (categoryId: string, amount = ''): LineItemFormData => ({
+  id: crypto.randomUUID(),
+  description: '',
+  amount,
+  categoryId,
+});
+
+export const LineItemFields: React.FC<LineItemFieldsProps> = ({
+  items,
+  onChange,
+  currency,
+  total,
+  categoryOptions,
+  locale,
+  t,
+  error,
+}) => {
+  const update = (id: string, changes: Partial<LineItemFormData>) =>
+    onChange(items.map(item => (item.id === id ? { ...item, ...changes } : item)));
+
+  const assigned = sumTypedAmounts(
+    items.map(item => normaliseAmount(item.amount, locale) ?? ''),
+    currency
+  );
+
+  return (
+    <div className="space-y-2">
+      {items.map((item, index) => (
+        <div key={item.id} className="flex items-start gap-2">
+          <div className="flex-1">
+            <Input
+              aria-label={`${t('form.itemDescription')} ${index + 1}`}
+              placeholder={t('form.itemDescription')}
+              value={item.description}
+              onChange={e => update(item.id, { description: e.target.value })}
+            />
+          </div>
+          <div className="w-28">
+            <Input
+              aria-label={`${t('form.itemAmount')} ${index + 1}`}
+              placeholder={t('form.itemAmount')}
+              type="text"
+              inputMode="decimal"
+              value={item.amount}
+              onChange={e => update(item.id, { amount: e.target.value })}
+            />
+          </div>
+          <div className="w-40">
+            <Select
+              aria-label={`${t('form.category')} ${index + 1}`}
+              value={item.categoryId}
+              onChange={e => update(item.id, { categoryId: e.target.value })}
+              options={categoryOptions}
+            />
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange(items.filter(other => other.id !== item.id))}
+            className="mt-2 text-gray-400 hover:text-red-600"
+            aria-label={t('form.removeItem')}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange([...items, newLineItem(categoryOptions[0]?.value ?? '')])}
+        >
+          {t('form.addItem')}
+        </Button>
+        <PartsCheck
+          assigned={assigned}
+          total={total}
+          format={minor => formatMoney({ minor, currency }, locale)}
+          t={t}
+        />
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
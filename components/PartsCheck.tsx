@@ -0,0 +1,35 @@
+'use client';
+
+import React from 'react';
+import { Translator } from '@/lib/i18n';
+
+interface PartsCheckProps {
+  // What the parts add up to so far, and what they should add up to; null while the total is
+  // not a valid amount yet
+  assigned: number;
+  total: number | null;
+  // Shows an amount in the same units, e.g. as money or as a percentage
+  format: (value: number) => string;
+  t: Translator;
+}
+
+// A live line under line items or split shares saying whether they add up yet
+export const PartsCheck: React.FC<PartsCheckProps> = ({ assigned, total, format, t }) => {
+  if (total === null) return null;
+
+  const remaining = total - assigned;
+  return (
+    <p
+      className={`text-xs ${
+        remaining === 0 ? 'text-green-700' : remaining < 0 ? 'text-red-600' : 'text-gray-500'
+      }`}
+      aria-live="polite"
+    >
+      {remaining === 0
+        ? t('form.partsMatch', { amount: format(total) })
+        : remaining > 0
+          ? t('form.partsRemaining', { amount: format(remaining) })
+          : t('form.partsOver', { amount: format(-remaining) })}
+    </p>
+  );
+};
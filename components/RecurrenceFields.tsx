@@ -0,0 +1,90 @@
+'use client';
+
+import React from 'react';
+import { RecurrenceFormData } from '@/types/expense';
+import { Translator } from '@/lib/i18n';
+import { RecurrenceErrors } from '@/utils/validation';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+
+interface RecurrenceFieldsProps {
+  // Prefix for field ids, so the fields can appear in more than one form
+  id: string;
+  value: RecurrenceFormData;
+  onChange: (value: RecurrenceFormData) => void;
+  errors: RecurrenceErrors;
+  t: Translator;
+}
+
+export const RecurrenceFields: React.FC<RecurrenceFieldsProps> = ({
+  id,
+  value,
+  onChange,
+  errors,
+  t,
+}) => {
+  const update = (changes: Partial<RecurrenceFormData>) => onChange({ ...value, ...changes });
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+      <Select
+        id={`${id}-frequency`}
+        label={t('form.frequency')}
+        value={value.frequency}
+        onChange={e =>
+          update({ frequency: e.target.value as RecurrenceFormData['frequency'] })
+        }
+        options={[
+          { value: 'daily', label: t('form.frequency.daily') },
+          { value: 'weekly', label: t('form.frequency.weekly') },
+          { value: 'monthly', label: t('form.frequency.monthly') },
+          { value: 'yearly', label: t('form.frequency.yearly') },
+        ]}
+      />
+      {(value.frequency === 'monthly' || value.frequency === 'yearly') && (
+        <Input
+          id={`${id}-day`}
+          label={t('form.dayOfMonth')}
+          type="number"
+          min={1}
+          max={31}
+          value={value.dayOfMonth}
+          onChange={e => update({ dayOfMonth: e.target.value })}
+          error={errors.dayOfMonth}
+        />
+      )}
+      <Select
+        id={`${id}-ends`}
+        label={t('form.ends')}
+        value={value.ends}
+        onChange={e => update({ ends: e.target.value as RecurrenceFormData['ends'] })}
+        options={[
+          { value: 'never', label: t('form.ends.never') },
+          { value: 'onDate', label: t('form.ends.onDate') },
+          { value: 'afterCount', label: t('form.ends.afterCount') },
+        ]}
+      />
+      {value.ends === 'onDate' && (
+        <Input
+          id={`${id}-end-date`}
+          label={t('form.endDate')}
+          type="date"
+          value={value.endDate}
+          onChange={e => update({ endDate: e.target.value })}
+          error={errors.endDate}
+        />
+      )}
+      {value.ends === 'afterCount' && (
+        <Input
+          id={`${id}-limit`}
+          label={t('form.occurrenceLimit')}
+          type="number"
+          min={1}
+          value={value.occurrenceLimit}
+          onChange={e => update({ occurrenceLimit: e.target.value })}
+          error={errors.occurrenceLimit}
+        />
+      )}
+    </div>
+  );
+};
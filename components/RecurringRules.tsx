@@ -0,0 +1,279 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Category, RecurrenceFormData, RecurringRule } from '@/types/expense';
+import { categoriesOfKind, categoryOptions } from '@/lib/categories';
+import { Translator } from '@/lib/i18n';
+import {
+  nextOccurrence,
+  removeRecurringRule,
+  setRulePaused,
+  toRecurrenceFormData,
+  toRecurrenceSchedule,
+  updateRecurringRule,
+} from '@/lib/recurring';
+import { formatAmountInput, formatMoney, normaliseAmount, parseMoney } from '@/utils/currency';
+import { formatDate } from '@/utils/locale';
+import { amountSign, categoryKindFor, transactionType } from '@/utils/transactions';
+import {
+  RecurrenceErrors,
+  ValidationErrors,
+  hasErrors,
+  validateExpenseForm,
+  validateRecurrenceForm,
+} from '@/utils/validation';
+import { parseISO } from 'date-fns';
+import { Button } from './ui/Button';
+import { Card } from './ui/Card';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { CategoryBadge } from './CategoryBadge';
+import { RecurrenceFields } from './RecurrenceFields';
+
+interface RecurringRulesProps {
+  rules: RecurringRule[];
+  categories: Category[];
+  // Amounts and dates are typed and shown in this locale's format
+  locale: string;
+  // Labels are shown in the interface language
+  t: Translator;
+  onChange: (rules: RecurringRule[]) => void;
+}
+
+interface RuleEditorProps {
+  rule: RecurringRule;
+  rules: RecurringRule[];
+  categories: Category[];
+  locale: string;
+  t: Translator;
+  onSave: (rules: RecurringRule[]) => void;
+  onCancel: () => void;
+}
+
+const RuleEditor: React.FC<RuleEditorProps> = ({
+  rule,
+  rules,
+  categories,
+  locale,
+  t,
+  onSave,
+  onCancel,
+}) => {
+  const [description, setDescription] = useState(rule.description);
+  const [amount, setAmount] = useState(formatAmountInput(rule.amount, locale));
+  const [categoryId, setCategoryId] = useState(rule.categoryId);
+  const [recurrence, setRecurrence] = useState<RecurrenceFormData>(() =>
+    toRecurrenceFormData(rule.startDate, rule)
+  );
+  const [errors, setErrors] = useState<ValidationErrors>({});
+  const [recurrenceErrors, setRecurrenceErrors] = useState<RecurrenceErrors>({});
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    // The rule's fields are checked the same way as the expenses it adds
+    const data = {
+      date: rule.startDate,
+      amount: normaliseAmount(amount, locale) ?? amount,
+      currency: rule.amount.currency,
+      categoryId,
+      description,
+      tags: rule.tags ?? [],
+    };
+    const validationErrors = validateExpenseForm(data, t);
+    const scheduleErrors = validateRecurrenceForm(recurrence, rule.startDate, t);
+
+    if (hasErrors(validationErrors) || hasErrors(scheduleErrors)) {
+      setErrors(validationErrors);
+      setRecurrenceErrors(scheduleErrors);
+      return;
+    }
+
+    onSave(
+      updateRecurringRule(rules, rule.id, {
+        amount: parseMoney(data.amount, data.currency) ?? rule.amount,
+        ...(rule.type ? { type: rule.type } : {}),
+        categoryId,
+        description: description.trim(),
+        ...(rule.tags ? { tags: rule.tags } : {}),
+        ...toRecurrenceSchedule(recurrence),
+      })
+    );
+  };
+
+  return (
+    <form onSubmit={handleSave} className="space-y-3 py-3">
+      <Input
+        id={`rule-${rule.id}-description`}
+        label={t('form.description')}
+        value={description}
+        onChange={e => setDescription(e.target.value)}
+        error={errors.description}
+      />
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        <Input
+          id={`rule-${rule.id}-amount`}
+          label={`${t('form.amount')} (${rule.amount.currency})`}
+          type="text"
+          inputMode="decimal"
+          value={amount}
+          onChange={e => setAmount(e.target.value)}
+          error={errors.amount}
+        />
+        <Select
+          id={`rule-${rule.id}-category`}
+          label={t('form.category')}
+          value={categoryId}
+          onChange={e => setCategoryId(e.target.value)}
+          options={categoryOptions(
+            categoriesOfKind(categories, categoryKindFor(transactionType(rule))),
+            rule.categoryId
+          )}
+          error={errors.categoryId}
+        />
+      </div>
+      <RecurrenceFields
+        id={`rule-${rule.id}`}
+        value={recurrence}
+        onChange={value => {
+          setRecurrence(value);
+          setRecurrenceErrors({});
+        }}
+        errors={recurrenceErrors}
+        t={t}
+      />
+      <div className="flex gap-2">
+        <Button type="submit" variant="primary" size="sm">
+          {t('recurring.save')}
+        </Button>
+        <Button type="button" variant="secondary" size="sm" onClick={onCancel}>
+          {t('recurring.cancel')}
+        </Button>
+      </div>
+    </form>
+  );
+};
+
+export const RecurringRules: React.FC<RecurringRulesProps> = ({
+  rules,
+  categories,
+  locale,
+  t,
+  onChange,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+
+  const describeSchedule = (rule: RecurringRule): string => {
+    const start = parseISO(rule.startDate);
+    const day = rule.dayOfMonth ?? start.getDate();
+    const parts = [
+      rule.frequency === 'daily'
+        ? t('recurring.schedule.daily')
+        : rule.frequency === 'weekly'
+          ? t('recurring.schedule.weekly', {
+              weekday: new Intl.DateTimeFormat(locale, { weekday: 'long' }).format(start),
+            })
+          : rule.frequency === 'monthly'
+            ? t('recurring.schedule.monthly', { day })
+            : t('recurring.schedule.yearly', {
+                month: new Intl.DateTimeFormat(locale, { month: 'long' }).format(start),
+                day,
+              }),
+    ];
+
+    if (rule.endDate) {
+      parts.push(t('recurring.endsOn', { date: formatDate(rule.endDate, locale) }));
+    }
+    if (rule.occurrenceLimit !== undefined) {
+      parts.push(
+        t('recurring.remaining', {
+          count: Math.max(0, rule.occurrenceLimit - rule.generatedCount),
+        })
+      );
+    }
+    return parts.join(', ');
+  };
+
+  // Active rules by their next date, then paused ones, then those that have ended
+  const rows = rules
+    .map(rule => ({ rule, next: nextOccurrence(rule) }))
+    .sort(
+      (a, b) =>
+        Number(!a.next) - Number(!b.next) ||
+        Number(a.rule.paused) - Number(b.rule.paused) ||
+        (a.next ?? '').localeCompare(b.next ?? '')
+    );
+
+  return (
+    <Card title={t('recurring.title')}>
+      {rows.length === 0 ? (
+        <p className="text-center text-gray-500 py-6 bg-gray-50 rounded-lg">
+          {t('recurring.empty')}
+        </p>
+      ) : (
+        <div className="divide-y divide-gray-100">
+          {rows.map(({ rule, next }) =>
+            editingId === rule.id ? (
+              <RuleEditor
+                key={rule.id}
+                rule={rule}
+                rules={rules}
+                categories={categories}
+                locale={locale}
+                t={t}
+                onSave={updated => {
+                  onChange(updated);
+                  setEditingId(null);
+                }}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div key={rule.id} className="flex items-start justify-between gap-4 py-3">
+                <div className={`space-y-1 ${rule.paused || !next ? 'opacity-60' : ''}`}>
+                  <div className="flex items-center gap-2">
+                    <CategoryBadge categories={categories} categoryId={rule.categoryId} />
+                    <span className="font-medium text-gray-900">{rule.description}</span>
+                  </div>
+                  <p className="text-sm text-gray-500">{describeSchedule(rule)}</p>
+                  <p className="text-sm text-gray-500">
+                    {rule.paused
+                      ? t('recurring.paused')
+                      : next
+                        ? t('recurring.next', { date: formatDate(next, locale) })
+                        : t('recurring.ended')}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold text-gray-900">
+                    {amountSign(rule)}
+                    {formatMoney(rule.amount, locale)}
+                  </span>
+                  {next && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => onChange(setRulePaused(rules, rule.id, !rule.paused))}
+                    >
+                      {rule.paused ? t('recurring.resume') : t('recurring.pause')}
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="sm" onClick={() => setEditingId(rule.id)}>
+                    {t('recurring.edit')}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onChange(removeRecurringRule(rules, rule.id))}
+                  >
+                    {t('recurring.delete')}
+                  </Button>
+                </div>
+              </div>
+            )
+          )}
+        </div>
+      )}
+      <p className="text-xs text-gray-400 mt-4">{t('recurring.note')}</p>
+    </Card>
+  );
+};
@@ -0,0 +1,170 @@
+'use client';
+
+import React from 'react';
+import { GroupMember, SplitFormData, SplitMethod } from '@/types/expense';
+import { Translator } from '@/lib/i18n';
+import { formatMoney, normaliseAmount } from '@/utils/currency';
+import { splitAmounts, sumTypedAmounts, sumTypedPercentages } from '@/utils/splits';
+import { Button } from './ui/Button';
+import { Input } from './ui/Input';
+import { Select } from './ui/Select';
+import { PartsCheck } from './PartsCheck';
+
+interface SplitFieldsProps {
+  value: SplitFormData;
+  onChange: (value: SplitFormData) => void;
+  currency: string;
+  // The expense's amount in minor units, or null while it is not a valid amount
+  total: number | null;
+  // For group expenses, shares are picked from the members instead of typed as names
+  members?: GroupMember[];
+  locale: string;
+  t: Translator;
+  error?: string;
+}
+
+// Percentages are checked in hundredths so that rounding never hides a gap
+const PERCENT_SCALE = 100;
+
+export const SplitFields: React.FC<SplitFieldsProps> = ({
+  value,
+  onChange,
+  currency,
+  total,
+  members,
+  locale,
+  t,
+  error,
+}) => {
+  const { method, shares } = value;
+  const unusedMembers = (members ?? []).filter(
+    member => !shares.some(share => share.memberId === member.id)
+  );
+  const updateShare = (index: number, changes: Partial<SplitFormData['shares'][number]>) =>
+    onChange({
+      ...value,
+      shares: shares.map((share, i) => (i === index ? { ...share, ...changes } : share)),
+    });
+
+  const typed = shares.map(share => normaliseAmount(share.value, locale) ?? '');
+  // What an equal split comes to for each person
+  const equalAmounts =
+    method === 'equal' && total !== null
+      ? splitAmounts({ method, shares: shares.map(share => ({ ...share, value: 1 })) }, total)
+      : [];
+  const formatPercent = (hundredths: number) =>
+    `${new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(
+      hundredths / PERCENT_SCALE
+    )}%`;
+
+  return (
+    <div className="space-y-2">
+      <Select
+        id="split-method"
+        label={t('form.splitMethod')}
+        value={method}
+        onChange={e => onChange({ ...value, method: e.target.value as SplitMethod })}
+        options={[
+          { value: 'equal', label: t('form.splitMethod.equal') },
+          { value: 'percentage', label: t('form.splitMethod.percentage') },
+          { value: 'exact', label: t('form.splitMethod.exact') },
+        ]}
+      />
+      {shares.map((share, index) => (
+        <div key={index} className="flex items-start gap-2">
+          <div className="flex-1">
+            {members ? (
+              <Select
+                aria-label={`${t('form.person')} ${index + 1}`}
+                value={share.memberId ?? ''}
+                onChange={e =>
+                  updateShare(index, {
+                    memberId: e.target.value,
+                    person: members.find(member => member.id === e.target.value)?.name ?? '',
+                  })
+                }
+                options={members
+                  .filter(
+                    member =>
+                      member.id === share.memberId ||
+                      !shares.some(other => other.memberId === member.id)
+                  )
+                  .map(member => ({ value: member.id, label: member.name }))}
+              />
+            ) : (
+              <Input
+                aria-label={`${t('form.person')} ${index + 1}`}
+                placeholder={t('form.person')}
+                value={share.person}
+                onChange={e => updateShare(index, { person: e.target.value })}
+              />
+            )}
+          </div>
+          <div className="w-28">
+            {method === 'equal' ? (
+              <p className="py-2 text-sm text-gray-500 text-right">
+                {equalAmounts[index] &&
+                  formatMoney({ minor: equalAmounts[index].amount, currency }, locale)}
+              </p>
+            ) : (
+              <Input
+                aria-label={t('form.personShare', { person: share.person || index + 1 })}
+                placeholder={method === 'percentage' ? '%' : currency}
+                type="text"
+                inputMode="decimal"
+                value={share.value}
+                onChange={e => updateShare(index, { value: e.target.value })}
+              />
+            )}
+          </div>
+          <button
+            type="button"
+            onClick={() => onChange({ ...value, shares: shares.filter((_, i) => i !== index) })}
+            className="mt-2 text-gray-400 hover:text-red-600"
+            aria-label={t('form.removePerson')}
+          >
+            ×
+          </button>
+        </div>
+      ))}
+      <div className="flex items-center justify-between gap-2">
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          disabled={!!members && unusedMembers.length === 0}
+          onClick={() =>
+            onChange({
+              ...value,
+              shares: [
+                ...shares,
+                members
+                  ? { person: unusedMembers[0].name, memberId: unusedMembers[0].id, value: '' }
+                  : { person: '', value: '' },
+              ],
+            })
+          }
+        >
+          {t('form.addPerson')}
+        </Button>
+        {method === 'percentage' && (
+          <PartsCheck
+            assigned={Math.round(sumTypedPercentages(typed) * PERCENT_SCALE)}
+            total={100 * PERCENT_SCALE}
+            format={formatPercent}
+            t={t}
+          />
+        )}
+        {method === 'exact' && (
+          <PartsCheck
+            assigned={sumTypedAmounts(typed, currency)}
+            total={total}
+            format={minor => formatMoney({ minor, currency }, locale)}
+            t={t}
+          />
+        )}
+      </div>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
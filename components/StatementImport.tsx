@@ -0,0 +1,277 @@
+'use client';
+
+import React, { useState } from 'react';
+import { Category, Expense } from '@/types/expense';
+import { categoriesOfKind, categoryOptions, getDefaultCategoryId } from '@/lib/categories';
+import { NewExpense } from '@/lib/repository';
+import { ParsedStatement, StatementTransaction, parseStatement } from '@/utils/statementImport';
+import { validateExpenseForm, hasErrors } from '@/utils/validation';
+import { formatCurrency, toMoney } from '@/utils/currency';
+import { findDuplicatesOf } from '@/utils/duplicates';
+import { formatDate } from '@/utils/locale';
+import { Translator } from '@/lib/i18n';
+import { Button } from './ui/Button';
+import { Select } from './ui/Select';
+
+interface StatementImportProps {
+  // External ids of every expense already stored, including the trash
+  existingExternalIds: Set<string>;
+  // Current expenses, used to spot transactions that were already entered by hand
+  expenses: Expense[];
+  categories: Category[];
+  // Used when the statement does not say which currency it is in
+  defaultCurrency: string;
+  // Amounts and dates are shown in this locale's format
+  locale: string;
+  onImport: (expenses: NewExpense[]) => Promise<void>;
+  onClose: () => void;
+  // Labels and row errors are shown in the interface language
+  t: Translator;
+}
+
+interface ReviewRow {
+  transaction: StatementTransaction;
+  categoryId: string;
+  include: boolean;
+  alreadyImported: boolean;
+  possibleDuplicate: boolean;
+  error: string | null;
+}
+
+const formatLabels: Record<ParsedStatement['format'], string> = {
+  ofx: 'OFX',
+  qif: 'QIF',
+  camt053: 'CAMT.053',
+};
+
+export const StatementImport: React.FC<StatementImportProps> = ({
+  existingExternalIds,
+  expenses,
+  categories,
+  defaultCurrency,
+  locale,
+  onImport,
+  onClose,
+  t,
+}) => {
+  const [statement, setStatement] = useState<ParsedStatement | null>(null);
+  const [rows, setRows] = useState<ReviewRow[]>([]);
+  const [parseError, setParseError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  // Only money going out is imported, so only spending categories apply
+  const options = categoryOptions(categoriesOfKind(categories, 'expense'));
+  const currency = statement?.currency ?? defaultCurrency;
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const parsed = parseStatement(await file.text(), file.name);
+      setStatement(parsed);
+      setParseError(null);
+      const categoryId = getDefaultCategoryId(categories);
+      const statementCurrency = parsed.currency ?? defaultCurrency;
+      setRows(
+        parsed.transactions
+          .filter(transaction => transaction.isDebit)
+          .map(transaction => {
+            const errors = validateExpenseForm(
+              {
+                date: transaction.date,
+                amount: transaction.amount.toString(),
+                currency: statementCurrency,
+                categoryId,
+                description: transaction.description,
+                tags: [],
+              },
+              t
+            );
+            const alreadyImported = existingExternalIds.has(transaction.externalId);
+            const error = hasErrors(errors) ? Object.values(errors).join('; ') : null;
+            const possibleDuplicate =
+              !alreadyImported &&
+              findDuplicatesOf(
+                { ...transaction, amount: toMoney(transaction.amount, statementCurrency) },
+                expenses
+              ).length > 0;
+
+            return {
+              transaction,
+              categoryId,
+              include: !alreadyImported && !possibleDuplicate && !error,
+              alreadyImported,
+              possibleDuplicate,
+              error,
+            };
+          })
+      );
+    } catch (error) {
+      console.error('Error reading statement file:', error);
+      setStatement(null);
+      setRows([]);
+      setParseError(t('statementImport.unreadable'));
+    }
+  };
+
+  const updateRow = (index: number, updates: Partial<ReviewRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...updates } : row)));
+  };
+
+  const handleSetAllCategories = (categoryId: string) => {
+    setRows(prev => prev.map(row => ({ ...row, categoryId })));
+  };
+
+  const selectedRows = rows.filter(row => row.include);
+  const creditCount = statement
+    ? statement.transactions.filter(transaction => !transaction.isDebit).length
+    : 0;
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    await onImport(
+      selectedRows.map(row => ({
+        date: row.transaction.date,
+        amount: toMoney(row.transaction.amount, currency),
+        categoryId: row.categoryId,
+        description: row.transaction.description,
+        externalId: row.transaction.externalId,
+      }))
+    );
+    setIsImporting(false);
+    onClose();
+  };
+
+  return (
+    <div className="space-y-6">
+      <label className="block">
+        <span className="block text-sm font-medium text-gray-700 mb-1">
+          {t('statementImport.file')}
+        </span>
+        <input
+          type="file"
+          accept=".ofx,.qfx,.qif,.xml"
+          onChange={handleFileChange}
+          className="block w-full text-sm text-gray-600 file:mr-4 file:py-2 file:px-4 file:rounded-lg file:border-0 file:bg-gray-200 file:text-gray-900 hover:file:bg-gray-300"
+        />
+      </label>
+
+      {parseError && <p className="text-sm text-red-600">{parseError}</p>}
+
+      {statement && (
+        <>
+          <div className="flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+            <p className="text-sm text-gray-600">
+              {t('statementImport.summary', { format: formatLabels[statement.format] })}
+              {statement.accountId &&
+                ` · ${t('statementImport.account', { account: statement.accountId })}`}
+              {` · ${currency}`}
+              {` · ${t('statementImport.debits', { count: rows.length })}`}
+              {creditCount > 0 &&
+                ` (${t('statementImport.creditsIgnored', { count: creditCount })})`}
+            </p>
+            <div className="md:w-64">
+              <Select
+                label={t('statementImport.setAllCategories')}
+                options={[{ value: '', label: t('statementImport.choose') }, ...options]}
+                value=""
+                onChange={e => {
+                  if (e.target.value) handleSetAllCategories(e.target.value);
+                }}
+              />
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-auto border border-gray-200 rounded-lg">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr className="text-left text-gray-600">
+                  <th className="px-3 py-2 font-medium">{t('statementImport.include')}</th>
+                  <th className="px-3 py-2 font-medium">{t('statementImport.date')}</th>
+                  <th className="px-3 py-2 font-medium">{t('statementImport.description')}</th>
+                  <th className="px-3 py-2 font-medium text-right">
+                    {t('statementImport.amount')}
+                  </th>
+                  <th className="px-3 py-2 font-medium">{t('statementImport.category')}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map((row, index) => (
+                  <tr
+                    key={row.transaction.externalId}
+                    className={`border-t border-gray-100 ${
+                      row.alreadyImported || row.error ? 'text-gray-400' : ''
+                    }`}
+                  >
+                    <td className="px-3 py-2">
+                      <input
+                        type="checkbox"
+                        checked={row.include}
+                        disabled={row.alreadyImported || !!row.error}
+                        onChange={e => updateRow(index, { include: e.target.checked })}
+                        className="rounded border-gray-300"
+                        aria-label={t('statementImport.includeRow', {
+                          description: row.transaction.description,
+                        })}
+                      />
+                    </td>
+                    <td className="px-3 py-2 whitespace-nowrap">
+                      {formatDate(row.transaction.date, locale)}
+                    </td>
+                    <td className="px-3 py-2">
+                      {row.transaction.description}
+                      {row.alreadyImported && (
+                        <span className="block text-xs">
+                          {t('statementImport.alreadyImported')}
+                        </span>
+                      )}
+                      {row.possibleDuplicate && (
+                        <span className="block text-xs text-yellow-700">
+                          {t('statementImport.possibleDuplicate')}
+                        </span>
+                      )}
+                      {row.error && <span className="block text-xs text-red-600">{row.error}</span>}
+                    </td>
+                    <td className="px-3 py-2 text-right whitespace-nowrap">
+                      {formatCurrency(row.transaction.amount, currency, locale)}
+                    </td>
+                    <td className="px-3 py-2">
+                      <select
+                        value={row.categoryId}
+                        onChange={e => updateRow(index, { categoryId: e.target.value })}
+                        disabled={!row.include}
+                        className="px-2 py-1 border border-gray-300 rounded-lg bg-white text-gray-900"
+                      >
+                        {options.map(option => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex gap-3">
+            <Button
+              variant="primary"
+              className="flex-1"
+              onClick={handleImport}
+              disabled={isImporting || selectedRows.length === 0}
+            >
+              {isImporting
+                ? t('statementImport.importing')
+                : t('statementImport.import', { count: selectedRows.length })}
+            </Button>
+            <Button variant="secondary" onClick={onClose} disabled={isImporting}>
+              {t('statementImport.cancel')}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,148 @@
+'use client';
+
+import React, { useState } from 'react';
+import { addTag, suggestTags, MAX_TAG_LENGTH } from '@/utils/tags';
+import { Translator } from '@/lib/i18n';
+
+interface TagInputProps {
+  id: string;
+  label?: string;
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  // Tags already used elsewhere, offered as suggestions while typing
+  knownTags: string[];
+  placeholder?: string;
+  error?: string;
+  // Button labels are shown in the interface language
+  t: Translator;
+}
+
+export const TagInput: React.FC<TagInputProps> = ({
+  id,
+  label,
+  tags,
+  onChange,
+  knownTags,
+  placeholder,
+  error,
+  t,
+}) => {
+  const [query, setQuery] = useState('');
+  const [isFocused, setIsFocused] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const suggestions = isFocused ? suggestTags(query, knownTags, tags) : [];
+
+  const commit = (value: string) => {
+    onChange(addTag(tags, value));
+    setQuery('');
+    setActiveIndex(-1);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(existing => existing !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      // Never submit the surrounding form from the tag box
+      e.preventDefault();
+      if (activeIndex >= 0 && suggestions[activeIndex]) {
+        commit(suggestions[activeIndex]);
+      } else if (query.trim()) {
+        commit(query);
+      }
+    } else if (e.key === 'Backspace' && !query && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    } else if (e.key === 'ArrowDown' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp' && suggestions.length > 0) {
+      e.preventDefault();
+      setActiveIndex(prev => (prev <= 0 ? suggestions.length - 1 : prev - 1));
+    } else if (e.key === 'Escape') {
+      setActiveIndex(-1);
+      setIsFocused(false);
+    }
+  };
+
+  return (
+    <div className="w-full relative">
+      {label && (
+        <label htmlFor={id} className="block text-sm font-medium text-gray-700 mb-1">
+          {label}
+        </label>
+      )}
+      <div
+        className={`w-full px-2 py-1.5 border rounded-lg bg-white flex flex-wrap items-center gap-1 focus-within:ring-2 focus-within:ring-blue-500 focus-within:border-transparent ${
+          error ? 'border-red-500' : 'border-gray-300'
+        }`}
+      >
+        {tags.map(tag => (
+          <span
+            key={tag}
+            className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full bg-gray-100 text-gray-700 text-sm"
+          >
+            #{tag}
+            <button
+              type="button"
+              onClick={() => removeTag(tag)}
+              className="text-gray-400 hover:text-gray-700"
+              aria-label={t('form.removeTag', { tag })}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          id={id}
+          value={query}
+          onChange={e => {
+            setQuery(e.target.value);
+            setActiveIndex(-1);
+          }}
+          onKeyDown={handleKeyDown}
+          onFocus={() => setIsFocused(true)}
+          onBlur={() => {
+            setIsFocused(false);
+            // Keep a half-typed tag rather than silently dropping it
+            if (query.trim()) commit(query);
+          }}
+          placeholder={tags.length === 0 ? placeholder : ''}
+          maxLength={MAX_TAG_LENGTH}
+          className="flex-1 min-w-[6rem] px-1 py-0.5 text-gray-900 placeholder-gray-400 focus:outline-none"
+          role="combobox"
+          aria-expanded={suggestions.length > 0}
+          aria-controls={`${id}-suggestions`}
+          autoComplete="off"
+        />
+      </div>
+      {suggestions.length > 0 && (
+        <ul
+          id={`${id}-suggestions`}
+          role="listbox"
+          className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-48 overflow-y-auto"
+        >
+          {suggestions.map((tag, index) => (
+            <li
+              key={tag}
+              role="option"
+              aria-selected={index === activeIndex}
+              // Mouse down fires before the input's blur, so the click still lands
+              onMouseDown={e => {
+                e.preventDefault();
+                commit(tag);
+              }}
+              className={`px-3 py-1.5 text-sm cursor-pointer ${
+                index === activeIndex ? 'bg-blue-50 text-blue-700' : 'text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              #{tag}
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && <p className="mt-1 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,137 @@
+'use client';
+
+import React from 'react';
+import { Category, TrashedExpense } from '@/types/expense';
+import { formatMoney } from '@/utils/currency';
+import { addDays, differenceInCalendarDays } from 'date-fns';
+import { formatDate, formatDateTime } from '@/utils/locale';
+import { Translator } from '@/lib/i18n';
+import { Button } from './ui/Button';
+import { Select } from './ui/Select';
+import { CategoryBadge } from './CategoryBadge';
+
+interface TrashViewProps {
+  trash: TrashedExpense[];
+  categories: Category[];
+  retentionDays: number;
+  // Amounts and dates are shown in this locale's format
+  locale: string;
+  onRestore: (ids: string[]) => void;
+  onPurge: (ids: string[]) => void;
+  onRetentionChange: (days: number) => void;
+  // Labels and confirmations are shown in the interface language
+  t: Translator;
+}
+
+export const TrashView: React.FC<TrashViewProps> = ({
+  trash,
+  categories,
+  retentionDays,
+  locale,
+  onRestore,
+  onPurge,
+  onRetentionChange,
+  t,
+}) => {
+  const sortedTrash = [...trash].sort(
+    (a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime()
+  );
+  const allIds = sortedTrash.map(expense => expense.id);
+
+  const retentionOptions = [
+    ...[7, 30, 90].map(days => ({
+      value: days.toString(),
+      label: t('trash.keepDays', { count: days }),
+    })),
+    { value: '365', label: t('trash.keepYear') },
+    { value: '0', label: t('trash.keepForever') },
+  ];
+
+  const daysUntilPurge = (expense: TrashedExpense): number =>
+    differenceInCalendarDays(addDays(new Date(expense.deletedAt), retentionDays), new Date());
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4 mb-6">
+        <div className="md:w-64">
+          <Select
+            options={retentionOptions}
+            value={retentionDays.toString()}
+            onChange={e => onRetentionChange(parseInt(e.target.value, 10))}
+          />
+        </div>
+        {sortedTrash.length > 0 && (
+          <div className="flex gap-2">
+            <Button variant="secondary" size="sm" onClick={() => onRestore(allIds)}>
+              {t('trash.restoreAll')}
+            </Button>
+            <Button
+              variant="danger"
+              size="sm"
+              onClick={() => {
+                if (confirm(t('trash.confirmEmpty'))) {
+                  onPurge(allIds);
+                }
+              }}
+            >
+              {t('trash.emptyTrash')}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {sortedTrash.length === 0 ? (
+        <div className="text-center py-12 bg-gray-50 rounded-lg">
+          <p className="text-gray-500 text-lg">{t('trash.empty')}</p>
+          <p className="text-gray-400 text-sm mt-2">{t('trash.emptyNote')}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {sortedTrash.map(expense => (
+            <div
+              key={expense.id}
+              className="bg-white rounded-lg shadow-sm border border-gray-200 p-4"
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center gap-2 mb-2">
+                    <CategoryBadge categories={categories} categoryId={expense.categoryId} />
+                    <span className="text-sm text-gray-500">
+                      {formatDate(expense.date, locale)}
+                    </span>
+                  </div>
+                  <p className="text-gray-700 font-medium mb-1">{expense.description}</p>
+                  <p className="text-xl font-bold text-gray-500">
+                    {formatMoney(expense.amount, locale)}
+                  </p>
+                  <p className="text-xs text-gray-400 mt-2">
+                    {t('trash.deleted', { date: formatDateTime(expense.deletedAt, locale) })}
+                    {retentionDays > 0 &&
+                      ` · ${t('trash.purgedIn', { count: Math.max(daysUntilPurge(expense), 0) })}`}
+                  </p>
+                </div>
+
+                <div className="flex gap-2 ml-4">
+                  <Button variant="ghost" size="sm" onClick={() => onRestore([expense.id])}>
+                    {t('trash.restore')}
+                  </Button>
+                  <Button
+                    variant="danger"
+                    size="sm"
+                    onClick={() => {
+                      if (confirm(t('trash.confirmDelete'))) {
+                        onPurge([expense.id]);
+                      }
+                    }}
+                  >
+                    {t('trash.deleteForever')}
+                  </Button>
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,54 @@
+'use client';
+
+import React, { useEffect } from 'react';
+
+interface ToastProps {
+  message: string | null;
+  actionLabel?: string;
+  onAction?: () => void;
+  onClose: () => void;
+  duration?: number;
+}
+
+export const Toast: React.FC<ToastProps> = ({
+  message,
+  actionLabel,
+  onAction,
+  onClose,
+  duration = 6000,
+}) => {
+  useEffect(() => {
+    if (!message) return;
+
+    const timer = setTimeout(onClose, duration);
+    return () => clearTimeout(timer);
+  }, [message, duration, onClose]);
+
+  if (!message) return null;
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-900 text-white px-4 py-3 rounded-lg shadow-lg"
+    >
+      <span className="text-sm">{message}</span>
+      {actionLabel && onAction && (
+        <button
+          onClick={onAction}
+          className="text-sm font-semibold text-blue-300 hover:text-blue-200 focus:outline-none"
+        >
+          {actionLabel}
+        </button>
+      )}
+      <button
+        onClick={onClose}
+        className="text-gray-400 hover:text-gray-200 focus:outline-none"
+        aria-label="Dismiss"
+      >
+        <svg className="h-4 w-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+};
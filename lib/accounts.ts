@@ -0,0 +1,135 @@
+import { Account, AccountType, Expense } from '@/types/expense';
+import { CurrencyConversion } from './exchangeRates';
+import { mergeById } from './merge';
+import { outflow } from '@/utils/transactions';
+
+const ACCOUNTS_KEY = 'expense-tracker-accounts';
+
+export const ACCOUNT_TYPES: AccountType[] = ['card', 'cash', 'bank'];
+
+export const ACCOUNT_ICONS: Record<AccountType, string> = {
+  card: '💳',
+  cash: '💵',
+  bank: '🏦',
+};
+
+export interface AccountInput {
+  name: string;
+  type: AccountType;
+}
+
+// The dates a statement covers, both inclusive (yyyy-MM-dd)
+export interface StatementPeriod {
+  startDate: string;
+  endDate: string;
+}
+
+// An expense on a statement, with its amount in minor units of the base currency
+export interface StatementLine {
+  expense: Expense;
+  amount: number | null; // Negative for income and refunds; null when there is no exchange rate
+}
+
+export const createAccount = (input: AccountInput): Account => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name: input.name.trim(),
+    type: input.type,
+    archived: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const updateAccount = (
+  accounts: Account[],
+  id: string,
+  updates: Partial<AccountInput & { archived: boolean }>
+): Account[] =>
+  accounts.map(account =>
+    account.id === id
+      ? {
+          ...account,
+          ...updates,
+          name: updates.name !== undefined ? updates.name.trim() : account.name,
+          updatedAt: new Date().toISOString(),
+        }
+      : account
+  );
+
+// Accounts to pick from: the active ones, plus the current one even if it has been archived
+export const accountOptions = (
+  accounts: Account[],
+  currentId?: string
+): { value: string; label: string }[] =>
+  accounts
+    .filter(account => !account.archived || account.id === currentId)
+    .map(account => ({
+      value: account.id,
+      label: `${ACCOUNT_ICONS[account.type]} ${account.name}`,
+    }));
+
+// Expenses paid from the account within the statement's dates, oldest first
+export const statementLines = (
+  expenses: Expense[],
+  accountId: string,
+  period: StatementPeriod,
+  conversion: CurrencyConversion
+): StatementLine[] =>
+  expenses
+    .filter(
+      expense =>
+        expense.accountId === accountId &&
+        expense.date.slice(0, 10) >= period.startDate &&
+        expense.date.slice(0, 10) <= period.endDate
+    )
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(expense => {
+      const converted = conversion.toBase(expense);
+      return { expense, amount: converted ? outflow(expense, converted.minor) : null };
+    });
+
+// What the ticked lines add up to, to compare with the statement balance
+export const clearedTotal = (lines: StatementLine[], clearedIds: Set<string>): number =>
+  lines
+    .filter(line => clearedIds.has(line.expense.id))
+    .reduce((sum, line) => sum + (line.amount ?? 0), 0);
+
+// Copies of the expenses whose cleared state changes; the rest are left out
+export const setCleared = (expenses: Expense[], clearedIds: Set<string>): Expense[] => {
+  const now = new Date().toISOString();
+  return expenses
+    .filter(expense => Boolean(expense.cleared) !== clearedIds.has(expense.id))
+    .map(expense => ({ ...expense, cleared: clearedIds.has(expense.id), updatedAt: now }));
+};
+
+// Newer copy of each account wins; accounts only on one side are kept
+export const mergeAccounts = (current: Account[], incoming: Account[]): Account[] =>
+  mergeById(current, incoming);
+
+export const accountStorage = {
+  // Get all accounts
+  getAccounts(): Account[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const data = localStorage.getItem(ACCOUNTS_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error reading accounts from localStorage:', error);
+      return [];
+    }
+  },
+
+  // Save the full account list
+  saveAccounts(accounts: Account[]): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+    } catch (error) {
+      console.error('Error writing accounts to localStorage:', error);
+    }
+  },
+};
@@ -0,0 +1,113 @@
+import { Attachment, Expense } from '@/types/expense';
+
+// Receipt files are kept apart from the expense records so that listing expenses stays cheap
+const ATTACHMENT_KEY_PREFIX = 'expense-tracker-attachment-';
+
+export const MAX_ATTACHMENT_SIZE = 10 * 1024 * 1024;
+
+// A receipt's file, keyed by the attachment id stored on the expense
+export interface StoredAttachment {
+  id: string;
+  blob: Blob;
+}
+
+// Photos of paper receipts and PDF invoices
+export const isAcceptedAttachmentType = (type: string): boolean =>
+  type.startsWith('image/') || type === 'application/pdf';
+
+export const isPdfAttachment = (attachment: Pick<Attachment, 'type'>): boolean =>
+  attachment.type === 'application/pdf';
+
+// Describe a picked, dropped or pasted file; the caller stores the blob under the same id
+export const createAttachment = (
+  file: File
+): { attachment: Attachment; file: StoredAttachment } => {
+  const id = crypto.randomUUID();
+  return {
+    attachment: {
+      id,
+      // Pasted screenshots arrive without a useful name
+      name: file.name || `receipt.${file.type.split('/')[1] ?? 'bin'}`,
+      type: file.type,
+      size: file.size,
+      addedAt: new Date().toISOString(),
+    },
+    file: { id, blob: file },
+  };
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+// Read a blob's bytes; FileReader works everywhere Blob.arrayBuffer does not
+export const blobToBytes = (blob: Blob): Promise<Uint8Array> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(new Uint8Array(reader.result as ArrayBuffer));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsArrayBuffer(blob);
+  });
+
+export const dataUrlToBlob = (dataUrl: string): Blob | null => {
+  const match = /^data:([^;,]*)(;base64)?,([\s\S]*)$/.exec(dataUrl);
+  if (!match) return null;
+
+  const [, type, base64, payload] = match;
+  try {
+    const text = base64 ? atob(payload) : decodeURIComponent(payload);
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i);
+    return new Blob([bytes], { type });
+  } catch {
+    return null;
+  }
+};
+
+// Every attachment id still reachable from a record, including the snapshots undo can bring back
+export const referencedAttachmentIds = (records: (Expense | null)[]): Set<string> =>
+  new Set(
+    records.flatMap(record => (record?.attachments ?? []).map(attachment => attachment.id))
+  );
+
+// Fallback storage as data URLs, one key per file, for browsers without IndexedDB.
+// The localStorage quota only fits a handful of small receipts.
+export const attachmentStorage = {
+  // Get one file, or null if it has been removed
+  getAttachment(id: string): Blob | null {
+    try {
+      const dataUrl = localStorage.getItem(ATTACHMENT_KEY_PREFIX + id);
+      return dataUrl ? dataUrlToBlob(dataUrl) : null;
+    } catch (error) {
+      console.error('Error loading attachment from localStorage:', error);
+      return null;
+    }
+  },
+
+  // Store files, overwriting any with the same id
+  async putAttachments(files: StoredAttachment[]): Promise<void> {
+    for (const { id, blob } of files) {
+      localStorage.setItem(ATTACHMENT_KEY_PREFIX + id, await blobToDataUrl(blob));
+    }
+  },
+
+  deleteAttachments(ids: string[]): void {
+    ids.forEach(id => localStorage.removeItem(ATTACHMENT_KEY_PREFIX + id));
+  },
+
+  // Ids of every stored file
+  getAttachmentIds(): string[] {
+    const ids: string[] = [];
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (key?.startsWith(ATTACHMENT_KEY_PREFIX)) {
+        ids.push(key.slice(ATTACHMENT_KEY_PREFIX.length));
+      }
+    }
+    return ids;
+  },
+};
@@ -0,0 +1,443 @@
+import {
+  Account,
+  Budget,
+  Category,
+  Expense,
+  Group,
+  RecurringRule,
+  Settlement,
+  TrashedExpense,
+} from '@/types/expense';
+import type { ExpenseRepository } from './repository';
+import type { ExpenseChange } from './history';
+import { AppSettings, sanitiseSettings, settingsStorage } from './settings';
+import { categoryStorage, mergeCategoryLists } from './categories';
+import { RateTable, mergeRateTables, rateStorage } from './exchangeRates';
+import { budgetStorage, mergeBudgetLists } from './budgets';
+import { mergeRecurringRules, recurringStorage } from './recurring';
+import { groupStorage, mergeGroups, mergeSettlements } from './groups';
+import { accountStorage, mergeAccounts } from './accounts';
+import { blobToDataUrl, dataUrlToBlob, referencedAttachmentIds } from './attachments';
+import { storageUtils } from './storage';
+import { Translator, createTranslator } from './i18n';
+import {
+  CURRENT_SCHEMA_VERSION,
+  QuarantinedRecord,
+  migrateRecords,
+  partitionRecords,
+} from './schema';
+
+export const BACKUP_FORMAT = 'expense-tracker-backup';
+export const BACKUP_VERSION = 1;
+
+export type RestoreMode = 'replace' | 'merge';
+
+// A complete snapshot of persisted state. The undo journal is deliberately left out:
+// it describes edits to this device's data, not the data itself.
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  backupVersion: number;
+  schemaVersion: number;
+  createdAt: string;
+  data: {
+    expenses: Expense[];
+    trash: TrashedExpense[];
+    categories: Category[];
+    settings: AppSettings;
+    quarantine: QuarantinedRecord[];
+    // Pair keys the user marked as "not a duplicate"
+    dismissedDuplicates: string[];
+    // Null in backups made before exchange rates were stored
+    exchangeRates: RateTable | null;
+    // Null in backups made before budgets were stored
+    budgets: Budget[] | null;
+    // Null in backups made before recurring rules were stored
+    recurringRules: RecurringRule[] | null;
+    // Receipt files as data URLs, keyed by attachment id.
+    // Null in backups made before attachments were stored.
+    attachments: Record<string, string> | null;
+    // Null in backups made before group ledgers were stored
+    groups: Group[] | null;
+    settlements: Settlement[] | null;
+    // Null in backups made before accounts were stored
+    accounts: Account[] | null;
+  };
+}
+
+export interface ParsedBackup {
+  backup: BackupFile | null;
+  errors: string[];
+  // Records in the file that failed validation and will be skipped
+  skippedRecords: number;
+}
+
+export interface RestorePreview {
+  added: number;
+  updated: number;
+  unchanged: number;
+  // Local expenses not in the backup; replace mode moves them to the trash
+  removed: number;
+  trash: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Files of the receipts on the given records, skipping any that are missing from storage
+const collectAttachments = async (
+  repository: ExpenseRepository,
+  records: Expense[]
+): Promise<Record<string, string>> => {
+  const attachments: Record<string, string> = {};
+  for (const id of Array.from(referencedAttachmentIds(records))) {
+    const blob = await repository.getAttachment(id);
+    if (blob) attachments[id] = await blobToDataUrl(blob);
+  }
+  return attachments;
+};
+
+export const createBackup = async (repository: ExpenseRepository): Promise<BackupFile> => {
+  const expenses = await repository.getAll();
+  const trash = await repository.getTrash();
+
+  return {
+    format: BACKUP_FORMAT,
+    backupVersion: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    createdAt: new Date().toISOString(),
+    data: {
+      expenses,
+      trash,
+      categories: categoryStorage.getCategories(),
+      settings: settingsStorage.getSettings(),
+      quarantine: storageUtils.getQuarantine(),
+      dismissedDuplicates: storageUtils.getDismissedDuplicates(),
+      exchangeRates: rateStorage.getRateTable(),
+      budgets: budgetStorage.getBudgets(),
+      recurringRules: recurringStorage.getRules(),
+      attachments: await collectAttachments(repository, [...expenses, ...trash]),
+      groups: groupStorage.getGroups(),
+      settlements: groupStorage.getSettlements(),
+      accounts: accountStorage.getAccounts(),
+    },
+  };
+};
+
+// Validate a backup file's contents, upgrading its records to the current schema.
+// Errors are in English unless a translator for the interface language is given.
+export const parseBackup = (
+  text: string,
+  t: Translator = createTranslator('en')
+): ParsedBackup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { backup: null, errors: [t('backup.invalidJson')], skippedRecords: 0 };
+  }
+
+  if (!isObject(parsed) || parsed.format !== BACKUP_FORMAT) {
+    return { backup: null, errors: [t('backup.notBackup')], skippedRecords: 0 };
+  }
+  if (typeof parsed.backupVersion !== 'number' || parsed.backupVersion > BACKUP_VERSION) {
+    return { backup: null, errors: [t('backup.newerVersion')], skippedRecords: 0 };
+  }
+  if (typeof parsed.schemaVersion !== 'number' || parsed.schemaVersion > CURRENT_SCHEMA_VERSION) {
+    return { backup: null, errors: [t('backup.newerSchema')], skippedRecords: 0 };
+  }
+
+  const data = isObject(parsed.data) ? parsed.data : null;
+  if (!data || !Array.isArray(data.expenses)) {
+    return { backup: null, errors: [t('backup.noExpenses')], skippedRecords: 0 };
+  }
+
+  const schemaVersion = parsed.schemaVersion;
+  const expenses = partitionRecords(
+    migrateRecords(data.expenses, schemaVersion),
+    CURRENT_SCHEMA_VERSION
+  );
+  const trash = partitionRecords(
+    migrateRecords(Array.isArray(data.trash) ? data.trash : [], schemaVersion),
+    CURRENT_SCHEMA_VERSION
+  );
+  const validTrash = (trash.expenses as TrashedExpense[]).filter(
+    exp => typeof exp.deletedAt === 'string'
+  );
+
+  const skippedRecords =
+    expenses.quarantined.length +
+    trash.quarantined.length +
+    (trash.expenses.length - validTrash.length);
+
+  return {
+    backup: {
+      format: BACKUP_FORMAT,
+      backupVersion: BACKUP_VERSION,
+      schemaVersion: CURRENT_SCHEMA_VERSION,
+      createdAt: typeof parsed.createdAt === 'string' ? parsed.createdAt : '',
+      data: {
+        expenses: expenses.expenses,
+        trash: validTrash,
+        // Backups made before categories were stored carry none; the local ones are kept
+        categories: Array.isArray(data.categories)
+          ? (data.categories as unknown[]).filter(isCategory)
+          : [],
+        // Each setting is checked on its own; an invalid one falls back to its default
+        settings: sanitiseSettings(data.settings),
+        quarantine: Array.isArray(data.quarantine) ? (data.quarantine as QuarantinedRecord[]) : [],
+        dismissedDuplicates: Array.isArray(data.dismissedDuplicates)
+          ? data.dismissedDuplicates.filter((key): key is string => typeof key === 'string')
+          : [],
+        exchangeRates: isRateTable(data.exchangeRates) ? data.exchangeRates : null,
+        budgets: Array.isArray(data.budgets) ? (data.budgets as unknown[]).filter(isBudget) : null,
+        recurringRules: Array.isArray(data.recurringRules)
+          ? (data.recurringRules as unknown[]).filter(isRecurringRule)
+          : null,
+        attachments: isObject(data.attachments)
+          ? Object.fromEntries(
+              Object.entries(data.attachments).filter(
+                (entry): entry is [string, string] =>
+                  typeof entry[1] === 'string' && entry[1].startsWith('data:')
+              )
+            )
+          : null,
+        groups: Array.isArray(data.groups) ? (data.groups as unknown[]).filter(isGroup) : null,
+        settlements: Array.isArray(data.settlements)
+          ? (data.settlements as unknown[]).filter(isSettlement)
+          : null,
+        accounts: Array.isArray(data.accounts)
+          ? (data.accounts as unknown[]).filter(isAccount)
+          : null,
+      },
+    },
+    errors: skippedRecords > 0 ? [t('backup.skippedRecords', { count: skippedRecords })] : [],
+    skippedRecords,
+  };
+};
+
+const isCategory = (value: unknown): value is Category =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  typeof value.color === 'string' &&
+  typeof value.updatedAt === 'string';
+
+const isRateTable = (value: unknown): value is RateTable =>
+  isObject(value) &&
+  typeof value.base === 'string' &&
+  Array.isArray(value.rates) &&
+  value.rates.every(
+    rate =>
+      isObject(rate) &&
+      typeof rate.currency === 'string' &&
+      typeof rate.rate === 'number' &&
+      rate.rate > 0 &&
+      typeof rate.date === 'string'
+  );
+
+const isBudget = (value: unknown): value is Budget =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  isObject(value.amount) &&
+  Number.isSafeInteger(value.amount.minor) &&
+  typeof value.amount.currency === 'string' &&
+  typeof value.rollover === 'boolean' &&
+  typeof value.startMonth === 'string' &&
+  typeof value.updatedAt === 'string';
+
+const isRecurringRule = (value: unknown): value is RecurringRule =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  isObject(value.amount) &&
+  Number.isSafeInteger(value.amount.minor) &&
+  typeof value.amount.currency === 'string' &&
+  typeof value.categoryId === 'string' &&
+  typeof value.description === 'string' &&
+  ['daily', 'weekly', 'monthly', 'yearly'].includes(value.frequency as string) &&
+  typeof value.startDate === 'string' &&
+  typeof value.paused === 'boolean' &&
+  Number.isSafeInteger(value.generatedCount) &&
+  typeof value.updatedAt === 'string';
+
+const isGroup = (value: unknown): value is Group =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  Array.isArray(value.members) &&
+  value.members.every(
+    member => isObject(member) && typeof member.id === 'string' && typeof member.name === 'string'
+  ) &&
+  typeof value.updatedAt === 'string';
+
+const isSettlement = (value: unknown): value is Settlement =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.groupId === 'string' &&
+  typeof value.fromMemberId === 'string' &&
+  typeof value.toMemberId === 'string' &&
+  isObject(value.amount) &&
+  Number.isSafeInteger(value.amount.minor) &&
+  typeof value.amount.currency === 'string' &&
+  typeof value.date === 'string' &&
+  typeof value.updatedAt === 'string';
+
+const isAccount = (value: unknown): value is Account =>
+  isObject(value) &&
+  typeof value.id === 'string' &&
+  typeof value.name === 'string' &&
+  ['card', 'cash', 'bank'].includes(value.type as string) &&
+  typeof value.archived === 'boolean' &&
+  typeof value.updatedAt === 'string';
+
+const isNewer = (incoming: Expense, existing: Expense): boolean =>
+  new Date(incoming.updatedAt).getTime() > new Date(existing.updatedAt).getTime();
+
+// Work out the record-level changes a restore would make to the current expenses
+export const planRestore = (
+  current: Expense[],
+  backup: BackupFile,
+  mode: RestoreMode
+): ExpenseChange[] => {
+  const currentById = new Map(current.map(exp => [exp.id, exp]));
+  const backupIds = new Set(backup.data.expenses.map(exp => exp.id));
+  const changes: ExpenseChange[] = [];
+
+  backup.data.expenses.forEach(incoming => {
+    const existing = currentById.get(incoming.id) ?? null;
+
+    if (!existing) {
+      changes.push({ id: incoming.id, before: null, after: incoming });
+    } else if (
+      mode === 'replace'
+        ? JSON.stringify(existing) !== JSON.stringify(incoming)
+        : isNewer(incoming, existing)
+    ) {
+      changes.push({ id: incoming.id, before: existing, after: incoming });
+    }
+  });
+
+  if (mode === 'replace') {
+    current
+      .filter(exp => !backupIds.has(exp.id))
+      .forEach(exp => changes.push({ id: exp.id, before: exp, after: null }));
+  }
+
+  return changes;
+};
+
+export const previewRestore = (
+  current: Expense[],
+  backup: BackupFile,
+  mode: RestoreMode
+): RestorePreview => {
+  const changes = planRestore(current, backup, mode);
+
+  return {
+    added: changes.filter(change => !change.before && change.after).length,
+    updated: changes.filter(change => change.before && change.after).length,
+    removed: changes.filter(change => change.before && !change.after).length,
+    unchanged: backup.data.expenses.length - changes.filter(change => change.after).length,
+    trash: backup.data.trash.length,
+  };
+};
+
+// Apply a backup. Replace mode moves expenses missing from the backup to the trash
+// rather than deleting them, and adopts the backup's settings and quarantine.
+// Categories, dismissed duplicate pairs, exchange rates, budgets, recurring rules, groups,
+// settle-up payments and accounts are combined in merge mode and replaced otherwise. Receipt
+// files are added in both modes; files no record refers to any more are cleared out the next
+// time the app loads.
+export const restoreBackup = async (
+  repository: ExpenseRepository,
+  backup: BackupFile,
+  mode: RestoreMode
+): Promise<ExpenseChange[]> => {
+  const changes = planRestore(await repository.getAll(), backup, mode);
+
+  const upserts = changes.filter(change => change.after).map(change => change.after as Expense);
+  const removals = changes.filter(change => !change.after).map(change => change.id);
+
+  if (removals.length > 0) await repository.deleteMany(removals);
+  if (upserts.length > 0) await repository.putMany(upserts);
+
+  // Never resurrect a trashed copy over a record that is active after the restore
+  const activeIds = new Set((await repository.getAll()).map(exp => exp.id));
+  const trash = backup.data.trash.filter(exp => !activeIds.has(exp.id));
+  if (trash.length > 0) await repository.putTrash(trash);
+
+  if (backup.data.attachments) {
+    await repository.putAttachments(
+      Object.entries(backup.data.attachments).flatMap(([id, dataUrl]) => {
+        const blob = dataUrlToBlob(dataUrl);
+        return blob ? [{ id, blob }] : [];
+      })
+    );
+  }
+
+  if (backup.data.categories.length > 0) {
+    categoryStorage.saveCategories(
+      mode === 'replace'
+        ? backup.data.categories
+        : mergeCategoryLists(categoryStorage.getCategories(), backup.data.categories)
+    );
+  }
+
+  if (backup.data.exchangeRates) {
+    rateStorage.saveRateTable(
+      mode === 'replace'
+        ? backup.data.exchangeRates
+        : mergeRateTables(rateStorage.getRateTable(), backup.data.exchangeRates)
+    );
+  }
+
+  if (backup.data.budgets) {
+    budgetStorage.saveBudgets(
+      mode === 'replace'
+        ? backup.data.budgets
+        : mergeBudgetLists(budgetStorage.getBudgets(), backup.data.budgets)
+    );
+  }
+
+  if (backup.data.recurringRules) {
+    recurringStorage.saveRules(
+      mode === 'replace'
+        ? backup.data.recurringRules
+        : mergeRecurringRules(recurringStorage.getRules(), backup.data.recurringRules)
+    );
+  }
+
+  if (backup.data.groups) {
+    groupStorage.saveGroups(
+      mode === 'replace'
+        ? backup.data.groups
+        : mergeGroups(groupStorage.getGroups(), backup.data.groups)
+    );
+  }
+
+  if (backup.data.settlements) {
+    groupStorage.saveSettlements(
+      mode === 'replace'
+        ? backup.data.settlements
+        : mergeSettlements(groupStorage.getSettlements(), backup.data.settlements)
+    );
+  }
+
+  if (backup.data.accounts) {
+    accountStorage.saveAccounts(
+      mode === 'replace'
+        ? backup.data.accounts
+        : mergeAccounts(accountStorage.getAccounts(), backup.data.accounts)
+    );
+  }
+
+  if (mode === 'replace') {
+    settingsStorage.updateSettings(backup.data.settings);
+    storageUtils.clearQuarantine();
+    storageUtils.addToQuarantine(backup.data.quarantine);
+    storageUtils.saveDismissedDuplicates(backup.data.dismissedDuplicates);
+  } else {
+    storageUtils.dismissDuplicates(backup.data.dismissedDuplicates);
+  }
+
+  return changes;
+};
@@ -0,0 +1,223 @@
+import { Budget, Category, Expense, Money } from '@/types/expense';
+import { getCategoryPath } from './categories';
+import { CurrencyConversion } from './exchangeRates';
+import { mergeNewest } from './merge';
+import { withRefundedCategories } from '@/utils/refunds';
+import { categoryShares } from '@/utils/splits';
+import { spendingAmount, transactionType } from '@/utils/transactions';
+import { addMonths, format, parseISO } from 'date-fns';
+
+const BUDGETS_KEY = 'expense-tracker-budgets';
+
+// Share of a budget at which saving an expense starts to warn
+export const BUDGET_WARNING_RATIO = 0.8;
+
+export interface BudgetInput {
+  categoryId?: string;
+  amount: Money;
+  rollover: boolean;
+}
+
+// A budget's standing for one month, in minor units of the base currency
+export interface BudgetProgress {
+  budget: Budget;
+  limit: number; // The monthly amount plus anything rolled over
+  carried: number; // Unspent budget rolled over from earlier months
+  spent: number;
+  remaining: number; // Negative once overspent
+}
+
+// A budget that saving an expense would leave at or past a warning threshold
+export interface BudgetAlert {
+  progress: BudgetProgress;
+  threshold: number; // BUDGET_WARNING_RATIO, or 1 once spending goes over the limit
+  spentAfter: number;
+}
+
+// "2025-01" for a date or an ISO date string
+export const toMonth = (date: Date | string): string =>
+  typeof date === 'string' ? date.slice(0, 7) : format(date, 'yyyy-MM');
+
+const nextMonth = (month: string): string =>
+  format(addMonths(parseISO(`${month}-01`), 1), 'yyyy-MM');
+
+export const createBudget = (
+  input: BudgetInput,
+  startMonth: string = toMonth(new Date())
+): Budget => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    ...(input.categoryId ? { categoryId: input.categoryId } : {}),
+    amount: input.amount,
+    rollover: input.rollover,
+    startMonth,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Set the budget for a category, or the overall one, replacing any it already has.
+// A replaced budget keeps its start month so amounts rolled over so far are not lost.
+export const setBudget = (budgets: Budget[], input: BudgetInput): Budget[] => {
+  const existing = budgets.find(budget => budget.categoryId === input.categoryId);
+  if (!existing) return [...budgets, createBudget(input)];
+
+  return budgets.map(budget =>
+    budget === existing
+      ? {
+          ...budget,
+          amount: input.amount,
+          rollover: input.rollover,
+          updatedAt: new Date().toISOString(),
+        }
+      : budget
+  );
+};
+
+export const removeBudget = (budgets: Budget[], id: string): Budget[] =>
+  budgets.filter(budget => budget.id !== id);
+
+// Whether spending in the category counts towards the budget, directly or through a parent
+const coversCategory = (budget: Budget, categories: Category[], categoryId: string): boolean =>
+  !budget.categoryId ||
+  budget.categoryId === categoryId ||
+  getCategoryPath(categories, categoryId).some(category => category.id === budget.categoryId);
+
+// The part of an expense's converted total that counts towards the budget; for itemised
+// expenses only the items in covered categories do
+const coveredAmount = (
+  budget: Budget,
+  categories: Category[],
+  expense: Pick<Expense, 'categoryId' | 'lineItems'>,
+  total: number
+): number =>
+  categoryShares(expense, total)
+    .filter(share => coversCategory(budget, categories, share.categoryId))
+    .reduce((sum, share) => sum + share.amount, 0);
+
+// Spending towards the budget by month, less refunds; income and expenses with no exchange
+// rate are left out
+const spendingByMonth = (
+  budget: Budget,
+  expenses: Expense[],
+  categories: Category[],
+  conversion: CurrencyConversion
+): Map<string, number> => {
+  const totals = new Map<string, number>();
+
+  expenses.forEach(expense => {
+    const converted = conversion.toBase(expense);
+    if (!converted) return;
+    const amount = spendingAmount(
+      expense,
+      coveredAmount(budget, categories, expense, converted.minor)
+    );
+    if (amount === 0) return;
+
+    const month = toMonth(expense.date);
+    totals.set(month, (totals.get(month) ?? 0) + amount);
+  });
+
+  return totals;
+};
+
+// Where each budget stands in the given month. Budgets that have not started yet, or whose
+// amount has no exchange rate into the base currency, are left out.
+export const calculateBudgetProgress = (
+  budgets: Budget[],
+  expenses: Expense[],
+  categories: Category[],
+  conversion: CurrencyConversion,
+  month: string = toMonth(new Date())
+): BudgetProgress[] => {
+  // Linked refunds count against the budgets of what they refund
+  const linked = withRefundedCategories(expenses);
+
+  return budgets.flatMap(budget => {
+    const monthlyAmount = (m: string) =>
+      conversion.toBase({ amount: budget.amount, date: `${m}-01` })?.minor ?? null;
+
+    const amount = monthlyAmount(month);
+    if (budget.startMonth > month || amount === null) return [];
+
+    // Unspent budget carries forward; overspending one month does not shrink the next
+    const spending = spendingByMonth(budget, linked, categories, conversion);
+    let carried = 0;
+    if (budget.rollover) {
+      for (let m = budget.startMonth; m < month; m = nextMonth(m)) {
+        carried = Math.max(0, (monthlyAmount(m) ?? 0) + carried - (spending.get(m) ?? 0));
+      }
+    }
+
+    const spent = spending.get(month) ?? 0;
+    const limit = amount + carried;
+    return [{ budget, limit, carried, spent, remaining: limit - spent }];
+  });
+};
+
+// Budgets that adding the expense would bring to 80% of their limit or take over it. Only the
+// save that crosses a threshold warns, so later saves in a strained month go through quietly.
+export const findBudgetAlerts = (
+  budgets: Budget[],
+  expenses: Expense[],
+  categories: Category[],
+  conversion: CurrencyConversion,
+  expense: Pick<Expense, 'type' | 'amount' | 'date' | 'categoryId' | 'lineItems'>
+): BudgetAlert[] => {
+  const amount = conversion.toBase(expense)?.minor ?? 0;
+  if (amount <= 0 || transactionType(expense) !== 'expense') return [];
+
+  const affected = budgets.filter(
+    budget => coveredAmount(budget, categories, expense, amount) > 0
+  );
+
+  return calculateBudgetProgress(
+    affected,
+    expenses,
+    categories,
+    conversion,
+    toMonth(expense.date)
+  ).flatMap(progress => {
+    const spentAfter =
+      progress.spent + coveredAmount(progress.budget, categories, expense, amount);
+    const warningLevel = progress.limit * BUDGET_WARNING_RATIO;
+    if (spentAfter > progress.limit) {
+      return progress.spent > progress.limit ? [] : [{ progress, threshold: 1, spentAfter }];
+    }
+    if (spentAfter >= warningLevel && progress.spent < warningLevel) {
+      return [{ progress, threshold: BUDGET_WARNING_RATIO, spentAfter }];
+    }
+    return [];
+  });
+};
+
+// One budget per category: the newer copy wins, budgets only on one side are kept
+export const mergeBudgetLists = (current: Budget[], incoming: Budget[]): Budget[] =>
+  mergeNewest(current, incoming, budget => budget.categoryId ?? '');
+
+export const budgetStorage = {
+  // Get all budgets
+  getBudgets(): Budget[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const data = localStorage.getItem(BUDGETS_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error reading budgets from localStorage:', error);
+      return [];
+    }
+  },
+
+  // Save the full budget list
+  saveBudgets(budgets: Budget[]): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+    } catch (error) {
+      console.error('Error writing budgets to localStorage:', error);
+    }
+  },
+};
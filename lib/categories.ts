@@ -0,0 +1,355 @@
+import { Category, CategoryColor, CategoryKind, Expense } from '@/types/expense';
+import { mergeById } from './merge';
+import { Translator, createTranslator } from './i18n';
+
+const CATEGORIES_KEY = 'expense-tracker-categories';
+
+export interface CategoryInput {
+  name: string;
+  color: CategoryColor;
+  icon: string;
+  parentId?: string;
+  kind?: CategoryKind; // Subcategories always take their parent's kind
+}
+
+// A category with its position in the tree, as listed depth-first
+export interface CategoryTreeEntry {
+  category: Category;
+  depth: number;
+  hasChildren: boolean;
+}
+
+export const CATEGORY_COLORS: CategoryColor[] = [
+  'green',
+  'blue',
+  'purple',
+  'pink',
+  'orange',
+  'red',
+  'yellow',
+  'teal',
+  'indigo',
+  'gray',
+];
+
+// Full class names so Tailwind can see them at build time
+export const categoryBadgeClasses: Record<CategoryColor, string> = {
+  green: 'bg-green-100 text-green-800',
+  blue: 'bg-blue-100 text-blue-800',
+  purple: 'bg-purple-100 text-purple-800',
+  pink: 'bg-pink-100 text-pink-800',
+  orange: 'bg-orange-100 text-orange-800',
+  red: 'bg-red-100 text-red-800',
+  yellow: 'bg-yellow-100 text-yellow-800',
+  teal: 'bg-teal-100 text-teal-800',
+  indigo: 'bg-indigo-100 text-indigo-800',
+  gray: 'bg-gray-100 text-gray-800',
+};
+
+export const categoryBarClasses: Record<CategoryColor, string> = {
+  green: 'bg-green-500',
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  pink: 'bg-pink-500',
+  orange: 'bg-orange-500',
+  red: 'bg-red-500',
+  yellow: 'bg-yellow-500',
+  teal: 'bg-teal-500',
+  indigo: 'bg-indigo-500',
+  gray: 'bg-gray-500',
+};
+
+// The categories that used to be hard-coded. Their ids are the lower-cased old names,
+// which is what the schema migration maps existing expenses to.
+const DEFAULT_CATEGORIES: (CategoryInput & { id: string })[] = [
+  { id: 'food', name: 'Food', color: 'green', icon: '🍔' },
+  { id: 'transportation', name: 'Transportation', color: 'blue', icon: '🚗' },
+  { id: 'entertainment', name: 'Entertainment', color: 'purple', icon: '🎬' },
+  { id: 'shopping', name: 'Shopping', color: 'pink', icon: '🛍️' },
+  { id: 'bills', name: 'Bills', color: 'orange', icon: '🧾' },
+  { id: 'other', name: 'Other', color: 'gray', icon: '📦' },
+];
+
+// Added alongside the spending ones, including for anyone who set up before income was tracked
+const DEFAULT_INCOME_CATEGORIES: (CategoryInput & { id: string })[] = [
+  { id: 'salary', name: 'Salary', color: 'green', icon: '💼', kind: 'income' },
+  { id: 'freelance', name: 'Freelance', color: 'teal', icon: '🧑‍💻', kind: 'income' },
+  { id: 'interest', name: 'Interest', color: 'indigo', icon: '🏦', kind: 'income' },
+  { id: 'other-income', name: 'Other Income', color: 'yellow', icon: '💰', kind: 'income' },
+];
+
+const FALLBACK_CATEGORY_IDS: Record<CategoryKind, string> = {
+  expense: 'other',
+  income: 'other-income',
+};
+
+const toDefaultCategories = (inputs: (CategoryInput & { id: string })[]): Category[] => {
+  const now = new Date().toISOString();
+  return inputs.map(category => ({
+    ...category,
+    archived: false,
+    createdAt: now,
+    updatedAt: now,
+  }));
+};
+
+export const createDefaultCategories = (): Category[] =>
+  toDefaultCategories([...DEFAULT_CATEGORIES, ...DEFAULT_INCOME_CATEGORIES]);
+
+// The default income categories missing from a list saved before income was tracked
+const missingIncomeCategories = (categories: Category[]): Category[] =>
+  toDefaultCategories(
+    DEFAULT_INCOME_CATEGORIES.filter(
+      income => !categories.some(category => category.id === income.id)
+    )
+  );
+
+// Omitted kinds are spending categories
+export const categoryKind = (category: Pick<Category, 'kind'>): CategoryKind =>
+  category.kind ?? 'expense';
+
+export const categoriesOfKind = (categories: Category[], kind: CategoryKind): Category[] =>
+  categories.filter(category => categoryKind(category) === kind);
+
+export const createCategory = (input: CategoryInput, categories: Category[] = []): Category => {
+  const now = new Date().toISOString();
+  const parent = input.parentId
+    ? categories.find(category => category.id === input.parentId)
+    : undefined;
+  const kind = parent ? categoryKind(parent) : (input.kind ?? 'expense');
+  return {
+    id: crypto.randomUUID(),
+    name: input.name.trim(),
+    color: input.color,
+    icon: input.icon.trim(),
+    ...(input.parentId ? { parentId: input.parentId } : {}),
+    ...(kind === 'income' ? { kind } : {}),
+    archived: false,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const updateCategory = (
+  categories: Category[],
+  id: string,
+  updates: Partial<CategoryInput & { archived: boolean }>
+): Category[] =>
+  categories.map(category => {
+    if (category.id !== id) return category;
+
+    const { parentId, ...rest } = {
+      ...category,
+      ...updates,
+      name: updates.name !== undefined ? updates.name.trim() : category.name,
+      updatedAt: new Date().toISOString(),
+    };
+    // An empty parent moves the category to the top level
+    return parentId ? { ...rest, parentId } : rest;
+  });
+
+// Ids of every category nested anywhere below the given one
+export const getDescendantIds = (categories: Category[], id: string): string[] => {
+  const children = categories.filter(category => category.parentId === id);
+  return children.flatMap(child => [child.id, ...getDescendantIds(categories, child.id)]);
+};
+
+// Categories the given one may be moved under without creating a loop
+export const validParents = (categories: Category[], id?: string): Category[] => {
+  const excluded = new Set(id ? [id, ...getDescendantIds(categories, id)] : []);
+  return categories.filter(category => !excluded.has(category.id));
+};
+
+// Treat categories whose parent is missing as top-level, so nothing drops out of the tree
+const parentOf = (categories: Category[], category: Category): string | undefined =>
+  category.parentId && categories.some(other => other.id === category.parentId)
+    ? category.parentId
+    : undefined;
+
+// Depth-first listing with siblings sorted by name, or by the given comparison
+export const flattenCategoryTree = (
+  categories: Category[],
+  compare: (a: Category, b: Category) => number = (a, b) => a.name.localeCompare(b.name)
+): CategoryTreeEntry[] => {
+  const visit = (parentId: string | undefined, depth: number): CategoryTreeEntry[] =>
+    categories
+      .filter(category => parentOf(categories, category) === parentId)
+      .sort(compare)
+      .flatMap(category => {
+        const children = visit(category.id, depth + 1);
+        return [{ category, depth, hasChildren: children.length > 0 }, ...children];
+      });
+
+  return visit(undefined, 0);
+};
+
+// The category and its ancestors, outermost first
+export const getCategoryPath = (categories: Category[], id: string): Category[] => {
+  const path: Category[] = [];
+  let current: Category | undefined = categories.find(category => category.id === id);
+
+  while (current && !path.includes(current)) {
+    path.unshift(current);
+    const parentId = parentOf(categories, current);
+    current = parentId ? categories.find(category => category.id === parentId) : undefined;
+  }
+
+  return path;
+};
+
+// "Bills › Utilities › Electricity"
+export const getCategoryLabel = (categories: Category[], id: string): string => {
+  const path = getCategoryPath(categories, id);
+  return path.length > 0 ? path.map(category => category.name).join(' › ') : 'Unknown';
+};
+
+// Archive the source and hang its subcategories under the target
+export const mergeCategoryInto = (
+  categories: Category[],
+  sourceId: string,
+  targetId: string
+): Category[] => {
+  const now = new Date().toISOString();
+  return categories.map(category => {
+    if (category.id === sourceId) return { ...category, archived: true, updatedAt: now };
+    if (category.parentId === sourceId) return { ...category, parentId: targetId, updatedAt: now };
+    return category;
+  });
+};
+
+// Returns an error message, or null if the name can be used
+export const validateCategoryName = (
+  name: string,
+  categories: Category[],
+  excludeId?: string,
+  t: Translator = createTranslator('en')
+): string | null => {
+  const trimmed = name.trim();
+
+  if (!trimmed) return t('categories.nameRequired');
+  if (trimmed.length > 40) return t('categories.nameTooLong', { max: 40 });
+  if (
+    categories.some(
+      category =>
+        category.id !== excludeId && category.name.toLowerCase() === trimmed.toLowerCase()
+    )
+  ) {
+    return t('categories.nameTaken');
+  }
+
+  return null;
+};
+
+// Categories offered for new expenses, plus the current one so editing never loses it
+export const selectableCategories = (categories: Category[], currentId?: string): Category[] =>
+  categories.filter(category => !category.archived || category.id === currentId);
+
+// Options for a category <Select>, indented to show the tree
+export const categoryOptions = (
+  categories: Category[],
+  currentId?: string
+): { value: string; label: string }[] =>
+  flattenCategoryTree(selectableCategories(categories, currentId)).map(({ category, depth }) => ({
+    value: category.id,
+    label: `${'\u00a0\u00a0\u00a0'.repeat(depth)}${category.icon} ${category.name}`,
+  }));
+
+// Category used when nothing else is chosen: "Other" (or "Other Income") while it is active,
+// else the first active one of the kind
+export const getDefaultCategoryId = (
+  categories: Category[],
+  kind: CategoryKind = 'expense'
+): string => {
+  const active = selectableCategories(categoriesOfKind(categories, kind));
+  return (
+    (active.find(category => category.id === FALLBACK_CATEGORY_IDS[kind]) ?? active[0])?.id ?? ''
+  );
+};
+
+// Look up a category, falling back to a placeholder for ids that are no longer known
+export const findCategory = (categories: Category[], id: string): Category =>
+  categories.find(category => category.id === id) ?? {
+    id,
+    name: 'Unknown',
+    color: 'gray',
+    icon: '❔',
+    archived: true,
+    createdAt: '',
+    updatedAt: '',
+  };
+
+export const findCategoryByName = (categories: Category[], name: string): Category | null =>
+  categories.find(category => category.name.toLowerCase() === name.trim().toLowerCase()) ?? null;
+
+// Every category an expense is filed under: its own and those of its line items, each once
+export const expenseCategoryIds = (expense: Pick<Expense, 'categoryId' | 'lineItems'>): string[] =>
+  Array.from(
+    new Set([expense.categoryId, ...(expense.lineItems ?? []).map(item => item.categoryId)])
+  );
+
+// Expenses with anything in the source category, recategorised into the target, line items too
+export const recategoriseExpenses = (
+  expenses: Expense[],
+  sourceId: string,
+  targetId: string
+): Expense[] => {
+  const now = new Date().toISOString();
+  const move = (categoryId: string) => (categoryId === sourceId ? targetId : categoryId);
+  return expenses
+    .filter(expense => expenseCategoryIds(expense).includes(sourceId))
+    .map(expense => ({
+      ...expense,
+      categoryId: move(expense.categoryId),
+      ...(expense.lineItems
+        ? {
+            lineItems: expense.lineItems.map(item => ({
+              ...item,
+              categoryId: move(item.categoryId),
+            })),
+          }
+        : {}),
+      updatedAt: now,
+    }));
+};
+
+// Newer copy of each category wins; categories only on one side are kept
+export const mergeCategoryLists = (current: Category[], incoming: Category[]): Category[] =>
+  mergeById(current, incoming);
+
+export const categoryStorage = {
+  // Get all categories, seeding the defaults the first time. Lists saved before income was
+  // tracked get the default income categories added.
+  getCategories(): Category[] {
+    if (typeof window === 'undefined') return createDefaultCategories();
+
+    try {
+      const data = localStorage.getItem(CATEGORIES_KEY);
+      if (data) {
+        const categories: Category[] = JSON.parse(data);
+        const added = missingIncomeCategories(categories);
+        if (added.length === 0) return categories;
+
+        this.saveCategories([...categories, ...added]);
+        return [...categories, ...added];
+      }
+    } catch (error) {
+      console.error('Error reading categories from localStorage:', error);
+      return createDefaultCategories();
+    }
+
+    const defaults = createDefaultCategories();
+    this.saveCategories(defaults);
+    return defaults;
+  },
+
+  // Save the full category list
+  saveCategories(categories: Category[]): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(CATEGORIES_KEY, JSON.stringify(categories));
+    } catch (error) {
+      console.error('Error writing categories to localStorage:', error);
+    }
+  },
+};
@@ -0,0 +1,282 @@
+import { Expense, Money } from '@/types/expense';
+import { parseCSV } from '@/utils/csvImport';
+import { fromMinorUnits, toMoney } from '@/utils/currency';
+import { format, isValid, parseISO } from 'date-fns';
+import { Translator, createTranslator } from './i18n';
+
+const RATES_KEY = 'expense-tracker-exchange-rates';
+
+// Amounts were always recorded in pounds before currencies were tracked
+export const DEFAULT_CURRENCY = 'GBP';
+
+// Offered in currency pickers; any other ISO 4217 code can still be added through the rate table
+export const COMMON_CURRENCIES = [
+  'GBP',
+  'EUR',
+  'USD',
+  'CHF',
+  'JPY',
+  'CAD',
+  'AUD',
+  'NZD',
+  'SEK',
+  'NOK',
+  'DKK',
+  'PLN',
+  'CZK',
+  'HUF',
+  'INR',
+  'CNY',
+  'HKD',
+  'SGD',
+  'ZAR',
+  'MXN',
+];
+
+export interface ExchangeRate {
+  currency: string;
+  rate: number; // Units of `currency` per 1 unit of the table's base
+  date: string; // yyyy-MM-dd the rate applies from
+}
+
+export interface RateTable {
+  // The currency every rate is quoted against; independent of the reporting base currency
+  base: string;
+  rates: ExchangeRate[];
+}
+
+// Turns an expense's own amount into the base currency, or null when no rate is known
+export interface CurrencyConversion {
+  baseCurrency: string;
+  toBase: (expense: Pick<Expense, 'amount' | 'date'>) => Money | null;
+}
+
+export const isCurrencyCode = (value: string): boolean => /^[A-Z]{3}$/.test(value);
+
+export const createRateTable = (base: string = DEFAULT_CURRENCY): RateTable => ({
+  base,
+  rates: [],
+});
+
+// Every currency the user can pick: the common ones, the rate table's and any extras given
+export const currencyOptions = (
+  table: RateTable,
+  ...extra: string[]
+): { value: string; label: string }[] =>
+  Array.from(
+    new Set([
+      ...COMMON_CURRENCIES,
+      table.base,
+      ...table.rates.map(rate => rate.currency),
+      ...extra,
+    ])
+  )
+    .filter(Boolean)
+    .map(code => ({ value: code, label: code }));
+
+// The rate in force on the given date. Dates before the first known rate use the earliest
+// one, so a rate entered today still converts older expenses.
+export const findRate = (table: RateTable, currency: string, date: string): number | null => {
+  if (currency === table.base) return 1;
+
+  const day = date.slice(0, 10);
+  const history = table.rates
+    .filter(rate => rate.currency === currency)
+    .sort((a, b) => a.date.localeCompare(b.date));
+  if (history.length === 0) return null;
+
+  const inForce = history.filter(rate => rate.date <= day);
+  return (inForce[inForce.length - 1] ?? history[0]).rate;
+};
+
+// Rounded once, to the target currency's minor unit, so converted totals still add up exactly
+export const convertMoney = (
+  amount: Money,
+  to: string,
+  table: RateTable,
+  date: string
+): Money | null => {
+  if (amount.currency === to) return amount;
+
+  const fromRate = findRate(table, amount.currency, date);
+  const toRate = findRate(table, to, date);
+  if (fromRate === null || toRate === null) return null;
+
+  return toMoney((fromMinorUnits(amount.minor, amount.currency) / fromRate) * toRate, to);
+};
+
+export const createConversion = (table: RateTable, baseCurrency: string): CurrencyConversion => ({
+  baseCurrency,
+  toBase: expense => convertMoney(expense.amount, baseCurrency, table, expense.date),
+});
+
+// Add a rate, replacing any existing one for the same currency and day
+export const setRate = (table: RateTable, rate: ExchangeRate): RateTable => ({
+  ...table,
+  rates: [
+    ...table.rates.filter(
+      existing => !(existing.currency === rate.currency && existing.date === rate.date)
+    ),
+    rate,
+  ].sort((a, b) => a.currency.localeCompare(b.currency) || b.date.localeCompare(a.date)),
+});
+
+export const removeRate = (table: RateTable, currency: string, date: string): RateTable => ({
+  ...table,
+  rates: table.rates.filter(rate => !(rate.currency === currency && rate.date === date)),
+});
+
+export interface ParsedRates {
+  // Currency the file's rates are quoted against, or null to use the table's base
+  base: string | null;
+  rates: ExchangeRate[];
+}
+
+const today = (): string => format(new Date(), 'yyyy-MM-dd');
+
+const parseRateDate = (value: unknown, fallback: string, t: Translator): string => {
+  if (typeof value !== 'string' || !value.trim()) return fallback;
+  const date = parseISO(value.trim());
+  if (!isValid(date)) throw new Error(t('rates.unknownDate', { value }));
+  return format(date, 'yyyy-MM-dd');
+};
+
+const parseRateValue = (currency: string, value: unknown, t: Translator): number => {
+  const rate = typeof value === 'number' ? value : parseFloat(String(value));
+  if (!isFinite(rate) || rate <= 0) throw new Error(t('rates.invalidRate', { currency }));
+  return rate;
+};
+
+const parseRateCurrency = (value: unknown, t: Translator): string => {
+  const code = String(value ?? '').trim().toUpperCase();
+  if (!isCurrencyCode(code)) throw new Error(t('rates.unknownCurrency', { value: String(value) }));
+  return code;
+};
+
+// Read a rates file. Accepts the common JSON shape { base, date, rates: { EUR: 1.17 } }
+// or CSV rows of currency,rate[,date] quoted against the table's base. Errors are in English
+// unless a translator for the interface language is given.
+export const parseRatesFile = (
+  text: string,
+  t: Translator = createTranslator('en')
+): ParsedRates => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new Error(t('rates.emptyFile'));
+
+  if (trimmed.startsWith('{')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error(t('rates.invalidJson'));
+    }
+
+    const { base, date, rates } = (parsed ?? {}) as Record<string, unknown>;
+    if (typeof rates !== 'object' || rates === null || Array.isArray(rates)) {
+      throw new Error(t('rates.noRates'));
+    }
+
+    const effectiveDate = parseRateDate(date, today(), t);
+    return {
+      base: base === undefined ? null : parseRateCurrency(base, t),
+      rates: Object.entries(rates).map(([code, value]) => {
+        const currency = parseRateCurrency(code, t);
+        return { currency, rate: parseRateValue(currency, value, t), date: effectiveDate };
+      }),
+    };
+  }
+
+  const delimiter = trimmed.includes(';') && !trimmed.includes(',') ? ';' : ',';
+  const rows = parseCSV(trimmed, delimiter).filter(row => row.some(cell => cell.trim()));
+  // Skip a header row such as "currency,rate,date"
+  const dataRows = rows.length > 0 && isNaN(parseFloat(rows[0][1])) ? rows.slice(1) : rows;
+  const fallbackDate = today();
+
+  return {
+    base: null,
+    rates: dataRows.map(([code, value, date]) => {
+      const currency = parseRateCurrency(code, t);
+      return {
+        currency,
+        rate: parseRateValue(currency, value, t),
+        date: parseRateDate(date, fallbackDate, t),
+      };
+    }),
+  };
+};
+
+// Merge imported rates into the table, re-quoting them against the table's base if the file
+// used another one. Throws when the file's base cannot be related to the table's.
+export const importRates = (
+  table: RateTable,
+  parsed: ParsedRates,
+  t: Translator = createTranslator('en')
+): RateTable => {
+  const fileBase = parsed.base ?? table.base;
+
+  const imported = parsed.rates.flatMap(rate => {
+    if (fileBase === table.base) return [rate];
+
+    // 1 table base = (file rate of X / file rate of table base) X
+    const baseInFile = parsed.rates.find(
+      other => other.currency === table.base && other.date === rate.date
+    )?.rate;
+    const fileBaseRate = baseInFile ? 1 / baseInFile : findRate(table, fileBase, rate.date);
+    if (fileBaseRate === null) {
+      throw new Error(t('rates.noBaseRate', { from: fileBase, to: table.base }));
+    }
+
+    const converted =
+      rate.currency === table.base ? [] : [{ ...rate, rate: rate.rate * fileBaseRate }];
+    // The file's own base is implied at 1, so record it too
+    const fileBaseEntry = parsed.rates.some(
+      other => other.currency === fileBase && other.date === rate.date
+    )
+      ? []
+      : [{ currency: fileBase, rate: fileBaseRate, date: rate.date }];
+    return [...converted, ...fileBaseEntry];
+  });
+
+  return imported.reduce(setRate, table);
+};
+
+// Rates from another table that are missing here. Rates quoted against a different base are
+// re-quoted when possible and skipped otherwise.
+export const mergeRateTables = (current: RateTable, incoming: RateTable): RateTable => {
+  const known = new Set(current.rates.map(rate => `${rate.currency}|${rate.date}`));
+  const missing = incoming.rates.filter(rate => !known.has(`${rate.currency}|${rate.date}`));
+
+  if (incoming.base === current.base) return missing.reduce(setRate, current);
+
+  try {
+    return importRates(current, { base: incoming.base, rates: missing });
+  } catch {
+    return current;
+  }
+};
+
+export const rateStorage = {
+  // Get the exchange rate table, or an empty one quoted in pounds
+  getRateTable(): RateTable {
+    if (typeof window === 'undefined') return createRateTable();
+
+    try {
+      const data = localStorage.getItem(RATES_KEY);
+      return data ? JSON.parse(data) : createRateTable();
+    } catch (error) {
+      console.error('Error reading exchange rates from localStorage:', error);
+      return createRateTable();
+    }
+  },
+
+  // Save the full rate table
+  saveRateTable(table: RateTable): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(RATES_KEY, JSON.stringify(table));
+    } catch (error) {
+      console.error('Error writing exchange rates to localStorage:', error);
+    }
+  },
+};
@@ -0,0 +1,232 @@
+import { Expense, Group, GroupMember, Money, Settlement } from '@/types/expense';
+import { CurrencyConversion } from './exchangeRates';
+import { splitAmounts } from '@/utils/splits';
+import { mergeById } from './merge';
+
+const GROUPS_KEY = 'expense-tracker-groups';
+const SETTLEMENTS_KEY = 'expense-tracker-settlements';
+
+// Where one member stands within a group, in minor units of the base currency.
+// A positive balance is owed to the member; a negative one is what they owe.
+export interface MemberBalance {
+  member: GroupMember;
+  paid: number; // Group expenses the member paid for
+  owed: number; // The member's shares of group expenses
+  balance: number; // paid - owed, plus settle-up payments made less those received
+}
+
+export interface GroupBalances {
+  balances: MemberBalance[];
+  unconvertedCount: number; // Group expenses with no exchange rate into the base currency
+}
+
+// A payment that would help settle the group up
+export interface Transfer {
+  fromMemberId: string;
+  toMemberId: string;
+  amount: number; // Minor units of the base currency
+}
+
+export interface SettlementInput {
+  groupId: string;
+  fromMemberId: string;
+  toMemberId: string;
+  amount: Money;
+  date: string;
+}
+
+const newMember = (name: string): GroupMember => ({ id: crypto.randomUUID(), name });
+
+// Trimmed names without blanks or repeats, ignoring case
+const distinctNames = (names: string[], taken: string[] = []): string[] => {
+  const seen = new Set(taken.map(name => name.toLowerCase()));
+  return names
+    .map(name => name.trim())
+    .filter(name => {
+      const key = name.toLowerCase();
+      if (!name || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+export const createGroup = (name: string, memberNames: string[]): Group => {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name: name.trim(),
+    members: distinctNames(memberNames).map(newMember),
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// Add members by name; names already in the group are skipped
+export const addMembers = (group: Group, names: string[]): Group => {
+  const added = distinctNames(names, group.members.map(member => member.name)).map(newMember);
+  if (added.length === 0) return group;
+
+  return {
+    ...group,
+    members: [...group.members, ...added],
+    updatedAt: new Date().toISOString(),
+  };
+};
+
+export const removeGroup = (groups: Group[], id: string): Group[] =>
+  groups.filter(group => group.id !== id);
+
+export const createSettlement = (input: SettlementInput): Settlement => {
+  const now = new Date().toISOString();
+  return { id: crypto.randomUUID(), ...input, createdAt: now, updatedAt: now };
+};
+
+export const removeSettlement = (settlements: Settlement[], id: string): Settlement[] =>
+  settlements.filter(settlement => settlement.id !== id);
+
+// Running balances from the group's expenses and the settle-up payments recorded so far
+export const calculateGroupBalances = (
+  group: Group,
+  expenses: Expense[],
+  settlements: Settlement[],
+  conversion: CurrencyConversion
+): GroupBalances => {
+  const byMember = new Map(
+    group.members.map(member => [member.id, { member, paid: 0, owed: 0, balance: 0 }])
+  );
+  let unconvertedCount = 0;
+
+  expenses
+    .filter(expense => expense.groupId === group.id)
+    .forEach(expense => {
+      const converted = conversion.toBase(expense);
+      if (!converted) {
+        unconvertedCount++;
+        return;
+      }
+
+      const payer = expense.paidBy ? byMember.get(expense.paidBy) : undefined;
+      if (payer) {
+        payer.paid += converted.minor;
+        payer.balance += converted.minor;
+      }
+      if (!expense.split) return;
+
+      // Split the converted total so the shares still add up to exactly what was paid
+      const amounts = splitAmounts(expense.split, converted.minor);
+      expense.split.shares.forEach((share, index) => {
+        const entry = share.memberId ? byMember.get(share.memberId) : undefined;
+        if (!entry) return;
+        entry.owed += amounts[index].amount;
+        entry.balance -= amounts[index].amount;
+      });
+    });
+
+  settlements
+    .filter(settlement => settlement.groupId === group.id)
+    .forEach(settlement => {
+      const amount = conversion.toBase(settlement)?.minor;
+      if (amount === undefined) return;
+      const from = byMember.get(settlement.fromMemberId);
+      const to = byMember.get(settlement.toMemberId);
+      if (from) from.balance += amount;
+      if (to) to.balance -= amount;
+    });
+
+  return { balances: Array.from(byMember.values()), unconvertedCount };
+};
+
+// Payments that would bring every balance to zero. Debts and credits of exactly the same size
+// are paired off first, then the largest debtor pays the largest creditor until all are clear.
+// That takes at most one payment fewer than there are members with a balance, and usually the
+// fewest possible; finding the true minimum in every case is not worth the search it needs.
+export const planSettlement = (balances: MemberBalance[]): Transfer[] => {
+  const debtors = balances
+    .filter(entry => entry.balance < 0)
+    .map(entry => ({ id: entry.member.id, amount: -entry.balance }));
+  const creditors = balances
+    .filter(entry => entry.balance > 0)
+    .map(entry => ({ id: entry.member.id, amount: entry.balance }));
+  const transfers: Transfer[] = [];
+
+  debtors.forEach(debtor => {
+    const match = creditors.find(creditor => creditor.amount === debtor.amount);
+    if (!match) return;
+    transfers.push({ fromMemberId: debtor.id, toMemberId: match.id, amount: debtor.amount });
+    debtor.amount = 0;
+    match.amount = 0;
+  });
+
+  const largest = (entries: { id: string; amount: number }[]) =>
+    entries.reduce<{ id: string; amount: number } | null>(
+      (best, entry) => (entry.amount > 0 && (!best || entry.amount > best.amount) ? entry : best),
+      null
+    );
+
+  for (let debtor = largest(debtors); debtor; debtor = largest(debtors)) {
+    const creditor = largest(creditors);
+    if (!creditor) break;
+    const amount = Math.min(debtor.amount, creditor.amount);
+    transfers.push({ fromMemberId: debtor.id, toMemberId: creditor.id, amount });
+    debtor.amount -= amount;
+    creditor.amount -= amount;
+  }
+
+  return transfers;
+};
+
+export const mergeGroups = (current: Group[], incoming: Group[]): Group[] =>
+  mergeById(current, incoming);
+
+export const mergeSettlements = (current: Settlement[], incoming: Settlement[]): Settlement[] =>
+  mergeById(current, incoming);
+
+export const groupStorage = {
+  // Get all groups
+  getGroups(): Group[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const data = localStorage.getItem(GROUPS_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error reading groups from localStorage:', error);
+      return [];
+    }
+  },
+
+  // Save the full group list
+  saveGroups(groups: Group[]): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(GROUPS_KEY, JSON.stringify(groups));
+    } catch (error) {
+      console.error('Error writing groups to localStorage:', error);
+    }
+  },
+
+  // Get all recorded settle-up payments
+  getSettlements(): Settlement[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const data = localStorage.getItem(SETTLEMENTS_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error reading settlements from localStorage:', error);
+      return [];
+    }
+  },
+
+  // Save the full settlement list
+  saveSettlements(settlements: Settlement[]): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(SETTLEMENTS_KEY, JSON.stringify(settlements));
+    } catch (error) {
+      console.error('Error writing settlements to localStorage:', error);
+    }
+  },
+};
@@ -0,0 +1,169 @@
+import { Expense } from '@/types/expense';
+import type { ExpenseRepository } from './repository';
+import { CURRENT_SCHEMA_VERSION } from './schema';
+
+const HISTORY_KEY = 'expense-tracker-history';
+const MAX_HISTORY = 50;
+// Characters of JSON kept in localStorage; a large import's snapshots would crowd out the rest
+const MAX_SAVED_SIZE = 1_000_000;
+
+export type OperationType = 'add' | 'update' | 'delete' | 'bulk';
+
+// Snapshot of a single record either side of an operation; null means "did not exist"
+export interface ExpenseChange {
+  id: string;
+  before: Expense | null;
+  after: Expense | null;
+}
+
+export interface HistoryOperation {
+  id: string;
+  type: OperationType;
+  label: string;
+  timestamp: string;
+  changes: ExpenseChange[];
+}
+
+export interface HistoryState {
+  past: HistoryOperation[];
+  future: HistoryOperation[];
+}
+
+export interface AppliedChanges {
+  upserted: Expense[];
+  deletedIds: string[];
+}
+
+export const emptyHistory: HistoryState = { past: [], future: [] };
+
+export const createOperation = (
+  type: OperationType,
+  label: string,
+  changes: ExpenseChange[]
+): HistoryOperation => ({
+  id: crypto.randomUUID(),
+  type,
+  label,
+  timestamp: new Date().toISOString(),
+  changes,
+});
+
+// Push a new operation; anything that was undone can no longer be redone
+export const recordOperation = (state: HistoryState, operation: HistoryOperation): HistoryState => ({
+  past: [...state.past, operation].slice(-MAX_HISTORY),
+  future: [],
+});
+
+export const undoOperation = (
+  state: HistoryState
+): { state: HistoryState; operation: HistoryOperation } | null => {
+  const operation = state.past[state.past.length - 1];
+  if (!operation) return null;
+
+  return {
+    operation,
+    state: {
+      past: state.past.slice(0, -1),
+      future: [operation, ...state.future],
+    },
+  };
+};
+
+export const redoOperation = (
+  state: HistoryState
+): { state: HistoryState; operation: HistoryOperation } | null => {
+  const [operation, ...future] = state.future;
+  if (!operation) return null;
+
+  return {
+    operation,
+    state: {
+      past: [...state.past, operation].slice(-MAX_HISTORY),
+      future,
+    },
+  };
+};
+
+// Write one side of an operation's snapshots back to the repository
+export const applyChanges = async (
+  repository: ExpenseRepository,
+  changes: ExpenseChange[],
+  direction: 'undo' | 'redo'
+): Promise<AppliedChanges> => {
+  const now = new Date().toISOString();
+  const upserted: Expense[] = [];
+  const deletedIds: string[] = [];
+
+  for (const change of changes) {
+    const target = direction === 'undo' ? change.before : change.after;
+
+    if (target) {
+      // Restamp so the restored copy wins when other tabs merge by updatedAt
+      upserted.push({ ...target, updatedAt: now });
+    } else if (await repository.delete(change.id)) {
+      deletedIds.push(change.id);
+    }
+  }
+
+  if (upserted.length > 0) {
+    await repository.putMany(upserted);
+  }
+
+  return { upserted, deletedIds };
+};
+
+// Snapshots written under an older schema cannot be replayed safely, so that journal is dropped
+export const loadHistory = (): HistoryState => {
+  if (typeof window === 'undefined') return emptyHistory;
+
+  try {
+    const data = localStorage.getItem(HISTORY_KEY);
+    if (!data) return emptyHistory;
+
+    const { schemaVersion, past, future } = JSON.parse(data);
+    return schemaVersion === CURRENT_SCHEMA_VERSION ? { past, future } : emptyHistory;
+  } catch (error) {
+    console.error('Error reading history from localStorage:', error);
+    return emptyHistory;
+  }
+};
+
+// Keep the operations nearest the present that fit in the size limit. Each side stops at the
+// first operation that does not fit, so a reloaded journal never skips over one.
+export const fitHistory = (state: HistoryState, maxSize: number = MAX_SAVED_SIZE): HistoryState => {
+  let size = 0;
+  const fits = (operation: HistoryOperation): boolean => {
+    size += JSON.stringify(operation).length;
+    return size <= maxSize;
+  };
+
+  const past: HistoryOperation[] = [];
+  for (const operation of [...state.past].reverse()) {
+    if (!fits(operation)) break;
+    past.unshift(operation);
+  }
+
+  const future: HistoryOperation[] = [];
+  for (const operation of state.future) {
+    if (!fits(operation)) break;
+    future.push(operation);
+  }
+
+  return { past, future };
+};
+
+// The journal in memory is what undo and redo work from; this copy only lets it survive a reload.
+// If it cannot be written, the stale copy is removed rather than left to undo the wrong thing.
+export const saveHistory = (state: HistoryState): void => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    localStorage.setItem(
+      HISTORY_KEY,
+      JSON.stringify({ schemaVersion: CURRENT_SCHEMA_VERSION, ...fitHistory(state) })
+    );
+  } catch (error) {
+    console.error('Error writing history to localStorage:', error);
+    localStorage.removeItem(HISTORY_KEY);
+  }
+};
@@ -0,0 +1,59 @@
+import { en } from './messages/en';
+import { de } from './messages/de';
+
+// A message that varies with `count`, keyed by CLDR plural category ("one", "few", ...)
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+export type Message = string | PluralMessage;
+
+// English is the reference catalogue: every other language translates the same keys
+export type MessageKey = keyof typeof en;
+
+export type MessageCatalogue = Record<MessageKey, Message>;
+
+export type MessageParams = Record<string, string | number>;
+
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+export type Language = 'en' | 'de';
+
+export const DEFAULT_LANGUAGE: Language = 'en';
+
+// Offered in the language switcher, each named in its own language
+export const LANGUAGES: { value: Language; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'de', label: 'Deutsch' },
+];
+
+const catalogues: Record<Language, Partial<MessageCatalogue>> = { en, de };
+
+export const isLanguage = (value: unknown): value is Language =>
+  LANGUAGES.some(language => language.value === value);
+
+// Replace "{name}" placeholders, leaving unknown ones visible rather than blank
+const interpolate = (template: string, params: MessageParams): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+
+const selectPlural = (message: PluralMessage, language: Language, count: number): string =>
+  message[new Intl.PluralRules(language).select(count)] ?? message.other;
+
+// Look up a message, falling back to English for keys a catalogue has not translated yet
+export const translate = (
+  language: Language,
+  key: MessageKey,
+  params: MessageParams = {}
+): string => {
+  const message: Message = catalogues[language][key] ?? en[key];
+  const template =
+    typeof message === 'string'
+      ? message
+      : selectPlural(message, language, Number(params.count ?? 0));
+  return interpolate(template, params);
+};
+
+export const createTranslator =
+  (language: Language): Translator =>
+  (key, params) =>
+    translate(language, key, params);
@@ -0,0 +1,338 @@
+import { Expense, TrashedExpense } from '@/types/expense';
+import type { ExpenseRepository } from './repository';
+import type { StoredAttachment } from './attachments';
+import {
+  CURRENT_SCHEMA_VERSION,
+  QuarantinedRecord,
+  migrateRecords,
+  partitionRecords,
+} from './schema';
+import { storageUtils } from './storage';
+
+const DB_NAME = 'expense-tracker';
+const DB_VERSION = 5;
+const EXPENSE_STORE = 'expenses';
+const TRASH_STORE = 'trash';
+const META_STORE = 'meta';
+// Receipt blobs, stored out-of-line as { id, blob }
+const ATTACHMENT_STORE = 'attachments';
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+// The expenses store was introduced at schema version 1, before versions were recorded
+const INITIAL_SCHEMA_VERSION = 1;
+
+export const isIndexedDBAvailable = (): boolean =>
+  typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+
+// Wrap an IDBRequest in a promise
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolve once a transaction has committed
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(EXPENSE_STORE)) {
+        const store = db.createObjectStore(EXPENSE_STORE, { keyPath: 'id' });
+        store.createIndex('date', 'date');
+        store.createIndex('categoryId', 'categoryId');
+      } else {
+        // Schema 2 replaced the category name with a category id
+        const store = (request.transaction as IDBTransaction).objectStore(EXPENSE_STORE);
+        if (store.indexNames.contains('category')) store.deleteIndex('category');
+        if (!store.indexNames.contains('categoryId')) store.createIndex('categoryId', 'categoryId');
+      }
+      if (!db.objectStoreNames.contains(META_STORE)) {
+        db.createObjectStore(META_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(TRASH_STORE)) {
+        const trash = db.createObjectStore(TRASH_STORE, { keyPath: 'id' });
+        trash.createIndex('deletedAt', 'deletedAt');
+      }
+      if (!db.objectStoreNames.contains(ATTACHMENT_STORE)) {
+        db.createObjectStore(ATTACHMENT_STORE, { keyPath: 'id' });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Bring stored records up to the current schema, quarantining any that no longer validate.
+// Resolves to true when the records were saved by a newer version of the app and left alone.
+const upgradeStoredRecords = async (db: IDBDatabase): Promise<boolean> => {
+  const transaction = db.transaction([EXPENSE_STORE, TRASH_STORE, META_STORE], 'readwrite');
+  const metaStore = transaction.objectStore(META_STORE);
+
+  const meta = await promisifyRequest<{ key: string; value: number } | undefined>(
+    metaStore.get(SCHEMA_VERSION_KEY)
+  );
+  const storedVersion = meta?.value ?? INITIAL_SCHEMA_VERSION;
+
+  if (storedVersion >= CURRENT_SCHEMA_VERSION) {
+    if (!meta) metaStore.put({ key: SCHEMA_VERSION_KEY, value: CURRENT_SCHEMA_VERSION });
+    await transactionDone(transaction);
+    return storedVersion > CURRENT_SCHEMA_VERSION;
+  }
+
+  const quarantined: QuarantinedRecord[] = [];
+
+  for (const storeName of [EXPENSE_STORE, TRASH_STORE]) {
+    const store = transaction.objectStore(storeName);
+    const records = await promisifyRequest<unknown[]>(store.getAll());
+    const result = partitionRecords(migrateRecords(records, storedVersion), CURRENT_SCHEMA_VERSION);
+
+    store.clear();
+    result.expenses.forEach(expense => store.put(expense));
+    quarantined.push(...result.quarantined);
+  }
+
+  metaStore.put({ key: SCHEMA_VERSION_KEY, value: CURRENT_SCHEMA_VERSION });
+  await transactionDone(transaction);
+
+  if (quarantined.length > 0) {
+    storageUtils.addToQuarantine(quarantined);
+  }
+  return false;
+};
+
+export const createIndexedDBRepository = async (): Promise<ExpenseRepository> => {
+  const db = await openDatabase();
+  const readOnly = await upgradeStoredRecords(db);
+
+  const readStore = () => db.transaction(EXPENSE_STORE, 'readonly').objectStore(EXPENSE_STORE);
+
+  // Writing records back at this build's version would drop what it does not understand, so
+  // changes to newer data are rolled back instead, as the localStorage backend skips them
+  const commit = async (transaction: IDBTransaction): Promise<void> => {
+    if (readOnly) {
+      console.error('Not writing expenses: they were saved by a newer version of the app');
+      transaction.abort();
+      return;
+    }
+    await transactionDone(transaction);
+  };
+
+  const repository: ExpenseRepository = {
+    isReadOnly() {
+      return readOnly;
+    },
+
+    async getAll() {
+      return promisifyRequest<Expense[]>(readStore().getAll());
+    },
+
+    async getById(id) {
+      const expense = await promisifyRequest<Expense | undefined>(readStore().get(id));
+      return expense ?? null;
+    },
+
+    async getByDateRange(startDate, endDate) {
+      // Dates may carry a time component, so extend the upper bound past the end of the day
+      const range = IDBKeyRange.bound(startDate, `${endDate}\uffff`);
+      return promisifyRequest<Expense[]>(readStore().index('date').getAll(range));
+    },
+
+    async getByCategory(categoryId) {
+      return promisifyRequest<Expense[]>(readStore().index('categoryId').getAll(categoryId));
+    },
+
+    async add(expense) {
+      const now = new Date().toISOString();
+      const newExpense: Expense = {
+        ...expense,
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      };
+
+      const transaction = db.transaction(EXPENSE_STORE, 'readwrite');
+      transaction.objectStore(EXPENSE_STORE).add(newExpense);
+      await commit(transaction);
+
+      return newExpense;
+    },
+
+    async addMany(expenses) {
+      const now = new Date().toISOString();
+      const added: Expense[] = expenses.map(expense => ({
+        ...expense,
+        id: crypto.randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      }));
+
+      const transaction = db.transaction(EXPENSE_STORE, 'readwrite');
+      const store = transaction.objectStore(EXPENSE_STORE);
+      added.forEach(expense => store.add(expense));
+      await commit(transaction);
+
+      return added;
+    },
+
+    async update(id, updates) {
+      const transaction = db.transaction(EXPENSE_STORE, 'readwrite');
+      const store = transaction.objectStore(EXPENSE_STORE);
+      const existing = await promisifyRequest<Expense | undefined>(store.get(id));
+
+      if (!existing) return null;
+
+      const updatedExpense: Expense = {
+        ...existing,
+        ...updates,
+        updatedAt: new Date().toISOString(),
+      };
+
+      store.put(updatedExpense);
+      await commit(transaction);
+
+      return updatedExpense;
+    },
+
+    async delete(id) {
+      const deleted = await repository.deleteMany([id]);
+      return deleted.length > 0;
+    },
+
+    async deleteMany(ids) {
+      const transaction = db.transaction([EXPENSE_STORE, TRASH_STORE], 'readwrite');
+      const expenseStore = transaction.objectStore(EXPENSE_STORE);
+      const trashStore = transaction.objectStore(TRASH_STORE);
+      const deletedAt = new Date().toISOString();
+      const deletedIds: string[] = [];
+
+      for (const id of ids) {
+        const existing = await promisifyRequest<Expense | undefined>(expenseStore.get(id));
+        if (!existing) continue;
+
+        const trashed: TrashedExpense = { ...existing, deletedAt };
+        trashStore.put(trashed);
+        expenseStore.delete(id);
+        deletedIds.push(id);
+      }
+
+      await commit(transaction);
+      return deletedIds;
+    },
+
+    async putMany(expenses) {
+      const transaction = db.transaction([EXPENSE_STORE, TRASH_STORE], 'readwrite');
+      const expenseStore = transaction.objectStore(EXPENSE_STORE);
+      const trashStore = transaction.objectStore(TRASH_STORE);
+      expenses.forEach(expense => {
+        expenseStore.put(expense);
+        trashStore.delete(expense.id);
+      });
+      await commit(transaction);
+    },
+
+    async clear() {
+      const ids = await promisifyRequest<IDBValidKey[]>(readStore().getAllKeys());
+      await repository.deleteMany(ids as string[]);
+    },
+
+    async getTrash() {
+      const store = db.transaction(TRASH_STORE, 'readonly').objectStore(TRASH_STORE);
+      return promisifyRequest<TrashedExpense[]>(store.getAll());
+    },
+
+    async putTrash(expenses) {
+      const transaction = db.transaction([EXPENSE_STORE, TRASH_STORE], 'readwrite');
+      const expenseStore = transaction.objectStore(EXPENSE_STORE);
+      const trashStore = transaction.objectStore(TRASH_STORE);
+      expenses.forEach(expense => {
+        trashStore.put(expense);
+        expenseStore.delete(expense.id);
+      });
+      await commit(transaction);
+    },
+
+    async restore(ids) {
+      const transaction = db.transaction([EXPENSE_STORE, TRASH_STORE], 'readwrite');
+      const expenseStore = transaction.objectStore(EXPENSE_STORE);
+      const trashStore = transaction.objectStore(TRASH_STORE);
+      const now = new Date().toISOString();
+      const restored: Expense[] = [];
+
+      for (const id of ids) {
+        const trashed = await promisifyRequest<TrashedExpense | undefined>(trashStore.get(id));
+        if (!trashed) continue;
+
+        const { deletedAt: _deletedAt, ...expense } = trashed;
+        const restoredExpense: Expense = { ...expense, updatedAt: now };
+        expenseStore.put(restoredExpense);
+        trashStore.delete(id);
+        restored.push(restoredExpense);
+      }
+
+      await commit(transaction);
+      return restored;
+    },
+
+    async purge(ids) {
+      const transaction = db.transaction(TRASH_STORE, 'readwrite');
+      const store = transaction.objectStore(TRASH_STORE);
+      let purged = 0;
+
+      for (const id of ids) {
+        if ((await promisifyRequest(store.count(id))) > 0) {
+          store.delete(id);
+          purged++;
+        }
+      }
+
+      await commit(transaction);
+      return purged;
+    },
+
+    async purgeTrashedBefore(cutoff) {
+      const transaction = db.transaction(TRASH_STORE, 'readwrite');
+      const index = transaction.objectStore(TRASH_STORE).index('deletedAt');
+      const keys = await promisifyRequest(index.getAllKeys(IDBKeyRange.upperBound(cutoff, true)));
+
+      keys.forEach(key => transaction.objectStore(TRASH_STORE).delete(key));
+      await commit(transaction);
+      return keys.length;
+    },
+
+    async getAttachment(id) {
+      const store = db.transaction(ATTACHMENT_STORE, 'readonly').objectStore(ATTACHMENT_STORE);
+      const stored = await promisifyRequest<StoredAttachment | undefined>(store.get(id));
+      return stored?.blob ?? null;
+    },
+
+    async putAttachments(files) {
+      const transaction = db.transaction(ATTACHMENT_STORE, 'readwrite');
+      const store = transaction.objectStore(ATTACHMENT_STORE);
+      files.forEach(file => store.put(file));
+      await commit(transaction);
+    },
+
+    async deleteAttachments(ids) {
+      const transaction = db.transaction(ATTACHMENT_STORE, 'readwrite');
+      const store = transaction.objectStore(ATTACHMENT_STORE);
+      ids.forEach(id => store.delete(id));
+      await commit(transaction);
+    },
+
+    async getAttachmentIds() {
+      const store = db.transaction(ATTACHMENT_STORE, 'readonly').objectStore(ATTACHMENT_STORE);
+      return (await promisifyRequest<IDBValidKey[]>(store.getAllKeys())) as string[];
+    },
+  };
+
+  return repository;
+};
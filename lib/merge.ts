@@ -0,0 +1,28 @@
+interface Versioned {
+  updatedAt: string;
+}
+
+// Merge two lists of records by key: the newer copy wins, records only on one side are kept
+export const mergeNewest = <T extends Versioned>(
+  current: T[],
+  incoming: T[],
+  keyOf: (record: T) => string
+): T[] => {
+  const merged = new Map(current.map(record => [keyOf(record), record]));
+
+  incoming.forEach(record => {
+    const key = keyOf(record);
+    const existing = merged.get(key);
+    if (
+      !existing ||
+      new Date(record.updatedAt).getTime() > new Date(existing.updatedAt).getTime()
+    ) {
+      merged.set(key, record);
+    }
+  });
+
+  return Array.from(merged.values());
+};
+
+export const mergeById = <T extends Versioned & { id: string }>(current: T[], incoming: T[]): T[] =>
+  mergeNewest(current, incoming, record => record.id);
@@ -0,0 +1,765 @@
+import type { MessageCatalogue } from '../i18n';
+
+export const de: MessageCatalogue = {
+  // Page shell
+  'app.title': 'Ausgaben-Tracker',
+  'app.loading': 'Ausgaben werden geladen...',
+  'app.language': 'Sprache',
+  'app.undo': 'Rückgängig',
+  'app.redo': 'Wiederholen',
+  'app.undoTitle': 'Rückgängig (Strg+Z)',
+  'app.redoTitle': 'Wiederholen (Strg+Umschalt+Z)',
+  'app.undone': 'Rückgängig gemacht: {label}',
+  'app.redone': 'Wiederholt: {label}',
+  'app.importCsv': 'CSV importieren',
+  'app.importStatement': 'Kontoauszug importieren',
+  'app.backup': 'Sicherung',
+  'app.exportCsv': 'CSV exportieren',
+  'app.exportZip': 'ZIP exportieren',
+  'app.exportZipTitle': 'Die CSV-Datei zusammen mit allen Belegen',
+  'app.receiptsNotSaved':
+    'Die Belege konnten nicht gespeichert werden; die Ausgabe wurde nicht gespeichert',
+  'app.addExpense': '+ Ausgabe hinzufügen',
+  'app.tabs': 'Reiter',
+  'app.tab.dashboard': 'Übersicht',
+  'app.tab.expenses': 'Alle Ausgaben',
+  'app.tab.categories': 'Kategorien',
+  'app.tab.budgets': 'Budgets',
+  'app.tab.recurring': 'Wiederkehrend',
+  'app.tab.groups': 'Gruppen',
+  'app.tab.accounts': 'Konten',
+  'app.tab.currencies': 'Währungen',
+  'app.tab.trash': 'Papierkorb',
+  'app.tab.trashCount': 'Papierkorb ({count})',
+  'app.quarantined': {
+    one:
+      '{count} gespeicherter Eintrag konnte nicht gelesen werden und wurde beiseitegelegt, statt geladen zu werden.',
+    other:
+      '{count} gespeicherte Einträge konnten nicht gelesen werden und wurden beiseitegelegt, statt geladen zu werden.',
+  },
+  'app.readOnly':
+    'Deine Ausgaben wurden mit einer neueren Version dieser App gespeichert, daher werden Änderungen hier nicht gespeichert. Aktualisiere die App, um weiter damit zu arbeiten.',
+  'app.downloadQuarantined': 'Einträge herunterladen',
+  'app.dismiss': 'Ausblenden',
+  'app.modal.addExpense': 'Neue Ausgabe hinzufügen',
+  'app.modal.editExpense': 'Ausgabe bearbeiten',
+  'app.modal.addRefund': 'Erstattung hinzufügen',
+  'app.modal.findDuplicates': 'Duplikate finden',
+  'app.modal.importCsv': 'Aus CSV importieren',
+  'app.modal.importStatement': 'Kontoauszug importieren',
+  'app.modal.backup': 'Sichern & Wiederherstellen',
+
+  // Undo history labels
+  'history.expenseAdded': 'Ausgabe hinzugefügt',
+  'history.expenseUpdated': 'Ausgabe aktualisiert',
+  'history.duplicatesMerged': 'Duplikate zusammengeführt',
+  'history.expensesImported': {
+    one: '{count} Ausgabe importiert',
+    other: '{count} Ausgaben importiert',
+  },
+  'history.expensesTrashed': {
+    one: 'Ausgabe in den Papierkorb verschoben',
+    other: '{count} Ausgaben in den Papierkorb verschoben',
+  },
+  'history.expensesRestored': {
+    one: 'Ausgabe wiederhergestellt',
+    other: '{count} Ausgaben wiederhergestellt',
+  },
+  'history.categoriesMerged': '{source} in {target} zusammengeführt',
+  'history.backupRestored': 'Sicherung wiederhergestellt',
+  'history.backupUnchanged': 'Sicherung wiederhergestellt, nichts geändert',
+  'history.recurringAdded': {
+    one: '{count} wiederkehrende Ausgabe hinzugefügt',
+    other: '{count} wiederkehrende Ausgaben hinzugefügt',
+  },
+  'history.expensesReconciled': {
+    one: '{count} Ausgabe abgeglichen',
+    other: '{count} Ausgaben abgeglichen',
+  },
+
+  // Dashboard
+  'dashboard.openExportHub': 'Export-Hub öffnen',
+  'dashboard.cloud': 'Cloud',
+  'dashboard.totalSpending': 'Gesamtausgaben',
+  'dashboard.thisMonth': 'Dieser Monat',
+  'dashboard.topCategory': 'Top-Kategorie',
+  'dashboard.noExpensesYet': 'Noch keine Ausgaben',
+  'dashboard.totalExpenses': 'Anzahl Ausgaben',
+  'dashboard.unconverted': {
+    one:
+      '{count} Ausgabe fehlt in diesen Summen, weil es keinen Wechselkurs nach {currency} gibt. Kurse lassen sich unter Währungen hinzufügen.',
+    other:
+      '{count} Ausgaben fehlen in diesen Summen, weil es keinen Wechselkurs nach {currency} gibt. Kurse lassen sich unter Währungen hinzufügen.',
+  },
+  'dashboard.cashFlow': 'Cashflow',
+  'dashboard.month': 'Monat',
+  'dashboard.income': 'Einnahmen',
+  'dashboard.spending': 'Ausgaben',
+  'dashboard.netSavings': 'Gespart',
+  'dashboard.savingsRate': 'Sparquote',
+  'dashboard.cashFlowNote':
+    'Ausgaben sind abzüglich Erstattungen. Die Sparquote ist der gesparte Anteil der Einnahmen.',
+  'dashboard.byCategory': 'Ausgaben nach Kategorie',
+  'dashboard.budgets': 'Budgets in diesem Monat',
+  'dashboard.overallBudget': 'Gesamt',
+  'dashboard.budgetSpent': '{spent} von {limit}',
+  'dashboard.budgetLeft': 'noch {amount}',
+  'dashboard.budgetOver': '{amount} darüber',
+  'dashboard.budgetCarried': 'Davon {amount} aus Vormonaten übertragen',
+  'dashboard.noBudgets':
+    'Noch keine Budgets. Monatliche Grenzen lassen sich unter Budgets festlegen.',
+  'dashboard.expand': '{name} aufklappen',
+  'dashboard.collapse': '{name} zuklappen',
+  'dashboard.ofTotal': '{percentage} % der Summe',
+  'dashboard.noData':
+    'Noch keine Ausgabendaten. Füge deine erste Ausgabe hinzu, um Auswertungen zu sehen.',
+  'dashboard.byAccount': 'Ausgaben nach Konto',
+  'dashboard.noAccount': 'Ohne Konto',
+  'dashboard.byCurrency': 'Ausgaben nach Währung',
+  'dashboard.noExchangeRate': 'Kein Wechselkurs',
+  'dashboard.byTag': 'Ausgaben nach Schlagwort',
+  'dashboard.tagNote': 'Ausgaben mit mehreren Schlagwörtern zählen für jedes davon.',
+  'dashboard.subscriptions': 'Abonnements',
+  'dashboard.subscriptionsTotal': {
+    one: '{count} aktives Abonnement für etwa {amount} im Jahr',
+    other: '{count} aktive Abonnements für etwa {amount} im Jahr',
+  },
+  'dashboard.cadence.weekly': 'Wöchentlich',
+  'dashboard.cadence.monthly': 'Monatlich',
+  'dashboard.cadence.quarterly': 'Vierteljährlich',
+  'dashboard.cadence.yearly': 'Jährlich',
+  'dashboard.charges': {
+    one: '{count} Abbuchung',
+    other: '{count} Abbuchungen',
+  },
+  'dashboard.perYear': '{amount} im Jahr',
+  'dashboard.priceChange': '{from} → {to} ab {date}',
+  'dashboard.lapsed': 'Keine Abbuchung seit {date}',
+  'dashboard.noSubscriptions':
+    'Noch keine wiederkehrenden Abbuchungen gefunden. Regelmäßige Abbuchungen desselben Händlers erscheinen hier.',
+  'dashboard.subscriptionNote':
+    'Erkannt an gleicher Beschreibung mit ähnlichem Betrag, wöchentlich, monatlich, vierteljährlich oder jährlich abgebucht.',
+
+  // Expense form
+  'form.type': 'Art',
+  'form.type.expense': 'Ausgabe',
+  'form.type.income': 'Einnahme',
+  'form.type.refund': 'Erstattung',
+  'form.date': 'Datum',
+  'form.amount': 'Betrag',
+  'form.currency': 'Währung',
+  'form.noRate':
+    'Noch kein Wechselkurs für {currency}; füge unter Währungen einen hinzu, damit die Ausgabe in die Summen eingeht',
+  'form.category': 'Kategorie',
+  'form.description': 'Beschreibung',
+  'form.descriptionPlaceholder': 'Beschreibung der Ausgabe eingeben...',
+  'form.characters': '{count}/{max} Zeichen',
+  'form.tags': 'Schlagwörter',
+  'form.tagsPlaceholder': 'z. B. urlaub-2026, steuerlich-absetzbar',
+  'form.removeTag': 'Tag {tag} entfernen',
+  'form.itemise': 'Auf Kategorien aufteilen',
+  'form.itemDescription': 'Posten',
+  'form.itemAmount': 'Betrag',
+  'form.addItem': '+ Posten hinzufügen',
+  'form.removeItem': 'Posten entfernen',
+  'form.share': 'Mit anderen teilen',
+  'form.splitMethod': 'Aufteilung',
+  'form.splitMethod.equal': 'Zu gleichen Teilen',
+  'form.splitMethod.percentage': 'Nach Prozent',
+  'form.splitMethod.exact': 'Nach genauen Beträgen',
+  'form.person': 'Name',
+  'form.personShare': 'Anteil von {person}',
+  'form.addPerson': '+ Person hinzufügen',
+  'form.removePerson': 'Person entfernen',
+  'form.group': 'Gruppe',
+  'form.noGroup': 'Keine Gruppe',
+  'form.paidBy': 'Bezahlt von',
+  'form.account': 'Bezahlt mit',
+  'form.noAccount': 'Nicht angegeben',
+  'form.partsRemaining': 'Noch {amount} zuzuordnen',
+  'form.partsOver': '{amount} zu viel',
+  'form.partsMatch': '✓ Ergibt {amount}',
+  'form.receipts': 'Belege',
+  'form.receiptsDrop':
+    'Fotos oder PDFs von Belegen hierher ziehen, einfügen oder zum Auswählen klicken',
+  'form.receiptType': '{name} ist weder ein Bild noch ein PDF',
+  'form.receiptTooLarge': '{name} ist größer als {max}',
+  'form.removeReceipt': '{name} entfernen',
+  'form.refundOf': 'Erstattung für „{description}“',
+  'form.refundable': 'Noch {amount} von {total} zu erstatten',
+  'form.refundDescription': 'Erstattung: {description}',
+  'form.repeat': 'Diese Ausgabe wiederholen',
+  'form.repeatNote':
+    'Diese Ausgabe ist das erste Vorkommen; weitere werden hinzugefügt, sobald sie fällig sind.',
+  'form.alreadyRecurring':
+    'Von einer wiederkehrenden Regel hinzugefügt. Bearbeite die Regel unter Wiederkehrend, um künftige zu ändern.',
+  'form.frequency': 'Wiederholung',
+  'form.frequency.daily': 'Täglich',
+  'form.frequency.weekly': 'Wöchentlich',
+  'form.frequency.monthly': 'Monatlich',
+  'form.frequency.yearly': 'Jährlich',
+  'form.dayOfMonth': 'Tag im Monat',
+  'form.ends': 'Endet',
+  'form.ends.never': 'Nie',
+  'form.ends.onDate': 'An einem Datum',
+  'form.ends.afterCount': 'Nach einer Anzahl',
+  'form.endDate': 'Enddatum',
+  'form.occurrenceLimit': 'Anzahl',
+  'form.duplicateWarning': 'Diese Ausgabe scheint es schon zu geben:',
+  'form.saveAgain': 'Erneut speichern, um beide zu behalten.',
+  'form.budgetNearing':
+    'Damit erreicht {name} {percentage} % des Monatsbudgets ({spent} von {limit}).',
+  'form.budgetExceeded': 'Damit überschreitet {name} das Monatsbudget ({spent} von {limit}).',
+  'form.overallSpending': 'die Gesamtsumme',
+  'form.saveAgainBudget': 'Erneut speichern, um die Ausgabe trotzdem zu erfassen.',
+  'form.saving': 'Wird gespeichert...',
+  'form.saveAnyway': 'Trotzdem speichern',
+  'form.update': 'Ausgabe aktualisieren',
+  'form.add': 'Ausgabe hinzufügen',
+  'form.cancel': 'Abbrechen',
+
+  // Validation errors
+  'validation.dateRequired': 'Datum ist erforderlich',
+  'validation.dateInFuture': 'Das Datum darf nicht in der Zukunft liegen',
+  'validation.amountRequired': 'Betrag ist erforderlich',
+  'validation.amountPositive': 'Der Betrag muss eine positive Zahl sein',
+  'validation.amountSign':
+    'Gib den Betrag ohne Minuszeichen ein; Geld, das reinkommt, ist eine Einnahme oder Erstattung',
+  'validation.amountNoDecimals': 'Beträge in {currency} dürfen keine Nachkommastellen haben',
+  'validation.amountDecimals': {
+    one: 'Beträge in {currency} dürfen höchstens {count} Nachkommastelle haben',
+    other: 'Beträge in {currency} dürfen höchstens {count} Nachkommastellen haben',
+  },
+  'validation.amountTooLarge': 'Der Betrag scheint unrealistisch hoch',
+  'validation.currencyUnknown': 'Unbekannte Währung „{currency}“',
+  'validation.categoryRequired': 'Kategorie ist erforderlich',
+  'validation.descriptionRequired': 'Beschreibung ist erforderlich',
+  'validation.descriptionTooLong': 'Die Beschreibung muss kürzer als {max} Zeichen sein',
+  'validation.tooManyTags': 'Höchstens {count} Schlagwörter verwenden',
+  'validation.dayOfMonth': 'Der Tag im Monat muss eine ganze Zahl von 1 bis 31 sein',
+  'validation.endDateRequired': 'Enddatum ist erforderlich',
+  'validation.endDateBeforeStart': 'Das Enddatum darf nicht vor dem ersten Vorkommen liegen',
+  'validation.occurrenceLimit': 'Die Anzahl muss eine ganze Zahl von 1 bis {max} sein',
+  'validation.lineItemAmount': 'Jeder Posten braucht einen Betrag über null',
+  'validation.lineItemCategory': 'Jeder Posten braucht eine Kategorie',
+  'validation.lineItemsTotal': 'Die Posten müssen zusammen den Betrag ergeben',
+  'validation.splitPeople': 'Mit mindestens zwei Personen teilen',
+  'validation.splitPersonRequired': 'Jede Person braucht einen Namen',
+  'validation.splitPersonDuplicate': 'Jede Person darf nur einmal vorkommen',
+  'validation.splitPercentage':
+    'Prozentwerte müssen Zahlen mit höchstens zwei Nachkommastellen sein',
+  'validation.splitPercentTotal': 'Die Prozentwerte müssen zusammen 100 % ergeben',
+  'validation.splitAmount': 'Jeder Anteil muss ein Betrag von null oder mehr sein',
+  'validation.splitExactTotal': 'Die Anteile müssen zusammen den Betrag ergeben',
+  'validation.paidByRequired': 'Wähle aus, wer bezahlt hat',
+  'validation.groupSplitRequired':
+    'Gruppenausgaben müssen unter den Mitgliedern aufgeteilt werden',
+  'validation.refundCurrency': 'Erstattungen sind in der Währung der Ausgabe ({currency})',
+  'validation.refundTooLarge': 'Eine Erstattung kann nicht mehr sein als noch zu erstatten ist',
+
+  // Expense list
+  'list.search': 'Ausgaben durchsuchen...',
+  'list.allCategories': 'Alle Kategorien',
+  'list.archived': '{name} (archiviert)',
+  'list.type': 'Art',
+  'list.allTypes': 'Alle Arten',
+  'list.type.expense': 'Ausgaben',
+  'list.type.income': 'Einnahmen',
+  'list.type.refund': 'Erstattungen',
+  'list.account': 'Konto',
+  'list.allAccounts': 'Alle Konten',
+  'list.noAccount': 'Ohne Konto',
+  'list.startDate': 'Startdatum',
+  'list.endDate': 'Enddatum',
+  'list.filterTags': 'Nach Schlagwörtern filtern...',
+  'list.tagMatch': 'Schlagwort-Abgleich',
+  'list.anyTags': 'Eines dieser Schlagwörter',
+  'list.allTags': 'Alle diese Schlagwörter',
+  'list.selectAll': 'Alle auswählen',
+  'list.findDuplicates': 'Duplikate finden',
+  'list.findDuplicatesCount': 'Duplikate finden ({count})',
+  'list.deleteSelected': 'Auswahl löschen ({count})',
+  'list.noneFound': 'Keine Ausgaben gefunden',
+  'list.startAdding': 'Füge deine erste Ausgabe hinzu',
+  'list.adjustFilters': 'Versuche, die Filter anzupassen',
+  'list.select': '{description} auswählen',
+  'list.showTagged': 'Ausgaben mit dem Schlagwort {tag} anzeigen',
+  'list.noRate': 'Kein Wechselkurs für {currency}',
+  'list.recurring': 'Wiederkehrend',
+  'list.cleared': 'Mit einem Kontoauszug abgeglichen',
+  'list.shared': 'Zwischen Personen geteilt',
+  'list.paidBy': '{person} hat bezahlt · {group}',
+  'list.refundOf': 'Erstattung für „{description}“',
+  'list.partlyRefunded': 'Teilweise erstattet · {refunded} zurück · {net} netto',
+  'list.fullyRefunded': 'Vollständig erstattet',
+  'list.receiptMissing': 'Dieser Beleg ist nicht mehr gespeichert',
+  'list.downloadReceipt': 'Herunterladen',
+  'list.refund': 'Erstatten',
+  'list.edit': 'Bearbeiten',
+  'list.delete': 'Löschen',
+  'list.showing': {
+    one: '{shown} von {count} Ausgabe angezeigt',
+    other: '{shown} von {count} Ausgaben angezeigt',
+  },
+
+  // Category manager
+  'categories.usedFor': 'Verwendet für',
+  'categories.kind.expense': 'Ausgaben',
+  'categories.kind.income': 'Einnahmen',
+  'categories.incomeMarker': 'Einnahmen',
+  'categories.newCategory': 'Neue Kategorie',
+  'categories.namePlaceholder': 'z. B. Lebensmittel',
+  'categories.name': 'Name',
+  'categories.icon': 'Symbol',
+  'categories.colour': 'Farbe',
+  'categories.color.green': 'Grün',
+  'categories.color.blue': 'Blau',
+  'categories.color.purple': 'Lila',
+  'categories.color.pink': 'Rosa',
+  'categories.color.orange': 'Orange',
+  'categories.color.red': 'Rot',
+  'categories.color.yellow': 'Gelb',
+  'categories.color.teal': 'Türkis',
+  'categories.color.indigo': 'Indigo',
+  'categories.color.gray': 'Grau',
+  'categories.inside': 'Innerhalb von',
+  'categories.topLevel': 'Keine (oberste Ebene)',
+  'categories.add': 'Kategorie hinzufügen',
+  'categories.nameRequired': 'Ein Name ist erforderlich',
+  'categories.nameTooLong': 'Der Name darf höchstens {max} Zeichen lang sein',
+  'categories.nameTaken': 'Es gibt bereits eine Kategorie mit diesem Namen',
+  'categories.expenseCount': {
+    one: '{count} Ausgabe',
+    other: '{count} Ausgaben',
+  },
+  'categories.archivedMarker': 'archiviert',
+  'categories.edit': 'Bearbeiten',
+  'categories.merge': 'Zusammenführen',
+  'categories.archive': 'Archivieren',
+  'categories.unarchive': 'Wiederherstellen',
+  'categories.save': 'Speichern',
+  'categories.cancel': 'Abbrechen',
+  'categories.mergeInto': '„{name}“ zusammenführen mit',
+  'categories.chooseCategory': 'Kategorie wählen...',
+  'categories.confirmMerge': {
+    one:
+      '{count} Ausgabe von „{source}“ nach „{target}“ verschieben und „{source}“ archivieren?',
+    other:
+      '{count} Ausgaben von „{source}“ nach „{target}“ verschieben und „{source}“ archivieren?',
+  },
+
+  // Budgets
+  'budgets.newTitle': 'Monatsbudget festlegen',
+  'budgets.appliesTo': 'Gilt für',
+  'budgets.overallOption': 'Gesamt (alle Kategorien)',
+  'budgets.overall': 'Gesamt',
+  'budgets.perMonth': 'Pro Monat ({currency})',
+  'budgets.amountPositive': 'Das Budget muss ein positiver Betrag sein',
+  'budgets.rollover': 'Nicht ausgegebenes Budget in den nächsten Monat übertragen',
+  'budgets.save': 'Budget speichern',
+  'budgets.note':
+    'Das Budget einer Kategorie gilt auch für ihre Unterkategorien. Speicherst du ein Budget für eine Kategorie, die schon eines hat, wird es ersetzt.',
+  'budgets.title': 'Monatsbudgets',
+  'budgets.empty': 'Noch keine Budgets',
+  'budgets.since': 'Seit {date}',
+  'budgets.rollsOver': 'nicht ausgegebenes Budget wird übertragen',
+  'budgets.edit': 'Bearbeiten',
+  'budgets.remove': 'Entfernen',
+
+  // Recurring rules
+  'recurring.title': 'Wiederkehrende Ausgaben',
+  'recurring.empty':
+    'Noch keine wiederkehrenden Ausgaben. Wähle beim Hinzufügen „Diese Ausgabe wiederholen“.',
+  'recurring.note':
+    'Beim Löschen einer Regel bleiben die bereits hinzugefügten Ausgaben erhalten.',
+  'recurring.schedule.daily': 'Jeden Tag',
+  'recurring.schedule.weekly': 'Jede Woche am {weekday}',
+  'recurring.schedule.monthly': 'Jeden Monat am {day}.',
+  'recurring.schedule.yearly': 'Jedes Jahr im {month} am {day}.',
+  'recurring.endsOn': 'bis {date}',
+  'recurring.remaining': {
+    one: 'noch {count} Mal',
+    other: 'noch {count} Mal',
+  },
+  'recurring.next': 'Nächste: {date}',
+  'recurring.paused': 'Pausiert',
+  'recurring.ended': 'Beendet',
+  'recurring.pause': 'Pausieren',
+  'recurring.resume': 'Fortsetzen',
+  'recurring.edit': 'Bearbeiten',
+  'recurring.delete': 'Löschen',
+  'recurring.save': 'Regel speichern',
+  'recurring.cancel': 'Abbrechen',
+
+  // Group ledger
+  'groups.newTitle': 'Neue Gruppe',
+  'groups.name': 'Gruppenname',
+  'groups.namePlaceholder': 'z. B. Teamreise nach Lissabon',
+  'groups.members': 'Mitglieder',
+  'groups.membersPlaceholder': 'Namen, durch Kommas getrennt',
+  'groups.create': 'Gruppe anlegen',
+  'groups.nameRequired': 'Gib der Gruppe einen Namen',
+  'groups.membersRequired': 'Füge mindestens zwei Mitglieder hinzu',
+  'groups.empty':
+    'Noch keine Gruppen. Lege eine an und wähle sie beim Hinzufügen einer Ausgabe zum Teilen aus.',
+  'groups.expenseCount': {
+    one: '{count} geteilte Ausgabe',
+    other: '{count} geteilte Ausgaben',
+  },
+  'groups.balances': 'Salden',
+  'groups.paidAndShare': '{paid} bezahlt · Anteil {owed}',
+  'groups.isOwed': 'bekommt {amount}',
+  'groups.owes': 'schuldet {amount}',
+  'groups.settled': 'ausgeglichen',
+  'groups.unconverted': {
+    one: '{count} Ausgabe hat keinen Wechselkurs und wird nicht berücksichtigt',
+    other: '{count} Ausgaben haben keinen Wechselkurs und werden nicht berücksichtigt',
+  },
+  'groups.plan': 'Ausgleichen',
+  'groups.allSettled': 'Alle sind ausgeglichen.',
+  'groups.transfer': '{from} zahlt {to} {amount}',
+  'groups.recordPayment': 'Zahlung erfassen',
+  'groups.otherPayment': 'Andere Zahlung erfassen',
+  'groups.from': 'Von',
+  'groups.to': 'An',
+  'groups.amount': 'Betrag ({currency})',
+  'groups.paymentInvalid': 'Wähle zwei verschiedene Mitglieder und einen positiven Betrag',
+  'groups.payments': 'Zahlungen',
+  'groups.payment': '{from} hat {to} {amount} gezahlt',
+  'groups.deletePayment': 'Löschen',
+  'groups.addMembers': 'Mitglieder hinzufügen',
+  'groups.add': 'Hinzufügen',
+  'groups.delete': 'Gruppe löschen',
+  'groups.deleteBlocked': 'Eine Gruppe mit Ausgaben kann nicht gelöscht werden.',
+
+  // Accounts and reconciliation
+  'accounts.newTitle': 'Neues Konto',
+  'accounts.name': 'Name',
+  'accounts.namePlaceholder': 'z. B. Visa mit Endziffern 4242',
+  'accounts.type': 'Art',
+  'accounts.type.card': 'Karte',
+  'accounts.type.cash': 'Bargeld',
+  'accounts.type.bank': 'Bankkonto',
+  'accounts.create': 'Konto hinzufügen',
+  'accounts.nameRequired': 'Gib dem Konto einen Namen',
+  'accounts.nameTaken': 'Es gibt bereits ein Konto mit diesem Namen',
+  'accounts.title': 'Konten & Zahlungsmittel',
+  'accounts.empty':
+    'Noch keine Konten. Füge die Karten, Bargeld und Bankkonten hinzu, mit denen du zahlst.',
+  'accounts.expenseCount': {
+    one: '{count} Ausgabe',
+    other: '{count} Ausgaben',
+  },
+  'accounts.uncleared': {
+    one: '{count} nicht abgeglichen',
+    other: '{count} nicht abgeglichen',
+  },
+  'accounts.archived': 'Archiviert',
+  'accounts.rename': 'Umbenennen',
+  'accounts.save': 'Speichern',
+  'accounts.archive': 'Archivieren',
+  'accounts.unarchive': 'Wiederherstellen',
+  'accounts.note':
+    'Archivierte Konten erscheinen nicht mehr im Ausgabenformular, behalten aber ihre Ausgaben.',
+  'accounts.reconcileTitle': 'Kontoauszug abgleichen',
+  'accounts.account': 'Konto',
+  'accounts.statementStart': 'Auszug vom',
+  'accounts.statementEnd': 'Auszug bis',
+  'accounts.statementBalance': 'Saldo laut Auszug ({currency})',
+  'accounts.noStatementLines': 'Keine Ausgaben auf diesem Konto in diesem Zeitraum',
+  'accounts.noRate': 'Kein Wechselkurs',
+  'accounts.clearedTotal': 'Abgeglichen: {amount}',
+  'accounts.balanced': 'Stimmt mit dem Saldo des Auszugs überein',
+  'accounts.toClear': 'Noch {amount} abzugleichen',
+  'accounts.overStatement': '{amount} mehr als auf dem Auszug',
+  'accounts.saveCleared': {
+    one: '{count} Änderung speichern',
+    other: '{count} Änderungen speichern',
+  },
+
+  // Trash
+  'trash.keepDays': {
+    one: '{count} Tag behalten',
+    other: '{count} Tage behalten',
+  },
+  'trash.keepYear': '1 Jahr behalten',
+  'trash.keepForever': 'Für immer behalten',
+  'trash.restoreAll': 'Alle wiederherstellen',
+  'trash.emptyTrash': 'Papierkorb leeren',
+  'trash.confirmEmpty':
+    'Alles im Papierkorb endgültig löschen? Das kann nicht rückgängig gemacht werden.',
+  'trash.empty': 'Der Papierkorb ist leer',
+  'trash.emptyNote': 'Gelöschte Ausgaben erscheinen hier',
+  'trash.deleted': 'Gelöscht am {date}',
+  'trash.purgedIn': {
+    one: 'wird in {count} Tag endgültig gelöscht',
+    other: 'wird in {count} Tagen endgültig gelöscht',
+  },
+  'trash.restore': 'Wiederherstellen',
+  'trash.deleteForever': 'Endgültig löschen',
+  'trash.confirmDelete':
+    'Diese Ausgabe endgültig löschen? Das kann nicht rückgängig gemacht werden.',
+
+  // CSV import
+  'csvImport.file': 'CSV-Datei',
+  'csvImport.delimiter': 'Trennzeichen',
+  'csvImport.delimiter.comma': 'Komma (,)',
+  'csvImport.delimiter.semicolon': 'Semikolon (;)',
+  'csvImport.delimiter.tab': 'Tabulator',
+  'csvImport.delimiter.pipe': 'Senkrechter Strich (|)',
+  'csvImport.dateFormat': 'Datumsformat',
+  'csvImport.detectDateFormat': 'Automatisch erkennen',
+  'csvImport.defaultCategory': 'Standardkategorie',
+  'csvImport.hasHeader': 'Erste Zeile ist eine Kopfzeile',
+  'csvImport.skipDuplicates': 'Zeilen überspringen, die schon erfassten Ausgaben ähneln',
+  'csvImport.columnMapping': 'Spaltenzuordnung',
+  'csvImport.notInFile': '— Nicht in der Datei —',
+  'csvImport.column': 'Spalte {number}',
+  'csvImport.field.date': 'Datum',
+  'csvImport.field.amount': 'Betrag',
+  'csvImport.field.currency': 'Währung',
+  'csvImport.field.category': 'Kategorie',
+  'csvImport.field.description': 'Beschreibung',
+  'csvImport.field.type': 'Buchungsart',
+  'csvImport.preview': 'Vorschau · {file}',
+  'csvImport.row': 'Zeile',
+  'csvImport.status': 'Status',
+  'csvImport.possibleDuplicate': 'Mögliches Duplikat',
+  'csvImport.ready': 'Bereit',
+  'csvImport.readyCount': '{count} bereit zum Import',
+  'csvImport.invalidCount': '{count} mit Fehlern werden übersprungen',
+  'csvImport.duplicateCount': {
+    one: '{count} mögliches Duplikat wird übersprungen',
+    other: '{count} mögliche Duplikate werden übersprungen',
+  },
+  'csvImport.importing': 'Wird importiert...',
+  'csvImport.import': {
+    one: '{count} Ausgabe importieren',
+    other: '{count} Ausgaben importieren',
+  },
+  'csvImport.cancel': 'Abbrechen',
+  'csvImport.unknownDate': 'Unbekanntes Datum „{value}“',
+  'csvImport.unknownCategory': 'Unbekannte Kategorie „{value}“',
+  'csvImport.unknownType': 'Unbekannte Buchungsart „{value}“',
+
+  // Statement import
+  'statementImport.file': 'Kontoauszug (OFX, QFX, QIF oder CAMT.053)',
+  'statementImport.unreadable':
+    'Diese Datei konnte nicht als Kontoauszug gelesen werden. Verwende eine OFX-, QFX-, QIF- oder CAMT.053-Datei.',
+  'statementImport.summary': '{format}-Kontoauszug',
+  'statementImport.account': 'Konto {account}',
+  'statementImport.debits': {
+    one: '{count} Abbuchung',
+    other: '{count} Abbuchungen',
+  },
+  'statementImport.creditsIgnored': {
+    one: '{count} Gutschrift ignoriert',
+    other: '{count} Gutschriften ignoriert',
+  },
+  'statementImport.setAllCategories': 'Kategorie für alle festlegen',
+  'statementImport.choose': 'Auswählen...',
+  'statementImport.include': 'Importieren',
+  'statementImport.includeRow': '{description} importieren',
+  'statementImport.date': 'Datum',
+  'statementImport.description': 'Beschreibung',
+  'statementImport.amount': 'Betrag',
+  'statementImport.category': 'Kategorie',
+  'statementImport.alreadyImported': 'Bereits importiert',
+  'statementImport.possibleDuplicate': 'Mögliches Duplikat einer vorhandenen Ausgabe',
+  'statementImport.importing': 'Wird importiert...',
+  'statementImport.import': {
+    one: '{count} Ausgabe importieren',
+    other: '{count} Ausgaben importieren',
+  },
+  'statementImport.cancel': 'Abbrechen',
+
+  // Backup and restore
+  'backup.createTitle': 'Sicherung erstellen',
+  'backup.createNote':
+    'Lade alle Ausgaben, den Papierkorb und deine Einstellungen als eine JSON-Datei herunter.',
+  'backup.download': 'Sicherung herunterladen',
+  'backup.restoreTitle': 'Aus Sicherung wiederherstellen',
+  'backup.chooseFile': 'Sicherungsdatei auswählen',
+  'backup.invalidJson': 'Die Datei ist kein gültiges JSON',
+  'backup.notBackup': 'Die Datei ist keine Sicherung des Ausgaben-Trackers',
+  'backup.newerVersion': 'Die Sicherung wurde mit einer neueren Version der App erstellt',
+  'backup.newerSchema':
+    'Die Sicherung nutzt ein neueres Datenformat, als diese Version der App unterstützt',
+  'backup.noExpenses': 'Die Sicherung enthält keine Ausgaben',
+  'backup.skippedRecords': {
+    one: '{count} ungültiger Eintrag wird übersprungen',
+    other: '{count} ungültige Einträge werden übersprungen',
+  },
+  'backup.created': 'erstellt am {date}',
+  'backup.expenseCount': {
+    one: '{count} Ausgabe',
+    other: '{count} Ausgaben',
+  },
+  'backup.merge': 'Zusammenführen',
+  'backup.mergeNote':
+    'Fehlende Ausgaben hinzufügen und bei doppelten die neuere Fassung übernehmen',
+  'backup.replace': 'Ersetzen',
+  'backup.replaceNote': 'Deine Daten genau an die Sicherung angleichen, auch die Einstellungen',
+  'backup.added': 'Neue Ausgaben',
+  'backup.updated': 'Geänderte Ausgaben',
+  'backup.unchanged': 'Unverändert',
+  'backup.removed': 'In den Papierkorb verschoben',
+  'backup.trash': 'Einträge im Papierkorb der Sicherung',
+  'backup.restoring': 'Wird wiederhergestellt...',
+  'backup.restore': 'Wiederherstellen',
+  'backup.cancel': 'Abbrechen',
+
+  // Duplicate finder
+  'duplicates.none': 'Keine Duplikate gefunden',
+  'duplicates.noneNote':
+    'Ausgaben mit gleichem Betrag, nahen Daten und ähnlicher Beschreibung erscheinen hier',
+  'duplicates.note':
+    'Beim Zusammenführen bleibt die ausgewählte Ausgabe erhalten, die anderen kommen in den Papierkorb.',
+  'duplicates.imported': 'importiert',
+  'duplicates.merge': 'Zusammenführen',
+  'duplicates.dismiss': 'Keine Duplikate',
+
+  // Exchange rates and regional format
+  'rates.regionalFormat': 'Regionales Format',
+  'rates.regionalFormatNote':
+    'Beträge und Daten werden in diesem Format angezeigt und eingegeben, z. B. {amount} am {date}.',
+  'rates.baseCurrency': 'Basiswährung',
+  'rates.baseCurrencyNote':
+    'Summen, das Dashboard und Exporte werden in diese Währung umgerechnet. Jede Ausgabe behält den Betrag und die Währung, in der sie bezahlt wurde.',
+  'rates.missing': {
+    one:
+      'Noch kein Wechselkurs für {currencies}. Ausgaben in dieser Währung fehlen in umgerechneten Summen, bis einer hinzugefügt wird.',
+    other:
+      'Noch kein Wechselkurs für {currencies}. Ausgaben in diesen Währungen fehlen in umgerechneten Summen, bis einer hinzugefügt wird.',
+  },
+  'rates.title': 'Wechselkurse',
+  'rates.buys': '1 {base} entspricht',
+  'rates.per': '{currency} pro {base}',
+  'rates.ratePlaceholder': 'z. B. 1,17',
+  'rates.appliesFrom': 'Gültig ab',
+  'rates.save': 'Kurs speichern',
+  'rates.baseNeedsNoRate':
+    'Kurse werden gegen {currency} angegeben, daher braucht diese Währung keinen eigenen Kurs',
+  'rates.currencyRequired': 'Wähle eine Währung',
+  'rates.ratePositive': 'Der Kurs muss eine positive Zahl sein',
+  'rates.dateRequired': 'Ein Datum ist erforderlich',
+  'rates.importFile':
+    'Kursdatei importieren (JSON mit Basis und Kursen oder CSV mit Währung,Kurs,Datum)',
+  'rates.imported': {
+    one: '{count} Kurs aus {file} importiert',
+    other: '{count} Kurse aus {file} importiert',
+  },
+  'rates.unreadable': 'Die Kursdatei konnte nicht gelesen werden',
+  'rates.emptyFile': 'Die Datei ist leer',
+  'rates.invalidJson': 'Die Datei ist kein gültiges JSON',
+  'rates.noRates': 'In der Datei wurde kein „rates“-Objekt gefunden',
+  'rates.unknownDate': 'Unbekanntes Datum „{value}“',
+  'rates.invalidRate': 'Ungültiger Kurs für {currency}',
+  'rates.unknownCurrency': 'Unbekannte Währung „{value}“',
+  'rates.noBaseRate': 'Kein Kurs für {from}, um diese Kurse in {to} umzurechnen',
+  'rates.empty': 'Noch keine Wechselkurse',
+  'rates.currency': 'Währung',
+  'rates.perBase': 'Pro 1 {base}',
+  'rates.remove': 'Entfernen',
+
+  // CSV and ZIP export
+  'export.nothingToExport': 'Keine Ausgaben zum Exportieren',
+
+  // Export hub
+  'exportHub.title': 'Export-Hub',
+  'exportHub.subtitle': 'Cloud-integrierte Plattform für Datenexport und Freigabe',
+  'exportHub.close': 'Schließen',
+  'exportHub.operational': 'Alle Systeme betriebsbereit',
+  'exportHub.lastSync': 'Letzte Synchronisierung: vor 2 Minuten',
+  'exportHub.records': {
+    one: '{count} Eintrag',
+    other: '{count} Einträge',
+  },
+  'exportHub.tab.export': 'Export',
+  'exportHub.tab.schedule': 'Zeitplan',
+  'exportHub.tab.history': 'Verlauf',
+  'exportHub.tab.share': 'Teilen',
+  'exportHub.tab.integrations': 'Integrationen',
+  'exportHub.template.taxReport': 'Steuerbericht',
+  'exportHub.template.taxReportDescription':
+    'Ausführlicher Bericht für die Steuer mit Aufschlüsselung nach Kategorien',
+  'exportHub.template.monthlySummary': 'Monatsübersicht',
+  'exportHub.template.monthlySummaryDescription':
+    'Kompakter Monatsüberblick mit wichtigen Kennzahlen und Trends',
+  'exportHub.template.categoryAnalysis': 'Kategorieanalyse',
+  'exportHub.template.categoryAnalysisDescription':
+    'Detaillierte Analyse der Ausgabenmuster nach Kategorie mit Diagrammen',
+  'exportHub.template.custom': 'Eigener Export',
+  'exportHub.template.customDescription':
+    'Stelle deinen eigenen Export mit frei wählbaren Feldern und Formaten zusammen',
+  'exportHub.provider.googleSheetsDescription': 'Live-Synchronisierung in eine Tabelle',
+  'exportHub.provider.email': 'E-Mail',
+  'exportHub.provider.emailDescription': 'An dein Postfach senden',
+  'exportHub.provider.dropboxDescription': 'Im Cloud-Speicher ablegen',
+  'exportHub.provider.onedriveDescription': 'Microsoft-Cloud-Synchronisierung',
+  'exportHub.provider.notionDescription': 'In den Arbeitsbereich exportieren',
+  'exportHub.status.success': 'Erfolgreich',
+  'exportHub.status.pending': 'Ausstehend',
+  'exportHub.status.failed': 'Fehlgeschlagen',
+  'exportHub.connection.connected': 'Verbunden',
+  'exportHub.connection.ready': 'Bereit',
+  'exportHub.connection.notConnected': 'Nicht verbunden',
+  'exportHub.justNow': 'Gerade eben',
+  'exportHub.hoursAgo': 'vor {count} Std.',
+  'exportHub.yesterday': 'Gestern',
+  'exportHub.daysAgo': {
+    one: 'vor {count} Tag',
+    other: 'vor {count} Tagen',
+  },
+  'exportHub.chooseTemplate': 'Exportvorlage wählen',
+  'exportHub.selectDestination': 'Ziel auswählen',
+  'exportHub.emailAddress': 'E-Mail-Adresse',
+  'exportHub.preview': 'Exportvorschau',
+  'exportHub.template': 'Vorlage',
+  'exportHub.selectTemplate': 'Vorlage wählen',
+  'exportHub.destination': 'Ziel',
+  'exportHub.recordsLabel': 'Einträge',
+  'exportHub.processing': 'Export läuft...',
+  'exportHub.exportToCloud': 'In die Cloud exportieren',
+  'exportHub.automatedBackups': 'Automatische Sicherungen',
+  'exportHub.automatedBackupsDescription':
+    'Richte regelmäßige Exporte ein, damit deine Daten nie verloren gehen. Wir senden deine Ausgaben automatisch an das gewählte Ziel.',
+  'exportHub.createSchedule': '+ Neuen Zeitplan anlegen',
+  'exportHub.activeSchedules': 'Aktive Zeitpläne',
+  'exportHub.active': 'Aktiv',
+  'exportHub.paused': 'Pausiert',
+  'exportHub.frequency': 'Häufigkeit:',
+  'exportHub.destinationLabel': 'Ziel:',
+  'exportHub.nextRun': 'Nächste Ausführung:',
+  'exportHub.frequency.monthlyFirst': 'Monatlich (am 1.)',
+  'exportHub.frequency.quarterly': 'Vierteljährlich',
+  'exportHub.exportHistory': 'Exportverlauf',
+  'exportHub.clearHistory': 'Verlauf löschen',
+  'exportHub.shareTitle': 'Ausgaben teilen',
+  'exportHub.shareDescription':
+    'Erstelle einen sicheren Link oder QR-Code für deine Ausgabendaten. Ideal für Steuerberater, Finanzberater oder Teammitglieder.',
+  'exportHub.generateLink': 'Freigabelink erstellen',
+  'exportHub.linkGenerated': 'Freigabelink erstellt',
+  'exportHub.activeFor': {
+    one: '{count} Tag gültig',
+    other: '{count} Tage gültig',
+  },
+  'exportHub.copy': 'Kopieren',
+  'exportHub.scanQr': 'Scanne diesen QR-Code, um die freigegebenen Daten zu öffnen',
+  'exportHub.passwordProtection': 'Passwortschutz festlegen',
+  'exportHub.configurePermissions': 'Berechtigungen festlegen',
+  'exportHub.collaboration': 'Funktionen für die Zusammenarbeit',
+  'exportHub.allowComments': 'Kommentare erlauben',
+  'exportHub.allowCommentsDescription': 'Betrachter können Ausgaben Notizen hinzufügen',
+  'exportHub.downloadAccess': 'Download-Zugriff',
+  'exportHub.downloadAccessDescription': 'Betrachter können Daten exportieren',
+  'exportHub.integrationsTitle': 'Cloud-Integrationen',
+  'exportHub.integrationsDescription':
+    'Verbinde deine Lieblings-Apps und -Dienste, um deine Ausgabenverwaltung zu automatisieren.',
+  'exportHub.configureSettings': 'Einstellungen',
+  'exportHub.disconnect': 'Trennen',
+  'exportHub.connectNow': 'Jetzt verbinden',
+  'exportHub.comingSoon': 'Demnächst',
+  'exportHub.successTitle': 'Export erfolgreich!',
+  'exportHub.successMessage': 'Deine Daten wurden an {provider} gesendet',
+};
@@ -0,0 +1,744 @@
+import type { Message } from '../i18n';
+
+// Keys are "<area>.<name>"; plural messages pick a form from the `count` parameter
+export const en = {
+  // Page shell
+  'app.title': 'Expense Tracker',
+  'app.loading': 'Loading your expenses...',
+  'app.language': 'Language',
+  'app.undo': 'Undo',
+  'app.redo': 'Redo',
+  'app.undoTitle': 'Undo (Ctrl+Z)',
+  'app.redoTitle': 'Redo (Ctrl+Shift+Z)',
+  'app.undone': 'Undone: {label}',
+  'app.redone': 'Redone: {label}',
+  'app.importCsv': 'Import CSV',
+  'app.importStatement': 'Import Statement',
+  'app.backup': 'Backup',
+  'app.exportCsv': 'Export CSV',
+  'app.exportZip': 'Export ZIP',
+  'app.exportZipTitle': 'The CSV together with every receipt',
+  'app.receiptsNotSaved': 'The receipts could not be stored; the expense was not saved',
+  'app.addExpense': '+ Add Expense',
+  'app.tabs': 'Tabs',
+  'app.tab.dashboard': 'Dashboard',
+  'app.tab.expenses': 'All Expenses',
+  'app.tab.categories': 'Categories',
+  'app.tab.budgets': 'Budgets',
+  'app.tab.recurring': 'Recurring',
+  'app.tab.groups': 'Groups',
+  'app.tab.accounts': 'Accounts',
+  'app.tab.currencies': 'Currencies',
+  'app.tab.trash': 'Trash',
+  'app.tab.trashCount': 'Trash ({count})',
+  'app.quarantined': {
+    one: '{count} stored record could not be read and has been set aside instead of being loaded.',
+    other:
+      '{count} stored records could not be read and have been set aside instead of being loaded.',
+  },
+  'app.readOnly':
+    'Your expenses were saved by a newer version of this app, so changes made here will not be saved. Update the app to keep working with them.',
+  'app.downloadQuarantined': 'Download records',
+  'app.dismiss': 'Dismiss',
+  'app.modal.addExpense': 'Add New Expense',
+  'app.modal.editExpense': 'Edit Expense',
+  'app.modal.addRefund': 'Add Refund',
+  'app.modal.findDuplicates': 'Find Duplicates',
+  'app.modal.importCsv': 'Import from CSV',
+  'app.modal.importStatement': 'Import Bank Statement',
+  'app.modal.backup': 'Backup & Restore',
+
+  // Undo history labels
+  'history.expenseAdded': 'Expense added',
+  'history.expenseUpdated': 'Expense updated',
+  'history.duplicatesMerged': 'Duplicates merged',
+  'history.expensesImported': {
+    one: '{count} expense imported',
+    other: '{count} expenses imported',
+  },
+  'history.expensesTrashed': {
+    one: 'Expense moved to trash',
+    other: '{count} expenses moved to trash',
+  },
+  'history.expensesRestored': {
+    one: 'Expense restored',
+    other: '{count} expenses restored',
+  },
+  'history.categoriesMerged': 'Merged {source} into {target}',
+  'history.backupRestored': 'Backup restored',
+  'history.backupUnchanged': 'Backup restored, nothing changed',
+  'history.recurringAdded': {
+    one: '{count} recurring expense added',
+    other: '{count} recurring expenses added',
+  },
+  'history.expensesReconciled': {
+    one: '{count} expense reconciled',
+    other: '{count} expenses reconciled',
+  },
+
+  // Dashboard
+  'dashboard.openExportHub': 'Open Export Hub',
+  'dashboard.cloud': 'Cloud',
+  'dashboard.totalSpending': 'Total Spending',
+  'dashboard.thisMonth': 'This Month',
+  'dashboard.topCategory': 'Top Category',
+  'dashboard.noExpensesYet': 'No expenses yet',
+  'dashboard.totalExpenses': 'Total Expenses',
+  'dashboard.unconverted': {
+    one:
+      '{count} expense is left out of these totals because there is no exchange rate into {currency}. Add rates under Currencies.',
+    other:
+      '{count} expenses are left out of these totals because there is no exchange rate into {currency}. Add rates under Currencies.',
+  },
+  'dashboard.cashFlow': 'Cash Flow',
+  'dashboard.month': 'Month',
+  'dashboard.income': 'Income',
+  'dashboard.spending': 'Spending',
+  'dashboard.netSavings': 'Net Savings',
+  'dashboard.savingsRate': 'Savings Rate',
+  'dashboard.cashFlowNote':
+    'Spending is expenses less refunds. The savings rate is net savings as a share of income.',
+  'dashboard.byCategory': 'Spending by Category',
+  'dashboard.budgets': 'Budgets This Month',
+  'dashboard.overallBudget': 'Overall',
+  'dashboard.budgetSpent': '{spent} of {limit}',
+  'dashboard.budgetLeft': '{amount} left',
+  'dashboard.budgetOver': '{amount} over',
+  'dashboard.budgetCarried': 'Includes {amount} rolled over',
+  'dashboard.noBudgets': 'No budgets yet. Set monthly limits under Budgets.',
+  'dashboard.expand': 'Expand {name}',
+  'dashboard.collapse': 'Collapse {name}',
+  'dashboard.ofTotal': '{percentage}% of total',
+  'dashboard.noData': 'No spending data available yet. Add your first expense to see analytics.',
+  'dashboard.byAccount': 'Spending by Account',
+  'dashboard.noAccount': 'No account recorded',
+  'dashboard.byCurrency': 'Spending by Currency',
+  'dashboard.noExchangeRate': 'No exchange rate',
+  'dashboard.byTag': 'Spending by Tag',
+  'dashboard.tagNote': 'Expenses with several tags count towards each of them.',
+  'dashboard.subscriptions': 'Subscriptions',
+  'dashboard.subscriptionsTotal': {
+    one: '{count} active subscription costing about {amount} a year',
+    other: '{count} active subscriptions costing about {amount} a year',
+  },
+  'dashboard.cadence.weekly': 'Weekly',
+  'dashboard.cadence.monthly': 'Monthly',
+  'dashboard.cadence.quarterly': 'Quarterly',
+  'dashboard.cadence.yearly': 'Yearly',
+  'dashboard.charges': {
+    one: '{count} charge',
+    other: '{count} charges',
+  },
+  'dashboard.perYear': '{amount} a year',
+  'dashboard.priceChange': '{from} → {to} from {date}',
+  'dashboard.lapsed': 'No charge since {date}',
+  'dashboard.noSubscriptions':
+    'No repeating charges found yet. Charges from the same merchant at regular intervals show up here.',
+  'dashboard.subscriptionNote':
+    'Found by looking for the same description charged weekly, monthly, quarterly or yearly at similar amounts.',
+
+  // Expense form
+  'form.type': 'Type',
+  'form.type.expense': 'Expense',
+  'form.type.income': 'Income',
+  'form.type.refund': 'Refund',
+  'form.date': 'Date',
+  'form.amount': 'Amount',
+  'form.currency': 'Currency',
+  'form.noRate':
+    'No exchange rate for {currency} yet; add one under Currencies to include it in totals',
+  'form.category': 'Category',
+  'form.description': 'Description',
+  'form.descriptionPlaceholder': 'Enter expense description...',
+  'form.characters': '{count}/{max} characters',
+  'form.tags': 'Tags',
+  'form.tagsPlaceholder': 'e.g. holiday-2026, tax-deductible',
+  'form.removeTag': 'Remove tag {tag}',
+  'form.itemise': 'Split across categories',
+  'form.itemDescription': 'Item',
+  'form.itemAmount': 'Amount',
+  'form.addItem': '+ Add item',
+  'form.removeItem': 'Remove item',
+  'form.share': 'Share with others',
+  'form.splitMethod': 'Split',
+  'form.splitMethod.equal': 'Equally',
+  'form.splitMethod.percentage': 'By percentage',
+  'form.splitMethod.exact': 'By exact amounts',
+  'form.person': 'Name',
+  'form.personShare': 'Share of {person}',
+  'form.addPerson': '+ Add person',
+  'form.removePerson': 'Remove person',
+  'form.group': 'Group',
+  'form.noGroup': 'No group',
+  'form.paidBy': 'Paid by',
+  'form.account': 'Paid with',
+  'form.noAccount': 'Not recorded',
+  'form.partsRemaining': '{amount} left to assign',
+  'form.partsOver': '{amount} too much',
+  'form.partsMatch': '✓ Adds up to {amount}',
+  'form.receipts': 'Receipts',
+  'form.receiptsDrop': 'Drop, paste or click to add photos or PDFs of receipts',
+  'form.receiptType': '{name} is not an image or PDF',
+  'form.receiptTooLarge': '{name} is larger than {max}',
+  'form.removeReceipt': 'Remove {name}',
+  'form.refundOf': 'Refund of "{description}"',
+  'form.refundable': '{amount} of {total} left to refund',
+  'form.refundDescription': 'Refund: {description}',
+  'form.repeat': 'Repeat this expense',
+  'form.repeatNote': 'This expense is the first occurrence; later ones are added as they fall due.',
+  'form.alreadyRecurring':
+    'Added by a recurring rule. Edit the rule under Recurring to change later ones.',
+  'form.frequency': 'Repeats',
+  'form.frequency.daily': 'Daily',
+  'form.frequency.weekly': 'Weekly',
+  'form.frequency.monthly': 'Monthly',
+  'form.frequency.yearly': 'Yearly',
+  'form.dayOfMonth': 'Day of month',
+  'form.ends': 'Ends',
+  'form.ends.never': 'Never',
+  'form.ends.onDate': 'On a date',
+  'form.ends.afterCount': 'After a number of times',
+  'form.endDate': 'End date',
+  'form.occurrenceLimit': 'Number of times',
+  'form.duplicateWarning': 'This looks like an expense you already have:',
+  'form.saveAgain': 'Save again to keep both.',
+  'form.budgetNearing':
+    'This brings {name} to {percentage}% of its monthly budget ({spent} of {limit}).',
+  'form.budgetExceeded': 'This takes {name} over its monthly budget ({spent} of {limit}).',
+  'form.overallSpending': 'your overall spending',
+  'form.saveAgainBudget': 'Save again to record it anyway.',
+  'form.saving': 'Saving...',
+  'form.saveAnyway': 'Save Anyway',
+  'form.update': 'Update Expense',
+  'form.add': 'Add Expense',
+  'form.cancel': 'Cancel',
+
+  // Validation errors
+  'validation.dateRequired': 'Date is required',
+  'validation.dateInFuture': 'Date cannot be in the future',
+  'validation.amountRequired': 'Amount is required',
+  'validation.amountPositive': 'Amount must be a positive number',
+  'validation.amountSign':
+    'Enter the amount without a minus sign; money coming in is income or a refund',
+  'validation.amountNoDecimals': '{currency} amounts cannot have decimal places',
+  'validation.amountDecimals': {
+    one: '{currency} amounts can have at most {count} decimal place',
+    other: '{currency} amounts can have at most {count} decimal places',
+  },
+  'validation.amountTooLarge': 'Amount seems unreasonably large',
+  'validation.currencyUnknown': 'Unrecognised currency "{currency}"',
+  'validation.categoryRequired': 'Category is required',
+  'validation.descriptionRequired': 'Description is required',
+  'validation.descriptionTooLong': 'Description must be less than {max} characters',
+  'validation.tooManyTags': 'Use at most {count} tags',
+  'validation.dayOfMonth': 'Day of month must be a whole number from 1 to 31',
+  'validation.endDateRequired': 'End date is required',
+  'validation.endDateBeforeStart': 'End date cannot be before the first occurrence',
+  'validation.occurrenceLimit': 'Number of times must be a whole number from 1 to {max}',
+  'validation.lineItemAmount': 'Each item needs an amount above zero',
+  'validation.lineItemCategory': 'Each item needs a category',
+  'validation.lineItemsTotal': 'The items must add up to the amount',
+  'validation.splitPeople': 'Share between at least two people',
+  'validation.splitPersonRequired': 'Each person needs a name',
+  'validation.splitPersonDuplicate': 'Each person can only appear once',
+  'validation.splitPercentage': 'Percentages must be numbers with at most two decimals',
+  'validation.splitPercentTotal': 'The percentages must add up to 100%',
+  'validation.splitAmount': 'Each share must be an amount of zero or more',
+  'validation.splitExactTotal': 'The shares must add up to the amount',
+  'validation.paidByRequired': 'Choose who paid',
+  'validation.groupSplitRequired': 'Group expenses need to be split between members',
+  'validation.refundCurrency': 'Refunds are in the currency of the expense ({currency})',
+  'validation.refundTooLarge': 'A refund cannot be more than what is left to refund',
+
+  // Expense list
+  'list.search': 'Search expenses...',
+  'list.allCategories': 'All Categories',
+  'list.archived': '{name} (archived)',
+  'list.type': 'Type',
+  'list.allTypes': 'All Types',
+  'list.type.expense': 'Expenses',
+  'list.type.income': 'Income',
+  'list.type.refund': 'Refunds',
+  'list.account': 'Account',
+  'list.allAccounts': 'All Accounts',
+  'list.noAccount': 'No account',
+  'list.startDate': 'Start date',
+  'list.endDate': 'End date',
+  'list.filterTags': 'Filter by tags...',
+  'list.tagMatch': 'Tag match',
+  'list.anyTags': 'Any of these tags',
+  'list.allTags': 'All of these tags',
+  'list.selectAll': 'Select all',
+  'list.findDuplicates': 'Find duplicates',
+  'list.findDuplicatesCount': 'Find duplicates ({count})',
+  'list.deleteSelected': 'Delete selected ({count})',
+  'list.noneFound': 'No expenses found',
+  'list.startAdding': 'Start by adding your first expense',
+  'list.adjustFilters': 'Try adjusting your filters',
+  'list.select': 'Select {description}',
+  'list.showTagged': 'Show expenses tagged {tag}',
+  'list.noRate': 'No {currency} exchange rate',
+  'list.recurring': 'Recurring',
+  'list.cleared': 'Cleared against a statement',
+  'list.shared': 'Shared between people',
+  'list.paidBy': '{person} paid · {group}',
+  'list.refundOf': 'Refund of "{description}"',
+  'list.partlyRefunded': 'Partly refunded · {refunded} back · {net} net',
+  'list.fullyRefunded': 'Refunded in full',
+  'list.receiptMissing': 'This receipt is no longer stored',
+  'list.downloadReceipt': 'Download',
+  'list.refund': 'Refund',
+  'list.edit': 'Edit',
+  'list.delete': 'Delete',
+  'list.showing': {
+    one: 'Showing {shown} of {count} expense',
+    other: 'Showing {shown} of {count} expenses',
+  },
+
+  // Category manager
+  'categories.usedFor': 'Used for',
+  'categories.kind.expense': 'Spending',
+  'categories.kind.income': 'Income',
+  'categories.incomeMarker': 'income',
+  'categories.newCategory': 'New category',
+  'categories.namePlaceholder': 'e.g. Groceries',
+  'categories.name': 'Name',
+  'categories.icon': 'Icon',
+  'categories.colour': 'Colour',
+  'categories.color.green': 'Green',
+  'categories.color.blue': 'Blue',
+  'categories.color.purple': 'Purple',
+  'categories.color.pink': 'Pink',
+  'categories.color.orange': 'Orange',
+  'categories.color.red': 'Red',
+  'categories.color.yellow': 'Yellow',
+  'categories.color.teal': 'Teal',
+  'categories.color.indigo': 'Indigo',
+  'categories.color.gray': 'Grey',
+  'categories.inside': 'Inside',
+  'categories.topLevel': 'None (top level)',
+  'categories.add': 'Add Category',
+  'categories.nameRequired': 'Name is required',
+  'categories.nameTooLong': 'Name must be {max} characters or less',
+  'categories.nameTaken': 'A category with this name already exists',
+  'categories.expenseCount': {
+    one: '{count} expense',
+    other: '{count} expenses',
+  },
+  'categories.archivedMarker': 'archived',
+  'categories.edit': 'Edit',
+  'categories.merge': 'Merge',
+  'categories.archive': 'Archive',
+  'categories.unarchive': 'Unarchive',
+  'categories.save': 'Save',
+  'categories.cancel': 'Cancel',
+  'categories.mergeInto': 'Merge "{name}" into',
+  'categories.chooseCategory': 'Choose a category...',
+  'categories.confirmMerge': {
+    one: 'Move {count} expense from "{source}" to "{target}" and archive "{source}"?',
+    other: 'Move {count} expenses from "{source}" to "{target}" and archive "{source}"?',
+  },
+
+  // Budgets
+  'budgets.newTitle': 'Set a Monthly Budget',
+  'budgets.appliesTo': 'Applies to',
+  'budgets.overallOption': 'Overall (all categories)',
+  'budgets.overall': 'Overall',
+  'budgets.perMonth': 'Per month ({currency})',
+  'budgets.amountPositive': 'Budget must be a positive amount',
+  'budgets.rollover': 'Roll unspent budget into next month',
+  'budgets.save': 'Save Budget',
+  'budgets.note':
+    "A category's budget covers its subcategories too. Saving a budget for a category that already has one replaces it.",
+  'budgets.title': 'Monthly Budgets',
+  'budgets.empty': 'No budgets yet',
+  'budgets.since': 'Since {date}',
+  'budgets.rollsOver': 'unspent budget rolls over',
+  'budgets.edit': 'Edit',
+  'budgets.remove': 'Remove',
+
+  // Recurring rules
+  'recurring.title': 'Recurring Expenses',
+  'recurring.empty':
+    'No recurring expenses yet. Tick "Repeat this expense" when adding an expense.',
+  'recurring.note': 'Deleting a rule keeps the expenses it has already added.',
+  'recurring.schedule.daily': 'Every day',
+  'recurring.schedule.weekly': 'Every week on {weekday}',
+  'recurring.schedule.monthly': 'Every month on day {day}',
+  'recurring.schedule.yearly': 'Every year in {month} on day {day}',
+  'recurring.endsOn': 'until {date}',
+  'recurring.remaining': {
+    one: '{count} more time',
+    other: '{count} more times',
+  },
+  'recurring.next': 'Next: {date}',
+  'recurring.paused': 'Paused',
+  'recurring.ended': 'Ended',
+  'recurring.pause': 'Pause',
+  'recurring.resume': 'Resume',
+  'recurring.edit': 'Edit',
+  'recurring.delete': 'Delete',
+  'recurring.save': 'Save Rule',
+  'recurring.cancel': 'Cancel',
+
+  // Group ledger
+  'groups.newTitle': 'New Group',
+  'groups.name': 'Group name',
+  'groups.namePlaceholder': 'e.g. Team trip to Lisbon',
+  'groups.members': 'Members',
+  'groups.membersPlaceholder': 'Names, separated by commas',
+  'groups.create': 'Create Group',
+  'groups.nameRequired': 'Give the group a name',
+  'groups.membersRequired': 'Add at least two members',
+  'groups.empty':
+    'No groups yet. Create one, then pick it when adding an expense to share it between members.',
+  'groups.expenseCount': {
+    one: '{count} shared expense',
+    other: '{count} shared expenses',
+  },
+  'groups.balances': 'Balances',
+  'groups.paidAndShare': 'Paid {paid} · share {owed}',
+  'groups.isOwed': 'is owed {amount}',
+  'groups.owes': 'owes {amount}',
+  'groups.settled': 'settled up',
+  'groups.unconverted': {
+    one: '{count} expense has no exchange rate and is left out',
+    other: '{count} expenses have no exchange rate and are left out',
+  },
+  'groups.plan': 'Settle Up',
+  'groups.allSettled': 'Everyone is settled up.',
+  'groups.transfer': '{from} pays {to} {amount}',
+  'groups.recordPayment': 'Record payment',
+  'groups.otherPayment': 'Record another payment',
+  'groups.from': 'From',
+  'groups.to': 'To',
+  'groups.amount': 'Amount ({currency})',
+  'groups.paymentInvalid': 'Choose two different members and a positive amount',
+  'groups.payments': 'Payments',
+  'groups.payment': '{from} paid {to} {amount}',
+  'groups.deletePayment': 'Delete',
+  'groups.addMembers': 'Add members',
+  'groups.add': 'Add',
+  'groups.delete': 'Delete Group',
+  'groups.deleteBlocked': 'A group with expenses cannot be deleted.',
+
+  // Accounts and reconciliation
+  'accounts.newTitle': 'New Account',
+  'accounts.name': 'Name',
+  'accounts.namePlaceholder': 'e.g. Visa ending 4242',
+  'accounts.type': 'Type',
+  'accounts.type.card': 'Card',
+  'accounts.type.cash': 'Cash',
+  'accounts.type.bank': 'Bank account',
+  'accounts.create': 'Add Account',
+  'accounts.nameRequired': 'Give the account a name',
+  'accounts.nameTaken': 'There is already an account with this name',
+  'accounts.title': 'Accounts & Payment Methods',
+  'accounts.empty': 'No accounts yet. Add the cards, cash and bank accounts you pay with.',
+  'accounts.expenseCount': {
+    one: '{count} expense',
+    other: '{count} expenses',
+  },
+  'accounts.uncleared': {
+    one: '{count} not cleared',
+    other: '{count} not cleared',
+  },
+  'accounts.archived': 'Archived',
+  'accounts.rename': 'Rename',
+  'accounts.save': 'Save',
+  'accounts.archive': 'Archive',
+  'accounts.unarchive': 'Restore',
+  'accounts.note': 'Archived accounts are hidden from the expense form but keep their expenses.',
+  'accounts.reconcileTitle': 'Reconcile a Statement',
+  'accounts.account': 'Account',
+  'accounts.statementStart': 'Statement from',
+  'accounts.statementEnd': 'Statement to',
+  'accounts.statementBalance': 'Statement balance ({currency})',
+  'accounts.noStatementLines': 'No expenses on this account between these dates',
+  'accounts.noRate': 'No exchange rate',
+  'accounts.clearedTotal': 'Cleared: {amount}',
+  'accounts.balanced': 'Matches the statement balance',
+  'accounts.toClear': '{amount} still to clear',
+  'accounts.overStatement': '{amount} more than the statement',
+  'accounts.saveCleared': {
+    one: 'Save {count} change',
+    other: 'Save {count} changes',
+  },
+
+  // Trash
+  'trash.keepDays': {
+    one: 'Keep for {count} day',
+    other: 'Keep for {count} days',
+  },
+  'trash.keepYear': 'Keep for 1 year',
+  'trash.keepForever': 'Keep forever',
+  'trash.restoreAll': 'Restore all',
+  'trash.emptyTrash': 'Empty trash',
+  'trash.confirmEmpty': 'Permanently delete everything in the trash? This cannot be undone.',
+  'trash.empty': 'Trash is empty',
+  'trash.emptyNote': 'Deleted expenses will appear here',
+  'trash.deleted': 'Deleted {date}',
+  'trash.purgedIn': {
+    one: 'purged in {count} day',
+    other: 'purged in {count} days',
+  },
+  'trash.restore': 'Restore',
+  'trash.deleteForever': 'Delete forever',
+  'trash.confirmDelete': 'Permanently delete this expense? This cannot be undone.',
+
+  // CSV import
+  'csvImport.file': 'CSV file',
+  'csvImport.delimiter': 'Delimiter',
+  'csvImport.delimiter.comma': 'Comma (,)',
+  'csvImport.delimiter.semicolon': 'Semicolon (;)',
+  'csvImport.delimiter.tab': 'Tab',
+  'csvImport.delimiter.pipe': 'Pipe (|)',
+  'csvImport.dateFormat': 'Date format',
+  'csvImport.detectDateFormat': 'Detect automatically',
+  'csvImport.defaultCategory': 'Default category',
+  'csvImport.hasHeader': 'First row is a header',
+  'csvImport.skipDuplicates': 'Skip rows that look like expenses already recorded',
+  'csvImport.columnMapping': 'Column mapping',
+  'csvImport.notInFile': '— Not in file —',
+  'csvImport.column': 'Column {number}',
+  'csvImport.field.date': 'Date',
+  'csvImport.field.amount': 'Amount',
+  'csvImport.field.currency': 'Currency',
+  'csvImport.field.category': 'Category',
+  'csvImport.field.description': 'Description',
+  'csvImport.field.type': 'Transaction type',
+  'csvImport.preview': 'Preview · {file}',
+  'csvImport.row': 'Row',
+  'csvImport.status': 'Status',
+  'csvImport.possibleDuplicate': 'Possible duplicate',
+  'csvImport.ready': 'Ready',
+  'csvImport.readyCount': '{count} ready to import',
+  'csvImport.invalidCount': '{count} with errors will be skipped',
+  'csvImport.duplicateCount': {
+    one: '{count} possible duplicate will be skipped',
+    other: '{count} possible duplicates will be skipped',
+  },
+  'csvImport.importing': 'Importing...',
+  'csvImport.import': {
+    one: 'Import {count} expense',
+    other: 'Import {count} expenses',
+  },
+  'csvImport.cancel': 'Cancel',
+  'csvImport.unknownDate': 'Unrecognised date "{value}"',
+  'csvImport.unknownCategory': 'Unknown category "{value}"',
+  'csvImport.unknownType': 'Unknown transaction type "{value}"',
+
+  // Statement import
+  'statementImport.file': 'Statement file (OFX, QFX, QIF or CAMT.053)',
+  'statementImport.unreadable':
+    'This file could not be read as a statement. Use an OFX, QFX, QIF or CAMT.053 file.',
+  'statementImport.summary': '{format} statement',
+  'statementImport.account': 'account {account}',
+  'statementImport.debits': {
+    one: '{count} debit',
+    other: '{count} debits',
+  },
+  'statementImport.creditsIgnored': {
+    one: '{count} credit ignored',
+    other: '{count} credits ignored',
+  },
+  'statementImport.setAllCategories': 'Set category for all',
+  'statementImport.choose': 'Choose...',
+  'statementImport.include': 'Import',
+  'statementImport.includeRow': 'Import {description}',
+  'statementImport.date': 'Date',
+  'statementImport.description': 'Description',
+  'statementImport.amount': 'Amount',
+  'statementImport.category': 'Category',
+  'statementImport.alreadyImported': 'Already imported',
+  'statementImport.possibleDuplicate': 'Possible duplicate of an existing expense',
+  'statementImport.importing': 'Importing...',
+  'statementImport.import': {
+    one: 'Import {count} expense',
+    other: 'Import {count} expenses',
+  },
+  'statementImport.cancel': 'Cancel',
+
+  // Backup and restore
+  'backup.createTitle': 'Create backup',
+  'backup.createNote': 'Download every expense, the trash and your settings as a single JSON file.',
+  'backup.download': 'Download backup',
+  'backup.restoreTitle': 'Restore from backup',
+  'backup.chooseFile': 'Choose backup file',
+  'backup.invalidJson': 'File is not valid JSON',
+  'backup.notBackup': 'File is not an Expense Tracker backup',
+  'backup.newerVersion': 'Backup was made by a newer version of the app',
+  'backup.newerSchema': 'Backup uses a newer data format than this version of the app supports',
+  'backup.noExpenses': 'Backup contains no expense data',
+  'backup.skippedRecords': {
+    one: '{count} invalid record will be skipped',
+    other: '{count} invalid records will be skipped',
+  },
+  'backup.created': 'created {date}',
+  'backup.expenseCount': {
+    one: '{count} expense',
+    other: '{count} expenses',
+  },
+  'backup.merge': 'Merge',
+  'backup.mergeNote': 'Add missing expenses and take the newer copy where both have the same one',
+  'backup.replace': 'Replace',
+  'backup.replaceNote': 'Make your data match the backup exactly, including settings',
+  'backup.added': 'New expenses',
+  'backup.updated': 'Updated expenses',
+  'backup.unchanged': 'Unchanged',
+  'backup.removed': 'Moved to trash',
+  'backup.trash': 'Trashed items in backup',
+  'backup.restoring': 'Restoring...',
+  'backup.restore': 'Restore',
+  'backup.cancel': 'Cancel',
+
+  // Duplicate finder
+  'duplicates.none': 'No duplicates found',
+  'duplicates.noneNote':
+    'Expenses with the same amount, close dates and similar descriptions show up here',
+  'duplicates.note': 'Merging keeps the selected expense and moves the others to the trash.',
+  'duplicates.imported': 'imported',
+  'duplicates.merge': 'Merge',
+  'duplicates.dismiss': 'Not duplicates',
+
+  // Exchange rates and regional format
+  'rates.regionalFormat': 'Regional Format',
+  'rates.regionalFormatNote':
+    'Amounts and dates are shown and typed in this format, e.g. {amount} on {date}.',
+  'rates.baseCurrency': 'Base Currency',
+  'rates.baseCurrencyNote':
+    'Totals, the dashboard and exports are converted into this currency. Each expense keeps the amount and currency it was paid in.',
+  'rates.missing': {
+    one:
+      'No exchange rate yet for {currencies}. Expenses in this currency are left out of converted totals until one is added.',
+    other:
+      'No exchange rate yet for {currencies}. Expenses in these currencies are left out of converted totals until one is added.',
+  },
+  'rates.title': 'Exchange Rates',
+  'rates.buys': '1 {base} buys',
+  'rates.per': '{currency} per {base}',
+  'rates.ratePlaceholder': 'e.g. 1.17',
+  'rates.appliesFrom': 'Applies from',
+  'rates.save': 'Save Rate',
+  'rates.baseNeedsNoRate': 'Rates are quoted against {currency}, so it needs no rate of its own',
+  'rates.currencyRequired': 'Choose a currency',
+  'rates.ratePositive': 'Rate must be a positive number',
+  'rates.dateRequired': 'Date is required',
+  'rates.importFile': 'Import rates file (JSON with base and rates, or CSV of currency,rate,date)',
+  'rates.imported': {
+    one: 'Imported {count} rate from {file}',
+    other: 'Imported {count} rates from {file}',
+  },
+  'rates.unreadable': 'Could not read rates file',
+  'rates.emptyFile': 'The file is empty',
+  'rates.invalidJson': 'File is not valid JSON',
+  'rates.noRates': 'No "rates" object found in the file',
+  'rates.unknownDate': 'Unrecognised date "{value}"',
+  'rates.invalidRate': 'Invalid rate for {currency}',
+  'rates.unknownCurrency': 'Unrecognised currency "{value}"',
+  'rates.noBaseRate': 'No rate for {from} to convert these rates into {to}',
+  'rates.empty': 'No exchange rates yet',
+  'rates.currency': 'Currency',
+  'rates.perBase': 'Per 1 {base}',
+  'rates.remove': 'Remove',
+
+  // CSV and ZIP export
+  'export.nothingToExport': 'No expenses to export',
+
+  // Export hub
+  'exportHub.title': 'Export Hub',
+  'exportHub.subtitle': 'Cloud-integrated data export and sharing platform',
+  'exportHub.close': 'Close',
+  'exportHub.operational': 'All systems operational',
+  'exportHub.lastSync': 'Last sync: 2 minutes ago',
+  'exportHub.records': {
+    one: '{count} record',
+    other: '{count} records',
+  },
+  'exportHub.tab.export': 'Export',
+  'exportHub.tab.schedule': 'Schedule',
+  'exportHub.tab.history': 'History',
+  'exportHub.tab.share': 'Share',
+  'exportHub.tab.integrations': 'Integrations',
+  'exportHub.template.taxReport': 'Tax Report',
+  'exportHub.template.taxReportDescription':
+    'Detailed report formatted for tax purposes with category breakdowns',
+  'exportHub.template.monthlySummary': 'Monthly Summary',
+  'exportHub.template.monthlySummaryDescription':
+    'Concise monthly overview with key metrics and trends',
+  'exportHub.template.categoryAnalysis': 'Category Analysis',
+  'exportHub.template.categoryAnalysisDescription':
+    'Deep dive into spending patterns by category with visualizations',
+  'exportHub.template.custom': 'Custom Export',
+  'exportHub.template.customDescription': 'Build your own export with custom fields and formatting',
+  'exportHub.provider.googleSheetsDescription': 'Live sync to spreadsheet',
+  'exportHub.provider.email': 'Email',
+  'exportHub.provider.emailDescription': 'Send to your inbox',
+  'exportHub.provider.dropboxDescription': 'Save to cloud storage',
+  'exportHub.provider.onedriveDescription': 'Microsoft cloud sync',
+  'exportHub.provider.notionDescription': 'Export to workspace',
+  'exportHub.status.success': 'Success',
+  'exportHub.status.pending': 'Pending',
+  'exportHub.status.failed': 'Failed',
+  'exportHub.connection.connected': 'Connected',
+  'exportHub.connection.ready': 'Ready',
+  'exportHub.connection.notConnected': 'Not connected',
+  'exportHub.justNow': 'Just now',
+  'exportHub.hoursAgo': '{count}h ago',
+  'exportHub.yesterday': 'Yesterday',
+  'exportHub.daysAgo': {
+    one: '{count} day ago',
+    other: '{count} days ago',
+  },
+  'exportHub.chooseTemplate': 'Choose Export Template',
+  'exportHub.selectDestination': 'Select Destination',
+  'exportHub.emailAddress': 'Email Address',
+  'exportHub.preview': 'Export Preview',
+  'exportHub.template': 'Template',
+  'exportHub.selectTemplate': 'Select template',
+  'exportHub.destination': 'Destination',
+  'exportHub.recordsLabel': 'Records',
+  'exportHub.processing': 'Processing Export...',
+  'exportHub.exportToCloud': 'Export to Cloud',
+  'exportHub.automatedBackups': 'Automated Backups',
+  'exportHub.automatedBackupsDescription':
+    "Set up recurring exports to never lose your data. We'll automatically send your expenses to your chosen destination.",
+  'exportHub.createSchedule': '+ Create New Schedule',
+  'exportHub.activeSchedules': 'Active Schedules',
+  'exportHub.active': 'Active',
+  'exportHub.paused': 'Paused',
+  'exportHub.frequency': 'Frequency:',
+  'exportHub.destinationLabel': 'Destination:',
+  'exportHub.nextRun': 'Next Run:',
+  'exportHub.frequency.monthlyFirst': 'Monthly (1st of month)',
+  'exportHub.frequency.quarterly': 'Quarterly',
+  'exportHub.exportHistory': 'Export History',
+  'exportHub.clearHistory': 'Clear History',
+  'exportHub.shareTitle': 'Share Your Expenses',
+  'exportHub.shareDescription':
+    'Generate a secure, shareable link or QR code for your expense data. Perfect for accountants, financial advisors, or team members.',
+  'exportHub.generateLink': 'Generate Share Link',
+  'exportHub.linkGenerated': 'Shareable Link Generated',
+  'exportHub.activeFor': {
+    one: 'Active for {count} day',
+    other: 'Active for {count} days',
+  },
+  'exportHub.copy': 'Copy',
+  'exportHub.scanQr': 'Scan this QR code to access the shared data',
+  'exportHub.passwordProtection': 'Set Password Protection',
+  'exportHub.configurePermissions': 'Configure Permissions',
+  'exportHub.collaboration': 'Collaboration Features',
+  'exportHub.allowComments': 'Allow Comments',
+  'exportHub.allowCommentsDescription': 'Let viewers add notes to expenses',
+  'exportHub.downloadAccess': 'Download Access',
+  'exportHub.downloadAccessDescription': 'Allow viewers to export data',
+  'exportHub.integrationsTitle': 'Cloud Integrations',
+  'exportHub.integrationsDescription':
+    'Connect your favorite apps and services to automate your expense workflow.',
+  'exportHub.configureSettings': 'Configure Settings',
+  'exportHub.disconnect': 'Disconnect',
+  'exportHub.connectNow': 'Connect Now',
+  'exportHub.comingSoon': 'Coming Soon',
+  'exportHub.successTitle': 'Export Successful!',
+  'exportHub.successMessage': 'Your data has been sent to {provider}',
+} satisfies Record<string, Message>;
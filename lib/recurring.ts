@@ -0,0 +1,268 @@
+import {
+  Expense,
+  RecurrenceFormData,
+  RecurrenceSchedule,
+  RecurringRule,
+} from '@/types/expense';
+import { NewExpense } from './repository';
+import { mergeById } from './merge';
+import {
+  addDays,
+  addMonths,
+  addYears,
+  format,
+  getDaysInMonth,
+  parseISO,
+  setDate,
+  startOfMonth,
+  subDays,
+} from 'date-fns';
+
+const RECURRING_RULES_KEY = 'expense-tracker-recurring-rules';
+
+// The expense a rule adds, and its schedule starting from a given date
+export type RecurringRuleInput = Pick<
+  RecurringRule,
+  'amount' | 'type' | 'categoryId' | 'description' | 'tags' | 'startDate'
+> &
+  RecurrenceSchedule;
+
+export interface GeneratedExpenses {
+  due: NewExpense[];
+  // Every rule, with those that produced expenses moved past them
+  rules: RecurringRule[];
+}
+
+const toDay = (date: Date): string => format(date, 'yyyy-MM-dd');
+
+const usesDayOfMonth = (schedule: Pick<RecurrenceSchedule, 'frequency'>): boolean =>
+  schedule.frequency === 'monthly' || schedule.frequency === 'yearly';
+
+// The day of month a schedule falls on in the month `offset` steps after its start
+const monthlyDate = (rule: RecurringRuleInput, offset: number): string => {
+  const start = parseISO(rule.startDate);
+  const month = (rule.frequency === 'yearly' ? addYears : addMonths)(startOfMonth(start), offset);
+  const day = Math.min(rule.dayOfMonth ?? start.getDate(), getDaysInMonth(month));
+  return toDay(setDate(month, day));
+};
+
+// The index-th date of a schedule, never before its start. Dates are counted from the start
+// each time, so a rule on the 31st uses the 28th in February and is back on the 31st in March.
+const scheduleDate = (rule: RecurringRuleInput, index: number): string => {
+  const start = parseISO(rule.startDate);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return toDay(addDays(start, index));
+    case 'weekly':
+      return toDay(addDays(start, index * 7));
+    default: {
+      const skip = monthlyDate(rule, 0) < rule.startDate ? 1 : 0;
+      return monthlyDate(rule, index + skip);
+    }
+  }
+};
+
+// Occurrences not yet recorded up to and including `until`, within the end date and limit
+const dueDates = (rule: RecurringRule, until: string): string[] => {
+  const last = rule.endDate && rule.endDate < until ? rule.endDate : until;
+  const remaining = (rule.occurrenceLimit ?? Infinity) - rule.generatedCount;
+  const dates: string[] = [];
+
+  for (let index = 0; dates.length < remaining; index++) {
+    const date = scheduleDate(rule, index);
+    if (date > last) break;
+    if (!rule.coveredUntil || date > rule.coveredUntil) dates.push(date);
+  }
+
+  return dates;
+};
+
+// The next date the rule will add an expense on, or null once it has ended
+export const nextOccurrence = (rule: RecurringRule): string | null => {
+  if (rule.occurrenceLimit !== undefined && rule.generatedCount >= rule.occurrenceLimit) {
+    return null;
+  }
+
+  for (let index = 0; ; index++) {
+    const date = scheduleDate(rule, index);
+    if (rule.endDate && date > rule.endDate) return null;
+    if (!rule.coveredUntil || date > rule.coveredUntil) return date;
+  }
+};
+
+export const createRecurringRule = (input: RecurringRuleInput): RecurringRule => {
+  const { dayOfMonth, ...rest } = input;
+  const now = new Date().toISOString();
+  return {
+    ...rest,
+    ...(usesDayOfMonth(input) && dayOfMonth !== undefined ? { dayOfMonth } : {}),
+    id: crypto.randomUUID(),
+    paused: false,
+    generatedCount: 0,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+// A rule that repeats a saved expense, counting the expense itself as its first occurrence
+export const startRuleFromExpense = (
+  expense: NewExpense,
+  schedule: RecurrenceSchedule
+): RecurringRule => ({
+  ...createRecurringRule({
+    amount: expense.amount,
+    ...(expense.type ? { type: expense.type } : {}),
+    categoryId: expense.categoryId,
+    description: expense.description,
+    ...(expense.tags ? { tags: expense.tags } : {}),
+    startDate: expense.date.slice(0, 10),
+    ...schedule,
+  }),
+  generatedCount: 1,
+  coveredUntil: expense.date.slice(0, 10),
+});
+
+// Replace what a rule adds and when. Edits apply from the next occurrence; expenses already
+// added are left as they are.
+export const updateRecurringRule = (
+  rules: RecurringRule[],
+  id: string,
+  input: Omit<RecurringRuleInput, 'startDate'>
+): RecurringRule[] =>
+  rules.map(rule => {
+    if (rule.id !== id) return rule;
+
+    const { startDate, paused, generatedCount, coveredUntil, createdAt } = rule;
+    return {
+      ...createRecurringRule({ ...input, startDate }),
+      id,
+      paused,
+      generatedCount,
+      ...(coveredUntil ? { coveredUntil } : {}),
+      createdAt,
+    };
+  });
+
+// Resuming skips whatever fell due while paused rather than adding it all at once
+export const setRulePaused = (
+  rules: RecurringRule[],
+  id: string,
+  paused: boolean,
+  today: string = toDay(new Date())
+): RecurringRule[] =>
+  rules.map(rule => {
+    if (rule.id !== id || rule.paused === paused) return rule;
+
+    const yesterday = toDay(subDays(parseISO(today), 1));
+    return {
+      ...rule,
+      paused,
+      ...(!paused && (!rule.coveredUntil || rule.coveredUntil < yesterday)
+        ? { coveredUntil: yesterday }
+        : {}),
+      updatedAt: new Date().toISOString(),
+    };
+  });
+
+export const removeRecurringRule = (rules: RecurringRule[], id: string): RecurringRule[] =>
+  rules.filter(rule => rule.id !== id);
+
+// Expenses for every occurrence of an active rule up to today, and the rules moved past them.
+// Occurrences that already have an expense, e.g. one added by another tab, are not repeated.
+export const generateDueExpenses = (
+  rules: RecurringRule[],
+  expenses: Expense[],
+  today: string = toDay(new Date())
+): GeneratedExpenses => {
+  const recorded = new Set(
+    expenses
+      .filter(expense => expense.recurringRuleId)
+      .map(expense => `${expense.recurringRuleId}|${expense.date.slice(0, 10)}`)
+  );
+  const due: NewExpense[] = [];
+
+  const updated = rules.map(rule => {
+    if (rule.paused) return rule;
+
+    const dates = dueDates(rule, today);
+    if (dates.length === 0) return rule;
+
+    dates
+      .filter(date => !recorded.has(`${rule.id}|${date}`))
+      .forEach(date =>
+        due.push({
+          ...(rule.type ? { type: rule.type } : {}),
+          date,
+          amount: rule.amount,
+          categoryId: rule.categoryId,
+          description: rule.description,
+          ...(rule.tags ? { tags: rule.tags } : {}),
+          recurringRuleId: rule.id,
+        })
+      );
+
+    return {
+      ...rule,
+      generatedCount: rule.generatedCount + dates.length,
+      coveredUntil: dates[dates.length - 1],
+      updatedAt: new Date().toISOString(),
+    };
+  });
+
+  return { due, rules: updated };
+};
+
+// Form fields for a schedule, with monthly and yearly rules on the start date's day by default
+export const toRecurrenceFormData = (
+  startDate: string,
+  schedule?: RecurrenceSchedule
+): RecurrenceFormData => ({
+  frequency: schedule?.frequency ?? 'monthly',
+  dayOfMonth: String(schedule?.dayOfMonth ?? parseISO(startDate).getDate()),
+  ends: schedule?.endDate ? 'onDate' : schedule?.occurrenceLimit ? 'afterCount' : 'never',
+  endDate: schedule?.endDate ?? '',
+  occurrenceLimit: String(schedule?.occurrenceLimit ?? 12),
+});
+
+// Convert validated form input into a schedule
+export const toRecurrenceSchedule = (formData: RecurrenceFormData): RecurrenceSchedule => ({
+  frequency: formData.frequency,
+  ...(usesDayOfMonth(formData) ? { dayOfMonth: Number(formData.dayOfMonth) } : {}),
+  ...(formData.ends === 'onDate' ? { endDate: formData.endDate } : {}),
+  ...(formData.ends === 'afterCount'
+    ? { occurrenceLimit: Number(formData.occurrenceLimit) }
+    : {}),
+});
+
+// The newer copy of each rule wins; rules only on one side are kept
+export const mergeRecurringRules = (
+  current: RecurringRule[],
+  incoming: RecurringRule[]
+): RecurringRule[] => mergeById(current, incoming);
+
+export const recurringStorage = {
+  // Get all recurring rules
+  getRules(): RecurringRule[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const data = localStorage.getItem(RECURRING_RULES_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error reading recurring rules from localStorage:', error);
+      return [];
+    }
+  },
+
+  // Save the full rule list
+  saveRules(rules: RecurringRule[]): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(RECURRING_RULES_KEY, JSON.stringify(rules));
+    } catch (error) {
+      console.error('Error writing recurring rules to localStorage:', error);
+    }
+  },
+};
@@ -0,0 +1,211 @@
+import { Expense, ExpenseFormData, Money, TrashedExpense } from '@/types/expense';
+import { parseMoney } from '@/utils/currency';
+import { primaryCategoryId, toExpenseSplit, toLineItems } from '@/utils/splits';
+import { storageUtils } from './storage';
+import { StoredAttachment, attachmentStorage } from './attachments';
+import { createIndexedDBRepository, isIndexedDBAvailable } from './indexedDb';
+
+export type NewExpense = Omit<Expense, 'id' | 'createdAt' | 'updatedAt'>;
+export type ExpenseUpdates = Partial<NewExpense>;
+
+// Convert validated form input into the fields a repository stores
+export const toNewExpense = (formData: ExpenseFormData): NewExpense => {
+  const lineItems =
+    formData.lineItems && formData.lineItems.length > 0
+      ? toLineItems(formData.lineItems, formData.currency)
+      : null;
+
+  return {
+    ...(formData.type && formData.type !== 'expense' ? { type: formData.type } : {}),
+    ...(formData.type === 'refund' && formData.refundOf ? { refundOf: formData.refundOf } : {}),
+    date: formData.date,
+    // Validation has already checked the amount parses
+    amount: parseMoney(formData.amount, formData.currency) as Money,
+    categoryId: lineItems ? primaryCategoryId(lineItems, formData.categoryId) : formData.categoryId,
+    description: formData.description,
+    tags: formData.tags,
+    ...(formData.attachments ? { attachments: formData.attachments } : {}),
+    ...(lineItems ? { lineItems } : {}),
+    ...(formData.split ? { split: toExpenseSplit(formData.split, formData.currency) } : {}),
+    ...(formData.groupId ? { groupId: formData.groupId, paidBy: formData.paidBy } : {}),
+    ...(formData.accountId ? { accountId: formData.accountId } : {}),
+  };
+};
+
+export interface ExpenseRepository {
+  // True when the stored expenses were saved by a newer version of the app; changes are not saved
+  isReadOnly(): boolean;
+  getAll(): Promise<Expense[]>;
+  getById(id: string): Promise<Expense | null>;
+  // Both bounds are inclusive ISO dates (yyyy-MM-dd)
+  getByDateRange(startDate: string, endDate: string): Promise<Expense[]>;
+  getByCategory(categoryId: string): Promise<Expense[]>;
+  add(expense: NewExpense): Promise<Expense>;
+  addMany(expenses: NewExpense[]): Promise<Expense[]>;
+  update(id: string, updates: ExpenseUpdates): Promise<Expense | null>;
+  // Soft delete: the record moves to the trash and can be restored
+  delete(id: string): Promise<boolean>;
+  deleteMany(ids: string[]): Promise<string[]>;
+  // Insert or overwrite whole records, keeping their ids and timestamps.
+  // Records with the same id are taken out of the trash.
+  putMany(expenses: Expense[]): Promise<void>;
+  // Move every active expense to the trash
+  clear(): Promise<void>;
+  getTrash(): Promise<TrashedExpense[]>;
+  // Insert or overwrite trashed records as-is, keeping their deletion timestamps
+  putTrash(expenses: TrashedExpense[]): Promise<void>;
+  restore(ids: string[]): Promise<Expense[]>;
+  // Permanently remove records from the trash
+  purge(ids: string[]): Promise<number>;
+  purgeTrashedBefore(cutoff: string): Promise<number>;
+  // Receipt files, keyed by the attachment ids on expenses
+  getAttachment(id: string): Promise<Blob | null>;
+  putAttachments(files: StoredAttachment[]): Promise<void>;
+  deleteAttachments(ids: string[]): Promise<void>;
+  getAttachmentIds(): Promise<string[]>;
+}
+
+export type RepositoryBackend = 'indexeddb' | 'localstorage';
+
+// Inclusive date range check that tolerates full ISO timestamps as well as plain dates
+export const isDateInRange = (date: string, startDate: string, endDate: string): boolean => {
+  const day = date.slice(0, 10);
+  return day >= startDate && day <= endDate;
+};
+
+export const createLocalStorageRepository = (): ExpenseRepository => ({
+  isReadOnly() {
+    return storageUtils.isReadOnly();
+  },
+
+  async getAll() {
+    return storageUtils.getExpenses();
+  },
+
+  async getById(id) {
+    return storageUtils.getExpenses().find(exp => exp.id === id) ?? null;
+  },
+
+  async getByDateRange(startDate, endDate) {
+    return storageUtils
+      .getExpenses()
+      .filter(exp => isDateInRange(exp.date, startDate, endDate));
+  },
+
+  async getByCategory(categoryId) {
+    return storageUtils.getExpenses().filter(exp => exp.categoryId === categoryId);
+  },
+
+  async add(expense) {
+    return storageUtils.addExpense(expense);
+  },
+
+  async addMany(expenses) {
+    return storageUtils.addExpenses(expenses);
+  },
+
+  async update(id, updates) {
+    return storageUtils.updateExpense(id, updates);
+  },
+
+  async delete(id) {
+    return storageUtils.deleteExpense(id);
+  },
+
+  async deleteMany(ids) {
+    return storageUtils.trashExpenses(ids);
+  },
+
+  async putMany(expenses) {
+    storageUtils.putExpenses(expenses);
+  },
+
+  async clear() {
+    storageUtils.clearAllExpenses();
+  },
+
+  async getTrash() {
+    return storageUtils.getTrash();
+  },
+
+  async putTrash(expenses) {
+    storageUtils.putTrash(expenses);
+  },
+
+  async restore(ids) {
+    return storageUtils.restoreExpenses(ids);
+  },
+
+  async purge(ids) {
+    return storageUtils.purgeExpenses(ids);
+  },
+
+  async purgeTrashedBefore(cutoff) {
+    return storageUtils.purgeTrashedBefore(cutoff);
+  },
+
+  async getAttachment(id) {
+    return attachmentStorage.getAttachment(id);
+  },
+
+  async putAttachments(files) {
+    await attachmentStorage.putAttachments(files);
+  },
+
+  async deleteAttachments(ids) {
+    attachmentStorage.deleteAttachments(ids);
+  },
+
+  async getAttachmentIds() {
+    return attachmentStorage.getAttachmentIds();
+  },
+});
+
+// Copy any expenses still held in localStorage into IndexedDB, then free the quota.
+// Runs on every start, since a session on the localStorage fallback can leave more behind.
+// Each collection is cleared as soon as it has moved, so a failure part-way only repeats the rest.
+export const migrateLocalStorageToIndexedDB = async (target: ExpenseRepository): Promise<void> => {
+  // Either side being from a newer version means copying would drop what this build can't read
+  if (target.isReadOnly() || storageUtils.isReadOnly()) return;
+
+  const legacyTrash = storageUtils.getTrash();
+  if (legacyTrash.length > 0) {
+    await target.putTrash(legacyTrash);
+    storageUtils.discardTrash();
+  }
+
+  const legacyExpenses = storageUtils.getExpenses();
+  if (legacyExpenses.length > 0) {
+    await target.putMany(legacyExpenses);
+    storageUtils.discardExpenses();
+  }
+
+  const legacyAttachmentIds = attachmentStorage.getAttachmentIds();
+  if (legacyAttachmentIds.length > 0) {
+    await target.putAttachments(
+      legacyAttachmentIds.flatMap(id => {
+        const blob = attachmentStorage.getAttachment(id);
+        return blob ? [{ id, blob }] : [];
+      })
+    );
+    attachmentStorage.deleteAttachments(legacyAttachmentIds);
+  }
+};
+
+// Pick the best available backend at startup, falling back to localStorage
+export const openExpenseRepository = async (): Promise<{
+  repository: ExpenseRepository;
+  backend: RepositoryBackend;
+}> => {
+  if (isIndexedDBAvailable()) {
+    try {
+      const repository = await createIndexedDBRepository();
+      await migrateLocalStorageToIndexedDB(repository);
+      return { repository, backend: 'indexeddb' };
+    } catch (error) {
+      console.error('Error opening IndexedDB, falling back to localStorage:', error);
+    }
+  }
+
+  return { repository: createLocalStorageRepository(), backend: 'localstorage' };
+};
@@ -0,0 +1,297 @@
+import { Expense } from '@/types/expense';
+import { toMoney } from '@/utils/currency';
+import { isTransactionType } from '@/utils/transactions';
+
+export const CURRENT_SCHEMA_VERSION = 4;
+
+export interface StorageMetadata {
+  savedAt: string;
+  recordCount: number;
+}
+
+// What actually gets written to storage: the records plus enough context to upgrade them later
+export interface StorageEnvelope<T> {
+  schemaVersion: number;
+  data: T;
+  metadata: StorageMetadata;
+}
+
+export interface QuarantinedRecord {
+  record: unknown;
+  reason: string;
+  schemaVersion: number;
+  quarantinedAt: string;
+}
+
+export interface SchemaMigration {
+  // The schema version this migration produces; it runs on payloads at `version - 1`
+  version: number;
+  description: string;
+  migrate: (records: unknown[]) => unknown[];
+}
+
+export interface UpgradeResult {
+  expenses: Expense[];
+  quarantined: QuarantinedRecord[];
+  fromVersion: number;
+  // True when the stored payload should be rewritten in the current format
+  needsRewrite: boolean;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Ordered list of forward migrations. Add a new entry (and bump CURRENT_SCHEMA_VERSION)
+// whenever the persisted Expense shape changes.
+export const migrations: SchemaMigration[] = [
+  {
+    version: 1,
+    description: 'Wrap the bare Expense[] array in a versioned envelope',
+    migrate: records => records,
+  },
+  {
+    version: 2,
+    description: 'Replace the fixed category name with a reference to a stored category',
+    migrate: records =>
+      records.map(record => {
+        if (!isObject(record) || typeof record.category !== 'string') return record;
+        // The seeded default categories use the lower-cased old names as their ids
+        const { category, ...rest } = record;
+        return { ...rest, categoryId: category.toLowerCase() };
+      }),
+  },
+  {
+    version: 3,
+    description: 'Record the currency of each amount; everything before was in pounds',
+    migrate: records =>
+      records.map(record =>
+        isObject(record) && record.currency === undefined ? { ...record, currency: 'GBP' } : record
+      ),
+  },
+  {
+    version: 4,
+    description: 'Store amounts as integer minor units alongside their currency',
+    migrate: records =>
+      records.map(record => {
+        if (
+          !isObject(record) ||
+          typeof record.amount !== 'number' ||
+          typeof record.currency !== 'string'
+        ) {
+          return record;
+        }
+        // Floats are rounded to the currency's own precision: pence for GBP, whole yen for JPY
+        const { amount, currency, ...rest } = record;
+        return { ...rest, amount: toMoney(amount as number, currency as string) };
+      }),
+  },
+];
+
+// Returns a reason string if the record is not a usable Expense, otherwise null
+export const validateExpenseRecord = (record: unknown): string | null => {
+  if (!isObject(record)) return 'Record is not an object';
+
+  if (typeof record.id !== 'string' || !record.id) return 'Missing id';
+  if (typeof record.date !== 'string' || isNaN(new Date(record.date).getTime())) {
+    return 'Invalid date';
+  }
+  if (!isObject(record.amount) || !Number.isSafeInteger(record.amount.minor)) {
+    return 'Invalid amount';
+  }
+  if (typeof record.amount.currency !== 'string' || !/^[A-Z]{3}$/.test(record.amount.currency)) {
+    return 'Invalid currency';
+  }
+  if (typeof record.categoryId !== 'string' || !record.categoryId) return 'Missing category';
+  if (typeof record.description !== 'string') return 'Invalid description';
+  if (
+    record.tags !== undefined &&
+    !(Array.isArray(record.tags) && record.tags.every(tag => typeof tag === 'string'))
+  ) {
+    return 'Invalid tags';
+  }
+  if (record.externalId !== undefined && typeof record.externalId !== 'string') {
+    return 'Invalid external id';
+  }
+  if (record.recurringRuleId !== undefined && typeof record.recurringRuleId !== 'string') {
+    return 'Invalid recurring rule id';
+  }
+  if (
+    record.attachments !== undefined &&
+    !(
+      Array.isArray(record.attachments) &&
+      record.attachments.every(
+        attachment =>
+          isObject(attachment) &&
+          typeof attachment.id === 'string' &&
+          typeof attachment.name === 'string' &&
+          typeof attachment.type === 'string'
+      )
+    )
+  ) {
+    return 'Invalid attachments';
+  }
+  if (
+    record.lineItems !== undefined &&
+    !(
+      Array.isArray(record.lineItems) &&
+      record.lineItems.every(
+        item =>
+          isObject(item) &&
+          typeof item.id === 'string' &&
+          Number.isSafeInteger(item.amount) &&
+          typeof item.categoryId === 'string'
+      )
+    )
+  ) {
+    return 'Invalid line items';
+  }
+  if (
+    record.split !== undefined &&
+    !(
+      isObject(record.split) &&
+      ['equal', 'percentage', 'exact'].includes(record.split.method as string) &&
+      Array.isArray(record.split.shares) &&
+      record.split.shares.every(
+        share =>
+          isObject(share) && typeof share.person === 'string' && typeof share.value === 'number'
+      )
+    )
+  ) {
+    return 'Invalid split';
+  }
+  if (
+    (record.groupId !== undefined && typeof record.groupId !== 'string') ||
+    (record.paidBy !== undefined && typeof record.paidBy !== 'string')
+  ) {
+    return 'Invalid group';
+  }
+  if (record.accountId !== undefined && typeof record.accountId !== 'string') {
+    return 'Invalid account id';
+  }
+  if (record.cleared !== undefined && typeof record.cleared !== 'boolean') {
+    return 'Invalid cleared flag';
+  }
+  if (record.type !== undefined && !isTransactionType(record.type)) {
+    return 'Invalid transaction type';
+  }
+  if (record.refundOf !== undefined && typeof record.refundOf !== 'string') {
+    return 'Invalid refunded expense id';
+  }
+  if (typeof record.createdAt !== 'string' || typeof record.updatedAt !== 'string') {
+    return 'Missing timestamps';
+  }
+
+  return null;
+};
+
+export const createEnvelope = <T extends unknown[]>(data: T): StorageEnvelope<T> => ({
+  schemaVersion: CURRENT_SCHEMA_VERSION,
+  data,
+  metadata: {
+    savedAt: new Date().toISOString(),
+    recordCount: data.length,
+  },
+});
+
+const quarantine = (record: unknown, reason: string, schemaVersion: number): QuarantinedRecord => ({
+  record,
+  reason,
+  schemaVersion,
+  quarantinedAt: new Date().toISOString(),
+});
+
+// Run records stored at `fromVersion` through every migration up to the current version
+export const migrateRecords = (records: unknown[], fromVersion: number): unknown[] =>
+  migrations
+    .filter(migration => migration.version > fromVersion)
+    .sort((a, b) => a.version - b.version)
+    .reduce((current, migration) => migration.migrate(current), records);
+
+// Split records into valid expenses and quarantined leftovers
+export const partitionRecords = (
+  records: unknown[],
+  schemaVersion: number
+): { expenses: Expense[]; quarantined: QuarantinedRecord[] } => {
+  const expenses: Expense[] = [];
+  const quarantined: QuarantinedRecord[] = [];
+
+  records.forEach(record => {
+    const reason = validateExpenseRecord(record);
+    if (reason) {
+      quarantined.push(quarantine(record, reason, schemaVersion));
+    } else {
+      expenses.push(record as Expense);
+    }
+  });
+
+  return { expenses, quarantined };
+};
+
+// True for an envelope written by a newer build, which this one must not write over
+export const isNewerPayload = (raw: string | null): boolean => {
+  if (!raw) return false;
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return (
+      isObject(parsed) &&
+      typeof parsed.schemaVersion === 'number' &&
+      parsed.schemaVersion > CURRENT_SCHEMA_VERSION
+    );
+  } catch {
+    return false;
+  }
+};
+
+// Parse a raw stored string (bare array or envelope) and bring it up to the current schema
+export const upgradePayload = (raw: string): UpgradeResult => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return {
+      expenses: [],
+      quarantined: [quarantine(raw, 'Stored data is not valid JSON', 0)],
+      fromVersion: 0,
+      needsRewrite: true,
+    };
+  }
+
+  let fromVersion: number;
+  let records: unknown[];
+
+  if (Array.isArray(parsed)) {
+    fromVersion = 0;
+    records = parsed;
+  } else if (
+    isObject(parsed) &&
+    typeof parsed.schemaVersion === 'number' &&
+    Array.isArray(parsed.data)
+  ) {
+    fromVersion = parsed.schemaVersion;
+    records = parsed.data;
+  } else {
+    return {
+      expenses: [],
+      quarantined: [quarantine(parsed, 'Unrecognised storage format', 0)],
+      fromVersion: 0,
+      needsRewrite: true,
+    };
+  }
+
+  // Data written by a newer build: read what we can. Storage refuses to write over it, so
+  // fields this build does not know about are never lost
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    const { expenses } = partitionRecords(records, fromVersion);
+    return { expenses, quarantined: [], fromVersion, needsRewrite: false };
+  }
+
+  const migrated = migrateRecords(records, fromVersion);
+  const { expenses, quarantined } = partitionRecords(migrated, CURRENT_SCHEMA_VERSION);
+
+  return {
+    expenses,
+    quarantined,
+    fromVersion,
+    needsRewrite: fromVersion < CURRENT_SCHEMA_VERSION || quarantined.length > 0,
+  };
+};
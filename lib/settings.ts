@@ -0,0 +1,78 @@
+import { DEFAULT_LANGUAGE, Language, isLanguage } from './i18n';
+import { DEFAULT_LOCALE, isSupportedLocale } from '@/utils/locale';
+import { isCurrencyCode } from './exchangeRates';
+
+const SETTINGS_KEY = 'expense-tracker-settings';
+
+export interface AppSettings {
+  // Days a deleted expense stays in the trash before it is purged; 0 keeps it forever
+  trashRetentionDays: number;
+  // Currency that totals and reports are converted into
+  baseCurrency: string;
+  // BCP 47 tag that amounts and dates are formatted and parsed in, e.g. "de-DE"
+  locale: string;
+  // Language the interface is shown in; independent of the regional format
+  language: Language;
+}
+
+export const defaultSettings: AppSettings = {
+  trashRetentionDays: 30,
+  baseCurrency: 'GBP',
+  locale: DEFAULT_LOCALE,
+  language: DEFAULT_LANGUAGE,
+};
+
+// Check each stored field on its own, so one bad value, say from an edited backup, falls back to
+// its default without taking the others with it. An unknown locale would make every formatted
+// amount throw.
+export const sanitiseSettings = (value: unknown): AppSettings => {
+  const stored = (typeof value === 'object' && value !== null ? value : {}) as Partial<AppSettings>;
+  const { trashRetentionDays, baseCurrency, locale, language } = stored;
+
+  return {
+    trashRetentionDays:
+      typeof trashRetentionDays === 'number' &&
+      Number.isInteger(trashRetentionDays) &&
+      trashRetentionDays >= 0
+        ? trashRetentionDays
+        : defaultSettings.trashRetentionDays,
+    baseCurrency:
+      typeof baseCurrency === 'string' && isCurrencyCode(baseCurrency)
+        ? baseCurrency
+        : defaultSettings.baseCurrency,
+    locale: typeof locale === 'string' && isSupportedLocale(locale) ? locale : DEFAULT_LOCALE,
+    language: isLanguage(language) ? language : DEFAULT_LANGUAGE,
+  };
+};
+
+export const settingsStorage = {
+  // Get settings, filling in defaults for anything not yet stored
+  getSettings(): AppSettings {
+    if (typeof window === 'undefined') return defaultSettings;
+
+    try {
+      const data = localStorage.getItem(SETTINGS_KEY);
+      if (!data) return defaultSettings;
+
+      return sanitiseSettings(JSON.parse(data));
+    } catch (error) {
+      console.error('Error reading settings from localStorage:', error);
+      return defaultSettings;
+    }
+  },
+
+  // Merge and save settings
+  updateSettings(updates: Partial<AppSettings>): AppSettings {
+    const settings = { ...this.getSettings(), ...updates };
+
+    if (typeof window !== 'undefined') {
+      try {
+        localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+      } catch (error) {
+        console.error('Error writing settings to localStorage:', error);
+      }
+    }
+
+    return settings;
+  },
+};
@@ -1,32 +1,169 @@
-import { Expense } from '@/types/expense';
+import { Expense, TrashedExpense } from '@/types/expense';
+import { createEnvelope, isNewerPayload, upgradePayload, QuarantinedRecord } from './schema';
 
 const STORAGE_KEY = 'expense-tracker-data';
+const TRASH_KEY = 'expense-tracker-trash';
+const QUARANTINE_KEY = 'expense-tracker-quarantine';
+const QUARANTINE_SEEN_KEY = 'expense-tracker-quarantine-seen';
+const DISMISSED_DUPLICATES_KEY = 'expense-tracker-dismissed-duplicates';
+
+// Read an enveloped collection, upgrading older payloads and quarantining bad records
+const readCollection = <T extends Expense>(key: string): T[] => {
+  if (typeof window === 'undefined') return [];
+
+  try {
+    const data = localStorage.getItem(key);
+    if (!data) return [];
+
+    const { expenses, quarantined, needsRewrite } = upgradePayload(data);
+
+    if (quarantined.length > 0) {
+      storageUtils.addToQuarantine(quarantined);
+    }
+    if (needsRewrite) {
+      writeCollection(key, expenses);
+    }
+
+    return expenses as T[];
+  } catch (error) {
+    console.error('Error reading from localStorage:', error);
+    return [];
+  }
+};
+
+// Write a collection inside a versioned envelope. Data saved by a newer build is left alone,
+// since writing it back at this build's version would drop what it does not understand.
+const writeCollection = (key: string, records: Expense[]): void => {
+  if (typeof window === 'undefined') return;
+
+  try {
+    if (isNewerPayload(localStorage.getItem(key))) {
+      console.error(`Not writing ${key}: it was saved by a newer version of the app`);
+      return;
+    }
+    localStorage.setItem(key, JSON.stringify(createEnvelope(records)));
+  } catch (error) {
+    console.error('Error writing to localStorage:', error);
+  }
+};
 
 export const storageUtils = {
-  // Get all expenses from localStorage
+  // True when expenses were saved by a newer version of the app; changes are not saved then
+  isReadOnly(): boolean {
+    if (typeof window === 'undefined') return false;
+    return [STORAGE_KEY, TRASH_KEY].some(key => isNewerPayload(localStorage.getItem(key)));
+  },
+
+  // Get all active expenses from localStorage
   getExpenses(): Expense[] {
+    return readCollection<Expense>(STORAGE_KEY);
+  },
+
+  // Save active expenses to localStorage
+  saveExpenses(expenses: Expense[]): void {
+    writeCollection(STORAGE_KEY, expenses);
+  },
+
+  // Remove the stored expenses outright, once they have been moved to another backend
+  discardExpenses(): void {
+    if (typeof window !== 'undefined') localStorage.removeItem(STORAGE_KEY);
+  },
+
+  // Get all soft-deleted expenses
+  getTrash(): TrashedExpense[] {
+    return readCollection<TrashedExpense>(TRASH_KEY);
+  },
+
+  // Save soft-deleted expenses
+  saveTrash(trash: TrashedExpense[]): void {
+    writeCollection(TRASH_KEY, trash);
+  },
+
+  // Remove the stored trash outright, once it has been moved to another backend
+  discardTrash(): void {
+    if (typeof window !== 'undefined') localStorage.removeItem(TRASH_KEY);
+  },
+
+  // Get records that failed to load so they can be inspected or recovered later
+  getQuarantine(): QuarantinedRecord[] {
     if (typeof window === 'undefined') return [];
 
     try {
-      const data = localStorage.getItem(STORAGE_KEY);
+      const data = localStorage.getItem(QUARANTINE_KEY);
       return data ? JSON.parse(data) : [];
     } catch (error) {
-      console.error('Error reading from localStorage:', error);
+      console.error('Error reading quarantine from localStorage:', error);
       return [];
     }
   },
 
-  // Save expenses to localStorage
-  saveExpenses(expenses: Expense[]): void {
+  // Append records to the quarantine
+  addToQuarantine(records: QuarantinedRecord[]): void {
     if (typeof window === 'undefined') return;
 
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(expenses));
+      localStorage.setItem(
+        QUARANTINE_KEY,
+        JSON.stringify([...this.getQuarantine(), ...records])
+      );
     } catch (error) {
-      console.error('Error writing to localStorage:', error);
+      console.error('Error writing quarantine to localStorage:', error);
+    }
+  },
+
+  // Discard all quarantined records
+  clearQuarantine(): void {
+    if (typeof window === 'undefined') return;
+    localStorage.removeItem(QUARANTINE_KEY);
+    localStorage.removeItem(QUARANTINE_SEEN_KEY);
+  },
+
+  // Quarantined records the user has not been told about yet; dismissing the warning
+  // acknowledges the rest, which stay stored for recovery
+  getUnseenQuarantineCount(): number {
+    if (typeof window === 'undefined') return 0;
+
+    const seen = Number(localStorage.getItem(QUARANTINE_SEEN_KEY)) || 0;
+    return Math.max(0, this.getQuarantine().length - seen);
+  },
+
+  // Mark every record now in the quarantine as seen
+  acknowledgeQuarantine(): void {
+    if (typeof window === 'undefined') return;
+    localStorage.setItem(QUARANTINE_SEEN_KEY, String(this.getQuarantine().length));
+  },
+
+  // Get pair keys of expenses the user has confirmed are not duplicates
+  getDismissedDuplicates(): string[] {
+    if (typeof window === 'undefined') return [];
+
+    try {
+      const data = localStorage.getItem(DISMISSED_DUPLICATES_KEY);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error reading dismissed duplicates from localStorage:', error);
+      return [];
     }
   },
 
+  // Save dismissed duplicate pair keys, replacing what is stored
+  saveDismissedDuplicates(pairKeys: string[]): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      localStorage.setItem(DISMISSED_DUPLICATES_KEY, JSON.stringify(Array.from(new Set(pairKeys))));
+    } catch (error) {
+      console.error('Error writing dismissed duplicates to localStorage:', error);
+    }
+  },
+
+  // Remember more dismissed duplicate pairs
+  dismissDuplicates(pairKeys: string[]): string[] {
+    const dismissed = Array.from(new Set([...this.getDismissedDuplicates(), ...pairKeys]));
+    this.saveDismissedDuplicates(dismissed);
+    return dismissed;
+  },
+
   // Add a new expense
   addExpense(expense: Omit<Expense, 'id' | 'createdAt' | 'updatedAt'>): Expense {
     const expenses = this.getExpenses();
@@ -45,6 +182,23 @@ export const storageUtils = {
     return newExpense;
   },
 
+  // Add several new expenses in one write
+  addExpenses(newExpenses: Omit<Expense, 'id' | 'createdAt' | 'updatedAt'>[]): Expense[] {
+    const expenses = this.getExpenses();
+    const now = new Date().toISOString();
+
+    const added: Expense[] = newExpenses.map(expense => ({
+      ...expense,
+      id: crypto.randomUUID(),
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    this.saveExpenses([...expenses, ...added]);
+
+    return added;
+  },
+
   // Update an existing expense
   updateExpense(id: string, updates: Partial<Omit<Expense, 'id' | 'createdAt' | 'updatedAt'>>): Expense | null {
     const expenses = this.getExpenses();
@@ -64,19 +218,90 @@ export const storageUtils = {
     return updatedExpense;
   },
 
-  // Delete an expense
-  deleteExpense(id: string): boolean {
+  // Insert or overwrite whole records; a record coming back to life leaves the trash
+  putExpenses(records: Expense[]): void {
+    const byId = new Map(this.getExpenses().map(exp => [exp.id, exp]));
+    records.forEach(exp => byId.set(exp.id, exp));
+    this.saveExpenses(Array.from(byId.values()));
+
+    const ids = new Set(records.map(exp => exp.id));
+    const trash = this.getTrash();
+    if (trash.some(exp => ids.has(exp.id))) {
+      this.saveTrash(trash.filter(exp => !ids.has(exp.id)));
+    }
+  },
+
+  // Insert or overwrite trashed records, taking them out of the active list
+  putTrash(records: TrashedExpense[]): void {
+    const ids = new Set(records.map(exp => exp.id));
+    const byId = new Map(this.getTrash().map(exp => [exp.id, exp]));
+    records.forEach(exp => byId.set(exp.id, exp));
+    this.saveTrash(Array.from(byId.values()));
+
     const expenses = this.getExpenses();
-    const filteredExpenses = expenses.filter(exp => exp.id !== id);
+    if (expenses.some(exp => ids.has(exp.id))) {
+      this.saveExpenses(expenses.filter(exp => !ids.has(exp.id)));
+    }
+  },
+
+  // Move expenses to the trash, stamped with the deletion time
+  trashExpenses(ids: string[]): string[] {
+    const idSet = new Set(ids);
+    const expenses = this.getExpenses();
+    const deletedAt = new Date().toISOString();
+    const trashed: TrashedExpense[] = expenses
+      .filter(exp => idSet.has(exp.id))
+      .map(exp => ({ ...exp, deletedAt }));
+
+    if (trashed.length === 0) return [];
+
+    this.saveExpenses(expenses.filter(exp => !idSet.has(exp.id)));
+    this.saveTrash([...this.getTrash(), ...trashed]);
+    return trashed.map(exp => exp.id);
+  },
+
+  // Delete an expense (soft delete into the trash)
+  deleteExpense(id: string): boolean {
+    return this.trashExpenses([id]).length > 0;
+  },
+
+  // Move trashed expenses back into the active list
+  restoreExpenses(ids: string[]): Expense[] {
+    const idSet = new Set(ids);
+    const now = new Date().toISOString();
+    const restored: Expense[] = this.getTrash()
+      .filter(exp => idSet.has(exp.id))
+      .map(({ deletedAt: _deletedAt, ...exp }) => ({ ...exp, updatedAt: now }));
 
-    if (filteredExpenses.length === expenses.length) return false;
+    if (restored.length > 0) {
+      this.putExpenses(restored);
+    }
+    return restored;
+  },
 
-    this.saveExpenses(filteredExpenses);
-    return true;
+  // Permanently remove expenses from the trash
+  purgeExpenses(ids: string[]): number {
+    const idSet = new Set(ids);
+    const trash = this.getTrash();
+    const remaining = trash.filter(exp => !idSet.has(exp.id));
+
+    this.saveTrash(remaining);
+    return trash.length - remaining.length;
+  },
+
+  // Permanently remove everything trashed before the cutoff
+  purgeTrashedBefore(cutoff: string): number {
+    const trash = this.getTrash();
+    const remaining = trash.filter(exp => exp.deletedAt >= cutoff);
+
+    if (remaining.length !== trash.length) {
+      this.saveTrash(remaining);
+    }
+    return trash.length - remaining.length;
   },
 
-  // Clear all expenses
+  // Clear all expenses (into the trash, so they can still be restored)
   clearAllExpenses(): void {
-    this.saveExpenses([]);
+    this.trashExpenses(this.getExpenses().map(exp => exp.id));
   },
 };
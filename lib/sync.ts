@@ -0,0 +1,111 @@
+import { Expense } from '@/types/expense';
+
+const CHANNEL_NAME = 'expense-tracker-sync';
+// Fallback for browsers without BroadcastChannel: other tabs receive a `storage` event
+const SYNC_STORAGE_KEY = 'expense-tracker-sync-message';
+
+export type SyncMessage =
+  | { type: 'upsert'; expenses: Expense[] }
+  | { type: 'delete'; ids: string[] }
+  | { type: 'reload' };
+
+interface SyncEnvelope {
+  tabId: string;
+  sentAt: string;
+  message: SyncMessage;
+}
+
+export interface SyncChannel {
+  post(message: SyncMessage): void;
+  close(): void;
+}
+
+const isNewer = (incoming: Expense, existing: Expense): boolean =>
+  new Date(incoming.updatedAt).getTime() >= new Date(existing.updatedAt).getTime();
+
+// Merge incoming records into the local list, keeping whichever copy was updated last
+export const mergeExpenses = (local: Expense[], incoming: Expense[]): Expense[] => {
+  const byId = new Map(local.map(exp => [exp.id, exp]));
+
+  incoming.forEach(exp => {
+    const existing = byId.get(exp.id);
+    if (!existing || isNewer(exp, existing)) {
+      byId.set(exp.id, exp);
+    }
+  });
+
+  // Preserve local ordering, then append anything new
+  const localIds = new Set(local.map(exp => exp.id));
+  return [
+    ...local.map(exp => byId.get(exp.id) as Expense),
+    ...incoming.filter(exp => !localIds.has(exp.id)).map(exp => byId.get(exp.id) as Expense),
+  ];
+};
+
+// Apply a message from another tab to this tab's in-memory expenses
+export const applySyncMessage = (expenses: Expense[], message: SyncMessage): Expense[] => {
+  switch (message.type) {
+    case 'upsert':
+      return mergeExpenses(expenses, message.expenses);
+    case 'delete': {
+      const ids = new Set(message.ids);
+      return expenses.filter(exp => !ids.has(exp.id));
+    }
+    default:
+      return expenses;
+  }
+};
+
+// Open a channel to the other tabs. Messages this tab posts are never delivered back to it.
+export const createSyncChannel = (onMessage: (message: SyncMessage) => void): SyncChannel => {
+  const tabId = crypto.randomUUID();
+
+  const handleEnvelope = (envelope: SyncEnvelope | null) => {
+    if (envelope && envelope.tabId !== tabId) {
+      onMessage(envelope.message);
+    }
+  };
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    channel.onmessage = event => handleEnvelope(event.data as SyncEnvelope);
+
+    return {
+      post(message) {
+        channel.postMessage({ tabId, sentAt: new Date().toISOString(), message });
+      },
+      close() {
+        channel.close();
+      },
+    };
+  }
+
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key !== SYNC_STORAGE_KEY || !event.newValue) return;
+
+    try {
+      handleEnvelope(JSON.parse(event.newValue));
+    } catch (error) {
+      console.error('Error reading sync message:', error);
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    post(message) {
+      try {
+        // sentAt makes every write unique so repeated messages still fire an event
+        localStorage.setItem(
+          SYNC_STORAGE_KEY,
+          JSON.stringify({ tabId, sentAt: new Date().toISOString(), message })
+        );
+      } catch (error) {
+        console.error('Error writing sync message:', error);
+      }
+    },
+    close() {
+      window.removeEventListener('storage', handleStorage);
+    },
+  };
+};
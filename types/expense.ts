@@ -1,41 +1,246 @@
-export type ExpenseCategory =
-  | 'Food'
-  | 'Transportation'
-  | 'Entertainment'
-  | 'Shopping'
-  | 'Bills'
-  | 'Other';
+export type CategoryColor =
+  | 'green'
+  | 'blue'
+  | 'purple'
+  | 'pink'
+  | 'orange'
+  | 'red'
+  | 'yellow'
+  | 'teal'
+  | 'indigo'
+  | 'gray';
+
+// Spending categories are for expenses and refunds; income has categories of its own
+export type CategoryKind = 'expense' | 'income';
+
+export interface Category {
+  id: string;
+  name: string;
+  color: CategoryColor;
+  icon: string; // Emoji shown next to the name
+  parentId?: string; // Set for subcategories; top-level categories have none
+  kind?: CategoryKind; // Omitted for spending categories
+  archived: boolean; // Hidden from pickers but kept for existing expenses
+  createdAt: string;
+  updatedAt: string;
+}
+
+// An exact amount in whole minor units (pence, cents, yen) of an ISO 4217 currency
+export interface Money {
+  minor: number; // Integer; 1250 is £12.50 in GBP but ¥1,250 in JPY
+  currency: string; // ISO 4217 code, e.g. "GBP"
+}
+
+export type AccountType = 'card' | 'cash' | 'bank';
+
+// Where money is paid from, e.g. a credit card, a wallet or a current account
+export interface Account {
+  id: string;
+  name: string;
+  type: AccountType;
+  archived: boolean; // Hidden from pickers but kept for existing expenses
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Money going out, coming in, or coming back from an earlier purchase
+export type TransactionType = 'expense' | 'income' | 'refund';
+
+// A receipt kept with an expense. The file itself is stored separately, keyed by the id.
+export interface Attachment {
+  id: string;
+  name: string; // File name as picked, e.g. "receipt.pdf"
+  type: string; // MIME type: an image or application/pdf
+  size: number; // Bytes
+  addedAt: string;
+}
+
+// One part of an itemised expense, e.g. the household goods on a supermarket receipt
+export interface LineItem {
+  id: string;
+  description: string;
+  amount: number; // Minor units of the expense's currency
+  categoryId: string;
+}
+
+export type SplitMethod = 'equal' | 'percentage' | 'exact';
+
+// One person's part of a shared expense. What the value means depends on the split method:
+// it is ignored for equal splits, a percentage, or an exact amount in minor units.
+export interface SplitShare {
+  person: string;
+  value: number;
+  memberId?: string; // Set on group expenses, so the share stays with the member if renamed
+}
+
+// How an expense is shared between people
+export interface ExpenseSplit {
+  method: SplitMethod;
+  shares: SplitShare[];
+}
 
 export interface Expense {
   id: string;
   date: string; // ISO date string
-  amount: number;
-  category: ExpenseCategory;
+  amount: Money; // In the currency it was paid in; always positive, the type gives the direction
+  type?: TransactionType; // Omitted for expenses
+  refundOf?: string; // Id of the expense a refund gives money back for
+  categoryId: string; // For itemised expenses, the category of the largest item
+  description: string;
+  tags?: string[]; // Free-form labels such as "holiday-2026"; lower-case, no duplicates
+  lineItems?: LineItem[]; // Parts with their own categories, adding up to the amount
+  split?: ExpenseSplit;
+  externalId?: string; // Bank transaction reference for imported statements
+  recurringRuleId?: string; // The recurring rule this expense was generated by or started
+  groupId?: string; // Shared within a group; the split says what each member owes
+  paidBy?: string; // Id of the group member who paid
+  accountId?: string; // The account or payment method it was paid with
+  cleared?: boolean; // Ticked off against the account's statement
+  attachments?: Attachment[]; // Receipts, oldest first
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A monthly spending limit for one category, including its subcategories, or for everything
+export interface Budget {
+  id: string;
+  categoryId?: string; // Omitted for the overall budget
+  amount: Money; // Per month, in the base currency it was set in
+  rollover: boolean; // Carry unspent budget over into the following month
+  startMonth: string; // yyyy-MM of the first month the budget applies to
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+// When a recurring expense falls due and when it stops
+export interface RecurrenceSchedule {
+  frequency: RecurrenceFrequency;
+  dayOfMonth?: number; // 1-31 for monthly and yearly rules; shorter months use their last day
+  endDate?: string; // yyyy-MM-dd of the last day an occurrence may fall on
+  occurrenceLimit?: number; // Stop after this many occurrences
+}
+
+// An expense that is added again each time its schedule comes round
+export interface RecurringRule extends RecurrenceSchedule {
+  id: string;
+  amount: Money;
+  type?: TransactionType; // Omitted for expenses
+  categoryId: string;
   description: string;
+  tags?: string[];
+  startDate: string; // yyyy-MM-dd the schedule counts from
+  paused: boolean; // Paused rules add nothing, and skip what falls due meanwhile
+  generatedCount: number; // Occurrences recorded so far, towards occurrenceLimit
+  coveredUntil?: string; // yyyy-MM-dd up to which occurrences were recorded or skipped
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface GroupMember {
+  id: string;
+  name: string;
+}
+
+// People who share expenses between them, e.g. colleagues on a team trip
+export interface Group {
+  id: string;
+  name: string;
+  members: GroupMember[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A payment from one group member to another to settle up
+export interface Settlement {
+  id: string;
+  groupId: string;
+  fromMemberId: string;
+  toMemberId: string;
+  amount: Money; // In the base currency it was recorded in
+  date: string; // yyyy-MM-dd
   createdAt: string;
   updatedAt: string;
 }
 
+export interface TrashedExpense extends Expense {
+  deletedAt: string; // ISO timestamp of the soft delete
+}
+
 export interface ExpenseFormData {
+  type?: TransactionType; // Omitted for expenses
+  refundOf?: string;
   date: string;
   amount: string;
-  category: ExpenseCategory;
+  currency: string;
+  categoryId: string;
   description: string;
+  tags: string[];
+  attachments?: Attachment[];
+  lineItems?: LineItemFormData[];
+  split?: SplitFormData;
+  groupId?: string;
+  paidBy?: string;
+  accountId?: string;
 }
 
+// Line item and split amounts stay as typed until validated, like the expense's own amount
+export interface LineItemFormData {
+  id: string;
+  description: string;
+  amount: string;
+  categoryId: string;
+}
+
+export interface SplitFormData {
+  method: SplitMethod;
+  shares: { person: string; value: string; memberId?: string }[];
+}
+
+// How a recurring schedule is entered; numbers stay as typed until validated
+export interface RecurrenceFormData {
+  frequency: RecurrenceFrequency;
+  dayOfMonth: string;
+  ends: 'never' | 'onDate' | 'afterCount';
+  endDate: string;
+  occurrenceLimit: string;
+}
+
+// Whether a tag filter needs any one of the chosen tags or every one of them
+export type TagMatch = 'any' | 'all';
+
 export interface ExpenseFilters {
   startDate?: string;
   endDate?: string;
-  category?: ExpenseCategory | 'All';
+  categoryId?: string; // Category id, or 'All' for no filter
   searchQuery?: string;
+  tags?: string[];
+  tagMatch?: TagMatch;
 }
 
+// Totals are minor units of the base currency; expenses without an exchange rate are left out.
+// Income is not spending and is left out too, while refunds take their amount off.
 export interface SpendingSummary {
   totalSpending: number;
   monthlySpending: number;
-  categoryBreakdown: Record<ExpenseCategory, number>;
+  categoryBreakdown: Record<string, number>; // Spent directly in each category, by id
+  categoryRollup: Record<string, number>; // Including everything in its subcategories
+  tagBreakdown: Record<string, number>; // An expense counts towards each of its tags
+  accountBreakdown: Record<string, number>; // By account id; expenses with no account are left out
+  currencyTotals: Record<string, number>; // Original minor units, by currency code
+  unconvertedCount: number; // Expenses with no exchange rate into the base currency
   topCategory: {
-    category: ExpenseCategory;
+    categoryId: string;
     amount: number;
   } | null;
 }
+
+// Money in and out over one month, in minor units of the base currency
+export interface MonthlyCashFlow {
+  month: string; // yyyy-MM
+  income: number;
+  spending: number; // Expenses less refunds
+  net: number; // income - spending; negative when more went out than came in
+  savingsRate: number | null; // net / income, or null for a month with no income
+}
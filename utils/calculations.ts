@@ -1,11 +1,50 @@
-import { Expense, ExpenseCategory, SpendingSummary } from '@/types/expense';
-import { startOfMonth, endOfMonth, isWithinInterval } from 'date-fns';
+import { Category, Expense, MonthlyCashFlow, SpendingSummary } from '@/types/expense';
+import { toMonth } from '@/lib/budgets';
+import { categoriesOfKind, getCategoryPath } from '@/lib/categories';
+import { CurrencyConversion } from '@/lib/exchangeRates';
+import { withRefundedCategories } from './refunds';
+import { categoryShares } from './splits';
+import { spendingAmount, transactionType } from './transactions';
+import { startOfMonth, endOfMonth, isWithinInterval, subMonths } from 'date-fns';
 
-export const calculateSpendingSummary = (expenses: Expense[]): SpendingSummary => {
+// Without a conversion every amount is taken as already being in the base currency
+const noConversion: CurrencyConversion = {
+  baseCurrency: 'GBP',
+  toBase: expense => expense.amount,
+};
+
+export const calculateSpendingSummary = (
+  allExpenses: Expense[],
+  categories: Category[] = [],
+  conversion: CurrencyConversion = noConversion
+): SpendingSummary => {
   const now = new Date();
   const monthStart = startOfMonth(now);
   const monthEnd = endOfMonth(now);
 
+  // Income is not spending, and refunds count as negative spending from here on. Linked
+  // refunds take the categories of what they refund.
+  const outgoings = withRefundedCategories(allExpenses).filter(
+    expense => transactionType(expense) !== 'income'
+  );
+
+  // Original amounts per currency, before any conversion
+  const currencyTotals: Record<string, number> = {};
+  outgoings.forEach(expense => {
+    const { currency, minor } = expense.amount;
+    currencyTotals[currency] = (currencyTotals[currency] ?? 0) + spendingAmount(expense, minor);
+  });
+
+  // Work in whole minor units of the base currency from here on, so every sum below is exact,
+  // leaving out anything that has no rate
+  const expenses = outgoings.flatMap(expense => {
+    const converted = conversion.toBase(expense);
+    return converted === null
+      ? []
+      : [{ ...expense, amount: spendingAmount(expense, converted.minor) }];
+  });
+  const unconvertedCount = outgoings.length - expenses.length;
+
   // Calculate total spending
   const totalSpending = expenses.reduce((sum, expense) => sum + expense.amount, 0);
 
@@ -17,28 +56,60 @@ export const calculateSpendingSummary = (expenses: Expense[]): SpendingSummary =
     })
     .reduce((sum, expense) => sum + expense.amount, 0);
 
-  // Calculate category breakdown
-  const categoryBreakdown: Record<ExpenseCategory, number> = {
-    Food: 0,
-    Transportation: 0,
-    Entertainment: 0,
-    Shopping: 0,
-    Bills: 0,
-    Other: 0,
-  };
+  // Calculate category breakdown, starting every active spending category at zero
+  const categoryBreakdown: Record<string, number> = Object.fromEntries(
+    categoriesOfKind(categories, 'expense')
+      .filter(category => !category.archived)
+      .map(category => [category.id, 0])
+  );
+
+  // An itemised expense credits each category with its own items' share
+  expenses.forEach(expense => {
+    categoryShares(expense, expense.amount).forEach(({ categoryId, amount }) => {
+      categoryBreakdown[categoryId] = (categoryBreakdown[categoryId] ?? 0) + amount;
+    });
+  });
+
+  // Roll each category's spending up into every ancestor
+  const categoryRollup: Record<string, number> = {};
+  const topLevelIds = new Set<string>();
+
+  Object.entries(categoryBreakdown).forEach(([categoryId, amount]) => {
+    const path = getCategoryPath(categories, categoryId).map(category => category.id);
+    const ids = path.length > 0 ? path : [categoryId];
+
+    topLevelIds.add(ids[0]);
+    ids.forEach(id => {
+      categoryRollup[id] = (categoryRollup[id] ?? 0) + amount;
+    });
+  });
+
+  // Calculate tag breakdown; an expense with several tags counts towards each
+  const tagBreakdown: Record<string, number> = {};
 
   expenses.forEach(expense => {
-    categoryBreakdown[expense.category] += expense.amount;
+    (expense.tags ?? []).forEach(tag => {
+      tagBreakdown[tag] = (tagBreakdown[tag] ?? 0) + expense.amount;
+    });
   });
 
-  // Find top category
+  // Calculate account breakdown
+  const accountBreakdown: Record<string, number> = {};
+
+  expenses.forEach(expense => {
+    if (!expense.accountId) return;
+    accountBreakdown[expense.accountId] =
+      (accountBreakdown[expense.accountId] ?? 0) + expense.amount;
+  });
+
+  // Find top category among the top-level ones
   let topCategory: SpendingSummary['topCategory'] = null;
   let maxAmount = 0;
 
-  (Object.keys(categoryBreakdown) as ExpenseCategory[]).forEach(category => {
-    if (categoryBreakdown[category] > maxAmount) {
-      maxAmount = categoryBreakdown[category];
-      topCategory = { category, amount: maxAmount };
+  topLevelIds.forEach(categoryId => {
+    if (categoryRollup[categoryId] > maxAmount) {
+      maxAmount = categoryRollup[categoryId];
+      topCategory = { categoryId, amount: maxAmount };
     }
   });
 
@@ -46,6 +117,47 @@ export const calculateSpendingSummary = (expenses: Expense[]): SpendingSummary =
     totalSpending,
     monthlySpending,
     categoryBreakdown,
+    categoryRollup,
+    tagBreakdown,
+    accountBreakdown,
+    currencyTotals,
+    unconvertedCount,
     topCategory,
   };
 };
+
+// Income, spending and what was left over for each of the last few months, oldest first and
+// ending with the current one. Transactions with no exchange rate are left out.
+export const calculateCashFlow = (
+  expenses: Expense[],
+  conversion: CurrencyConversion = noConversion,
+  months = 6,
+  now: Date = new Date()
+): MonthlyCashFlow[] => {
+  const totals = new Map(
+    Array.from({ length: months }, (_, index) => [
+      toMonth(subMonths(startOfMonth(now), months - 1 - index)),
+      { income: 0, spending: 0 },
+    ])
+  );
+
+  expenses.forEach(expense => {
+    const entry = totals.get(toMonth(expense.date));
+    const converted = entry && conversion.toBase(expense);
+    if (!entry || !converted) return;
+
+    if (transactionType(expense) === 'income') {
+      entry.income += converted.minor;
+    } else {
+      entry.spending += spendingAmount(expense, converted.minor);
+    }
+  });
+
+  return Array.from(totals, ([month, { income, spending }]) => ({
+    month,
+    income,
+    spending,
+    net: income - spending,
+    savingsRate: income > 0 ? (income - spending) / income : null,
+  }));
+};
@@ -0,0 +1,262 @@
+import { Category, ExpenseFormData, TransactionType } from '@/types/expense';
+import { findCategoryByName, getDefaultCategoryId } from '@/lib/categories';
+import { Translator, createTranslator } from '@/lib/i18n';
+import { format, isValid, parse } from 'date-fns';
+import { validateExpenseForm, ValidationErrors } from './validation';
+import { normaliseAmount, parseMoney, toDecimalString } from './currency';
+import { isTransactionType } from './transactions';
+
+export type ImportField = 'date' | 'amount' | 'currency' | 'category' | 'description' | 'type';
+
+// Column index for each field, or null when the file has no such column
+export type ColumnMapping = Record<ImportField, number | null>;
+
+export type DateFormatOption = 'auto' | 'dd/MM/yyyy' | 'MM/dd/yyyy' | 'yyyy-MM-dd';
+
+export interface ImportOptions {
+  mapping: ColumnMapping;
+  hasHeader: boolean;
+  dateFormat: DateFormatOption;
+  // Category cells are matched to these by name
+  categories: Category[];
+  // Used when the category column is missing or a cell is blank; income rows use the default
+  // income category instead
+  defaultCategoryId: string;
+  // Used when the currency column is missing or a cell is blank
+  defaultCurrency: string;
+  // Decides how ambiguous amounts such as "1,234" are read; defaults to UK format
+  locale?: string;
+}
+
+export interface ImportRow {
+  rowNumber: number; // 1-based line in the source file
+  formData: ExpenseFormData;
+  errors: ValidationErrors;
+}
+
+export const IMPORT_FIELDS: ImportField[] = [
+  'date',
+  'amount',
+  'currency',
+  'category',
+  'description',
+  'type',
+];
+
+const CANDIDATE_DELIMITERS = [',', ';', '\t', '|'];
+
+// Tried in order when the date format is 'auto'. Day-first comes before month-first,
+// matching the dd/MM/yyyy that exportToCSV writes.
+const AUTO_DATE_FORMATS = [
+  'yyyy-MM-dd',
+  'dd/MM/yyyy',
+  'd/M/yyyy',
+  'dd-MM-yyyy',
+  'dd.MM.yyyy',
+  'MM/dd/yyyy',
+  'd MMM yyyy',
+  'dd MMM yyyy',
+  'dd/MM/yy',
+  'M/d/yyyy',
+  'M/d/yy',
+];
+
+// Header names (lower-cased, trimmed) recognised for each field
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  date: ['date', 'transaction date', 'posted date', 'posting date', 'booking date', 'value date'],
+  amount: ['amount', 'amount (gbp)', 'value', 'debit', 'debit amount', 'paid out', 'money out', 'cost', 'price'],
+  currency: ['currency', 'ccy', 'currency code'],
+  category: ['category', 'type', 'expense category'],
+  description: ['description', 'details', 'memo', 'narrative', 'payee', 'merchant', 'name', 'reference'],
+  // Plain "type" is taken by the category, as some banks label their categories that way
+  type: ['transaction type'],
+};
+
+// Split CSV text into rows of cells, honouring quoted cells with escaped quotes and newlines
+export const parseCSV = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // Drop blank lines
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+};
+
+// Pick the delimiter that splits the first few lines into the most, and most consistent, columns
+export const detectDelimiter = (text: string): string => {
+  const sample = text.split(/\r?\n/).filter(line => line.trim()).slice(0, 10).join('\n');
+
+  let best = ',';
+  let bestScore = 0;
+
+  CANDIDATE_DELIMITERS.forEach(delimiter => {
+    const counts = parseCSV(sample, delimiter).map(row => row.length);
+    if (counts.length === 0) return;
+
+    const columns = Math.min(...counts);
+    const consistent = counts.every(count => count === counts[0]);
+    const score = columns > 1 ? columns * (consistent ? 2 : 1) : 0;
+
+    if (score > bestScore) {
+      best = delimiter;
+      bestScore = score;
+    }
+  });
+
+  return best;
+};
+
+const matchHeader = (cell: string): ImportField | null => {
+  const normalised = cell.trim().toLowerCase();
+  return IMPORT_FIELDS.find(field => HEADER_ALIASES[field].includes(normalised)) ?? null;
+};
+
+// A first row counts as a header when any of its cells is a known column name,
+// or when none of its cells look like an amount or a date
+export const detectHeaderRow = (rows: string[][]): boolean => {
+  const [first] = rows;
+  if (!first) return false;
+  if (first.some(cell => matchHeader(cell))) return true;
+
+  return !first.some(cell => {
+    const trimmed = cell.trim();
+    return /^[-£$€(]*\d[\d,.]*\)?$/.test(trimmed) || parseImportDate(trimmed, 'auto') !== null;
+  });
+};
+
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {
+    date: null,
+    amount: null,
+    currency: null,
+    category: null,
+    description: null,
+    type: null,
+  };
+
+  headers.forEach((header, index) => {
+    const field = matchHeader(header);
+    if (field && mapping[field] === null) {
+      mapping[field] = index;
+    }
+  });
+
+  return mapping;
+};
+
+// Parse a date cell into yyyy-MM-dd, or null if it matches none of the allowed formats
+export const parseImportDate = (value: string, dateFormat: DateFormatOption): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  const formats = dateFormat === 'auto' ? AUTO_DATE_FORMATS : [dateFormat];
+
+  for (const pattern of formats) {
+    const parsed = parse(trimmed, pattern, new Date());
+    if (isValid(parsed) && parsed.getFullYear() > 1900) {
+      return format(parsed, 'yyyy-MM-dd');
+    }
+  }
+
+  return null;
+};
+
+// Turn mapped CSV rows into form data and run each through the same validation as the form.
+// Errors are in English unless a translator for the interface language is given.
+export const buildImportRows = (
+  rows: string[][],
+  options: ImportOptions,
+  t: Translator = createTranslator('en')
+): ImportRow[] => {
+  const { mapping, hasHeader, dateFormat, categories, defaultCategoryId, defaultCurrency, locale } =
+    options;
+  const cellAt = (row: string[], field: ImportField): string => {
+    const index = mapping[field];
+    return index === null ? '' : (row[index] ?? '').trim();
+  };
+
+  return rows.slice(hasHeader ? 1 : 0).map((row, index) => {
+    const rawDate = cellAt(row, 'date');
+    const rawAmount = cellAt(row, 'amount');
+    const rawCategory = cellAt(row, 'category');
+    const rawType = cellAt(row, 'type');
+
+    // Blank type cells are expenses, like rows from files without the column
+    const typeCell = rawType.toLowerCase() || 'expense';
+    const type: TransactionType | null = isTransactionType(typeCell) ? typeCell : null;
+    const fallbackCategoryId =
+      type === 'income' ? getDefaultCategoryId(categories, 'income') : defaultCategoryId;
+    const date = parseImportDate(rawDate, dateFormat);
+    const categoryId = rawCategory
+      ? findCategoryByName(categories, rawCategory)?.id ?? null
+      : fallbackCategoryId;
+    const currency = cellAt(row, 'currency').toUpperCase() || defaultCurrency;
+    // Bank exports often show money out as negative, so only the size of the amount is used.
+    // It is rounded to the currency's precision, as a bank would.
+    const plain = rawAmount ? normaliseAmount(rawAmount, locale) : null;
+    const amount = plain ? parseMoney(plain.replace(/^-/, ''), currency) : null;
+
+    const formData: ExpenseFormData = {
+      ...(type && type !== 'expense' ? { type } : {}),
+      date: date ?? '',
+      amount: amount && amount.minor > 0 ? toDecimalString(amount) : rawAmount,
+      currency,
+      categoryId: categoryId ?? fallbackCategoryId,
+      description: cellAt(row, 'description'),
+      tags: [],
+    };
+
+    const errors = validateExpenseForm(formData, t);
+    if (rawDate && !date) {
+      errors.date = t('csvImport.unknownDate', { value: rawDate });
+    }
+    if (rawCategory && !categoryId) {
+      errors.categoryId = t('csvImport.unknownCategory', { value: rawCategory });
+    }
+    if (!type) {
+      errors.type = t('csvImport.unknownType', { value: rawType });
+    }
+
+    return {
+      rowNumber: index + (hasHeader ? 2 : 1),
+      formData,
+      errors,
+    };
+  });
+};
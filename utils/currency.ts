@@ -1,13 +1,137 @@
-export const formatCurrency = (amount: number): string => {
-  return new Intl.NumberFormat('en-GB', {
+import { Money } from '@/types/expense';
+import { DEFAULT_LOCALE } from './locale';
+
+export const formatCurrency = (
+  amount: number,
+  currency = 'GBP',
+  locale = DEFAULT_LOCALE
+): string => {
+  return new Intl.NumberFormat(locale, {
     style: 'currency',
-    currency: 'GBP',
+    currency,
   }).format(amount);
 };
 
-export const parseCurrency = (value: string): number => {
-  // Remove any non-numeric characters except decimal point
-  const cleaned = value.replace(/[^\d.]/g, '');
-  const parsed = parseFloat(cleaned);
-  return isNaN(parsed) ? 0 : parsed;
+// The character the locale puts before decimals: "." for en-GB, "," for de-DE
+const decimalSeparator = (locale: string): string =>
+  new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal')
+    ?.value ?? '.';
+
+// Read an amount as typed or exported in the given locale, such as "1.234,56 €", "-£12.50",
+// "£12.50-" or "(1,234.56)", into a plain decimal string like "-1234.56". Returns null when
+// there is no number in it.
+export const normaliseAmount = (value: string, locale = DEFAULT_LOCALE): string | null => {
+  let text = value.trim();
+  // Accounting style wraps negatives in parentheses
+  const parenthesised = /^\(.*\)$/.test(text);
+  if (parenthesised) text = text.slice(1, -1);
+  // The minus may come before or after the currency symbol, or trail the number
+  const negative = parenthesised || /[-\u2212]/.test(text);
+
+  // The number itself: digits plus anything that can separate them, including the spaces and
+  // apostrophes some locales group thousands with. Symbols and currency codes fall outside it.
+  const core = text.match(/[.,]?\d[\d.,'’\s]*/)?.[0];
+  if (!core) return null;
+  const digits = core.replace(/[\s'’]/g, '').replace(/[.,]$/, '');
+
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+  let decimalAt = Math.max(lastDot, lastComma);
+
+  if (lastDot === -1 || lastComma === -1) {
+    // Only one kind of mark. Repeated, it must be grouping. Alone and followed by exactly three
+    // digits it is ambiguous ("1,234"), so it groups unless it is the locale's decimal mark.
+    const mark = digits.charAt(decimalAt);
+    const isGrouping =
+      decimalAt !== -1 &&
+      (digits.indexOf(mark) !== decimalAt ||
+        (digits.length - decimalAt - 1 === 3 && mark !== decimalSeparator(locale)));
+    if (isGrouping) decimalAt = -1;
+  }
+
+  const whole = (decimalAt === -1 ? digits : digits.slice(0, decimalAt)).replace(/[.,]/g, '');
+  const fraction = decimalAt === -1 ? '' : digits.slice(decimalAt + 1);
+  const plain = `${whole || '0'}${fraction ? `.${fraction}` : ''}`;
+
+  return negative && /[1-9]/.test(plain) ? `-${plain}` : plain;
+};
+
+export const parseCurrency = (value: string, locale = DEFAULT_LOCALE): number => {
+  const plain = normaliseAmount(value, locale);
+  return plain === null ? 0 : parseFloat(plain);
+};
+
+const decimalsCache = new Map<string, number>();
+
+// Digits after the decimal point in the currency's minor unit: 2 for GBP, 0 for JPY, 3 for KWD.
+// Taken from the runtime's ISO 4217 data; codes it does not know fall back to 2.
+export const currencyDecimals = (currency: string): number => {
+  const cached = decimalsCache.get(currency);
+  if (cached !== undefined) return cached;
+
+  let decimals = 2;
+  try {
+    decimals = new Intl.NumberFormat('en-GB', { style: 'currency', currency }).resolvedOptions()
+      .maximumFractionDigits ?? 2;
+  } catch {
+    // Not a currency Intl recognises
+  }
+  decimalsCache.set(currency, decimals);
+  return decimals;
+};
+
+// Round a decimal amount to whole minor units, half away from zero. Going through
+// toPrecision drops binary noise first, so 1.005 becomes 101 pence rather than 100.
+export const toMinorUnits = (amount: number, currency: string): number => {
+  const scaled = Math.abs(amount) * 10 ** currencyDecimals(currency);
+  const minor = Math.round(Number(scaled.toPrecision(15)));
+  return amount < 0 ? -minor : minor;
+};
+
+export const fromMinorUnits = (minor: number, currency: string): number =>
+  minor / 10 ** currencyDecimals(currency);
+
+export const toMoney = (amount: number, currency: string): Money => ({
+  minor: toMinorUnits(amount, currency),
+  currency,
+});
+
+// Digits typed after the decimal point, e.g. 3 for "12.345"
+export const decimalPlaces = (value: string): number => value.trim().split('.')[1]?.length ?? 0;
+
+// Parse a plain decimal such as "12.50", "-3" or ".5" without going through a float.
+// Digits beyond the currency's precision are rounded half away from zero.
+export const parseMoney = (value: string, currency: string): Money | null => {
+  const match = value.trim().match(/^(-?)(\d*)(?:\.(\d*))?$/);
+  if (!match || (!match[2] && !match[3])) return null;
+
+  const [, sign, whole, fraction = ''] = match;
+  const decimals = currencyDecimals(currency);
+  let minor = parseInt(`${whole}${fraction.padEnd(decimals, '0').slice(0, decimals)}` || '0', 10);
+  if (Number(fraction.charAt(decimals)) >= 5) minor += 1;
+  if (!Number.isSafeInteger(minor)) return null;
+
+  return { minor: sign && minor !== 0 ? -minor : minor, currency };
+};
+
+// The exact decimal form with the currency's full precision, e.g. "12.50" or "1250" for JPY
+export const toDecimalString = ({ minor, currency }: Money): string => {
+  const decimals = currencyDecimals(currency);
+  const digits = Math.abs(minor).toString().padStart(decimals + 1, '0');
+  const whole = digits.slice(0, digits.length - decimals);
+  const fraction = decimals > 0 ? `.${digits.slice(digits.length - decimals)}` : '';
+  return `${minor < 0 ? '-' : ''}${whole}${fraction}`;
+};
+
+export const formatMoney = ({ minor, currency }: Money, locale = DEFAULT_LOCALE): string =>
+  formatCurrency(fromMinorUnits(minor, currency), currency, locale);
+
+// An amount as it should appear in an input: the locale's decimal mark, no grouping or symbol
+export const formatAmountInput = ({ minor, currency }: Money, locale = DEFAULT_LOCALE): string => {
+  const decimals = currencyDecimals(currency);
+  return new Intl.NumberFormat(locale, {
+    minimumFractionDigits: decimals,
+    maximumFractionDigits: decimals,
+    useGrouping: false,
+  }).format(fromMinorUnits(minor, currency));
 };
@@ -0,0 +1,148 @@
+import { Expense, Money } from '@/types/expense';
+import { normaliseText } from './text';
+import { differenceInCalendarDays } from 'date-fns';
+
+export interface DuplicateCandidate {
+  date: string;
+  amount: Money;
+  description: string;
+}
+
+export interface DuplicateGroup {
+  // Stable across reloads: the sorted ids of the group's members
+  key: string;
+  expenses: Expense[];
+}
+
+export interface DuplicateOptions {
+  maxDaysApart: number;
+  minSimilarity: number;
+}
+
+export const defaultDuplicateOptions: DuplicateOptions = {
+  maxDaysApart: 3,
+  minSimilarity: 0.6,
+};
+
+const bigrams = (value: string): string[] => {
+  const compact = value.replace(/\s+/g, ' ');
+  return Array.from({ length: Math.max(compact.length - 1, 0) }, (_, i) => compact.slice(i, i + 2));
+};
+
+// Dice coefficient over character bigrams: 1 for identical text, 0 for nothing in common
+export const descriptionSimilarity = (a: string, b: string): number => {
+  const left = normaliseText(a);
+  const right = normaliseText(b);
+
+  // Descriptions of nothing but symbols have nothing to compare
+  if (!left || !right) return 0;
+  if (left === right) return 1;
+  // Bank descriptions often wrap what was typed by hand, e.g. "TESCO STORES 1234" vs "Tesco"
+  if (left.includes(right) || right.includes(left)) return 0.9;
+
+  const leftBigrams = bigrams(left);
+  const rightBigrams = bigrams(right);
+  const remaining = [...rightBigrams];
+  let matches = 0;
+
+  leftBigrams.forEach(bigram => {
+    const index = remaining.indexOf(bigram);
+    if (index !== -1) {
+      matches++;
+      remaining.splice(index, 1);
+    }
+  });
+
+  return (2 * matches) / (leftBigrams.length + rightBigrams.length);
+};
+
+const sameMoney = (a: Money, b: Money): boolean =>
+  a.minor === b.minor && a.currency === b.currency;
+
+export const isLikelyDuplicate = (
+  a: DuplicateCandidate,
+  b: DuplicateCandidate,
+  options: DuplicateOptions = defaultDuplicateOptions
+): boolean =>
+  sameMoney(a.amount, b.amount) &&
+  Math.abs(differenceInCalendarDays(new Date(a.date), new Date(b.date))) <= options.maxDaysApart &&
+  descriptionSimilarity(a.description, b.description) >= options.minSimilarity;
+
+// Existing expenses that look like the same purchase as the candidate
+export const findDuplicatesOf = (
+  candidate: DuplicateCandidate,
+  expenses: Expense[],
+  excludeId?: string
+): Expense[] =>
+  expenses.filter(expense => expense.id !== excludeId && isLikelyDuplicate(candidate, expense));
+
+export const pairKey = (a: string, b: string): string => [a, b].sort().join('|');
+
+// Group expenses that are linked by likely-duplicate pairs, skipping dismissed pairs
+export const findDuplicateGroups = (
+  expenses: Expense[],
+  dismissedPairs: Set<string>
+): DuplicateGroup[] => {
+  const parent = new Map<string, string>(expenses.map(expense => [expense.id, expense.id]));
+
+  const find = (id: string): string => {
+    const root = parent.get(id) as string;
+    if (root === id) return id;
+    const top = find(root);
+    parent.set(id, top);
+    return top;
+  };
+
+  // Sorting by amount lets us stop comparing as soon as amounts differ
+  const sorted = [...expenses].sort(
+    (a, b) =>
+      a.amount.currency.localeCompare(b.amount.currency) || a.amount.minor - b.amount.minor
+  );
+
+  for (let i = 0; i < sorted.length; i++) {
+    for (let j = i + 1; j < sorted.length; j++) {
+      if (!sameMoney(sorted[j].amount, sorted[i].amount)) break;
+
+      if (
+        !dismissedPairs.has(pairKey(sorted[i].id, sorted[j].id)) &&
+        isLikelyDuplicate(sorted[i], sorted[j])
+      ) {
+        parent.set(find(sorted[i].id), find(sorted[j].id));
+      }
+    }
+  }
+
+  const groups = new Map<string, Expense[]>();
+  expenses.forEach(expense => {
+    const root = find(expense.id);
+    groups.set(root, [...(groups.get(root) ?? []), expense]);
+  });
+
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map(group => ({
+      key: group.map(expense => expense.id).sort().join('|'),
+      expenses: [...group].sort(
+        (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+      ),
+    }));
+};
+
+// Every pair within a group, for remembering a dismissal
+export const groupPairKeys = (group: DuplicateGroup): string[] =>
+  group.expenses.flatMap((a, i) => group.expenses.slice(i + 1).map(b => pairKey(a.id, b.id)));
+
+// Fold a group into the kept expense. The kept record inherits a bank reference from
+// a removed one if it has none, so re-importing the statement stays idempotent.
+export const mergeDuplicateGroup = (
+  keep: Expense,
+  group: DuplicateGroup
+): { merged: Expense; removedIds: string[] } => {
+  const others = group.expenses.filter(expense => expense.id !== keep.id);
+  const externalId = keep.externalId ?? others.find(expense => expense.externalId)?.externalId;
+
+  return {
+    merged: externalId ? { ...keep, externalId } : keep,
+    removedIds: others.map(expense => expense.id),
+  };
+};
@@ -1,36 +1,166 @@
-import { Expense } from '@/types/expense';
+import { Category, Expense } from '@/types/expense';
+import { findCategory } from '@/lib/categories';
+import { CurrencyConversion } from '@/lib/exchangeRates';
+import { blobToBytes } from '@/lib/attachments';
+import { Translator, createTranslator } from '@/lib/i18n';
+import { toDecimalString } from './currency';
+import { transactionType } from './transactions';
+import { ZipEntry, createZip } from './zip';
 import { format } from 'date-fns';
-import { formatCurrency } from './currency';
 
-export const exportToCSV = (expenses: Expense[]): void => {
-  if (expenses.length === 0) {
-    alert('No expenses to export');
-    return;
-  }
+// Wrap a free-text cell in quotes, doubling any inside it, so commas and quotes survive
+const quote = (value: string): string => `"${value.replace(/"/g, '""')}"`;
 
+// Build the CSV text for a list of expenses, with each amount as paid and in the base currency.
+// Amounts are never negative; the transaction type column says which way the money went.
+export const buildCSV = (
+  expenses: Expense[],
+  categories: Category[],
+  conversion: CurrencyConversion
+): string => {
   // Create CSV header
-  const headers = ['Date', 'Category', 'Amount (GBP)', 'Description'];
+  const headers = [
+    'Date',
+    'Transaction Type',
+    'Category',
+    'Amount',
+    'Currency',
+    `Amount (${conversion.baseCurrency})`,
+    'Description',
+  ];
 
   // Create CSV rows
   const rows = expenses.map(expense => {
     const date = format(new Date(expense.date), 'dd/MM/yyyy');
-    const amount = expense.amount.toFixed(2);
-    // Escape description for CSV (handle commas and quotes)
-    const description = `"${expense.description.replace(/"/g, '""')}"`;
+    // Written from the stored minor units, so a yen amount has no decimals and pence never drift
+    const amount = toDecimalString(expense.amount);
+    // Left blank when there is no exchange rate
+    const converted = conversion.toBase(expense);
+    const baseAmount = converted === null ? '' : toDecimalString(converted);
+    // Descriptions and category names are typed by the user and may hold commas or quotes
+    const description = quote(expense.description);
+    const category = quote(findCategory(categories, expense.categoryId).name);
+    // "Expense", "Income" or "Refund", which the CSV import reads back
+    const type = transactionType(expense);
+    const typeLabel = type.charAt(0).toUpperCase() + type.slice(1);
 
-    return [date, expense.category, amount, description].join(',');
+    return [
+      date,
+      typeLabel,
+      category,
+      amount,
+      expense.amount.currency,
+      baseAmount,
+      description,
+    ].join(',');
   });
 
   // Combine header and rows
-  const csvContent = [headers.join(','), ...rows].join('\n');
+  return [headers.join(','), ...rows].join('\n');
+};
+
+// Messages are in English unless a translator for the interface language is given
+export const exportToCSV = (
+  expenses: Expense[],
+  categories: Category[],
+  conversion: CurrencyConversion,
+  t: Translator = createTranslator('en')
+): void => {
+  if (expenses.length === 0) {
+    alert(t('export.nothingToExport'));
+    return;
+  }
+
+  downloadFile(
+    buildCSV(expenses, categories, conversion),
+    `expenses_${format(new Date(), 'yyyy-MM-dd')}.csv`,
+    'text/csv;charset=utf-8;'
+  );
+};
+
+// Lower-case words joined by dashes, safe in a file name on any system
+const slugify = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+    .slice(0, 40);
+
+// Receipt paths start with the expense's date and description so they sort and match up
+// with the CSV rows. A counter keeps two receipts with the same name apart.
+export const receiptPaths = (expenses: Expense[]): Map<string, string> => {
+  const paths = new Map<string, string>();
+  const used = new Set<string>();
+
+  expenses.forEach(expense => {
+    const description = slugify(expense.description) || 'expense';
+    const stem = `receipts/${expense.date.slice(0, 10)}_${description}`;
+
+    (expense.attachments ?? []).forEach(attachment => {
+      const dot = attachment.name.lastIndexOf('.');
+      const base = dot > 0 ? attachment.name.slice(0, dot) : attachment.name;
+      const extension = dot > 0 ? attachment.name.slice(dot).toLowerCase() : '';
+      const name = slugify(base) || 'receipt';
+
+      let path = `${stem}_${name}${extension}`;
+      for (let n = 2; used.has(path); n++) path = `${stem}_${name}-${n}${extension}`;
+      used.add(path);
+      paths.set(attachment.id, path);
+    });
+  });
+
+  return paths;
+};
+
+// The CSV plus every receipt that can still be loaded, as one ZIP archive
+export const buildExportZip = async (
+  expenses: Expense[],
+  categories: Category[],
+  conversion: CurrencyConversion,
+  loadAttachment: (id: string) => Promise<Blob | null>
+): Promise<Uint8Array<ArrayBuffer>> => {
+  const entries: ZipEntry[] = [
+    {
+      name: 'expenses.csv',
+      data: new TextEncoder().encode(buildCSV(expenses, categories, conversion)),
+    },
+  ];
+
+  for (const [id, path] of Array.from(receiptPaths(expenses))) {
+    const blob = await loadAttachment(id);
+    if (blob) entries.push({ name: path, data: await blobToBytes(blob) });
+  }
+
+  return createZip(entries);
+};
+
+export const exportToZip = async (
+  expenses: Expense[],
+  categories: Category[],
+  conversion: CurrencyConversion,
+  loadAttachment: (id: string) => Promise<Blob | null>,
+  t: Translator = createTranslator('en')
+): Promise<void> => {
+  if (expenses.length === 0) {
+    alert(t('export.nothingToExport'));
+    return;
+  }
+
+  downloadFile(
+    await buildExportZip(expenses, categories, conversion, loadAttachment),
+    `expenses_${format(new Date(), 'yyyy-MM-dd')}.zip`,
+    'application/zip'
+  );
+};
 
-  // Create blob and download
-  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
+// Trigger a browser download of the given content
+export const downloadFile = (content: BlobPart, filename: string, type: string): void => {
+  const blob = new Blob([content], { type });
   const link = document.createElement('a');
   const url = URL.createObjectURL(blob);
 
   link.setAttribute('href', url);
-  link.setAttribute('download', `expenses_${format(new Date(), 'yyyy-MM-dd')}.csv`);
+  link.setAttribute('download', filename);
   link.style.visibility = 'hidden';
 
   document.body.appendChild(link);
@@ -0,0 +1,59 @@
+import { parseISO } from 'date-fns';
+
+// Amounts were always shown in UK format before the locale became a setting
+export const DEFAULT_LOCALE = 'en-GB';
+
+// Regional formats offered in settings; amounts and dates follow the chosen one
+export const SUPPORTED_LOCALES: { value: string; label: string }[] = [
+  { value: 'en-GB', label: 'English (United Kingdom)' },
+  { value: 'en-US', label: 'English (United States)' },
+  { value: 'en-IE', label: 'English (Ireland)' },
+  { value: 'en-IN', label: 'English (India)' },
+  { value: 'de-DE', label: 'Deutsch (Deutschland)' },
+  { value: 'de-CH', label: 'Deutsch (Schweiz)' },
+  { value: 'fr-FR', label: 'Français (France)' },
+  { value: 'es-ES', label: 'Español (España)' },
+  { value: 'it-IT', label: 'Italiano (Italia)' },
+  { value: 'nl-NL', label: 'Nederlands (Nederland)' },
+  { value: 'pl-PL', label: 'Polski (Polska)' },
+  { value: 'pt-BR', label: 'Português (Brasil)' },
+  { value: 'sv-SE', label: 'Svenska (Sverige)' },
+  { value: 'ja-JP', label: '日本語 (日本)' },
+];
+
+export const isSupportedLocale = (value: string): boolean =>
+  SUPPORTED_LOCALES.some(locale => locale.value === value);
+
+// Date-only strings are read as local dates so they never shift a day across time zones
+const toDate = (value: string | Date): Date => (typeof value === 'string' ? parseISO(value) : value);
+
+// "18 Oct 2026" in en-GB, "Oct 18, 2026" in en-US, "18. Okt. 2026" in de-DE
+export const formatDate = (value: string | Date, locale: string = DEFAULT_LOCALE): string =>
+  new Intl.DateTimeFormat(locale, { day: 'numeric', month: 'short', year: 'numeric' }).format(
+    toDate(value)
+  );
+
+// "Oct 2026" in en-GB, "Okt. 2026" in de-DE, for a yyyy-MM month
+export const formatMonth = (month: string, locale: string = DEFAULT_LOCALE): string =>
+  new Intl.DateTimeFormat(locale, { month: 'short', year: 'numeric' }).format(
+    toDate(`${month}-01`)
+  );
+
+export const formatDateTime = (value: string | Date, locale: string = DEFAULT_LOCALE): string =>
+  new Intl.DateTimeFormat(locale, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(toDate(value));
+
+// "840 kB" or "2.4 MB", with the locale's decimal separator
+export const formatFileSize = (bytes: number, locale: string = DEFAULT_LOCALE): string => {
+  const megabytes = bytes >= 1000 * 1000;
+  return new Intl.NumberFormat(locale, {
+    style: 'unit',
+    unit: megabytes ? 'megabyte' : 'kilobyte',
+    maximumFractionDigits: megabytes ? 1 : 0,
+  }).format(megabytes ? bytes / (1000 * 1000) : Math.max(1, bytes / 1000));
+};
@@ -0,0 +1,53 @@
+import { Expense } from '@/types/expense';
+import { transactionType } from './transactions';
+
+export type RefundStatus = 'none' | 'partial' | 'full';
+
+// How much of an expense has come back, in minor units of the expense's own currency
+export interface RefundSummary {
+  refunds: Expense[]; // Linked refunds, oldest first
+  refunded: number;
+  net: number; // What the expense comes to once its refunds are taken off
+  status: RefundStatus;
+}
+
+// Refunds linked to an expense, keyed by the id of the expense they give money back for
+export const refundsByOriginal = (expenses: Expense[]): Map<string, Expense[]> => {
+  const linked = new Map<string, Expense[]>();
+
+  expenses.forEach(expense => {
+    if (!expense.refundOf || transactionType(expense) !== 'refund') return;
+    linked.set(expense.refundOf, [...(linked.get(expense.refundOf) ?? []), expense]);
+  });
+
+  return linked;
+};
+
+// Refunds are recorded in the expense's currency; any in another one are left out
+export const summariseRefunds = (original: Expense, refunds: Expense[] = []): RefundSummary => {
+  const matching = refunds
+    .filter(refund => refund.amount.currency === original.amount.currency)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.createdAt.localeCompare(b.createdAt));
+  const refunded = matching.reduce((sum, refund) => sum + refund.amount.minor, 0);
+  const net = Math.max(0, original.amount.minor - refunded);
+
+  return {
+    refunds: matching,
+    refunded,
+    net,
+    status: refunded === 0 ? 'none' : net === 0 ? 'full' : 'partial',
+  };
+};
+
+// Linked refunds come off the categories of the expense they refund, split the same way as
+// its items, whatever category they were saved with
+export const withRefundedCategories = (expenses: Expense[]): Expense[] => {
+  const byId = new Map(expenses.map(expense => [expense.id, expense]));
+
+  return expenses.map(expense => {
+    const original = expense.refundOf ? byId.get(expense.refundOf) : undefined;
+    if (!original || transactionType(expense) !== 'refund') return expense;
+
+    return { ...expense, categoryId: original.categoryId, lineItems: original.lineItems };
+  });
+};
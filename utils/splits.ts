@@ -0,0 +1,132 @@
+import {
+  Expense,
+  ExpenseSplit,
+  LineItem,
+  LineItemFormData,
+  SplitFormData,
+  SplitShare,
+} from '@/types/expense';
+import { formatAmountInput, parseMoney } from './currency';
+
+// Share out whole minor units in proportion to the weights so the parts add up exactly.
+// Units left over after rounding down go to the largest remainders, earlier parts first.
+export const allocate = (total: number, weights: number[]): number[] => {
+  const weightSum = weights.reduce((sum, weight) => sum + weight, 0);
+  if (weights.length === 0) return [];
+  if (weightSum <= 0) return allocate(total, weights.map(() => 1));
+
+  const sign = total < 0 ? -1 : 1;
+  const units = Math.abs(total);
+  const exact = weights.map(weight => (units * weight) / weightSum);
+  const parts = exact.map(Math.floor);
+  let leftover = units - parts.reduce((sum, part) => sum + part, 0);
+
+  exact
+    .map((value, index) => ({ index, remainder: value - parts[index] }))
+    .sort((a, b) => b.remainder - a.remainder || a.index - b.index)
+    .forEach(({ index }) => {
+      if (leftover <= 0) return;
+      parts[index]++;
+      leftover--;
+    });
+
+  return parts.map(part => sign * part || 0);
+};
+
+// How much of the total each category gets. Itemised expenses are shared out in proportion to
+// their items, so a converted total still divides exactly; others go to their one category.
+export const categoryShares = (
+  expense: Pick<Expense, 'categoryId' | 'lineItems'>,
+  total: number
+): { categoryId: string; amount: number }[] => {
+  const items = expense.lineItems ?? [];
+  if (items.length === 0) return [{ categoryId: expense.categoryId, amount: total }];
+
+  const amounts = allocate(total, items.map(item => item.amount));
+  return items.map((item, index) => ({ categoryId: item.categoryId, amount: amounts[index] }));
+};
+
+// Each person's part of the total, in the same units as the total
+export const splitAmounts = (
+  split: ExpenseSplit,
+  total: number
+): { person: string; amount: number }[] => {
+  const amounts = allocate(
+    total,
+    split.shares.map(share => (split.method === 'equal' ? 1 : share.value))
+  );
+  return split.shares.map((share, index) => ({ person: share.person, amount: amounts[index] }));
+};
+
+// The category an itemised expense is filed under: that of its largest item
+export const primaryCategoryId = (items: LineItem[], fallback: string): string =>
+  items.reduce<LineItem | null>(
+    (largest, item) => (!largest || item.amount > largest.amount ? item : largest),
+    null
+  )?.categoryId ?? fallback;
+
+// Minor units of the typed amounts that parse; the form shows how far they are from the total
+export const sumTypedAmounts = (values: string[], currency: string): number =>
+  values.reduce((sum, value) => sum + (parseMoney(value, currency)?.minor ?? 0), 0);
+
+export const sumTypedPercentages = (values: string[]): number =>
+  values.reduce((sum, value) => sum + (Number(value) || 0), 0);
+
+// Compared in hundredths of a percent, so floating-point sums like 33.3 + 33.3 + 33.4 still count
+export const isWholePercentage = (total: number): boolean => Math.round(total * 100) === 10000;
+
+// Convert validated form rows into what is stored. Amounts are plain decimals by now.
+export const toLineItems = (items: LineItemFormData[], currency: string): LineItem[] =>
+  items.map(item => ({
+    id: item.id,
+    description: item.description.trim(),
+    amount: parseMoney(item.amount, currency)?.minor ?? 0,
+    categoryId: item.categoryId,
+  }));
+
+export const toExpenseSplit = (split: SplitFormData, currency: string): ExpenseSplit => ({
+  method: split.method,
+  shares: split.shares.map(
+    (share): SplitShare => ({
+      person: share.person.trim(),
+      ...(share.memberId ? { memberId: share.memberId } : {}),
+      value:
+        split.method === 'exact'
+          ? parseMoney(share.value, currency)?.minor ?? 0
+          : split.method === 'percentage'
+            ? Number(share.value)
+            : 1,
+    })
+  ),
+});
+
+// Back into form rows for editing, with amounts in the locale's format
+export const toLineItemFormData = (
+  items: LineItem[],
+  currency: string,
+  locale: string
+): LineItemFormData[] =>
+  items.map(item => ({
+    id: item.id,
+    description: item.description,
+    amount: formatAmountInput({ minor: item.amount, currency }, locale),
+    categoryId: item.categoryId,
+  }));
+
+export const toSplitFormData = (
+  split: ExpenseSplit,
+  currency: string,
+  locale: string
+): SplitFormData => ({
+  method: split.method,
+  shares: split.shares.map(share => ({
+    person: share.person,
+    ...(share.memberId ? { memberId: share.memberId } : {}),
+    value:
+      split.method === 'exact'
+        ? formatAmountInput({ minor: share.value, currency }, locale)
+        : split.method === 'percentage'
+          ? new Intl.NumberFormat(locale, { maximumFractionDigits: 2 }).format(share.value)
+          : '',
+  })),
+});
@@ -0,0 +1,210 @@
+import { format, isValid, parse } from 'date-fns';
+import { parseImportDate } from './csvImport';
+
+export type StatementFormat = 'ofx' | 'qif' | 'camt053';
+
+export interface StatementTransaction {
+  // Stable id derived from the bank's own transaction reference, prefixed by format
+  externalId: string;
+  date: string; // yyyy-MM-dd
+  amount: number; // Always positive; see isDebit for direction
+  isDebit: boolean;
+  description: string;
+}
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  accountId: string | null;
+  currency: string | null; // ISO 4217 code, when the format records one
+  transactions: StatementTransaction[];
+}
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+const cleanDescription = (...parts: (string | null | undefined)[]): string =>
+  parts
+    .map(part => (part ?? '').replace(/\s+/g, ' ').trim())
+    .filter((part, index, all) => part && all.indexOf(part) === index)
+    .join(' - ')
+    .slice(0, MAX_DESCRIPTION_LENGTH) || 'Bank transaction';
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+
+export const detectStatementFormat = (text: string, fileName = ''): StatementFormat | null => {
+  const extension = fileName.split('.').pop()?.toLowerCase();
+  const head = text.slice(0, 2000);
+
+  if (/<OFX>|OFXHEADER/i.test(head) || extension === 'ofx' || extension === 'qfx') return 'ofx';
+  if (/camt\.053/i.test(head) || /<BkToCstmrStmt>/.test(text)) return 'camt053';
+  if (/^\s*!Type:/im.test(head) || extension === 'qif') return 'qif';
+
+  return null;
+};
+
+// Read a tag's value from an OFX block. Handles both SGML (OFX 1.x, no closing tags)
+// and XML (OFX 2.x) flavours.
+const ofxValue = (block: string, tag: string): string | null => {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeEntities(match[1].trim()) : null;
+};
+
+// OFX dates look like 20250115, 20250115120000 or 20250115120000.000[-5:EST]
+const parseOFXDate = (value: string | null): string | null => {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+
+  const date = parse(`${match[1]}-${match[2]}-${match[3]}`, 'yyyy-MM-dd', new Date());
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : null;
+};
+
+export const parseOFX = (text: string): ParsedStatement => {
+  const accountId = ofxValue(text, 'ACCTID');
+  const currency = ofxValue(text, 'CURDEF')?.toUpperCase() || null;
+  const blocks = text.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi) ?? [];
+
+  const transactions = blocks.flatMap((block): StatementTransaction[] => {
+    const date = parseOFXDate(ofxValue(block, 'DTPOSTED'));
+    const amount = parseFloat(ofxValue(block, 'TRNAMT') ?? '');
+    const fitId = ofxValue(block, 'FITID');
+
+    if (!date || isNaN(amount) || !fitId) return [];
+
+    return [
+      {
+        externalId: `ofx:${accountId ?? ''}:${fitId}`,
+        date,
+        amount: Math.abs(amount),
+        isDebit: amount < 0,
+        description: cleanDescription(ofxValue(block, 'NAME'), ofxValue(block, 'MEMO')),
+      },
+    ];
+  });
+
+  return { format: 'ofx', accountId, currency, transactions };
+};
+
+// QIF years can be written as 1/15'25 or 1/15/2025
+const parseQIFDate = (value: string): string | null =>
+  parseImportDate(value.replace(/'\s?/, '/').replace(/\s/g, ''), 'auto');
+
+export const parseQIF = (text: string): ParsedStatement => {
+  const records = text.split(/^\^\s*$/m);
+  // QIF has no transaction ids, so identical records are told apart by their position
+  const seen = new Map<string, number>();
+
+  const transactions = records.flatMap((record): StatementTransaction[] => {
+    const fields: Record<string, string> = {};
+    record.split(/\r?\n/).forEach(line => {
+      const code = line.charAt(0);
+      if (code && code !== '!' && !(code in fields)) {
+        fields[code] = line.slice(1).trim();
+      }
+    });
+
+    const date = fields.D ? parseQIFDate(fields.D) : null;
+    const amount = parseFloat((fields.T ?? fields.U ?? '').replace(/,/g, ''));
+    if (!date || isNaN(amount)) return [];
+
+    const key = fields.N || `${date}:${amount}:${fields.P ?? ''}`;
+    const occurrence = (seen.get(key) ?? 0) + 1;
+    seen.set(key, occurrence);
+
+    return [
+      {
+        externalId: `qif:${key}:${occurrence}`,
+        date,
+        amount: Math.abs(amount),
+        isDebit: amount < 0,
+        description: cleanDescription(fields.P, fields.M),
+      },
+    ];
+  });
+
+  return { format: 'qif', accountId: null, currency: null, transactions };
+};
+
+// Direct children only, ignoring XML namespaces
+const child = (element: Element | null, name: string): Element | null =>
+  element ? Array.from(element.children).find(el => el.localName === name) ?? null : null;
+
+const path = (element: Element | null, ...names: string[]): Element | null =>
+  names.reduce<Element | null>((current, name) => child(current, name), element);
+
+const textAt = (element: Element | null, ...names: string[]): string | null =>
+  path(element, ...names)?.textContent?.trim() || null;
+
+export const parseCAMT053 = (text: string): ParsedStatement => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('File is not valid XML');
+  }
+
+  const statements = Array.from(doc.getElementsByTagNameNS('*', 'Stmt'));
+  const accountId =
+    textAt(statements[0] ?? null, 'Acct', 'Id', 'IBAN') ??
+    textAt(statements[0] ?? null, 'Acct', 'Id', 'Othr', 'Id');
+  const currency =
+    textAt(statements[0] ?? null, 'Acct', 'Ccy') ??
+    (doc.getElementsByTagNameNS('*', 'Amt')[0]?.getAttribute('Ccy') || null);
+
+  const transactions = statements.flatMap(statement =>
+    Array.from(statement.children)
+      .filter(el => el.localName === 'Ntry')
+      .flatMap((entry, index): StatementTransaction[] => {
+        const amount = parseFloat(textAt(entry, 'Amt') ?? '');
+        const date = textAt(entry, 'BookgDt', 'Dt') ?? textAt(entry, 'BookgDt', 'DtTm');
+        const details = path(entry, 'NtryDtls', 'TxDtls');
+
+        if (isNaN(amount) || !date) return [];
+
+        const reference =
+          textAt(entry, 'AcctSvcrRef') ??
+          textAt(entry, 'NtryRef') ??
+          textAt(details, 'Refs', 'AcctSvcrRef') ??
+          textAt(details, 'Refs', 'TxId') ??
+          textAt(details, 'Refs', 'EndToEndId') ??
+          `${date}:${amount}:${index}`;
+
+        const isDebit = textAt(entry, 'CdtDbtInd') === 'DBIT';
+        const counterparty = isDebit
+          ? textAt(details, 'RltdPties', 'Cdtr', 'Nm') ??
+            textAt(details, 'RltdPties', 'Cdtr', 'Pty', 'Nm')
+          : textAt(details, 'RltdPties', 'Dbtr', 'Nm') ??
+            textAt(details, 'RltdPties', 'Dbtr', 'Pty', 'Nm');
+
+        return [
+          {
+            externalId: `camt053:${accountId ?? ''}:${reference}`,
+            date: date.slice(0, 10),
+            amount: Math.abs(amount),
+            isDebit,
+            description: cleanDescription(
+              counterparty,
+              textAt(details, 'RmtInf', 'Ustrd') ?? textAt(entry, 'AddtlNtryInf')
+            ),
+          },
+        ];
+      })
+  );
+
+  return { format: 'camt053', accountId, currency, transactions };
+};
+
+export const parseStatement = (text: string, fileName = ''): ParsedStatement => {
+  switch (detectStatementFormat(text, fileName)) {
+    case 'ofx':
+      return parseOFX(text);
+    case 'qif':
+      return parseQIF(text);
+    case 'camt053':
+      return parseCAMT053(text);
+    default:
+      throw new Error('Unrecognised statement format. Use an OFX, QFX, QIF or CAMT.053 file.');
+  }
+};
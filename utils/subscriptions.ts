@@ -0,0 +1,148 @@
+import { Expense, Money } from '@/types/expense';
+import { normaliseText } from './text';
+import { transactionType } from './transactions';
+import { differenceInCalendarDays, format } from 'date-fns';
+
+export type Cadence = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+// A charge that moved to a new price, in the currency it is billed in
+export interface PriceChange {
+  date: string;
+  from: Money;
+  to: Money;
+}
+
+export interface DetectedSubscription {
+  // Stable across reloads: the merchant text and currency the charges were grouped by
+  key: string;
+  description: string; // As written on the latest charge
+  categoryId: string; // Of the latest charge
+  cadence: Cadence;
+  charges: Expense[]; // Oldest first
+  latest: Money;
+  annualCost: Money; // The latest price for a year of charges
+  priceChanges: PriceChange[];
+  lastDate: string;
+  // False once a charge is well overdue, e.g. after the subscription was cancelled
+  active: boolean;
+}
+
+interface CadenceRule {
+  cadence: Cadence;
+  minDays: number;
+  maxDays: number;
+  perYear: number;
+  // Fewer charges than this are not enough to tell a subscription from coincidence
+  minCharges: number;
+}
+
+const cadenceRules: CadenceRule[] = [
+  { cadence: 'weekly', minDays: 6, maxDays: 8, perYear: 52, minCharges: 4 },
+  { cadence: 'monthly', minDays: 26, maxDays: 35, perYear: 12, minCharges: 3 },
+  { cadence: 'quarterly', minDays: 84, maxDays: 98, perYear: 4, minCharges: 3 },
+  { cadence: 'yearly', minDays: 350, maxDays: 380, perYear: 1, minCharges: 2 },
+];
+
+// Share of the gaps between charges that must fit the cadence, so one late payment is tolerated
+const MIN_REGULAR_SHARE = 0.75;
+
+// Largest change between consecutive charges still treated as the same subscription
+const MAX_PRICE_STEP = 0.25;
+
+// Words with digits are usually card numbers, dates or references that differ on every charge
+export const merchantKey = (description: string): string => {
+  // Letters in any script count, so "Müller" and "Café" keep their accents
+  const words = normaliseText(description).split(' ').filter(Boolean);
+  const merchant = words.filter(word => !/\d/.test(word));
+  return (merchant.length > 0 ? merchant : words).join(' ');
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+const matchCadence = (charges: Expense[]): CadenceRule | null => {
+  const gaps = charges
+    .slice(1)
+    .map((charge, index) =>
+      differenceInCalendarDays(new Date(charge.date), new Date(charges[index].date))
+    );
+  if (gaps.length === 0) return null;
+
+  const typical = median(gaps);
+  const rule = cadenceRules.find(
+    ({ minDays, maxDays }) => typical >= minDays && typical <= maxDays
+  );
+  if (!rule || charges.length < rule.minCharges) return null;
+
+  const regular = gaps.filter(gap => gap >= rule.minDays && gap <= rule.maxDays).length;
+  return regular / gaps.length >= MIN_REGULAR_SHARE ? rule : null;
+};
+
+// Prices may change over time, but only in steps; wildly different amounts are separate purchases
+const hasSteadyPrice = (charges: Expense[]): boolean =>
+  charges
+    .slice(1)
+    .every(
+      (charge, index) =>
+        Math.abs(charge.amount.minor - charges[index].amount.minor) <=
+        charges[index].amount.minor * MAX_PRICE_STEP
+    );
+
+const findPriceChanges = (charges: Expense[]): PriceChange[] =>
+  charges.slice(1).flatMap((charge, index) => {
+    const previous = charges[index];
+    return charge.amount.minor === previous.amount.minor
+      ? []
+      : [{ date: charge.date, from: previous.amount, to: charge.amount }];
+  });
+
+// Look for charges with the same merchant, at regular intervals and with similar amounts.
+// Subscriptions still running come first, most recently charged first.
+export const detectSubscriptions = (
+  expenses: Expense[],
+  today: string = format(new Date(), 'yyyy-MM-dd')
+): DetectedSubscription[] => {
+  const groups = new Map<string, Expense[]>();
+  // Regular income, such as a salary, is not a subscription
+  expenses.filter(expense => transactionType(expense) === 'expense').forEach(expense => {
+    // Descriptions with no letters or digits at all say nothing about the merchant
+    const merchant = merchantKey(expense.description);
+    if (!merchant) return;
+
+    const key = `${merchant}|${expense.amount.currency}`;
+    const group = groups.get(key);
+    if (group) {
+      group.push(expense);
+    } else {
+      groups.set(key, [expense]);
+    }
+  });
+
+  const detected: DetectedSubscription[] = [];
+  groups.forEach((group, key) => {
+    const charges = [...group].sort((a, b) => a.date.localeCompare(b.date));
+    const rule = matchCadence(charges);
+    if (!rule || !hasSteadyPrice(charges)) return;
+
+    const last = charges[charges.length - 1];
+    detected.push({
+      key,
+      description: last.description,
+      categoryId: last.categoryId,
+      cadence: rule.cadence,
+      charges,
+      latest: last.amount,
+      annualCost: { minor: last.amount.minor * rule.perYear, currency: last.amount.currency },
+      priceChanges: findPriceChanges(charges),
+      lastDate: last.date,
+      active: differenceInCalendarDays(new Date(today), new Date(last.date)) <= rule.maxDays * 1.5,
+    });
+  });
+
+  return detected.sort(
+    (a, b) => Number(b.active) - Number(a.active) || b.lastDate.localeCompare(a.lastDate)
+  );
+};
@@ -0,0 +1,56 @@
+import { Expense, TagMatch } from '@/types/expense';
+
+export const MAX_TAG_LENGTH = 30;
+export const MAX_TAGS_PER_EXPENSE = 10;
+
+// Tags compare case-insensitively, so "Holiday 2026" and "#holiday-2026" are the same tag
+export const normaliseTag = (value: string): string =>
+  value
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-')
+    .slice(0, MAX_TAG_LENGTH);
+
+// Add a tag unless it is blank or already present
+export const addTag = (tags: string[], value: string): string[] => {
+  const tag = normaliseTag(value);
+  return tag && !tags.includes(tag) ? [...tags, tag] : tags;
+};
+
+// Every tag in use, most used first, then alphabetically
+export const collectTags = (expenses: Expense[]): string[] => {
+  const counts = new Map<string, number>();
+  expenses.forEach(expense => {
+    (expense.tags ?? []).forEach(tag => counts.set(tag, (counts.get(tag) ?? 0) + 1));
+  });
+
+  return Array.from(counts.keys()).sort(
+    (a, b) => (counts.get(b) as number) - (counts.get(a) as number) || a.localeCompare(b)
+  );
+};
+
+// Known tags for an autocomplete, those starting with the query before those containing it
+export const suggestTags = (
+  query: string,
+  knownTags: string[],
+  selected: string[],
+  limit = 8
+): string[] => {
+  const needle = normaliseTag(query);
+  const available = knownTags.filter(tag => !selected.includes(tag));
+  if (!needle) return available.slice(0, limit);
+
+  const prefixed = available.filter(tag => tag.startsWith(needle));
+  const containing = available.filter(tag => !tag.startsWith(needle) && tag.includes(needle));
+  return [...prefixed, ...containing].slice(0, limit);
+};
+
+export const matchesTags = (expense: Expense, tags: string[], match: TagMatch): boolean => {
+  if (tags.length === 0) return true;
+
+  const expenseTags = expense.tags ?? [];
+  return match === 'all'
+    ? tags.every(tag => expenseTags.includes(tag))
+    : tags.some(tag => expenseTags.includes(tag));
+};
@@ -0,0 +1,7 @@
+// Anything but a letter or digit in any script, so "Müller", "Café" and "寿司" keep their letters.
+// Built from a string because the compiler target predates the `u` flag in regex literals.
+const NON_WORD = new RegExp('[^\\p{L}\\p{N}]+', 'gu');
+
+// Lower-case words separated by single spaces, with punctuation and symbols dropped
+export const normaliseText = (value: string): string =>
+  value.toLowerCase().replace(NON_WORD, ' ').trim();
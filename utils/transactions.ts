@@ -0,0 +1,32 @@
+import { CategoryKind, TransactionType } from '@/types/expense';
+
+export const TRANSACTION_TYPES: TransactionType[] = ['expense', 'income', 'refund'];
+
+export const TRANSACTION_ICONS: Record<TransactionType, string> = {
+  expense: '💸',
+  income: '💰',
+  refund: '↩️',
+};
+
+export const isTransactionType = (value: unknown): value is TransactionType =>
+  TRANSACTION_TYPES.includes(value as TransactionType);
+
+// Records from before income and refunds were tracked have no type and are all expenses
+export const transactionType = (record: { type?: TransactionType }): TransactionType =>
+  record.type ?? 'expense';
+
+// Income has categories of its own; refunds go back to the spending category they came from
+export const categoryKindFor = (type: TransactionType): CategoryKind =>
+  type === 'income' ? 'income' : 'expense';
+
+// An amount as money going out: positive for expenses, negative for income and refunds
+export const outflow = (record: { type?: TransactionType }, amount: number): number =>
+  transactionType(record) === 'expense' ? amount : -amount;
+
+// What an amount adds to spending: a refund takes its amount off, income is not spending at all
+export const spendingAmount = (record: { type?: TransactionType }, amount: number): number =>
+  transactionType(record) === 'income' ? 0 : outflow(record, amount);
+
+// Shown before amounts in lists so money coming in stands out from money going out
+export const amountSign = (record: { type?: TransactionType }): string =>
+  transactionType(record) === 'expense' ? '' : '+';
@@ -1,53 +1,216 @@
-import { ExpenseFormData } from '@/types/expense';
+import { Expense, ExpenseFormData, RecurrenceFormData } from '@/types/expense';
+import { Translator, createTranslator } from '@/lib/i18n';
+import { MAX_TAGS_PER_EXPENSE } from './tags';
+import { currencyDecimals, decimalPlaces, fromMinorUnits, parseMoney } from './currency';
+import { isWholePercentage, sumTypedAmounts, sumTypedPercentages } from './splits';
 
 export interface ValidationErrors {
+  type?: string;
   date?: string;
   amount?: string;
-  category?: string;
+  currency?: string;
+  categoryId?: string;
   description?: string;
+  tags?: string;
+  lineItems?: string;
+  split?: string;
+  paidBy?: string;
 }
 
-export const validateExpenseForm = (formData: ExpenseFormData): ValidationErrors => {
+export interface RecurrenceErrors {
+  dayOfMonth?: string;
+  endDate?: string;
+  occurrenceLimit?: string;
+}
+
+const MAX_DESCRIPTION_LENGTH = 200;
+
+export const MAX_OCCURRENCE_LIMIT = 1000;
+
+// A typed amount in whole minor units of the currency, e.g. no "1.005" for GBP
+const isValidAmount = (value: string, currency: string, allowZero = false): boolean => {
+  const amount = parseMoney(value, currency);
+  return (
+    !!amount &&
+    (allowZero ? amount.minor >= 0 : amount.minor > 0) &&
+    decimalPlaces(value) <= currencyDecimals(currency)
+  );
+};
+
+const isWholeNumberBetween = (value: string, min: number, max: number): boolean =>
+  /^\d+$/.test(value.trim()) && Number(value) >= min && Number(value) <= max;
+
+// Messages are in English unless a translator for the interface language is given
+export const validateExpenseForm = (
+  formData: ExpenseFormData,
+  t: Translator = createTranslator('en')
+): ValidationErrors => {
   const errors: ValidationErrors = {};
 
   // Validate date
   if (!formData.date) {
-    errors.date = 'Date is required';
+    errors.date = t('validation.dateRequired');
   } else {
     const date = new Date(formData.date);
     const now = new Date();
     if (date > now) {
-      errors.date = 'Date cannot be in the future';
+      errors.date = t('validation.dateInFuture');
     }
   }
 
   // Validate amount
   if (!formData.amount) {
-    errors.amount = 'Amount is required';
+    errors.amount = t('validation.amountRequired');
   } else {
-    const amount = parseFloat(formData.amount);
-    if (isNaN(amount) || amount <= 0) {
-      errors.amount = 'Amount must be a positive number';
-    } else if (amount > 1000000) {
-      errors.amount = 'Amount seems unreasonably large';
+    const amount = parseMoney(formData.amount, formData.currency);
+    const decimals = currencyDecimals(formData.currency);
+    if (amount && amount.minor < 0) {
+      // The transaction type says which way the money went, so amounts never carry a sign
+      errors.amount = t('validation.amountSign');
+    } else if (!amount || amount.minor === 0) {
+      errors.amount = t('validation.amountPositive');
+    } else if (decimalPlaces(formData.amount) > decimals) {
+      // Stored amounts are whole minor units, so anything finer would be silently rounded
+      errors.amount =
+        decimals === 0
+          ? t('validation.amountNoDecimals', { currency: formData.currency })
+          : t('validation.amountDecimals', { currency: formData.currency, count: decimals });
+    } else if (fromMinorUnits(amount.minor, amount.currency) > 1000000) {
+      errors.amount = t('validation.amountTooLarge');
     }
   }
 
+  // Validate currency
+  if (!/^[A-Z]{3}$/.test(formData.currency)) {
+    errors.currency = t('validation.currencyUnknown', { currency: formData.currency });
+  }
+
   // Validate category
-  if (!formData.category) {
-    errors.category = 'Category is required';
+  if (!formData.categoryId) {
+    errors.categoryId = t('validation.categoryRequired');
   }
 
   // Validate description
   if (!formData.description.trim()) {
-    errors.description = 'Description is required';
-  } else if (formData.description.length > 200) {
-    errors.description = 'Description must be less than 200 characters';
+    errors.description = t('validation.descriptionRequired');
+  } else if (formData.description.length > MAX_DESCRIPTION_LENGTH) {
+    errors.description = t('validation.descriptionTooLong', { max: MAX_DESCRIPTION_LENGTH });
+  }
+
+  // Validate tags
+  if (formData.tags.length > MAX_TAGS_PER_EXPENSE) {
+    errors.tags = t('validation.tooManyTags', { count: MAX_TAGS_PER_EXPENSE });
+  }
+
+  // Validate line items; together they must make up the amount
+  const items = formData.lineItems ?? [];
+  if (items.length > 0) {
+    if (items.some(item => !isValidAmount(item.amount, formData.currency))) {
+      errors.lineItems = t('validation.lineItemAmount');
+    } else if (items.some(item => !item.categoryId)) {
+      errors.lineItems = t('validation.lineItemCategory');
+    } else if (
+      !errors.amount &&
+      sumTypedAmounts(items.map(item => item.amount), formData.currency) !==
+        parseMoney(formData.amount, formData.currency)?.minor
+    ) {
+      errors.lineItems = t('validation.lineItemsTotal');
+    }
+  }
+
+  // Group expenses need to say who paid and who owes what
+  if (formData.groupId) {
+    if (!formData.paidBy) errors.paidBy = t('validation.paidByRequired');
+    if (!formData.split) errors.split = t('validation.groupSplitRequired');
+  }
+
+  // Validate the split between people
+  if (formData.split) {
+    const { method, shares } = formData.split;
+    const people = shares.map(share => share.person.trim().toLowerCase());
+    const values = shares.map(share => share.value);
+
+    if (people.length < 2) {
+      errors.split = t('validation.splitPeople');
+    } else if (people.some(person => !person)) {
+      errors.split = t('validation.splitPersonRequired');
+    } else if (new Set(people).size !== people.length) {
+      errors.split = t('validation.splitPersonDuplicate');
+    } else if (method === 'percentage') {
+      if (values.some(value => !/^\d+(\.\d{1,2})?$/.test(value.trim()))) {
+        errors.split = t('validation.splitPercentage');
+      } else if (!isWholePercentage(sumTypedPercentages(values))) {
+        errors.split = t('validation.splitPercentTotal');
+      }
+    } else if (method === 'exact') {
+      if (values.some(value => !isValidAmount(value, formData.currency, true))) {
+        errors.split = t('validation.splitAmount');
+      } else if (
+        !errors.amount &&
+        sumTypedAmounts(values, formData.currency) !==
+          parseMoney(formData.amount, formData.currency)?.minor
+      ) {
+        errors.split = t('validation.splitExactTotal');
+      }
+    }
+  }
+
+  return errors;
+};
+
+// A refund linked to an expense is in its currency and gives back at most what is left of it,
+// `refundable` minor units once its other refunds are taken off
+export const validateRefund = (
+  formData: ExpenseFormData,
+  original: Expense,
+  refundable: number,
+  t: Translator = createTranslator('en')
+): ValidationErrors => {
+  const errors: ValidationErrors = {};
+  const amount = parseMoney(formData.amount, formData.currency);
+
+  if (formData.currency !== original.amount.currency) {
+    errors.currency = t('validation.refundCurrency', { currency: original.amount.currency });
+  } else if (amount && amount.minor > refundable) {
+    errors.amount = t('validation.refundTooLarge');
+  }
+
+  return errors;
+};
+
+// The schedule of a recurring expense whose first occurrence is on `startDate`
+export const validateRecurrenceForm = (
+  formData: RecurrenceFormData,
+  startDate: string,
+  t: Translator = createTranslator('en')
+): RecurrenceErrors => {
+  const errors: RecurrenceErrors = {};
+
+  if (
+    (formData.frequency === 'monthly' || formData.frequency === 'yearly') &&
+    !isWholeNumberBetween(formData.dayOfMonth, 1, 31)
+  ) {
+    errors.dayOfMonth = t('validation.dayOfMonth');
+  }
+
+  if (formData.ends === 'onDate') {
+    if (!formData.endDate) {
+      errors.endDate = t('validation.endDateRequired');
+    } else if (formData.endDate < startDate) {
+      errors.endDate = t('validation.endDateBeforeStart');
+    }
+  }
+
+  if (
+    formData.ends === 'afterCount' &&
+    !isWholeNumberBetween(formData.occurrenceLimit, 1, MAX_OCCURRENCE_LIMIT)
+  ) {
+    errors.occurrenceLimit = t('validation.occurrenceLimit', { max: MAX_OCCURRENCE_LIMIT });
   }
 
   return errors;
 };
 
-export const hasErrors = (errors: ValidationErrors): boolean => {
+export const hasErrors = (errors: ValidationErrors | RecurrenceErrors): boolean => {
   return Object.keys(errors).length > 0;
 };